@@ -1,13 +1,37 @@
 
-import React, { useState, useCallback, useEffect, useMemo } from 'react';
-import PromptForm from './components/PromptForm';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import PromptForm, { composePrompt } from './components/PromptForm';
 import ImageDisplay from './components/ImageDisplay';
 import Editor from './components/Editor';
-import { generatePixelArtImage, generatePixelArtAnimation, generateSpriteSheet, generateImageFromImage, generateSpriteSheetFromImage } from './services/geminiService';
-import { SparklesIcon, HistoryIcon, TrashIcon, PanelLeftCloseIcon, PanelRightCloseIcon, SettingsIcon } from './components/icons';
-import type { StylePreset, GenerationMode } from './components/PromptForm';
+import { generatePixelArtImage, generatePixelArtAnimation, generateSpriteSheet, generateImageFromImage, generateSpriteSheetFromImage } from './services/providers';
+import { SparklesIcon, PanelLeftCloseIcon, PanelRightCloseIcon, SettingsIcon } from './components/icons';
+import type { StylePreset, GenerationMode, LoadedSettings } from './components/PromptForm';
 import type { EditorState } from './components/Editor';
 import SettingsModal from './components/SettingsModal';
+import AssetLibrary from './components/AssetLibrary';
+import { sliceSpriteSheet, SliceAlignment } from './utils/sheetSlicer';
+import { snapToPixelGrid, PixelSnapOptions } from './utils/pixelSnap';
+import { importVideoFrames, VideoImportOptions } from './utils/videoFrames';
+import { createRng, pick, MAX_SEED } from './utils/random';
+import { createJobQueue, createRateLimiter, loadJobConcurrency, saveJobConcurrency, isJobActive, Job } from './services/jobQueue';
+import JobQueuePanel from './components/JobQueuePanel';
+import BatchGenerator, { BatchRun, BatchSettings } from './components/BatchGenerator';
+import type { BatchRow } from './utils/batch';
+import { downloadBlob, sanitizeFilename } from './utils/files';
+import {
+  saveAsset, loadAssets, clearAssets, deleteAssets, updateAssetMeta, getStorageUsage, evictAssets, migrateLegacyHistory,
+  loadEvictionPolicy, saveEvictionPolicy, EvictionPolicy, StorageUsage,
+  loadCollections, saveCollection, deleteCollection, exportAssetsZip,
+  loadStylePresets, saveStylePresets, deleteStylePreset, loadPalettes, savePalettes, deletePalette,
+} from './services/assetStore';
+import { BUILT_IN_STYLE_PRESETS, DEFAULT_STYLE_PRESET_ID, applyStyleConstraints, findStylePreset, mergeStylePresets, StylePresetDefinition } from './services/stylePresets';
+import StylePresetManager from './components/StylePresetManager';
+import { loadPaletteLock, savePaletteLock, resolvePaletteLock, applyPaletteLock, PaletteLockSettings, ResolvedPaletteLock } from './services/paletteLock';
+import type { PaletteMatchOptions } from './utils/paletteMatch';
+import PaletteLockPanel from './components/PaletteLockPanel';
+import { BUILT_IN_PALETTES, findPalette, loadEditorPalette, saveEditorPalette, EditorPalette, PaletteDefinition } from './services/palettes';
+import PaletteManager from './components/PaletteManager';
+import PaletteLockReview, { PaletteReview, ReviewDecision } from './components/PaletteLockReview';
 
 
 // UTILS - Inlined for simplicity
@@ -16,10 +40,17 @@ const descriptors = ['heroic', 'ancient', 'glowing', 'steampunk', 'tiny', 'giant
 const items = ['sword', 'staff', 'potion', 'jetpack', 'laser gun', 'shield', 'gem', 'key', 'book', 'helmet', 'grappling hook', 'artifact'];
 const animations = ['walking cycle', 'attack animation', 'idle animation', 'jumping', 'casting a spell', 'powering up', 'disappearing', 'exploding', 'dancing', 'running loop'];
 
-const getRandomElement = (arr: string[]) => arr[Math.floor(Math.random() * arr.length)];
+// Pass a seed to get the same prompt back every time.
+const rngFor = (seed?: number) => seed === undefined ? Math.random : createRng(seed);
 
-export const generateRandomPrompt = () => `${getRandomElement(descriptors)} ${getRandomElement(subjects)} with a ${getRandomElement(items)}`;
-export const generateRandomAnimationPrompt = () => getRandomElement(animations);
+export const generateRandomPrompt = (seed?: number) => {
+  const rng = rngFor(seed);
+  return `${pick(descriptors, rng)} ${pick(subjects, rng)} with a ${pick(items, rng)}`;
+};
+export const generateRandomAnimationPrompt = (seed?: number) => pick(animations, rngFor(seed));
+
+// Generate stays enabled while jobs run; this only stops runaway queueing.
+const MAX_PENDING_JOBS = 100;
 
 // TYPES
 export interface GeneratedAsset {
@@ -33,12 +64,29 @@ export interface HistoryItem {
   id: string;
   asset: GeneratedAsset;
   timestamp: number;
+  tags?: string[];
+  favorite?: boolean;
+  collectionIds?: string[];
+  parentId?: string; // HistoryItem this one was regenerated, remixed or derived from
+}
+
+type HistoryFields = Pick<HistoryItem, 'parentId' | 'tags' | 'collectionIds'>;
+
+// A palette-locked result waiting for review, with where it goes in the history once kept.
+interface PendingReview extends PaletteReview {
+  fields: HistoryFields;
+}
+
+export interface AssetCollection {
+  id: string;
+  name: string;
+  createdAt: number;
 }
 
 const AppTabs: React.FC<{ activeTab: string; onTabChange: (tab: string) => void }> = ({ activeTab, onTabChange }) => {
-  const tabs = ['Generate', 'Sprite Sheet', 'Editor'];
+  const tabs = ['Generate', 'Sprite Sheet', 'Batch', 'Editor'];
   return (
-    <div className="grid grid-cols-3 gap-2">
+    <div className="grid grid-cols-4 gap-2">
       {tabs.map(tab => (
         <button
           key={tab}
@@ -67,9 +115,14 @@ function App() {
   const [activeHistoryItem, setActiveHistoryItem] = useState<HistoryItem | null>(null);
   const [history, setHistory] = useState<HistoryItem[]>([]);
 
-  const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [loadingMessage, setLoadingMessage] = useState('Conjuring pixels...');
+
+  const jobQueue = useMemo(() => createJobQueue(loadJobConcurrency()), []);
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [jobConcurrency, setJobConcurrency] = useState(loadJobConcurrency);
+  useEffect(() => jobQueue.subscribe(setJobs), [jobQueue]);
+  const runningJob = jobs.find(job => job.status === 'running');
+  const isQueueFull = jobs.filter(isJobActive).length >= MAX_PENDING_JOBS;
 
   const [activeTab, setActiveTab] = useState('Generate');
   const [editorState, setEditorState] = useState<EditorState | null>(null);
@@ -79,46 +132,100 @@ function App() {
 
   const displayedAsset = useMemo(() => activeHistoryItem?.asset, [activeHistoryItem]);
 
-  // Load state from localStorage
-  useEffect(() => {
-    try {
-      const savedHistory = localStorage.getItem('pixelArtHistoryV2');
-      if (savedHistory) {
-        const parsedHistory: HistoryItem[] = JSON.parse(savedHistory);
-        setHistory(parsedHistory);
-        if (parsedHistory.length > 0) setActiveHistoryItem(parsedHistory[0]);
-      }
-    } catch (e) { console.error("Failed to load history", e); }
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [evictionPolicy, setEvictionPolicy] = useState<EvictionPolicy>(loadEvictionPolicy);
+  const [collections, setCollections] = useState<AssetCollection[]>([]);
+  const [loadedSettings, setLoadedSettings] = useState<LoadedSettings | null>(null);
+  const [remixParent, setRemixParent] = useState<HistoryItem | null>(null);
+  const [batches, setBatches] = useState<BatchRun[]>([]);
+  const [customStylePresets, setCustomStylePresets] = useState<StylePresetDefinition[]>([]);
+  const [isStyleManagerOpen, setIsStyleManagerOpen] = useState(false);
+  const stylePresets = useMemo(() => [...BUILT_IN_STYLE_PRESETS, ...customStylePresets], [customStylePresets]);
+  const [editorPalette, setEditorPalette] = useState<EditorPalette>(loadEditorPalette);
+  const [customPalettes, setCustomPalettes] = useState<PaletteDefinition[]>([]);
+  const [isPaletteManagerOpen, setIsPaletteManagerOpen] = useState(false);
+  const palettes = useMemo(() => [...BUILT_IN_PALETTES, ...customPalettes], [customPalettes]);
+  const [paletteLock, setPaletteLock] = useState<PaletteLockSettings>(loadPaletteLock);
+  const [pendingReviews, setPendingReviews] = useState<PendingReview[]>([]);
+  const [videoImportProgress, setVideoImportProgress] = useState<string | null>(null);
+
+  const refreshStorageUsage = useCallback(() => {
+    getStorageUsage().then(setStorageUsage).catch(e => console.error("Failed to read storage usage", e));
   }, []);
 
-  // Save state to localStorage
+  // Load history from IndexedDB, moving over anything an older version left in localStorage
   useEffect(() => {
-    try {
-      if (history.length > 0) {
-        localStorage.setItem('pixelArtHistoryV2', JSON.stringify(history));
-      } else {
-        localStorage.removeItem('pixelArtHistoryV2');
-      }
-    } catch (e) { console.error("Failed to save history", e); }
-  }, [history]);
-
-  // Memory cleanup
+    (async () => {
+      try {
+        const { dropped } = await migrateLegacyHistory();
+        if (dropped > 0) setError(`${dropped} item(s) from your old history could not be migrated (expired animation links are not recoverable).`);
+        const savedHistory = await loadAssets();
+        setHistory(savedHistory);
+        if (savedHistory.length > 0) setActiveHistoryItem(savedHistory[0]);
+        setCollections(await loadCollections());
+        setCustomStylePresets(await loadStylePresets());
+        setCustomPalettes(await loadPalettes());
+      } catch (e) { console.error("Failed to load history", e); }
+      refreshStorageUsage();
+    })();
+  }, [refreshStorageUsage]);
+
+  // Memory cleanup: object URLs are only released when the app goes away
+  const historyRef = useRef(history);
+  historyRef.current = history;
   useEffect(() => {
     return () => {
-      history.forEach(item => {
+      historyRef.current.forEach(item => {
         if (item.asset.url.startsWith('blob:')) {
           URL.revokeObjectURL(item.asset.url);
         }
       });
     };
-  }, [history]);
+  }, []);
+
+  const removeFromHistory = (ids: string[]) => {
+    const removed = new Set(ids);
+    setHistory(prev => {
+      prev.forEach(item => { if (removed.has(item.id) && item.asset.url.startsWith('blob:')) URL.revokeObjectURL(item.asset.url) });
+      return prev.filter(item => !removed.has(item.id));
+    });
+    setActiveHistoryItem(prev => prev && removed.has(prev.id) ? null : prev);
+    setRemixParent(prev => prev && removed.has(prev.id) ? null : prev);
+  };
 
-  const addHistoryItems = (assets: GeneratedAsset[]) => {
-    const newItems: HistoryItem[] = assets.map(asset => ({ id: crypto.randomUUID(), asset, timestamp: Date.now() }));
+  const persistHistoryItems = (items: HistoryItem[]) => {
+    Promise.all(items.map(saveAsset))
+      .then(() => evictAssets(loadEvictionPolicy()))
+      .then(evicted => { if (evicted.length > 0) removeFromHistory(evicted); })
+      .catch(e => {
+        setError(`Failed to save to history. ${e instanceof Error ? e.message : ''}`);
+        console.error("Failed to save history", e);
+      })
+      .finally(refreshStorageUsage);
+  };
+
+  const addHistoryItems = (assets: GeneratedAsset[], fields: HistoryFields = {}) => {
+    const newItems: HistoryItem[] = assets.map(asset => ({ id: crypto.randomUUID(), asset, timestamp: Date.now(), ...fields }));
     setHistory(prev => [...newItems, ...prev]);
     if (newItems.length > 0) {
       setActiveHistoryItem(newItems[0]);
     }
+    persistHistoryItems(newItems);
+  };
+
+  const handleEvictionPolicyChange = (policy: EvictionPolicy) => {
+    setEvictionPolicy(policy);
+    saveEvictionPolicy(policy);
+    evictAssets(policy)
+      .then(evicted => { if (evicted.length > 0) removeFromHistory(evicted); })
+      .catch(e => console.error("Failed to apply eviction policy", e))
+      .finally(refreshStorageUsage);
+  };
+
+  const handleJobConcurrencyChange = (concurrency: number) => {
+    setJobConcurrency(concurrency);
+    saveJobConcurrency(concurrency);
+    jobQueue.setConcurrency(concurrency);
   };
 
   const handleTabChange = (tab: string) => {
@@ -152,77 +259,316 @@ function App() {
     setActiveTab(tab);
   };
 
-  const handleGenerate = useCallback(async (mode: GenerationMode, generationData: any) => {
-    if (isLoading) return;
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      const { baseImage, ...restData } = generationData;
+  // Each generation becomes a queued job; results land in history, failures stay on the job.
+  // `waitForSlot` lets batches hold a job back until their rate limiter allows it to call the API.
+  // The style preset is resolved now, so edits to it don't change jobs already queued.
+  const enqueueGeneration = (
+    mode: GenerationMode, generationData: any, fields: HistoryFields = {}, waitForSlot?: (signal: AbortSignal) => Promise<void>
+  ): string => {
+    const { baseImage, ...restData } = generationData;
+    const { prompt, basePrompt, negativePrompt, stylePreset, temperature, seed } = restData;
+    const style = findStylePreset(stylePresets, stylePreset ?? DEFAULT_STYLE_PRESET_ID);
+    if (!style) throw new Error(`The style preset "${restData.styleName ?? stylePreset}" no longer exists. Pick another style.`);
+    const promptData = { ...restData, stylePreset: style.id, styleName: style.name };
+    // With a palette lock the prompt asks for its colors, and the lock replaces the style's own palette snap.
+    // Animations come back as video and can't be locked.
+    const isAnimation = mode === 'single' && restData.generationType === 'animation';
+    const lock = isAnimation ? null : resolvePaletteLock(paletteLock, editorPalette.colors, palettes, style);
+    const promptStyle = lock ? { ...style, palette: lock.palette } : style;
+    const constraintStyle = lock ? { ...style, palette: undefined } : style;
+    const label = `${mode === 'spritesheet' ? 'Sheet' : restData.generationType === 'animation' ? 'Animation' : 'Image'}: ${basePrompt || prompt}`;
+
+    return jobQueue.enqueue(label, async ({ signal, setProgress }) => {
+      if (waitForSlot) {
+        setProgress('Waiting for rate limit...');
+        await waitForSlot(signal);
+      }
+      const options = { signal, onProgress: setProgress };
+      // Palette-locked results wait for review before they reach the history.
+      const addResults = (assets: GeneratedAsset[]) => {
+        if (signal.aborted) return;
+        if (lock) queueReviews(assets, lock, fields);
+        else addHistoryItems(assets, fields);
+      };
+      // Snaps images to the preset's resolution and palette, when it sets them.
+      const constrain = (urls: string[], cells?: { w: number; h: number }) => {
+        if (constraintStyle.resolution || constraintStyle.palette?.length) setProgress('Applying style constraints...');
+        return Promise.all(urls.map(url => applyStyleConstraints(url, constraintStyle, cells)));
+      };
 
       if (mode === 'single') {
-        const { prompt, negativePrompt, stylePreset, generationType, animationPrompt, numImages, temperature } = restData;
+        const { generationType, animationPrompt, numImages } = restData;
         if (baseImage) {
           if (generationType === 'image') {
-            setLoadingMessage('Altering image with AI...');
-            const fullPrompt = `${prompt}. Style: ${stylePreset}. ${negativePrompt ? `Avoid: ${negativePrompt}` : ''}`;
-            const url = await generateImageFromImage(baseImage, fullPrompt, temperature);
-            addHistoryItems([{ id: crypto.randomUUID(), url, type: 'image', promptData: restData }]);
+            setProgress('Altering image with AI...');
+            const fullPrompt = `${prompt}. Style: ${style.prompt} ${negativePrompt ? `Avoid: ${negativePrompt}` : ''}`;
+            const [url] = await constrain([await generateImageFromImage(baseImage, fullPrompt, temperature, seed, options)]);
+            addResults([{ id: crypto.randomUUID(), url, type: 'image', promptData }]);
           } else { // animation
-            setLoadingMessage('Animating from image... this can take a minute.');
-            const url = await generatePixelArtAnimation(prompt, animationPrompt, negativePrompt, stylePreset, baseImage);
-            addHistoryItems([{ id: crypto.randomUUID(), url, type: 'animation', promptData: restData }]);
+            setProgress('Animating from image... this can take a minute.');
+            const url = await generatePixelArtAnimation(prompt, animationPrompt, negativePrompt, promptStyle, baseImage, seed, options);
+            addResults([{ id: crypto.randomUUID(), url, type: 'animation', promptData }]);
           }
         } else {
           if (generationType === 'image') {
-            setLoadingMessage(numImages > 1 ? 'Generating sprite variations...' : 'Generating sprite...');
-            const urls = await generatePixelArtImage(prompt, negativePrompt, stylePreset, numImages);
+            setProgress(numImages > 1 ? 'Generating sprite variations...' : 'Generating sprite...');
+            const urls = await constrain(await generatePixelArtImage(prompt, negativePrompt, promptStyle, numImages, seed, options));
             const newAssets: GeneratedAsset[] = urls.map(url => ({
               id: crypto.randomUUID(),
               url,
               type: 'image',
-              promptData: restData
+              promptData
             }));
-            addHistoryItems(newAssets);
+            addResults(newAssets);
           } else { // animation
-            setLoadingMessage('Animating sprite... this can take a minute.');
-            const url = await generatePixelArtAnimation(prompt, animationPrompt, negativePrompt, stylePreset);
-            addHistoryItems([{ id: crypto.randomUUID(), url, type: 'animation', promptData: restData }]);
+            setProgress('Animating sprite... this can take a minute.');
+            const url = await generatePixelArtAnimation(prompt, animationPrompt, negativePrompt, promptStyle, undefined, seed, options);
+            addResults([{ id: crypto.randomUUID(), url, type: 'animation', promptData }]);
           }
         }
       } else if (mode === 'spritesheet') {
-        const { prompt, negativePrompt, stylePreset, actions, dimensions, temperature } = restData;
+        const { actions, dimensions } = restData;
         if (baseImage) {
-          setLoadingMessage('Building sprite sheet from image...');
-          const url = await generateSpriteSheetFromImage(baseImage, prompt, negativePrompt, stylePreset, actions, dimensions, temperature);
-          addHistoryItems([{ id: crypto.randomUUID(), url, type: 'spritesheet', promptData: restData }]);
+          setProgress('Building sprite sheet from image...');
+          const [url] = await constrain([await generateSpriteSheetFromImage(baseImage, prompt, negativePrompt, promptStyle, actions, dimensions, temperature, seed, options)], dimensions);
+          addResults([{ id: crypto.randomUUID(), url, type: 'spritesheet', promptData }]);
         } else {
-          setLoadingMessage('Constructing sprite sheet...');
-          const url = await generateSpriteSheet(prompt, negativePrompt, stylePreset, actions, dimensions);
-          addHistoryItems([{ id: crypto.randomUUID(), url, type: 'spritesheet', promptData: restData }]);
+          setProgress('Constructing sprite sheet...');
+          const [url] = await constrain([await generateSpriteSheet(prompt, negativePrompt, promptStyle, actions, dimensions, seed, options)], dimensions);
+          addResults([{ id: crypto.randomUUID(), url, type: 'spritesheet', promptData }]);
         }
       }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-      setError(`Failed to generate asset. ${errorMessage}`);
-      console.error(err);
-    } finally {
-      setIsLoading(false);
+    });
+  };
+
+  const handleGenerate = (mode: GenerationMode, generationData: any, parentId: string | undefined = remixParent?.id) => {
+    setError(null);
+    try {
+      enqueueGeneration(mode, generationData, { parentId });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not start the generation.');
+      console.error("Failed to enqueue generation", e);
+      return;
     }
-  }, [isLoading]);
+    if (parentId && parentId === remixParent?.id) setRemixParent(null);
+  };
+
+  const handlePaletteLockChange = (settings: PaletteLockSettings) => {
+    setPaletteLock(settings);
+    savePaletteLock(settings);
+  };
+
+  const queueReviews = (assets: GeneratedAsset[], lock: ResolvedPaletteLock, fields: HistoryFields, fromHistory = false) => {
+    setPendingReviews(prev => [...prev, ...assets.map(asset => ({ id: crypto.randomUUID(), asset, lock, fields, fromHistory }))]);
+  };
+
+  const lockedAsset = (review: PaletteReview, url: string, options: PaletteMatchOptions): GeneratedAsset => ({
+    id: crypto.randomUUID(),
+    url,
+    type: review.asset.type,
+    promptData: {
+      ...review.asset.promptData,
+      ...(review.fromHistory ? { sourceAssetId: review.asset.id } : {}),
+      paletteLock: { name: review.lock.name, palette: review.lock.palette, ...options },
+    },
+  });
+
+  const keepReview = (review: PendingReview, decision: ReviewDecision, lockedUrl: string | null, options: PaletteMatchOptions) => {
+    if (decision === 'discard') return;
+    if (decision === 'original') return addHistoryItems([review.asset], review.fields);
+    if (!lockedUrl) return;
+    const locked = lockedAsset(review, lockedUrl, options);
+    if (review.fromHistory) addDerivedAsset(review.asset, locked);
+    else addHistoryItems(decision === 'both' ? [locked, review.asset] : [locked], review.fields);
+  };
+
+  const handleReviewDecision = (decision: ReviewDecision, lockedUrl: string | null, options: PaletteMatchOptions) => {
+    const [review] = pendingReviews;
+    if (!review) return;
+    setPendingReviews(prev => prev.filter(r => r.id !== review.id));
+    keepReview(review, decision, lockedUrl, options);
+  };
+
+  const handleLockAllReviews = async (options: PaletteMatchOptions) => {
+    const reviews = pendingReviews;
+    setPendingReviews([]);
+    for (const review of reviews) {
+      try {
+        keepReview(review, 'locked', await applyPaletteLock(review.asset.url, review.lock.palette, options), options);
+      } catch (e) {
+        setError(`Failed to lock a result to the palette. ${e instanceof Error ? e.message : ''}`);
+        console.error("Failed to apply palette lock", e);
+      }
+    }
+  };
+
+  // Opens the review for an asset already in the history; keeping it stores a locked copy next to it.
+  const handleLockPalette = (asset: GeneratedAsset) => {
+    setError(null);
+    try {
+      const style = findStylePreset(stylePresets, asset.promptData?.stylePreset) ?? { name: asset.promptData?.styleName ?? 'Unknown style' };
+      const lock = resolvePaletteLock({ ...paletteLock, enabled: true }, editorPalette.colors, palettes, style);
+      if (lock) queueReviews([asset], lock, {}, true);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not lock the palette.');
+      console.error("Failed to lock palette", e);
+    }
+  };
+
+  // One image job per row, rate limited, all collected into a new library collection.
+  const handleBatchGenerate = (rows: BatchRow[], settings: BatchSettings) => {
+    setError(null);
+    const collection = handleCreateCollection(settings.name);
+    const waitForSlot = createRateLimiter(settings.requestsPerMinute);
+    const jobIds: string[] = [];
+    const failures: string[] = [];
+    rows.forEach((row, i) => {
+      const genre = row.genre ?? settings.genre;
+      const color = row.color ?? settings.color;
+      try {
+        jobIds.push(enqueueGeneration('single', {
+          prompt: composePrompt(row.prompt, genre, color), basePrompt: row.prompt, genre, color,
+          negativePrompt: row.negativePrompt ?? settings.negativePrompt,
+          stylePreset: row.stylePreset ?? settings.stylePreset,
+          generationType: 'image', numImages: 1,
+          seed: settings.seed !== undefined ? (settings.seed + i) % (MAX_SEED + 1) : undefined,
+          batch: { name: settings.name, row: i + 1 },
+        }, { collectionIds: [collection.id], tags: ['batch'] }, waitForSlot));
+      } catch (e) {
+        failures.push(`Row ${i + 1}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    });
+    if (failures.length > 0) {
+      setError(`${failures.length} of ${rows.length} rows were not queued. ${failures[0]}`);
+      console.error("Failed to queue batch rows", failures);
+    }
+    setBatches(prev => [{ collectionId: collection.id, name: collection.name, jobIds }, ...prev]);
+  };
+
+  const collectionSizes = useMemo(() => {
+    const sizes: Record<string, number> = {};
+    history.forEach(item => item.collectionIds?.forEach(id => { sizes[id] = (sizes[id] ?? 0) + 1; }));
+    return sizes;
+  }, [history]);
+
+  const handleExportBatch = (batch: BatchRun) => {
+    const items = history
+      .filter(item => item.collectionIds?.includes(batch.collectionId))
+      .sort((a, b) => (a.asset.promptData?.batch?.row ?? 0) - (b.asset.promptData?.batch?.row ?? 0));
+    exportAssetsZip(items)
+      .then(zip => downloadBlob(zip, `${sanitizeFilename(batch.name)}.zip`))
+      .catch(e => {
+        setError(`Failed to export batch. ${e instanceof Error ? e.message : ''}`);
+        console.error("Failed to export batch", e);
+      });
+  };
 
 
   const handleSelectHistoryItem = (item: HistoryItem) => {
     setActiveHistoryItem(item);
   };
 
+  // Generation settings of an asset, without what later steps (pixel snap, palette lock) added to its promptData.
+  const settingsOf = (asset: GeneratedAsset) => {
+    const { sourceAssetId, pixelSnap, paletteLock, batch, ...settings } = asset.promptData ?? {};
+    const mode: GenerationMode = asset.type === 'spritesheet' ? 'spritesheet' : 'single';
+    return { mode, settings: mode === 'single' ? { ...settings, generationType: asset.type } : settings };
+  };
+
+  const findItemByAsset = (asset: GeneratedAsset) => history.find(item => item.asset.id === asset.id);
+
+  // Runs the same settings again; the result becomes a child of the item it came from.
+  const handleRegenerate = (asset: GeneratedAsset) => {
+    const { mode, settings } = settingsOf(asset);
+    handleGenerate(mode, settings, findItemByAsset(asset)?.id);
+  };
+
+  // Fills the form with an asset's settings. When remixing, the next generation is recorded as its child.
+  const handleLoadSettings = (asset: GeneratedAsset, remix: boolean) => {
+    const { mode, settings } = settingsOf(asset);
+    setLoadedSettings({ mode, data: settings, key: Date.now() });
+    setRemixParent(remix ? findItemByAsset(asset) ?? null : null);
+    setActiveTab(mode === 'spritesheet' ? 'Sprite Sheet' : 'Generate');
+    setPanels(p => ({ ...p, left: true }));
+  };
+
   const handleClearHistory = () => {
     if (!window.confirm("Are you sure? This will delete all items from your history.")) return;
     history.forEach(item => { if (item.asset.url.startsWith('blob:')) URL.revokeObjectURL(item.asset.url) });
     setHistory([]);
     setActiveHistoryItem(null);
+    clearAssets().catch(e => console.error("Failed to clear history", e)).finally(refreshStorageUsage);
   }
 
+  const handleDeleteItems = (ids: string[]) => {
+    removeFromHistory(ids);
+    deleteAssets(ids).catch(e => console.error("Failed to delete assets", e)).finally(refreshStorageUsage);
+  };
+
+  // Tags, favorites and collection membership; the asset itself never changes.
+  const handleUpdateItems = (items: HistoryItem[]) => {
+    const updated = new Map(items.map(item => [item.id, item]));
+    setHistory(prev => prev.map(item => updated.get(item.id) ?? item));
+    setActiveHistoryItem(prev => prev ? updated.get(prev.id) ?? prev : prev);
+    updateAssetMeta(items).catch(e => console.error("Failed to update assets", e));
+  };
+
+  const handleCreateCollection = (name: string): AssetCollection => {
+    const collection: AssetCollection = { id: crypto.randomUUID(), name, createdAt: Date.now() };
+    setCollections(prev => [...prev, collection]);
+    saveCollection(collection).catch(e => console.error("Failed to save collection", e));
+    return collection;
+  };
+
+  const handleDeleteCollection = (id: string) => {
+    setCollections(prev => prev.filter(c => c.id !== id));
+    const members = history.filter(item => item.collectionIds?.includes(id));
+    if (members.length > 0) handleUpdateItems(members.map(item => ({ ...item, collectionIds: item.collectionIds!.filter(c => c !== id) })));
+    deleteCollection(id).catch(e => console.error("Failed to delete collection", e));
+  };
+
+  const handleSaveStylePreset = (preset: StylePresetDefinition) => {
+    setCustomStylePresets(prev => prev.some(p => p.id === preset.id) ? prev.map(p => p.id === preset.id ? preset : p) : [...prev, preset]);
+    saveStylePresets([preset]).catch(e => console.error("Failed to save style preset", e));
+  };
+
+  const handleDeleteStylePreset = (id: string) => {
+    setCustomStylePresets(prev => prev.filter(p => p.id !== id));
+    deleteStylePreset(id).catch(e => console.error("Failed to delete style preset", e));
+  };
+
+  const handleImportStylePresets = (imported: StylePresetDefinition[]) => {
+    const merged = mergeStylePresets(customStylePresets, imported);
+    setCustomStylePresets(merged);
+    saveStylePresets(merged).catch(e => console.error("Failed to save style presets", e));
+  };
+
+  const updateEditorPalette = (palette: EditorPalette) => {
+    setEditorPalette(palette);
+    saveEditorPalette(palette);
+  };
+
+  const handleUsePaletteInEditor = (palette: PaletteDefinition) => {
+    updateEditorPalette({ paletteId: palette.id, colors: [...palette.colors] });
+  };
+
+  // Saving the palette the Editor was loaded from updates the Editor's colors too.
+  const handleSavePalette = (palette: PaletteDefinition) => {
+    setCustomPalettes(prev => prev.some(p => p.id === palette.id) ? prev.map(p => p.id === palette.id ? palette : p) : [...prev, palette]);
+    savePalettes([palette]).catch(e => console.error("Failed to save palette", e));
+    if (editorPalette.paletteId === palette.id) handleUsePaletteInEditor(palette);
+  };
+
+  const handleDeletePalette = (id: string) => {
+    setCustomPalettes(prev => prev.filter(p => p.id !== id));
+    deletePalette(id).catch(e => console.error("Failed to delete palette", e));
+  };
+
+  const handleImportPalettes = (imported: PaletteDefinition[]) => {
+    setCustomPalettes(prev => [...prev, ...imported]);
+    savePalettes(imported).catch(e => console.error("Failed to save palettes", e));
+  };
+
   const handleEditAsset = (asset: GeneratedAsset) => {
     const img = new Image();
     img.crossOrigin = "anonymous";
@@ -242,6 +588,90 @@ function App() {
     img.src = asset.url;
   }
 
+  // Splits a generated sprite sheet along the grid it was requested with, one frame per action.
+  const handleEditSpriteSheetFrames = (asset: GeneratedAsset, alignment: SliceAlignment) => {
+    const { dimensions, actions } = asset.promptData ?? {};
+    if (!dimensions) return handleEditAsset(asset);
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => {
+      try {
+        const { frames } = sliceSpriteSheet(img, dimensions.w, dimensions.h, alignment, actions);
+        setEditorState({
+          sourceImage: img,
+          frames,
+          currentFrameIndex: 0,
+          history: [],
+          historyIndex: -1
+        });
+        setActiveTab('Editor');
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Could not slice the sprite sheet.');
+        console.error(err);
+      }
+    };
+    img.onerror = () => {
+      setError("Could not load image into editor. The resource might be cross-origin or invalid.");
+    }
+    img.src = asset.url;
+  }
+
+  // Samples a generated animation into frames on one pixel grid and one palette, which becomes the editor palette.
+  const handleEditVideoFrames = async (asset: GeneratedAsset, options: VideoImportOptions) => {
+    setVideoImportProgress('Loading video...');
+    try {
+      const { frames, palette } = await importVideoFrames(asset.url, options, (done, total) => setVideoImportProgress(`Sampling ${done}/${total}...`));
+      if (palette.length > 0) updateEditorPalette({ paletteId: null, colors: palette });
+      setEditorState({
+        frames,
+        currentFrameIndex: 0,
+        history: [],
+        historyIndex: -1
+      });
+      setActiveTab('Editor');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not import the video frames.');
+      console.error(err);
+    } finally {
+      setVideoImportProgress(null);
+    }
+  };
+
+  // Stores an asset made from another one right after its source in the history, so both stay side by side.
+  const addDerivedAsset = (source: GeneratedAsset, derived: GeneratedAsset) => {
+    const item: HistoryItem = { id: crypto.randomUUID(), asset: derived, timestamp: Date.now(), parentId: findItemByAsset(source)?.id };
+    setHistory(prev => {
+      const index = prev.findIndex(h => h.asset.id === source.id);
+      return index < 0 ? [item, ...prev] : [...prev.slice(0, index + 1), item, ...prev.slice(index + 1)];
+    });
+    setActiveHistoryItem(item);
+    persistHistoryItems([item]);
+  };
+
+  const handlePixelSnap = (asset: GeneratedAsset, options: PixelSnapOptions) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => {
+      try {
+        const { canvas, pixelSize, phase } = snapToPixelGrid(img, options);
+        const snapped: GeneratedAsset = {
+          id: crypto.randomUUID(),
+          url: canvas.toDataURL('image/png'),
+          type: 'image',
+          promptData: { ...asset.promptData, sourceAssetId: asset.id, pixelSnap: { ...options, pixelSize, phase } }
+        };
+        addDerivedAsset(asset, snapped);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Pixel snapping failed.');
+        console.error(err);
+      }
+    };
+    img.onerror = () => {
+      setError("Could not load image for pixel snapping. The resource might be cross-origin or invalid.");
+    }
+    img.src = asset.url;
+  }
+
   const handleSaveEditedAsset = (dataUrl: string) => {
     addHistoryItems([{
       id: crypto.randomUUID(),
@@ -284,16 +714,40 @@ function App() {
                       <PromptForm
                         generationMode='single'
                         onSubmit={handleGenerate}
-                        isLoading={isLoading}
+                        isLoading={isQueueFull}
+                        loadedSettings={loadedSettings}
+                        remixLabel={remixParent ? remixParent.asset.promptData?.basePrompt ?? remixParent.asset.promptData?.prompt ?? '' : null}
+                        onCancelRemix={() => setRemixParent(null)}
+                        stylePresets={stylePresets}
+                        onManageStyles={() => setIsStyleManagerOpen(true)}
                       />
                     )}
                     {activeTab === 'Sprite Sheet' && (
                       <PromptForm
                         generationMode='spritesheet'
                         onSubmit={handleGenerate}
-                        isLoading={isLoading}
+                        isLoading={isQueueFull}
+                        loadedSettings={loadedSettings}
+                        remixLabel={remixParent ? remixParent.asset.promptData?.basePrompt ?? remixParent.asset.promptData?.prompt ?? '' : null}
+                        onCancelRemix={() => setRemixParent(null)}
+                        stylePresets={stylePresets}
+                        onManageStyles={() => setIsStyleManagerOpen(true)}
+                      />
+                    )}
+                    {activeTab === 'Batch' && (
+                      <BatchGenerator
+                        onSubmit={handleBatchGenerate}
+                        isLoading={isQueueFull}
+                        batches={batches}
+                        jobs={jobs}
+                        collectionSizes={collectionSizes}
+                        onExport={handleExportBatch}
+                        stylePresets={stylePresets}
                       />
                     )}
+                    {activeTab !== 'Editor' && (
+                      <PaletteLockPanel settings={paletteLock} onChange={handlePaletteLockChange} editorPalette={editorPalette.colors} palettes={palettes} />
+                    )}
                     {activeTab === 'Editor' && (
                       <div className="text-center p-4 text-slate-400 text-sm">
                         <p>Pixel Art Studio is active.</p>
@@ -301,6 +755,18 @@ function App() {
                       </div>
                     )}
                   </div>
+
+                  {jobs.length > 0 && (
+                    <JobQueuePanel
+                      jobs={jobs}
+                      concurrency={jobConcurrency}
+                      onConcurrencyChange={handleJobConcurrencyChange}
+                      onCancel={jobQueue.cancel}
+                      onRetry={jobQueue.retry}
+                      onRemove={jobQueue.remove}
+                      onClearFinished={jobQueue.clearFinished}
+                    />
+                  )}
                 </>
               )}
             </div>
@@ -313,7 +779,16 @@ function App() {
 
             {activeTab === 'Editor' ? (
               editorState ? (
-                <Editor initialState={editorState} onSave={handleSaveEditedAsset} />
+                <Editor
+                  initialState={editorState}
+                  onSave={handleSaveEditedAsset}
+                  palette={editorPalette.colors}
+                  onPaletteChange={colors => updateEditorPalette({ paletteId: null, colors })}
+                  palettes={palettes}
+                  activePaletteId={editorPalette.paletteId}
+                  onSelectPalette={id => { const palette = findPalette(palettes, id); if (palette) handleUsePaletteInEditor(palette); }}
+                  onManagePalettes={() => setIsPaletteManagerOpen(true)}
+                />
               ) : (
                 <div className="w-full h-full flex items-center justify-center bg-slate-800/50 border-4 border-dashed border-slate-600 rounded-lg p-4">
                   <p className="text-slate-500 text-center text-sm">Loading editor...</p>
@@ -322,10 +797,17 @@ function App() {
             ) : (
               <ImageDisplay
                 asset={displayedAsset}
-                isLoading={isLoading}
+                isLoading={!displayedAsset && !!runningJob}
                 error={error}
-                loadingMessage={loadingMessage}
+                loadingMessage={runningJob?.progress ?? ''}
                 onEdit={handleEditAsset}
+                onEditFrames={handleEditSpriteSheetFrames}
+                onEditVideoFrames={handleEditVideoFrames}
+                videoImportProgress={videoImportProgress}
+                onPixelSnap={handlePixelSnap}
+                onLockPalette={handleLockPalette}
+                onRegenerate={handleRegenerate}
+                onLoadSettings={handleLoadSettings}
               />
             )}
           </main>
@@ -333,68 +815,56 @@ function App() {
           {/* Right Panel */}
           <aside className={`transition-all duration-300 ${panels.right ? 'w-80' : 'w-8'}`}>
             <div className={`bg-slate-800/50 border-2 border-slate-700 rounded-lg shadow-lg h-[calc(100vh-8rem)] flex flex-col transition-opacity duration-300 ${panels.right ? 'opacity-100' : 'opacity-0'}`}>
-              {panels.right && <HistoryPanel history={history} onSelect={handleSelectHistoryItem} onClear={handleClearHistory} activeItemId={activeHistoryItem?.id} />}
+              {panels.right && (
+                <AssetLibrary
+                  history={history}
+                  collections={collections}
+                  activeItemId={activeHistoryItem?.id}
+                  storageUsage={storageUsage}
+                  evictionPolicy={evictionPolicy}
+                  onSelect={handleSelectHistoryItem}
+                  onUpdate={handleUpdateItems}
+                  onDelete={handleDeleteItems}
+                  onClear={handleClearHistory}
+                  onCreateCollection={handleCreateCollection}
+                  onDeleteCollection={handleDeleteCollection}
+                  onEvictionPolicyChange={handleEvictionPolicyChange}
+                />
+              )}
             </div>
           </aside>
         </div>
       </div>
       <SettingsModal isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} />
+      <PaletteManager
+        isOpen={isPaletteManagerOpen}
+        onClose={() => setIsPaletteManagerOpen(false)}
+        palettes={palettes}
+        editorColors={editorPalette.colors}
+        onSave={handleSavePalette}
+        onDelete={handleDeletePalette}
+        onImport={handleImportPalettes}
+        onUseInEditor={handleUsePaletteInEditor}
+      />
+      {pendingReviews.length > 0 && (
+        <PaletteLockReview
+          key={pendingReviews[0].id}
+          review={pendingReviews[0]}
+          pendingCount={pendingReviews.length}
+          onDecide={handleReviewDecision}
+          onLockAll={handleLockAllReviews}
+        />
+      )}
+      <StylePresetManager
+        isOpen={isStyleManagerOpen}
+        onClose={() => setIsStyleManagerOpen(false)}
+        presets={stylePresets}
+        onSave={handleSaveStylePreset}
+        onDelete={handleDeleteStylePreset}
+        onImport={handleImportStylePresets}
+      />
     </div>
   );
 }
 
-// History Panel Component (can be moved to its own file later)
-const HistoryPanel: React.FC<{
-  history: HistoryItem[];
-  onSelect: (item: HistoryItem) => void;
-  onClear: () => void;
-  activeItemId?: string;
-}> = ({ history, onSelect, onClear, activeItemId }) => {
-  return (
-    <>
-      <header className="flex items-center justify-between p-3 border-b-2 border-slate-700 bg-slate-800">
-        <div className="flex items-center gap-2">
-          <HistoryIcon className="w-5 h-5 text-cyan-400" />
-          <h2 className="text-sm font-bold text-slate-200">History</h2>
-        </div>
-        <button
-          onClick={onClear}
-          className="p-1 text-slate-400 hover:text-red-400 disabled:text-slate-600 transition-colors"
-          disabled={history.length === 0}
-          aria-label="Clear history"
-        >
-          <TrashIcon className="w-5 h-5" />
-        </button>
-      </header>
-      <div className="flex-grow overflow-y-auto p-2">
-        {history.length === 0 ? (
-          <p className="text-center text-xs text-slate-500 p-4">Your generated assets will appear here.</p>
-        ) : (
-          <ul className="space-y-2">
-            {history.map(item => (
-              <li key={item.id}>
-                <button
-                  onClick={() => onSelect(item)}
-                  className={`w-full flex items-center gap-3 p-2 rounded-md text-left transition-all duration-200 ${activeItemId === item.id ? 'bg-fuchsia-600/40 border-fuchsia-500' : 'bg-slate-900/50 hover:bg-slate-700/50 border-transparent'} border-2`}
-                >
-                  <img
-                    src={item.asset.url}
-                    alt={item.asset.promptData?.prompt || 'Generated Asset'}
-                    className="w-12 h-12 rounded-md bg-slate-700 pixelated object-contain flex-shrink-0"
-                  />
-                  <div className="overflow-hidden">
-                    <p className="text-xs font-bold text-slate-200 truncate">{item.asset.promptData?.prompt || 'Edited Image'}</p>
-                    <p className="text-xs text-slate-400">{new Date(item.timestamp).toLocaleTimeString()}</p>
-                  </div>
-                </button>
-              </li>
-            ))}
-          </ul>
-        )}
-      </div>
-    </>
-  );
-};
-
-
 export default App;
@@ -0,0 +1,390 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HistoryIcon, TrashIcon, XIcon, PlusIcon, DownloadIcon } from './icons';
+import type { AssetCollection, HistoryItem, GeneratedAsset } from '../App';
+import { getThumbnailUrl, exportAssetsZip, EvictionPolicy, StorageUsage, EVICTION_PRESETS } from '../services/assetStore';
+import { downloadBlob, formatBytes, sanitizeFilename } from '../utils/files';
+
+type DateFilter = 'all' | 'today' | 'week' | 'month';
+
+const DATE_FILTERS: { value: DateFilter; label: string; ms: number }[] = [
+  { value: 'all', label: 'Any time', ms: Infinity },
+  { value: 'today', label: 'Last 24h', ms: 24 * 60 * 60 * 1000 },
+  { value: 'week', label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { value: 'month', label: 'Last 30 days', ms: 30 * 24 * 60 * 60 * 1000 },
+];
+
+const ASSET_TYPES: { value: GeneratedAsset['type'] | 'all'; label: string }[] = [
+  { value: 'all', label: 'All types' },
+  { value: 'image', label: 'Images' },
+  { value: 'animation', label: 'Animations' },
+  { value: 'spritesheet', label: 'Sprite sheets' },
+];
+
+// Every string in promptData (prompts, style, actions...) plus the item's tags, lowercased.
+const searchableText = (item: HistoryItem): string => {
+  const strings: string[] = [...(item.tags ?? [])];
+  const collect = (value: unknown) => {
+    if (typeof value === 'string' && !value.startsWith('data:')) strings.push(value);
+    else if (Array.isArray(value)) value.forEach(collect);
+    else if (value && typeof value === 'object') Object.values(value).forEach(collect);
+  };
+  collect(item.asset.promptData);
+  return strings.join(' ').toLowerCase();
+};
+
+const parseTags = (input: string | null) =>
+  (input ?? '').split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean);
+
+const StarIcon: React.FC<{ filled: boolean; className?: string }> = ({ filled, className }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill={filled ? 'currentColor' : 'none'} stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}><polygon points="12 2 15.09 8.26 22 9.27 17 14.14 18.18 21.02 12 17.77 5.82 21.02 7 14.14 2 9.27 8.91 8.26 12 2" /></svg>
+);
+
+// Thumbnails are rendered on first display and cached in the asset store.
+const AssetThumbnail: React.FC<{ item: HistoryItem; className: string }> = ({ item, className }) => {
+  const [src, setSrc] = useState<string | null>(null);
+  useEffect(() => {
+    let url: string | null = null;
+    let cancelled = false;
+    getThumbnailUrl(item.id)
+      .then(thumb => {
+        // Unmounted (or switched items) before the thumbnail resolved: nothing will show this URL.
+        if (cancelled) {
+          if (thumb) URL.revokeObjectURL(thumb);
+          return;
+        }
+        url = thumb;
+        setSrc(thumb);
+      })
+      .catch(() => { /* not stored yet; fall back to the asset itself */ });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [item.id]);
+
+  const alt = item.asset.promptData?.prompt || 'Generated Asset';
+  if (!src && item.asset.type === 'animation') return <video src={item.asset.url} className={className} muted preload="metadata" aria-label={alt} />;
+  return <img src={src ?? item.asset.url} alt={alt} loading="lazy" className={className} />;
+};
+
+interface AssetLibraryProps {
+  history: HistoryItem[];
+  collections: AssetCollection[];
+  activeItemId?: string;
+  storageUsage: StorageUsage | null;
+  evictionPolicy: EvictionPolicy;
+  onSelect: (item: HistoryItem) => void;
+  onUpdate: (items: HistoryItem[]) => void;
+  onDelete: (ids: string[]) => void;
+  onClear: () => void;
+  onCreateCollection: (name: string) => AssetCollection;
+  onDeleteCollection: (id: string) => void;
+  onEvictionPolicyChange: (policy: EvictionPolicy) => void;
+}
+
+const AssetLibrary: React.FC<AssetLibraryProps> = ({
+  history, collections, activeItemId, storageUsage, evictionPolicy,
+  onSelect, onUpdate, onDelete, onClear, onCreateCollection, onDeleteCollection, onEvictionPolicyChange,
+}) => {
+  const [query, setQuery] = useState('');
+  const [typeFilter, setTypeFilter] = useState<GeneratedAsset['type'] | 'all'>('all');
+  const [styleFilter, setStyleFilter] = useState('all');
+  const [dateFilter, setDateFilter] = useState<DateFilter>('all');
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [collectionFilter, setCollectionFilter] = useState('all');
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Style id -> name; user presets have generated ids, so the name saved with the asset is shown.
+  const styles = useMemo(() => {
+    const names = new Map<string, string>();
+    history.forEach(item => {
+      const id = item.asset.promptData?.stylePreset;
+      if (id) names.set(id, item.asset.promptData?.styleName ?? id);
+    });
+    return Array.from(names, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [history]);
+  const allTags = useMemo(() => Array.from(new Set(history.flatMap(item => item.tags ?? []))).sort(), [history]);
+
+  const filtered = useMemo(() => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const maxAge = DATE_FILTERS.find(d => d.value === dateFilter)!.ms;
+    const now = Date.now();
+    return history.filter(item => {
+      if (typeFilter !== 'all' && item.asset.type !== typeFilter) return false;
+      if (styleFilter !== 'all' && item.asset.promptData?.stylePreset !== styleFilter) return false;
+      if (now - item.timestamp > maxAge) return false;
+      if (favoritesOnly && !item.favorite) return false;
+      if (collectionFilter !== 'all' && !item.collectionIds?.includes(collectionFilter)) return false;
+      if (tagFilter.some(tag => !item.tags?.includes(tag))) return false;
+      if (terms.length > 0) {
+        const text = searchableText(item);
+        if (terms.some(term => !text.includes(term))) return false;
+      }
+      return true;
+    });
+  }, [history, query, typeFilter, styleFilter, dateFilter, favoritesOnly, collectionFilter, tagFilter]);
+
+  // Drop selections that were deleted or evicted elsewhere.
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const ids = new Set(history.map(item => item.id));
+      const next = new Set([...prev].filter(id => ids.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [history]);
+
+  const selectedItems = history.filter(item => selectedIds.has(item.id));
+
+  // Lineage of the active item: its oldest surviving ancestor and every descendant below it.
+  const versionTree = useMemo(() => {
+    const byId = new Map<string, HistoryItem>(history.map(item => [item.id, item]));
+    let root = activeItemId ? byId.get(activeItemId) : undefined;
+    if (!root) return null;
+    while (root.parentId && byId.has(root.parentId)) root = byId.get(root.parentId)!;
+    const children = new Map<string, HistoryItem[]>();
+    [...history].reverse().forEach(item => {
+      if (!item.parentId || !byId.has(item.parentId)) return;
+      children.set(item.parentId, [...(children.get(item.parentId) ?? []), item]);
+    });
+    return children.has(root.id) ? { root, children } : null;
+  }, [history, activeItemId]);
+
+  const renderVersion = (item: HistoryItem, depth: number): React.ReactNode => (
+    <li key={item.id}>
+      <button
+        onClick={() => onSelect(item)}
+        style={{ paddingLeft: `${depth * 12 + 4}px` }}
+        className={`w-full flex items-center gap-2 py-1 pr-1 rounded text-left ${activeItemId === item.id ? 'bg-fuchsia-600/40' : 'hover:bg-slate-700/50'}`}
+      >
+        {depth > 0 && <span className="text-slate-500">↳</span>}
+        <AssetThumbnail item={item} className="w-6 h-6 rounded bg-slate-700 pixelated object-contain flex-shrink-0" />
+        <span className="truncate text-slate-300">{item.asset.promptData?.basePrompt || item.asset.promptData?.prompt || 'Edited Image'}</span>
+      </button>
+      {versionTree?.children.has(item.id) && <ul>{versionTree.children.get(item.id)!.map(child => renderVersion(child, depth + 1))}</ul>}
+    </li>
+  );
+
+  const toggleSelected = (id: string) => setSelectedIds(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  });
+
+  const handleToggleFavorite = (item: HistoryItem) => onUpdate([{ ...item, favorite: !item.favorite }]);
+
+  const handleDeleteOne = (item: HistoryItem) => {
+    if (!window.confirm("Delete this asset from your library?")) return;
+    onDelete([item.id]);
+  };
+
+  const handleBulkTag = () => {
+    const tags = parseTags(window.prompt("Add tags to the selected assets (comma separated):"));
+    if (tags.length === 0) return;
+    onUpdate(selectedItems.map(item => ({ ...item, tags: Array.from(new Set([...(item.tags ?? []), ...tags])) })));
+  };
+
+  const handleBulkFavorite = () => {
+    const favorite = !selectedItems.every(item => item.favorite);
+    onUpdate(selectedItems.map(item => ({ ...item, favorite })));
+  };
+
+  const handleBulkCollection = (value: string) => {
+    const id = value === 'new' ? onCreateCollection(window.prompt("New collection name:")?.trim() || 'Untitled').id : value;
+    onUpdate(selectedItems.map(item => ({ ...item, collectionIds: Array.from(new Set([...(item.collectionIds ?? []), id])) })));
+  };
+
+  const handleBulkDelete = () => {
+    if (!window.confirm(`Delete ${selectedItems.length} asset(s) from your library?`)) return;
+    onDelete(selectedItems.map(item => item.id));
+  };
+
+  const exportItems = async (items: HistoryItem[], filename: string) => {
+    setIsExporting(true);
+    try {
+      downloadBlob(await exportAssetsZip(items), filename);
+    } catch (e) {
+      console.error("Failed to export assets", e);
+      window.alert("Export failed. See the console for details.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleBulkExport = () => exportItems(selectedItems, 'pixelart-library.zip');
+
+  const handleExportCollection = () => {
+    const collection = collections.find(c => c.id === collectionFilter);
+    if (!collection) return;
+    // Oldest first; batch outputs keep the order of their source rows.
+    const items = history
+      .filter(item => item.collectionIds?.includes(collection.id))
+      .sort((a, b) => (a.asset.promptData?.batch?.row ?? 0) - (b.asset.promptData?.batch?.row ?? 0) || a.timestamp - b.timestamp);
+    exportItems(items, `${sanitizeFilename(collection.name)}.zip`);
+  };
+
+  const handleNewCollection = () => {
+    const name = window.prompt("New collection name:")?.trim();
+    if (name) setCollectionFilter(onCreateCollection(name).id);
+  };
+
+  const presetIndex = EVICTION_PRESETS.findIndex(p => p.policy.maxItems === evictionPolicy.maxItems && p.policy.maxAgeDays === evictionPolicy.maxAgeDays);
+  const selectClasses = "bg-slate-900 border border-slate-600 rounded p-1 text-xs";
+
+  return (
+    <>
+      <header className="flex items-center justify-between p-3 border-b-2 border-slate-700 bg-slate-800">
+        <div className="flex items-center gap-2">
+          <HistoryIcon className="w-5 h-5 text-cyan-400" />
+          <h2 className="text-sm font-bold text-slate-200">Library</h2>
+          <span className="text-xs text-slate-500">{filtered.length}/{history.length}</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => { setSelectMode(m => !m); setSelectedIds(new Set()); }}
+            className={`px-2 py-0.5 text-xs rounded ${selectMode ? 'bg-fuchsia-600 text-white' : 'text-slate-400 hover:text-cyan-400'}`}
+          >
+            Select
+          </button>
+          <button
+            onClick={onClear}
+            className="p-1 text-slate-400 hover:text-red-400 disabled:text-slate-600 transition-colors"
+            disabled={history.length === 0}
+            aria-label="Clear history"
+            title="Delete everything"
+          >
+            <TrashIcon className="w-5 h-5" />
+          </button>
+        </div>
+      </header>
+
+      <div className="p-2 border-b border-slate-700 flex flex-col gap-1.5">
+        <input type="search" value={query} onChange={e => setQuery(e.target.value)} placeholder="Search prompts, styles, tags..." className="w-full p-1.5 bg-slate-900 border-2 border-slate-600 rounded-md text-xs" />
+        <div className="grid grid-cols-3 gap-1">
+          <select value={typeFilter} onChange={e => setTypeFilter(e.target.value as GeneratedAsset['type'] | 'all')} className={selectClasses}>
+            {ASSET_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+          </select>
+          <select value={styleFilter} onChange={e => setStyleFilter(e.target.value)} className={selectClasses}>
+            <option value="all">All styles</option>
+            {styles.map(style => <option key={style.id} value={style.id}>{style.name}</option>)}
+          </select>
+          <select value={dateFilter} onChange={e => setDateFilter(e.target.value as DateFilter)} className={selectClasses}>
+            {DATE_FILTERS.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+          </select>
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={() => setFavoritesOnly(f => !f)} title="Favorites only" className={`p-1 rounded ${favoritesOnly ? 'text-yellow-400' : 'text-slate-500 hover:text-yellow-400'}`}>
+            <StarIcon filled={favoritesOnly} className="w-4 h-4" />
+          </button>
+          <select value={collectionFilter} onChange={e => setCollectionFilter(e.target.value)} className={`${selectClasses} flex-grow`}>
+            <option value="all">All assets</option>
+            {collections.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+          <button onClick={handleNewCollection} title="New collection" className="p-1 text-slate-400 hover:text-cyan-400"><PlusIcon className="w-4 h-4" /></button>
+          {collectionFilter !== 'all' && (
+            <button onClick={handleExportCollection} disabled={isExporting} title="Download collection as .zip" className="p-1 text-slate-400 hover:text-cyan-400 disabled:opacity-50"><DownloadIcon className="w-4 h-4" /></button>
+          )}
+          {collectionFilter !== 'all' && (
+            <button onClick={() => {
+              if (!window.confirm("Delete this collection? Its assets stay in the library.")) return;
+              onDeleteCollection(collectionFilter);
+              setCollectionFilter('all');
+            }} title="Delete collection" className="p-1 text-slate-400 hover:text-red-400"><XIcon className="w-4 h-4" /></button>
+          )}
+        </div>
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {allTags.map(tag => (
+              <button key={tag} onClick={() => setTagFilter(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag])}
+                className={`px-1.5 py-0.5 rounded-full text-[10px] border ${tagFilter.includes(tag) ? 'bg-cyan-500 text-slate-900 border-cyan-400' : 'border-slate-600 text-slate-400 hover:border-slate-400'}`}>
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {selectMode && (
+        <div className="p-2 border-b border-slate-700 bg-slate-900/60 flex flex-wrap items-center gap-1 text-xs">
+          <span className="text-slate-400 mr-1">{selectedItems.length} selected</span>
+          <button onClick={() => setSelectedIds(new Set(filtered.map(item => item.id)))} className="px-1.5 py-0.5 rounded bg-slate-700 hover:bg-slate-600">All</button>
+          <button onClick={() => setSelectedIds(new Set())} className="px-1.5 py-0.5 rounded bg-slate-700 hover:bg-slate-600">None</button>
+          <button onClick={handleBulkTag} disabled={selectedItems.length === 0} className="px-1.5 py-0.5 rounded bg-slate-700 hover:bg-slate-600 disabled:opacity-50">Tag</button>
+          <button onClick={handleBulkFavorite} disabled={selectedItems.length === 0} className="px-1.5 py-0.5 rounded bg-slate-700 hover:bg-slate-600 disabled:opacity-50">Star</button>
+          <select value="" onChange={e => e.target.value && handleBulkCollection(e.target.value)} disabled={selectedItems.length === 0} className={`${selectClasses} disabled:opacity-50`}>
+            <option value="">Add to...</option>
+            {collections.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            <option value="new">New collection...</option>
+          </select>
+          <button onClick={handleBulkExport} disabled={selectedItems.length === 0 || isExporting} title="Download as .zip" className="p-1 rounded bg-slate-700 hover:bg-slate-600 disabled:opacity-50"><DownloadIcon className="w-3.5 h-3.5" /></button>
+          <button onClick={handleBulkDelete} disabled={selectedItems.length === 0} title="Delete selected" className="p-1 rounded bg-slate-700 hover:bg-red-500 disabled:opacity-50"><TrashIcon className="w-3.5 h-3.5" /></button>
+        </div>
+      )}
+
+      <div className="flex-grow overflow-y-auto p-2">
+        {history.length === 0 ? (
+          <p className="text-center text-xs text-slate-500 p-4">Your generated assets will appear here.</p>
+        ) : filtered.length === 0 ? (
+          <p className="text-center text-xs text-slate-500 p-4">No assets match these filters.</p>
+        ) : (
+          <ul className="space-y-2">
+            {filtered.map(item => (
+              <li key={item.id} className="group relative">
+                <button
+                  onClick={() => selectMode ? toggleSelected(item.id) : onSelect(item)}
+                  className={`w-full flex items-center gap-3 p-2 rounded-md text-left transition-all duration-200 ${(selectMode ? selectedIds.has(item.id) : activeItemId === item.id) ? 'bg-fuchsia-600/40 border-fuchsia-500' : 'bg-slate-900/50 hover:bg-slate-700/50 border-transparent'} border-2`}
+                >
+                  {selectMode && <input type="checkbox" readOnly checked={selectedIds.has(item.id)} className="flex-shrink-0" />}
+                  <AssetThumbnail item={item} className="w-12 h-12 rounded-md bg-slate-700 pixelated object-contain flex-shrink-0" />
+                  <div className="overflow-hidden flex-grow pr-10">
+                    <p className="text-xs font-bold text-slate-200 truncate">{item.asset.promptData?.prompt || 'Edited Image'}</p>
+                    <p className="text-xs text-slate-400">{new Date(item.timestamp).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' })}</p>
+                    {item.tags && item.tags.length > 0 && <p className="text-[10px] text-cyan-400/80 truncate">{item.tags.map(t => `#${t}`).join(' ')}</p>}
+                  </div>
+                </button>
+                <div className="absolute right-2 top-2 flex items-center gap-1">
+                  <button onClick={() => handleToggleFavorite(item)} title={item.favorite ? 'Unstar' : 'Star'} className={item.favorite ? 'text-yellow-400' : 'text-slate-500 opacity-0 group-hover:opacity-100 hover:text-yellow-400'}>
+                    <StarIcon filled={!!item.favorite} className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDeleteOne(item)} title="Delete" className="text-slate-500 opacity-0 group-hover:opacity-100 hover:text-red-400">
+                    <XIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {versionTree && (
+        <div className="border-t-2 border-slate-700 p-2 max-h-48 overflow-y-auto text-xs">
+          <p className="font-bold text-slate-300 mb-1">Versions</p>
+          <ul>{renderVersion(versionTree.root, 0)}</ul>
+        </div>
+      )}
+
+      <footer className="p-2 border-t-2 border-slate-700 bg-slate-800 text-xs text-slate-400 flex flex-col gap-1">
+        {storageUsage && (
+          <p title="Assets stored in this browser / total browser storage used for this site / quota">
+            {storageUsage.count} assets · {formatBytes(storageUsage.assetBytes)}
+            {storageUsage.quota ? ` · ${formatBytes(storageUsage.usage ?? 0)} of ${formatBytes(storageUsage.quota)} used` : ''}
+          </p>
+        )}
+        <select
+          value={presetIndex}
+          onChange={e => onEvictionPolicyChange(EVICTION_PRESETS[parseInt(e.target.value)].policy)}
+          className="bg-slate-900 border border-slate-600 rounded p-1"
+          aria-label="History retention"
+          title="Starred assets are never removed automatically"
+        >
+          {presetIndex < 0 && <option value={-1}>Custom retention</option>}
+          {EVICTION_PRESETS.map((preset, i) => <option key={preset.label} value={i}>{preset.label}</option>)}
+        </select>
+      </footer>
+    </>
+  );
+};
+
+export default AssetLibrary;
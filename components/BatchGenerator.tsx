@@ -0,0 +1,185 @@
+import React, { useMemo, useState } from 'react';
+import { FileUpIcon, DownloadIcon } from './icons';
+import { GENRES, COLORS } from './PromptForm';
+import type { StylePreset, Genre, Color } from './PromptForm';
+import { DEFAULT_STYLE_PRESET_ID, findStylePreset, styleName, StylePresetDefinition } from '../services/stylePresets';
+import type { Job } from '../services/jobQueue';
+import { parseBatch, BatchRow } from '../utils/batch';
+import { readFileAsText } from '../utils/files';
+import { parseSeed, MAX_SEED } from '../utils/random';
+
+/** Defaults for rows that don't override them, plus how the batch is run. */
+export interface BatchSettings {
+  name: string;
+  stylePreset: StylePreset;
+  genre: Genre;
+  color: Color;
+  negativePrompt: string;
+  requestsPerMinute: number;
+  seed?: number; // row i uses seed + i
+}
+
+/** A submitted batch: its collection and the jobs generating into it. */
+export interface BatchRun {
+  collectionId: string;
+  name: string;
+  jobIds: string[];
+}
+
+const EXAMPLE = `prompt,style,genre,color,negative
+iron sword,16-bit,Fantasy,Earthy,
+health potion,,,Vibrant,"text, label"
+plasma rifle,HD Pixel Art,Sci-Fi,Neon,`;
+
+interface BatchGeneratorProps {
+  onSubmit: (rows: BatchRow[], settings: BatchSettings) => void;
+  isLoading: boolean;
+  batches: BatchRun[];
+  jobs: Job[];
+  collectionSizes: Record<string, number>; // finished outputs per collection id
+  onExport: (batch: BatchRun) => void;
+  stylePresets: StylePresetDefinition[];
+}
+
+const BatchGenerator: React.FC<BatchGeneratorProps> = ({ onSubmit, isLoading, batches, jobs, collectionSizes, onExport, stylePresets }) => {
+  const [text, setText] = useState('');
+  const [name, setName] = useState('');
+  const [stylePreset, setStylePreset] = useState<StylePreset>(DEFAULT_STYLE_PRESET_ID);
+  const [genre, setGenre] = useState<Genre>('Fantasy');
+  const [color, setColor] = useState<Color>('Vibrant');
+  const [negativePrompt, setNegativePrompt] = useState('blurry, text, watermark');
+  const [requestsPerMinute, setRequestsPerMinute] = useState(10);
+  const [seed, setSeed] = useState('');
+
+  const parsed = useMemo(() => {
+    try {
+      return { ...parseBatch(text, stylePresets), error: null };
+    } catch (e) {
+      return { rows: [], warnings: [], error: e instanceof Error ? e.message : 'Could not read the list.' };
+    }
+  }, [text, stylePresets]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setText(await readFileAsText(file));
+    if (!name) setName(file.name.replace(/\.[^.]+$/, ''));
+  };
+
+  const selectStyle = (id: StylePreset) => {
+    setStylePreset(id);
+    const preset = findStylePreset(stylePresets, id);
+    if (preset?.negativePrompt) setNegativePrompt(preset.negativePrompt);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (parsed.rows.length === 0) return;
+    onSubmit(parsed.rows, {
+      name: name.trim() || `Batch ${new Date().toLocaleString()}`,
+      stylePreset, genre, color, negativePrompt, requestsPerMinute, seed: parseSeed(seed),
+    });
+  };
+
+  const labelClasses = "block text-lg text-slate-300 mb-2 ml-1 tracking-wider";
+  const inputClasses = "w-full p-2 bg-slate-800 border-2 border-slate-600 rounded-md text-sm text-slate-200";
+  const glowButtonClasses = "w-full flex items-center justify-center gap-2 px-4 py-3 text-lg font-bold transition-all duration-200 border-2 rounded-lg shadow-md shadow-black/40 transform hover:-translate-y-px active:translate-y-0 active:shadow-inner disabled:opacity-50 disabled:transform-none disabled:shadow-none bg-fuchsia-600 text-white border-fuchsia-500 hover:bg-fuchsia-500 hover:border-fuchsia-400 hover:shadow-[0_0_15px_2px_theme(colors.cyan.400)] focus:shadow-[0_0_15px_2px_theme(colors.cyan.400)]";
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+      <div>
+        <label className={labelClasses}>Prompt List</label>
+        <label className="w-full h-14 mb-2 flex items-center justify-center gap-2 bg-slate-800 border-2 border-dashed border-slate-600 rounded-md cursor-pointer hover:border-cyan-400 hover:bg-slate-700">
+          <FileUpIcon className="w-5 h-5 text-slate-400" />
+          <span className="text-xs text-slate-400">Load .csv, .json or .txt</span>
+          <input type="file" accept=".csv,.json,.txt,text/csv,application/json,text/plain" className="hidden" onChange={handleFile} />
+        </label>
+        <textarea value={text} onChange={e => setText(e.target.value)} placeholder={`One prompt per line, a JSON array, or CSV:\n\n${EXAMPLE}`} className={`${inputClasses} h-40 font-mono text-xs resize-y`} />
+        <p className="mt-1 text-xs text-slate-400">
+          {parsed.error ? <span className="text-red-400">{parsed.error}</span> : `${parsed.rows.length} prompt(s)`}
+          {' '}· Columns: prompt, style, negative, genre, color
+        </p>
+        {parsed.warnings.length > 0 && (
+          <ul className="mt-1 max-h-20 overflow-y-auto text-xs text-amber-400 list-disc list-inside">
+            {parsed.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+          </ul>
+        )}
+      </div>
+
+      {parsed.rows.length > 0 && (
+        <div className="max-h-40 overflow-y-auto border-2 border-slate-700 rounded-md">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-800 text-slate-400 sticky top-0">
+              <tr><th className="p-1 text-left">#</th><th className="p-1 text-left">Prompt</th><th className="p-1 text-left">Overrides</th></tr>
+            </thead>
+            <tbody>
+              {parsed.rows.map((row, i) => (
+                <tr key={i} className="border-t border-slate-700">
+                  <td className="p-1 text-slate-500">{i + 1}</td>
+                  <td className="p-1 text-slate-200 truncate max-w-[10rem]" title={row.prompt}>{row.prompt}</td>
+                  <td className="p-1 text-cyan-400/80">{[row.stylePreset && styleName(stylePresets, row.stylePreset), row.genre, row.color, row.negativePrompt && 'neg'].filter(Boolean).join(' · ')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div>
+        <label className={labelClasses}>Defaults</label>
+        <div className="grid grid-cols-3 gap-2">
+          <select value={stylePreset} onChange={e => selectStyle(e.target.value)} className={inputClasses} title="Style preset">
+            {stylePresets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+          </select>
+          <select value={genre} onChange={e => setGenre(e.target.value as Genre)} className={inputClasses} title="Genre">
+            {GENRES.map(g => <option key={g} value={g}>{g}</option>)}
+          </select>
+          <select value={color} onChange={e => setColor(e.target.value as Color)} className={inputClasses} title="Color">
+            {COLORS.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </div>
+        <textarea value={negativePrompt} onChange={e => setNegativePrompt(e.target.value)} placeholder="Negative prompt" className={`${inputClasses} mt-2 h-16 resize-none`} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-slate-400 flex flex-col gap-1">Collection name
+          <input type="text" value={name} onChange={e => setName(e.target.value)} placeholder="Batch <date>" className={inputClasses} />
+        </label>
+        <label className="text-xs text-slate-400 flex flex-col gap-1">Requests / minute
+          <input type="number" min="1" max="60" value={requestsPerMinute} onChange={e => setRequestsPerMinute(Math.max(1, Math.min(60, parseInt(e.target.value) || 1)))} className={inputClasses} />
+        </label>
+        <label className="col-span-2 text-xs text-slate-400 flex flex-col gap-1">Base seed (optional, row N uses seed + N - 1)
+          <input type="text" inputMode="numeric" value={seed} onChange={e => setSeed(e.target.value.replace(/[^\d]/g, ''))} placeholder={`Random (0 - ${MAX_SEED})`} className={inputClasses} />
+        </label>
+      </div>
+
+      <button type="submit" disabled={isLoading || parsed.rows.length === 0} className={glowButtonClasses}>
+        {`Queue ${parsed.rows.length} Image${parsed.rows.length === 1 ? '' : 's'}`}
+      </button>
+
+      {batches.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <label className={labelClasses}>Batches</label>
+          {batches.map(batch => {
+            const done = collectionSizes[batch.collectionId] ?? 0;
+            const failed = jobs.filter(job => batch.jobIds.includes(job.id) && (job.status === 'failed' || job.status === 'cancelled')).length;
+            return (
+              <div key={batch.collectionId} className="flex items-center gap-2 p-2 bg-slate-900/50 rounded-md text-xs">
+                <div className="flex-grow overflow-hidden">
+                  <p className="font-bold text-slate-200 truncate">{batch.name}</p>
+                  <p className="text-slate-400">{done}/{batch.jobIds.length} done{failed > 0 ? ` · ${failed} failed` : ''}</p>
+                </div>
+                <button type="button" onClick={() => onExport(batch)} disabled={done === 0} title="Download the batch as .zip with a manifest" className="p-2 rounded bg-slate-700 hover:bg-cyan-500 hover:text-slate-900 disabled:opacity-50">
+                  <DownloadIcon className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default BatchGenerator;
@@ -5,9 +5,47 @@ import {
   PlusIcon, TrashIcon, EyeOpenIcon, EyeClosedIcon, SaveIcon, SparklesIcon, HandIcon, GridIcon, SymmetryHorizontalIcon,
   ZoomInIcon, ZoomOutIcon, MergeDownIcon, BucketIcon, LineIcon, RectangleIcon, MoveIcon,
   DuplicateIcon, FlipHorizontalIcon, BanIcon, ImageIcon, XIcon, FileUpIcon, GrabIcon, LightenIcon, ColorReplaceIcon,
-  SymmetryVerticalIcon,
+  SymmetryVerticalIcon, HistoryIcon, DownloadIcon, CropIcon, SettingsIcon,
 } from './icons';
-import { generateAIPalette } from '../services/geminiService';
+import { generateAIPalette, inpaintImage } from '../services/providers';
+import {
+  HistoryEntry, PixelCapture, PixelPatch, StructureSnapshot, DEFAULT_HISTORY_CAP_MB, HISTORY_CAP_OPTIONS_MB,
+  createBaseEntry, beginPixelCapture, endPixelCapture, applyPatches, createHistoryEntry, pushHistoryEntry,
+  trimHistory, historySize,
+} from '../utils/history';
+import {
+  SelectionMask, SelectionMode, SelectionShape, createMask, createRectMask, createPolygonMask, combineMasks, maskBounds,
+  clipToMask, extractMasked, clearMasked, maskOutlinePath, paintMask,
+} from '../utils/selection';
+import { CanvasTransform, canvasToBlob, cloneCanvas, createCanvas, transformCanvas, loadImage } from '../utils/canvas';
+import { hexToRgba, rgbaToHex, quantizeColors } from '../utils/color';
+import { buildInpaintInputs, composeInpaintResult } from '../utils/magicEdit';
+import { createLayer, createEmptyCel, createFrameLike, compositeFrame, copyIndices, emptyCelOf, isEmptyCel, materializeCel, normalizeLayerStacks, storeIndices } from '../utils/layers';
+import { PROJECT_EXTENSION, serializeProject, parseProject } from '../utils/projectFile';
+import { downloadBlob, readFileAsText, formatBytes } from '../utils/files';
+import { parseAseprite, writeAseprite } from '../utils/aseprite';
+import { Anchor, ANCHORS, resizeCanvas, cropFrames, contentBounds, scaleFrames } from '../utils/resize';
+import { ROTSPRITE_MAX_SIZE, ScaleAlgorithm, SCALE_ALGORITHMS } from '../utils/scalers';
+import type { PaletteDefinition } from '../services/palettes';
+import { SheetOptions, SheetLayout, AtlasFormat, DEFAULT_SHEET_OPTIONS, ATLAS_FORMATS, buildSpriteSheet } from '../utils/spriteSheet';
+import {
+  ColorMode, MAX_INDEXED_COLORS, TRANSPARENT_INDEX, documentCanvases, usedPaletteLength, indexCanvas, syncIndices, indicesOf, renderIndices,
+  nearestPaletteColor, cyclePalette, frameIndices, indexImage, scaleIndices,
+} from '../utils/indexedColor';
+import { Quantizer, QUANTIZERS, quantize } from '../utils/quantizers';
+import { encodeIndexedPng } from '../utils/indexedPng';
+import { PaletteMatchOptions, DEFAULT_PALETTE_MATCH_OPTIONS, enforcePalette } from '../utils/paletteMatch';
+import { PaletteMatchControls } from './PaletteLockPanel';
+import Timeline from './Timeline';
+import OnionSkinPanel from './OnionSkinPanel';
+import {
+  AnimationExportOptions, AnimationFormat, ANIMATION_FORMATS, DEFAULT_ANIMATION_EXPORT, NAME_TEMPLATE_TOKENS, exportAnimation, exportSequence, supportedVideoType,
+} from '../utils/animationExport';
+import { DEFAULT_ONION_SKIN, OnionSkinSettings, drawOnionSkin, onionFrames } from '../utils/onionSkin';
+import {
+  FrameRange, TimelineEdit, PlaybackState, TAG_COLORS, DEFAULT_FRAME_DURATION, normalizeRange, inRange, rangeLength, moveFrames, copyFrames,
+  reverseFrames, insertFrames, deleteFrames, startPlayback, advancePlayback,
+} from '../utils/timeline';
 
 export type Tool = 'pencil' | 'eraser' | 'picker' | 'select' | 'magic-edit' | 'pan' | 'bucket' | 'line' | 'rectangle' | 'move' | 'lighten' | 'darken' | 'replace';
 export type SymmetryMode = 'none' | 'horizontal' | 'vertical';
@@ -25,49 +63,63 @@ export interface Layer {
 
 export interface Frame {
   id: string;
+  name?: string;
   layers: Layer[];
   duration: number; // in ms
 }
 
+export type TagDirection = 'forward' | 'reverse' | 'ping-pong' | 'ping-pong-reverse';
+
+// A named frame range (inclusive indices), as used by Aseprite animation tags.
+export interface AnimationTag {
+  id: string;
+  name: string;
+  from: number;
+  to: number;
+  direction: TagDirection;
+  repeat: number; // 0 = loop forever
+  color: string;
+}
+
+// Pasted pixels that hover above the active layer until they are committed.
+interface FloatingSelection {
+  canvas: HTMLCanvasElement;
+  x: number;
+  y: number;
+}
+
 export interface EditorState {
-  sourceImage: HTMLImageElement;
+  sourceImage?: HTMLImageElement; // absent when the frames come from elsewhere, e.g. an imported video
   frames: Frame[];
   currentFrameIndex: number;
-  history: any[];
+  history: HistoryEntry[];
   historyIndex: number;
 }
 
 interface EditorProps {
   initialState: EditorState;
   onSave: (dataUrl: string) => void;
+  palette: string[]; // kept by the app so it outlives the editor and can lock generations
+  onPaletteChange: (palette: string[]) => void;
+  palettes: PaletteDefinition[];
+  activePaletteId: string | null; // the saved palette the colors were loaded from, if any
+  onSelectPalette: (id: string) => void;
+  onManagePalettes: () => void;
 }
 
-// UTILS
-const createLayer = (id: string, name: string, width: number, height: number): Layer => {
-  const canvas = document.createElement('canvas');
-  canvas.width = width;
-  canvas.height = height;
-  const context = canvas.getContext('2d')!;
-  context.imageSmoothingEnabled = false;
-  return { id, name, canvas, context, isVisible: true, opacity: 1, blendMode: 'source-over', offset: { x: 0, y: 0 } };
+const TOOL_HISTORY_LABELS: Partial<Record<Tool, string>> = {
+  pencil: 'Pencil', eraser: 'Eraser', bucket: 'Fill', line: 'Line', rectangle: 'Rectangle',
+  replace: 'Replace Color', lighten: 'Lighten', darken: 'Darken', move: 'Move Layer',
 };
 
-const createFrame = (width: number, height: number): Frame => ({
-  id: crypto.randomUUID(),
-  layers: [createLayer(crypto.randomUUID(), 'Layer 1', width, height)],
-  duration: 100
-});
-
-const hexToRgba = (hex: string): [number, number, number, number] => {
-  const r = parseInt(hex.slice(1, 3), 16) || 0;
-  const g = parseInt(hex.slice(3, 5), 16) || 0;
-  const b = parseInt(hex.slice(5, 7), 16) || 0;
-  return [r, g, b, 255];
-};
+const SELECTION_MODES: { mode: SelectionMode; label: string; hint: string }[] = [
+  { mode: 'replace', label: 'New', hint: 'New selection' },
+  { mode: 'add', label: 'Add', hint: 'Add to selection (Shift)' },
+  { mode: 'subtract', label: 'Sub', hint: 'Subtract from selection (Alt)' },
+  { mode: 'intersect', label: 'Int', hint: 'Intersect with selection (Shift+Alt)' },
+];
 
-const rgbaToHex = (r: number, g: number, b: number): string => {
-  return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
-};
+const HISTORY_CAP_STORAGE_KEY = 'pixelArtHistoryCapMB';
 
 const BLEND_MODES: GlobalCompositeOperation[] = [
   'source-over', 'multiply', 'screen', 'overlay', 'darken', 'lighten',
@@ -75,87 +127,14 @@ const BLEND_MODES: GlobalCompositeOperation[] = [
   'exclusion', 'hue', 'saturation', 'color', 'luminosity'
 ];
 
-// Color Quantization using Median Cut
-const quantizeColors = (imageData: ImageData, count: number): string[] => {
-  const pixels: [number, number, number][] = [];
-  for (let i = 0; i < imageData.data.length; i += 4) {
-    if (imageData.data[i + 3] > 128) { // Only consider opaque pixels
-      pixels.push([imageData.data[i], imageData.data[i + 1], imageData.data[i + 2]]);
-    }
-  }
-
-  if (pixels.length === 0) return [];
-  if (new Set(pixels.map(p => rgbaToHex(p[0], p[1], p[2]))).size <= count) {
-    return Array.from(new Set(pixels.map(p => rgbaToHex(p[0], p[1], p[2]))));
-  }
-
-  const buckets: [number, number, number][][] = [pixels];
-
-  while (buckets.length < count) {
-    let largestBucketIndex = -1;
-    let largestRange = -1;
-
-    buckets.forEach((bucket, i) => {
-      if (bucket.length > 1) {
-        let minR = 255, maxR = 0, minG = 255, maxG = 0, minB = 255, maxB = 0;
-        bucket.forEach(([r, g, b]) => {
-          minR = Math.min(minR, r); maxR = Math.max(maxR, r);
-          minG = Math.min(minG, g); maxG = Math.max(maxG, g);
-          minB = Math.min(minB, b); maxB = Math.max(maxB, b);
-        });
-        const range = Math.max(maxR - minR, maxG - minG, maxB - minB);
-        if (range > largestRange) {
-          largestRange = range;
-          largestBucketIndex = i;
-        }
-      }
-    });
-
-    if (largestBucketIndex === -1) break;
-
-    const bucketToSort = buckets[largestBucketIndex];
-    let minR = 255, maxR = 0, minG = 255, maxG = 0, minB = 255, maxB = 0;
-    bucketToSort.forEach(([r, g, b]) => {
-      minR = Math.min(minR, r); maxR = Math.max(maxR, r);
-      minG = Math.min(minG, g); maxG = Math.max(maxG, g);
-      minB = Math.min(minB, b); maxB = Math.max(maxB, b);
-    });
-
-    const rRange = maxR - minR;
-    const gRange = maxG - minG;
-    const bRange = maxB - minB;
-
-    let sortAxis = 0; // 0=R, 1=G, 2=B
-    if (gRange >= rRange && gRange >= bRange) sortAxis = 1;
-    else if (bRange >= rRange && bRange >= gRange) sortAxis = 2;
-
-    bucketToSort.sort((a, b) => a[sortAxis] - b[sortAxis]);
-
-    const mid = Math.floor(bucketToSort.length / 2);
-    const newBucket1 = bucketToSort.slice(0, mid);
-    const newBucket2 = bucketToSort.slice(mid);
-    buckets.splice(largestBucketIndex, 1, newBucket1, newBucket2);
-  }
-
-  const palette: string[] = [];
-  buckets.forEach(bucket => {
-    if (bucket.length > 0) {
-      const avgR = Math.round(bucket.reduce((sum, p) => sum + p[0], 0) / bucket.length);
-      const avgG = Math.round(bucket.reduce((sum, p) => sum + p[1], 0) / bucket.length);
-      const avgB = Math.round(bucket.reduce((sum, p) => sum + p[2], 0) / bucket.length);
-      palette.push(rgbaToHex(avgR, avgG, avgB));
-    }
-  });
-
-  return Array.from(new Set(palette)); // Remove duplicates
-}
-
-
 // EDITOR COMPONENT
-const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
+const Editor: React.FC<EditorProps> = ({
+  initialState, onSave, palette: generatedPalette, onPaletteChange: setGeneratedPalette, palettes, activePaletteId, onSelectPalette, onManagePalettes,
+}) => {
   const mainCanvasRef = useRef<HTMLCanvasElement>(null);
   const gridCanvasRef = useRef<HTMLCanvasElement>(null);
   const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+  const selectionCanvasRef = useRef<HTMLCanvasElement>(null);
   const canvasContainerRef = useRef<HTMLDivElement>(null);
   const renameInputRef = useRef<HTMLInputElement>(null);
   const dragItem = useRef<number | null>(null);
@@ -172,8 +151,26 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
   const [brushSize, setBrushSize] = useState(1);
   const [zoom, setZoom] = useState(4); // Default zoom
 
-  const [historyStack, setHistoryStack] = useState<any[]>([]); // simplified, TODO: robust history for frames
-  const [historyIndex, setHistoryIndex] = useState(-1);
+  const [history, setHistory] = useState<{ stack: HistoryEntry[]; index: number }>({ stack: [], index: -1 });
+  const { stack: historyStack, index: historyIndex } = history;
+  const [historyCapMB, setHistoryCapMB] = useState(() => Number(localStorage.getItem(HISTORY_CAP_STORAGE_KEY)) || DEFAULT_HISTORY_CAP_MB);
+  const strokeCapture = useRef<PixelCapture | null>(null);
+  const strokeStructure = useRef<{ before: StructureSnapshot, after: StructureSnapshot } | null>(null); // set when a stroke starts on an empty cel
+
+  const [selection, setSelection] = useState<SelectionMask | null>(null);
+  const [selectionShape, setSelectionShape] = useState<SelectionShape>('rect');
+  const [selectionMode, setSelectionMode] = useState<SelectionMode>('replace');
+  const [floating, setFloating] = useState<FloatingSelection | null>(null);
+  const [antsPhase, setAntsPhase] = useState(0);
+  const selectionDragMode = useRef<SelectionMode>('replace');
+  const lassoPoints = useRef<{ x: number, y: number }[]>([]);
+  const floatDragOffset = useRef<{ x: number, y: number } | null>(null);
+  const clipboardFallback = useRef<HTMLCanvasElement | null>(null);
+
+  const [magicMask, setMagicMask] = useState<SelectionMask | null>(null);
+  const [magicPrompt, setMagicPrompt] = useState('');
+  const [isMagicLoading, setIsMagicLoading] = useState(false);
+  const [magicError, setMagicError] = useState<string | null>(null);
 
   const [isDrawing, setIsDrawing] = useState(false);
   const lastMousePos = useRef<{ x: number, y: number } | null>(null);
@@ -183,19 +180,48 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
 
   const [showGrid, setShowGrid] = useState(true);
   const [showOnionSkin, setShowOnionSkin] = useState(false); // Onion Skin State
+  const [onionSkin, setOnionSkin] = useState<OnionSkinSettings>(DEFAULT_ONION_SKIN);
+  const [isOnionPanelOpen, setIsOnionPanelOpen] = useState(false);
   const [symmetryMode, setSymmetryMode] = useState<SymmetryMode>('none');
 
   const [palettePrompt, setPalettePrompt] = useState('cyberpunk city');
-  const [generatedPalette, setGeneratedPalette] = useState<string[]>([]);
   const [isPaletteLoading, setIsPaletteLoading] = useState(false);
 
   const [renamingLayerId, setRenamingLayerId] = useState<string | null>(null);
 
   const [referenceImage, setReferenceImage] = useState<string | null>(null);
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+  const [sheetOptions, setSheetOptions] = useState<SheetOptions>(DEFAULT_SHEET_OPTIONS);
+  const [animationOptions, setAnimationOptions] = useState<AnimationExportOptions>(DEFAULT_ANIMATION_EXPORT);
+  const [isExportingAnimation, setIsExportingAnimation] = useState(false);
+  const [animationExportError, setAnimationExportError] = useState<string | null>(null);
 
   const [isPlaying, setIsPlaying] = useState(false);
   const [fps, setFps] = useState(8);
+  const [playTagId, setPlayTagId] = useState<string | null>(null); // null plays every frame
+  const [playbackTick, setPlaybackTick] = useState(0);
+  const playback = useRef<PlaybackState | null>(null);
+  const [frameRange, setFrameRange] = useState<FrameRange>({ from: 0, to: 0 });
+  const rangeAnchor = useRef(0);
+
+  const [canvasSize, setCanvasSize] = useState({ width: initialState.sourceImage?.width || 64, height: initialState.sourceImage?.height || 64 });
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const asepriteInputRef = useRef<HTMLInputElement>(null);
+  const [tags, setTags] = useState<AnimationTag[]>([]);
+  const [isSizeModalOpen, setIsSizeModalOpen] = useState(false);
+  const [sizeForm, setSizeForm] = useState({ width: 64, height: 64, anchor: { x: 0.5, y: 0.5 } as Anchor, algorithm: 'nearest' as ScaleAlgorithm, scale: 2, angle: 0 });
+  const [sizeError, setSizeError] = useState<string | null>(null);
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
+
+  const [colorMode, setColorMode] = useState<ColorMode>('rgba');
+  const [indexedPalette, setIndexedPalette] = useState<string[]>([]); // the palette the layers are painted in while indexed
+  const paletteEdit = useRef<{ label: string; coalesceKey?: string } | null>(null);
+  const [pickedEntries, setPickedEntries] = useState({ primary: -1, secondary: -1 }); // entries chosen from the palette, which may share a color
+  const [isColorModeModalOpen, setIsColorModeModalOpen] = useState(false);
+  const [indexedForm, setIndexedForm] = useState({ source: 'quantize' as 'quantize' | 'palette', quantizer: 'median-cut' as Quantizer, colors: 16, options: DEFAULT_PALETTE_MATCH_OPTIONS as PaletteMatchOptions });
+  const [colorModeError, setColorModeError] = useState<string | null>(null);
+  const [cycleRange, setCycleRange] = useState({ from: 0, to: 3 });
 
   // Initialization
   useEffect(() => {
@@ -203,12 +229,17 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
 
     // Safety check for legacy state
     if (initialState.frames && initialState.frames.length > 0) {
-      setFrames(initialState.frames);
-      setCurrentFrameIndex(initialState.currentFrameIndex || 0);
       // Set active layer to first of current frame if not set
       if (initialState.frames[0].layers.length > 0) {
-        setActiveLayerId(initialState.frames[0].layers[0].id);
+        const { width, height } = initialState.frames[0].layers[0].canvas;
+        const stacked = normalizeLayerStacks(initialState.frames, width, height);
+        setFrames(stacked);
+        setActiveLayerId(stacked[0].layers[0].id);
+        setCanvasSize({ width, height });
+      } else {
+        setFrames(initialState.frames);
       }
+      setCurrentFrameIndex(initialState.currentFrameIndex || 0);
     } else {
       // Migration from non-frame state
       const { sourceImage } = initialState;
@@ -226,6 +257,7 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
       } else {
         initialLayers = [createLayer(crypto.randomUUID(), 'Layer 1', 64, 64)];
       }
+      setCanvasSize({ width: initialWidth, height: initialHeight });
 
       const initialFrame: Frame = {
         id: crypto.randomUUID(),
@@ -238,9 +270,14 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
       setActiveLayerId(initialLayers[0].id);
     }
 
+    setHistory(initialState.history?.length > 0
+      ? { stack: initialState.history, index: initialState.historyIndex }
+      : { stack: [createBaseEntry()], index: 0 });
+
     const container = canvasContainerRef.current;
-    if (container && initialState.sourceImage) {
-      const initialZoom = Math.min(8, Math.floor(container.clientWidth / initialState.sourceImage.width / 2));
+    const fitWidth = initialState.sourceImage?.width ?? initialState.frames?.[0]?.layers[0]?.canvas.width;
+    if (container && fitWidth) {
+      const initialZoom = Math.min(8, Math.floor(container.clientWidth / fitWidth / 2));
       setZoom(initialZoom > 0 ? initialZoom : 1);
     }
   }, [initialState]);
@@ -250,24 +287,131 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
   const currentFrame = useMemo(() => frames[currentFrameIndex], [frames, currentFrameIndex]);
   const layers = useMemo(() => currentFrame?.layers || [], [currentFrame]);
   const activeLayer = useMemo(() => layers.find(l => l.id === activeLayerId), [layers, activeLayerId]);
+  const activeLayerIndex = layers.findIndex(l => l.id === activeLayerId);
+  // The tag onion skinning loops within: the one chosen for playback if it holds the current frame, else the first that does.
+  const onionTag = tags.find(t => t.id === playTagId && inRange(t, currentFrameIndex)) ?? tags.find(t => inRange(t, currentFrameIndex)) ?? null;
+
+  const canvasWidth = canvasSize.width;
+  const canvasHeight = canvasSize.height;
+
+  // Canvases are mutated in place, so give React new layer arrays to trigger a redraw.
+  const refreshFrames = () => {
+    setFrames(prev => prev.map(f => ({ ...f, layers: [...f.layers] })));
+  };
+
+  // -- History --
+  const recordHistory = useCallback((entry: HistoryEntry) => {
+    setHistory(h => pushHistoryEntry(h.stack, h.index, entry, historyCapMB * 1024 * 1024));
+  }, [historyCapMB]);
+
+  const documentPalette = colorMode === 'indexed' ? indexedPalette : generatedPalette;
+
+  const restoreColorMode = (mode: ColorMode, palette: string[]) => {
+    setColorMode(mode);
+    setIndexedPalette(mode === 'indexed' ? palette : []);
+    if (palette !== generatedPalette) setGeneratedPalette(palette);
+  };
+
+  const commitStructure = (label: string, after: StructureSnapshot, patches: PixelPatch[] = [], coalesceKey?: string) => {
+    const before: StructureSnapshot = { frames, currentFrameIndex, activeLayerId, canvasSize };
+    if (after.colorMode) Object.assign(before, { colorMode, palette: documentPalette });
+    if (after.tags) before.tags = tags;
+    const full: StructureSnapshot = { canvasSize, ...after };
+    setFrames(full.frames);
+    setCurrentFrameIndex(full.currentFrameIndex);
+    setActiveLayerId(full.activeLayerId);
+    if (full.canvasSize !== canvasSize) setCanvasSize(full.canvasSize!);
+    if (full.colorMode) restoreColorMode(full.colorMode, full.palette!);
+    if (full.tags) setTags(full.tags);
+    recordHistory(createHistoryEntry(label, patches, { before, after: full }, coalesceKey));
+  };
 
-  const canvasWidth = initialState.sourceImage?.width || 64;
-  const canvasHeight = initialState.sourceImage?.height || 64;
+  // The palette entry a paint color stands for: the one picked for it while it still has that color,
+  // else the first entry with it.
+  const entryOf = (color: string, picked: number) => {
+    if (colorMode !== 'indexed') return -1;
+    const matches = (c: string) => c.toLowerCase() === color.toLowerCase();
+    return generatedPalette[picked] !== undefined && matches(generatedPalette[picked]) ? picked : generatedPalette.findIndex(matches);
+  };
+  const primaryIndex = entryOf(primaryColor, pickedEntries.primary);
+  const secondaryIndex = entryOf(secondaryColor, pickedEntries.secondary);
 
-  const updateCurrentFrameLayers = (newLayers: Layer[]) => {
-    setFrames(prev => prev.map((f, i) => i === currentFrameIndex ? { ...f, layers: newLayers } : f));
+  // In indexed mode, edits that can blend or introduce colors are snapped back onto the palette and
+  // the changed pixels get new indices, preferring the paint colors' entries.
+  const conformEdit = (canvas: HTMLCanvasElement) => {
+    if (colorMode === 'indexed') syncIndices(canvas, indexedPalette, [primaryIndex, secondaryIndex]);
+  };
+
+  // Frames with one cel of the current frame replaced, e.g. by its materialized copy.
+  const withCurrentCel = (cel: Layer) =>
+    frames.map((f, i) => i === currentFrameIndex ? { ...f, layers: f.layers.map(l => l.id === cel.id ? cel : l) } : f);
+
+  // Runs a pixel operation on one layer and records only the region it changed.
+  // An empty cel gets its own canvas first, which is recorded only if the operation painted anything.
+  const commitPixels = (label: string, layer: Layer, operation: (ctx: CanvasRenderingContext2D) => void) => {
+    const cel = materializeCel(layer);
+    const capture = beginPixelCapture(cel.canvas);
+    operation(cel.context);
+    if (selection) clipToMask(cel.context, capture.data, selection);
+    conformEdit(cel.canvas);
+    const patch = endPixelCapture(capture);
+    if (cel !== layer) {
+      if (patch) commitStructure(label, { frames: withCurrentCel(cel), currentFrameIndex, activeLayerId }, [patch]);
+      return;
+    }
+    if (patch) recordHistory(createHistoryEntry(label, [patch]));
+    refreshFrames();
   };
 
-  const recordHistory = useCallback(() => {
-    // Placeholder for robust history. 
-    // Snapshotting entire frame state with canvases is heavy.
-    // For now, we skip history implementation on this refactor step to focus on structure.
-  }, []);
+  const jumpToHistory = (target: number) => {
+    if (target < 0 || target >= historyStack.length || target === historyIndex) return;
+    let restored: StructureSnapshot | null = null;
+    let restoredMode: StructureSnapshot | null = null;
+    let restoredTags: AnimationTag[] | null = null;
+    if (target < historyIndex) {
+      for (let i = historyIndex; i > target; i--) {
+        const entry = historyStack[i];
+        applyPatches(entry.patches, 'undo');
+        if (entry.structure) restored = entry.structure.before;
+        if (entry.structure?.before.colorMode) restoredMode = entry.structure.before;
+        if (entry.structure?.before.tags) restoredTags = entry.structure.before.tags;
+      }
+    } else {
+      for (let i = historyIndex + 1; i <= target; i++) {
+        const entry = historyStack[i];
+        applyPatches(entry.patches, 'redo');
+        if (entry.structure) restored = entry.structure.after;
+        if (entry.structure?.after.colorMode) restoredMode = entry.structure.after;
+        if (entry.structure?.after.tags) restoredTags = entry.structure.after.tags;
+      }
+    }
+    if (restoredMode) restoreColorMode(restoredMode.colorMode!, restoredMode.palette!);
+    if (restoredTags) setTags(restoredTags);
+    if (restored) {
+      setFrames(restored.frames);
+      setCurrentFrameIndex(restored.currentFrameIndex);
+      setActiveLayerId(restored.activeLayerId);
+      const size = restored.canvasSize;
+      if (size && (size.width !== canvasWidth || size.height !== canvasHeight)) {
+        setCanvasSize(size);
+        setSelection(null);
+        setFloating(null);
+        setMagicMask(null);
+      }
+    } else {
+      refreshFrames();
+    }
+    setHistory(h => ({ ...h, index: target }));
+  };
 
-  // Removed history logic mostly for this pass as it needs deep cloning of all frames
+  const handleUndo = () => jumpToHistory(historyIndex - 1);
+  const handleRedo = () => jumpToHistory(historyIndex + 1);
 
-  const handleUndo = () => { };
-  const handleRedo = () => { };
+  const handleHistoryCapChange = (mb: number) => {
+    setHistoryCapMB(mb);
+    localStorage.setItem(HISTORY_CAP_STORAGE_KEY, String(mb));
+    setHistory(h => trimHistory(h.stack, h.index, mb * 1024 * 1024));
+  };
 
   const drawPixel = useCallback((ctx: CanvasRenderingContext2D, x: number, y: number, color: string, size: number) => {
     ctx.fillStyle = color;
@@ -396,7 +540,26 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
 
     if (activeTool === 'pan') return;
 
-    const ctx = activeLayer.context;
+    if (activeTool === 'select' || (activeTool === 'move' && floating)) {
+      handleSelectionMouseDown(e, pos);
+      return;
+    }
+
+    if (activeTool === 'magic-edit') {
+      paintMagicMask(pos, pos, e.button === 2 ? 0 : 1);
+      return;
+    }
+
+    let layer = activeLayer;
+    if (activeTool !== 'picker' && isEmptyCel(activeLayer)) {
+      layer = materializeCel(activeLayer);
+      const newFrames = withCurrentCel(layer);
+      const snapshot = { currentFrameIndex, activeLayerId, canvasSize };
+      strokeStructure.current = { before: { frames, ...snapshot }, after: { frames: newFrames, ...snapshot } };
+      setFrames(newFrames);
+    }
+    const ctx = layer.context;
+    if (activeTool !== 'picker') strokeCapture.current = beginPixelCapture(layer.canvas);
 
     switch (activeTool) {
       case 'pencil':
@@ -408,9 +571,12 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
         break;
       case 'picker':
         const compositeCtx = mainCanvasRef.current?.getContext('2d');
-        if (compositeCtx) {
+        const entry = colorMode === 'indexed' ? frameIndices(currentFrame, indexedPalette, canvasWidth, canvasHeight)[pos.y * canvasWidth + pos.x] : TRANSPARENT_INDEX;
+        if (entry !== TRANSPARENT_INDEX) {
+          pickPaletteEntry(entry, e.button === 2);
+        } else if (compositeCtx) {
           const pixel = compositeCtx.getImageData(pos.x, pos.y, 1, 1).data;
-          const hex = rgbaToHex(pixel[0], pixel[1], pixel[2]);
+          const hex = paintColor(rgbaToHex(pixel[0], pixel[1], pixel[2]));
           if (e.button === 2) setSecondaryColor(hex);
           else setPrimaryColor(hex);
         }
@@ -427,7 +593,8 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
       }
     }
 
-    updateCurrentFrameLayers([...layers]); // Trigger redraw
+    applySelectionClip();
+    refreshFrames(); // Trigger redraw
   };
 
   const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
@@ -444,6 +611,24 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
       return;
     }
 
+    if (floatDragOffset.current && floating) {
+      setFloating({ ...floating, x: pos.x - floatDragOffset.current.x, y: pos.y - floatDragOffset.current.y });
+      lastMousePos.current = pos;
+      return;
+    }
+
+    if (activeTool === 'select') {
+      drawSelectionPreview(pos);
+      lastMousePos.current = pos;
+      return;
+    }
+
+    if (activeTool === 'magic-edit') {
+      paintMagicMask(lastMousePos.current!, pos, buttonUsed.current === 2 ? 0 : 1);
+      lastMousePos.current = pos;
+      return;
+    }
+
     const ctx = activeLayer.context;
 
     const previewCtx = previewCanvasRef.current?.getContext('2d');
@@ -481,12 +666,15 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
         break;
     }
 
+    if (activeTool !== 'move') applySelectionClip();
     lastMousePos.current = pos;
-    updateCurrentFrameLayers([...layers]); // Trigger redraw
+    refreshFrames(); // Trigger redraw
   };
 
   const handleMouseUp = () => {
     if (isDrawing) {
+      if (activeTool === 'select' || floatDragOffset.current) finishSelectionDrag();
+
       if (activeLayer) {
         const previewCtx = previewCanvasRef.current?.getContext('2d');
         if (previewCtx) previewCtx.clearRect(0, 0, canvasWidth, canvasHeight);
@@ -499,6 +687,7 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
         } else if (activeTool === 'rectangle') {
           drawRectangle(ctx, startMousePos.current!.x, startMousePos.current!.y, lastMousePos.current!.x, lastMousePos.current!.y, color, brushSize);
         }
+        applySelectionClip();
       }
 
       if (isDrawing && activeTool !== 'pan' && activeTool !== 'picker') {
@@ -514,7 +703,16 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
             handleLayerPropChange(activeLayer.id, { offset: { x: 0, y: 0 } });
           }
         }
-        recordHistory();
+      }
+
+      if (strokeCapture.current) {
+        conformEdit(strokeCapture.current.canvas);
+        const patch = endPixelCapture(strokeCapture.current);
+        const structure = strokeStructure.current;
+        if (patch) recordHistory(createHistoryEntry(TOOL_HISTORY_LABELS[activeTool] || 'Draw', [patch], structure ?? undefined));
+        else if (structure) setFrames(structure.before.frames); // nothing painted, so the cel stays empty
+        strokeCapture.current = null;
+        strokeStructure.current = null;
       }
     }
     setIsDrawing(false);
@@ -522,101 +720,300 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
     startMousePos.current = null;
   };
 
+  // -- Selection --
+  const applySelectionClip = () => {
+    if (selection && strokeCapture.current) {
+      clipToMask(strokeCapture.current.canvas.getContext('2d')!, strokeCapture.current.data, selection);
+    }
+  };
+
+  const handleSelectionMouseDown = (e: React.MouseEvent<HTMLDivElement>, pos: { x: number, y: number }) => {
+    if (floating) {
+      const inside = pos.x >= floating.x && pos.x < floating.x + floating.canvas.width && pos.y >= floating.y && pos.y < floating.y + floating.canvas.height;
+      if (inside) {
+        floatDragOffset.current = { x: pos.x - floating.x, y: pos.y - floating.y };
+        return;
+      }
+      commitFloating();
+      if (activeTool !== 'select') return;
+    }
+    selectionDragMode.current = e.shiftKey && e.altKey ? 'intersect' : e.shiftKey ? 'add' : e.altKey ? 'subtract' : selectionMode;
+    lassoPoints.current = [pos];
+  };
+
+  const drawSelectionPreview = (pos: { x: number, y: number }) => {
+    const previewCtx = previewCanvasRef.current?.getContext('2d');
+    if (!previewCtx || !startMousePos.current) return;
+    previewCtx.clearRect(0, 0, canvasWidth, canvasHeight);
+    previewCtx.fillStyle = 'rgba(34, 211, 238, 0.35)';
+    if (selectionShape === 'rect') {
+      const start = startMousePos.current;
+      previewCtx.fillRect(Math.min(start.x, pos.x), Math.min(start.y, pos.y), Math.abs(pos.x - start.x) + 1, Math.abs(pos.y - start.y) + 1);
+    } else {
+      const points = lassoPoints.current;
+      const last = points[points.length - 1];
+      if (!last || last.x !== pos.x || last.y !== pos.y) points.push(pos);
+      previewCtx.beginPath();
+      points.forEach((p, i) => i === 0 ? previewCtx.moveTo(p.x + 0.5, p.y + 0.5) : previewCtx.lineTo(p.x + 0.5, p.y + 0.5));
+      previewCtx.closePath();
+      previewCtx.fill();
+    }
+  };
+
+  const finishSelectionDrag = () => {
+    previewCanvasRef.current?.getContext('2d')?.clearRect(0, 0, canvasWidth, canvasHeight);
+    if (floatDragOffset.current) {
+      floatDragOffset.current = null;
+      return;
+    }
+    const start = startMousePos.current;
+    const end = lastMousePos.current;
+    if (!start || !end) return;
+
+    let shape: SelectionMask;
+    if (selectionShape === 'rect') {
+      // A plain click without a drag clears the selection.
+      if (start.x === end.x && start.y === end.y && selectionDragMode.current === 'replace') {
+        setSelection(null);
+        return;
+      }
+      shape = createRectMask(canvasWidth, canvasHeight, start.x, start.y, end.x, end.y);
+    } else {
+      shape = createPolygonMask(canvasWidth, canvasHeight, lassoPoints.current);
+    }
+    setSelection(combineMasks(selection, shape, selectionDragMode.current));
+    lassoPoints.current = [];
+  };
+
+  const handleCopy = async (cut: boolean) => {
+    if (!activeLayer) return;
+    const mask = selection ?? createMask(canvasWidth, canvasHeight, 1);
+    const extracted = extractMasked(activeLayer.canvas, mask);
+    if (!extracted) return;
+    clipboardFallback.current = extracted.canvas;
+    if (cut) commitPixels('Cut', activeLayer, ctx => clearMasked(ctx, mask));
+    try {
+      const blob = await canvasToBlob(extracted.canvas);
+      await navigator.clipboard.write([new ClipboardItem({ 'image/png': blob })]);
+    } catch (err) {
+      console.error("Failed to write to clipboard", err);
+    }
+  };
+
+  const handlePaste = async () => {
+    let pasted: HTMLCanvasElement | null = null;
+    try {
+      const items = await navigator.clipboard.read();
+      for (const item of items) {
+        const type = item.types.find(t => t.startsWith('image/'));
+        if (type) {
+          pasted = cloneCanvas(await createImageBitmap(await item.getType(type)));
+          break;
+        }
+      }
+    } catch (err) {
+      console.error("Failed to read clipboard", err);
+    }
+    if (!pasted && clipboardFallback.current) pasted = cloneCanvas(clipboardFallback.current);
+    if (!pasted) return;
+
+    if (floating) commitFloating();
+    const bounds = selection ? maskBounds(selection) : null;
+    setFloating({
+      canvas: pasted,
+      x: bounds ? bounds.x : Math.floor((canvasWidth - pasted.width) / 2),
+      y: bounds ? bounds.y : Math.floor((canvasHeight - pasted.height) / 2),
+    });
+    setSelection(null);
+    setActiveTool('select');
+  };
+
+  const commitFloating = () => {
+    if (!floating || !activeLayer) return;
+    const { canvas, x, y } = floating;
+    setFloating(null);
+    commitPixels('Paste', activeLayer, ctx => ctx.drawImage(canvas, x, y));
+    setSelection(createRectMask(canvasWidth, canvasHeight, x, y, x + canvas.width - 1, y + canvas.height - 1));
+  };
+
+  const handleTransformFloating = (transform: CanvasTransform) => {
+    if (!floating) return;
+    const canvas = transformCanvas(floating.canvas, transform);
+    // Rotate around the centre so the pasted region stays in place.
+    const x = floating.x + Math.floor((floating.canvas.width - canvas.width) / 2);
+    const y = floating.y + Math.floor((floating.canvas.height - canvas.height) / 2);
+    setFloating({ canvas, x, y });
+  };
+
+  const handleDeleteSelection = () => {
+    if (!activeLayer || !selection) return;
+    commitPixels('Delete Selection', activeLayer, ctx => clearMasked(ctx, selection));
+  };
+
+  // -- Magic Edit --
+  const paintMagicMask = (from: { x: number, y: number }, to: { x: number, y: number }, value: 0 | 1) => {
+    const mask = magicMask ?? createMask(canvasWidth, canvasHeight);
+    setMagicMask(paintMask(mask, from.x, from.y, to.x, to.y, brushSize, value));
+  };
+
+  const handleMagicEdit = async () => {
+    if (!activeLayer || !magicMask || !magicPrompt.trim()) return;
+    const sourceLayer = activeLayer;
+    const mask = magicMask;
+    setIsMagicLoading(true);
+    setMagicError(null);
+    try {
+      const inputs = buildInpaintInputs(sourceLayer.canvas, mask);
+      const resultUrl = await inpaintImage(inputs.image, inputs.mask, magicPrompt.trim());
+      const result = await loadImage(resultUrl);
+      const patchCanvas = composeInpaintResult(result, sourceLayer.canvas, mask, generatedPalette);
+
+      const newLayer = createLayer(crypto.randomUUID(), `Magic: ${magicPrompt.trim().substring(0, 16)}`, canvasWidth, canvasHeight);
+      newLayer.context.drawImage(patchCanvas, 0, 0);
+      conformEdit(newLayer.canvas);
+      insertLayer('Magic Edit', layers.findIndex(l => l.id === sourceLayer.id) + 1, newLayer);
+      setMagicMask(null);
+    } catch (err) {
+      setMagicError(err instanceof Error ? err.message : 'Magic edit failed.');
+      console.error(err);
+    } finally {
+      setIsMagicLoading(false);
+    }
+  };
+
+  // -- Layers --
+  // A layer exists in every frame. A new one gets `cel` in the current frame and empty cels
+  // elsewhere, unless `celAt` supplies each frame's cel.
+  const insertLayer = (label: string, position: number, cel: Layer, celAt?: (frame: Frame) => Layer) => {
+    const newFrames = frames.map((f, i) => {
+      const frameCel = i === currentFrameIndex ? cel : celAt ? celAt(f) : emptyCelOf(cel, canvasWidth, canvasHeight);
+      return { ...f, layers: [...f.layers.slice(0, position), frameCel, ...f.layers.slice(position)] };
+    });
+    commitStructure(label, { frames: newFrames, currentFrameIndex, activeLayerId: cel.id });
+  };
+
   const handleAddLayer = () => {
-    const newLayer = createLayer(crypto.randomUUID(), `Layer ${layers.length + 1}`, canvasWidth, canvasHeight);
-    const activeIndex = layers.findIndex(l => l.id === activeLayerId);
-    const newLayers = [...layers.slice(0, activeIndex + 1), newLayer, ...layers.slice(activeIndex + 1)];
-    updateCurrentFrameLayers(newLayers);
-    setActiveLayerId(newLayer.id);
-    recordHistory();
+    insertLayer('New Layer', activeLayerIndex + 1, createEmptyCel(crypto.randomUUID(), `Layer ${layers.length + 1}`, canvasWidth, canvasHeight));
   };
 
   const handleDeleteLayer = () => {
     if (layers.length <= 1) return;
-    const activeIndex = layers.findIndex(l => l.id === activeLayerId);
-    const newLayers = layers.filter(l => l.id !== activeLayerId);
-    let newActiveId = null;
-    if (newLayers.length > 0) {
-      newActiveId = newLayers[Math.max(0, activeIndex - 1)].id;
-    }
-    updateCurrentFrameLayers(newLayers);
-    setActiveLayerId(newActiveId);
-    recordHistory();
+    const newFrames = frames.map(f => ({ ...f, layers: f.layers.filter(l => l.id !== activeLayerId) }));
+    const newActiveId = newFrames[currentFrameIndex].layers[Math.max(0, activeLayerIndex - 1)].id;
+    commitStructure('Delete Layer', { frames: newFrames, currentFrameIndex, activeLayerId: newActiveId });
   }
 
+  // Each canvas is copied once, so cels linked in the original stay linked in the copy.
   const handleDuplicateLayer = () => {
     if (!activeLayer) return;
-    const newLayer = createLayer(crypto.randomUUID(), `${activeLayer.name} Copy`, canvasWidth, canvasHeight);
-    newLayer.context.drawImage(activeLayer.canvas, 0, 0);
-    const activeIndex = layers.findIndex(l => l.id === activeLayerId);
-    const newLayers = [...layers.slice(0, activeIndex + 1), newLayer, ...layers.slice(activeIndex + 1)];
-    updateCurrentFrameLayers(newLayers);
-    setActiveLayerId(newLayer.id);
-    recordHistory();
+    const id = crypto.randomUUID();
+    const name = `${activeLayer.name} Copy`;
+    const copies = new Map<HTMLCanvasElement, Layer>();
+    const copyCel = (frame: Frame): Layer => {
+      const source = frame.layers[activeLayerIndex];
+      if (isEmptyCel(source)) return { ...source, id, name };
+      let copy = copies.get(source.canvas);
+      if (!copy) {
+        copy = createLayer(id, name, canvasWidth, canvasHeight);
+        copy.context.drawImage(source.canvas, 0, 0);
+        copyIndices(source.canvas, copy.canvas);
+        copies.set(source.canvas, copy);
+      }
+      return { ...source, id, name, canvas: copy.canvas, context: copy.context, offset: { ...source.offset } };
+    };
+    insertLayer('Duplicate Layer', activeLayerIndex + 1, copyCel(currentFrame), copyCel);
   };
 
   const handleClearLayer = () => {
     if (!activeLayer) return;
-    activeLayer.context.clearRect(0, 0, canvasWidth, canvasHeight);
-    updateCurrentFrameLayers([...layers]);
-    recordHistory();
+    commitPixels('Clear Layer', activeLayer, ctx => ctx.clearRect(0, 0, canvasWidth, canvasHeight));
   }
 
   const handleFlipHorizontal = () => {
     if (!activeLayer) return;
-    const { context, canvas } = activeLayer;
+    const { canvas } = activeLayer;
     const tempCanvas = document.createElement('canvas');
     tempCanvas.width = canvas.width;
     tempCanvas.height = canvas.height;
     const tempCtx = tempCanvas.getContext('2d')!;
     tempCtx.drawImage(canvas, 0, 0);
 
-    context.clearRect(0, 0, canvas.width, canvas.height);
-    context.save();
-    context.scale(-1, 1);
-    context.drawImage(tempCanvas, -canvas.width, 0);
-    context.restore();
-
-    updateCurrentFrameLayers([...layers]);
-    recordHistory();
+    commitPixels('Flip Horizontal', activeLayer, context => {
+      context.clearRect(0, 0, canvas.width, canvas.height);
+      context.save();
+      context.scale(-1, 1);
+      context.drawImage(tempCanvas, -canvas.width, 0);
+      context.restore();
+    });
   }
 
+  // Merges in every frame. Each pair of canvases is merged once, so linked cels stay linked.
   const handleMergeDown = () => {
-    const activeIndex = layers.findIndex(l => l.id === activeLayerId);
-    if (!activeLayer || activeIndex <= 0) return;
-
-    const layerToMerge = layers[activeIndex];
-    const layerBelow = layers[activeIndex - 1];
-
-    layerBelow.context.globalAlpha = layerToMerge.opacity;
-    layerBelow.context.globalCompositeOperation = layerToMerge.blendMode;
-    layerBelow.context.drawImage(layerToMerge.canvas, layerToMerge.offset.x, layerToMerge.offset.y);
-    layerBelow.context.globalAlpha = 1.0;
-    layerBelow.context.globalCompositeOperation = 'source-over';
-
-    const newLayers = layers.filter(l => l.id !== activeLayerId);
-    updateCurrentFrameLayers(newLayers);
-    setActiveLayerId(layerBelow.id);
-    recordHistory();
+    if (!activeLayer || activeLayerIndex <= 0) return;
+    // Cels linked in both layers (same canvases, same offsets) stay linked in the merged layer.
+    const merged = new Map<HTMLCanvasElement, { upper: HTMLCanvasElement, offsets: string, cel: Pick<Layer, 'canvas' | 'context'> }[]>();
+    const mergeCels = (upper: Layer, lower: Layer): Layer => {
+      if (isEmptyCel(upper)) return lower;
+      const offsets = `${lower.offset.x},${lower.offset.y},${upper.offset.x},${upper.offset.y}`;
+      const byLower = merged.get(lower.canvas) ?? [];
+      merged.set(lower.canvas, byLower);
+      let result = byLower.find(m => m.upper === upper.canvas && m.offsets === offsets)?.cel;
+      if (!result) {
+        const { canvas, context } = createLayer(lower.id, lower.name, canvasWidth, canvasHeight);
+        context.drawImage(lower.canvas, lower.offset.x, lower.offset.y);
+        context.globalAlpha = upper.opacity;
+        context.globalCompositeOperation = upper.blendMode;
+        context.drawImage(upper.canvas, upper.offset.x, upper.offset.y);
+        context.globalAlpha = 1.0;
+        context.globalCompositeOperation = 'source-over';
+        // Start from the entries the two cels painted, so pixels in repeated colors keep theirs.
+        const stack = { id: '', duration: 0, layers: [lower, upper].map(cel => ({ ...cel, isVisible: true })) };
+        if (colorMode === 'indexed') storeIndices(canvas, frameIndices(stack, indexedPalette, canvasWidth, canvasHeight));
+        conformEdit(canvas);
+        result = { canvas, context };
+        byLower.push({ upper: upper.canvas, offsets, cel: result });
+      }
+      return { ...lower, ...result, offset: { x: 0, y: 0 } };
+    };
+    const newFrames = frames.map(f => ({
+      ...f,
+      layers: f.layers.flatMap((l, i) => i === activeLayerIndex ? [] : i === activeLayerIndex - 1 ? [mergeCels(f.layers[activeLayerIndex], l)] : [l]),
+    }));
+    commitStructure('Merge Down', { frames: newFrames, currentFrameIndex, activeLayerId: layers[activeLayerIndex - 1].id });
   };
 
-  const handleLayerPropChange = (id: string, prop: Partial<Omit<Layer, 'id' | 'canvas' | 'context'>>) => {
-    updateCurrentFrameLayers(layers.map(l => (l.id === id ? { ...l, ...prop } : l)));
+  // Pass a label to record the change in history; the move tool updates offsets live without one.
+  // The offset belongs to the current frame's cel, every other property to the layer in all frames.
+  const handleLayerPropChange = (id: string, prop: Partial<Omit<Layer, 'id' | 'canvas' | 'context'>>, label?: string) => {
+    const { offset, ...shared } = prop;
+    const newFrames = frames.map((f, i) => ({
+      ...f,
+      layers: f.layers.map(l => l.id !== id ? l : { ...l, ...shared, ...(offset && i === currentFrameIndex ? { offset } : {}) }),
+    }));
+    if (label) {
+      commitStructure(label, { frames: newFrames, currentFrameIndex, activeLayerId }, [], `${id}:${Object.keys(prop).join(',')}`);
+    } else {
+      setFrames(newFrames);
+    }
   };
 
   const handleFinishRename = () => {
     if (renamingLayerId && renameInputRef.current) {
-      handleLayerPropChange(renamingLayerId, { name: renameInputRef.current.value });
+      const layer = layers.find(l => l.id === renamingLayerId);
+      if (layer && layer.name !== renameInputRef.current.value) {
+        handleLayerPropChange(renamingLayerId, { name: renameInputRef.current.value }, 'Rename Layer');
+      }
     }
     setRenamingLayerId(null);
   }
 
   const handleDrop = () => {
     if (dragItem.current === null || dragOverItem.current === null) return;
-    const newLayers = [...layers];
-    const [draggedItem] = newLayers.splice(dragItem.current, 1);
-    newLayers.splice(dragOverItem.current, 0, draggedItem);
-    updateCurrentFrameLayers(newLayers);
+    const order = layers.map(l => l.id);
+    const [draggedId] = order.splice(dragItem.current, 1);
+    order.splice(dragOverItem.current, 0, draggedId);
+    const newFrames = frames.map(f => ({ ...f, layers: order.map(id => f.layers.find(l => l.id === id)!) }));
+    if (dragItem.current !== dragOverItem.current) commitStructure('Reorder Layers', { frames: newFrames, currentFrameIndex, activeLayerId });
     dragItem.current = null;
     dragOverItem.current = null;
   };
@@ -633,22 +1030,191 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
     tempCanvas.width = canvasWidth * scale;
     tempCanvas.height = canvasHeight * scale;
     const tempCtx = tempCanvas.getContext('2d')!;
-    tempCtx.imageSmoothingEnabled = false;
 
     // Export Current Frame or All Frames? 
     // Default to Current Frame for now
-    layers.forEach(layer => {
-      if (layer.isVisible) {
-        tempCtx.globalAlpha = layer.opacity;
-        tempCtx.globalCompositeOperation = layer.blendMode;
-        tempCtx.drawImage(layer.canvas, 0, 0, tempCanvas.width, tempCanvas.height);
-      }
-    });
+    compositeFrame(tempCtx, currentFrame, canvasWidth, canvasHeight);
 
     onSave(tempCanvas.toDataURL('image/png'));
     setIsExportModalOpen(false);
   };
 
+  const handleExportSpriteSheet = async () => {
+    try {
+      const { canvas, atlas } = buildSpriteSheet(frames, canvasWidth, canvasHeight, tags, sheetOptions, 'pixelart_sheet.png');
+      downloadBlob(await canvasToBlob(canvas), 'pixelart_sheet.png');
+      downloadBlob(new Blob([JSON.stringify(atlas, null, 2)], { type: 'application/json' }), 'pixelart_sheet.json');
+      setIsExportModalOpen(false);
+    } catch (err) {
+      setProjectError(err instanceof Error ? err.message : 'Failed to export sprite sheet.');
+      console.error(err);
+    }
+  };
+
+  const handleExportAnimation = async () => {
+    const { source } = animationOptions;
+    const tag = tags.find(t => t.id === source);
+    const sequence = tag ? exportSequence(frames, { from: tag.from, to: Math.min(tag.to, frames.length - 1) }, tag.direction)
+      : exportSequence(frames, source === 'selection' ? selectedRange : { from: 0, to: frames.length - 1 });
+    const name = tag ? `pixelart_${tag.name.replace(/[^\w-]+/g, '_')}` : 'pixelart_animation';
+    setIsExportingAnimation(true);
+    setAnimationExportError(null);
+    try {
+      const palette = colorMode === 'indexed' ? indexedPalette : null;
+      const { blob, extension } = await exportAnimation(frames, sequence, canvasWidth, canvasHeight, animationOptions, tags, name, palette);
+      downloadBlob(blob, `${name}.${extension}`);
+      setIsExportModalOpen(false);
+    } catch (err) {
+      setAnimationExportError(err instanceof Error ? err.message : 'Failed to export animation.');
+      console.error(err);
+    } finally {
+      setIsExportingAnimation(false);
+    }
+  };
+
+  const handleExportIndexedPng = (scale: number) => {
+    try {
+      const ctx = createCanvas(canvasWidth, canvasHeight).getContext('2d', { willReadFrequently: true })!;
+      compositeFrame(ctx, currentFrame, canvasWidth, canvasHeight);
+      const indices = indexImage(ctx.getImageData(0, 0, canvasWidth, canvasHeight), indexedPalette, frameIndices(currentFrame, indexedPalette, canvasWidth, canvasHeight));
+      const png = encodeIndexedPng(scaleIndices(indices, canvasWidth, canvasHeight, scale), canvasWidth * scale, canvasHeight * scale, indexedPalette);
+      downloadBlob(new Blob([png], { type: 'image/png' }), 'pixelart_indexed.png');
+      setIsExportModalOpen(false);
+    } catch (err) {
+      setProjectError(err instanceof Error ? err.message : 'Failed to export indexed PNG.');
+      console.error(err);
+    }
+  };
+
+  // -- Project Files --
+  const handleSaveProject = () => {
+    const text = serializeProject({
+      width: canvasWidth,
+      height: canvasHeight,
+      frames,
+      currentFrameIndex,
+      tags,
+      palette: documentPalette,
+      colorMode,
+      settings: { primaryColor, secondaryColor, brushSize, fps, showGrid, showOnionSkin, onionSkin, symmetryMode },
+    });
+    downloadBlob(new Blob([text], { type: 'application/json' }), `pixelart_project${PROJECT_EXTENSION}`);
+  };
+
+  const handleOpenProject = async (file: File) => {
+    setProjectError(null);
+    try {
+      const project = await parseProject(await readFileAsText(file));
+      setCanvasSize({ width: project.width, height: project.height });
+      setFrames(project.frames);
+      setCurrentFrameIndex(project.currentFrameIndex);
+      setActiveLayerId(project.frames[project.currentFrameIndex].layers[0]?.id ?? null);
+      setTags(project.tags);
+      restoreColorMode(project.colorMode, project.palette);
+      setPrimaryColor(project.settings.primaryColor);
+      setSecondaryColor(project.settings.secondaryColor);
+      setBrushSize(project.settings.brushSize);
+      setFps(project.settings.fps);
+      setShowGrid(project.settings.showGrid);
+      setShowOnionSkin(project.settings.showOnionSkin);
+      setOnionSkin(project.settings.onionSkin);
+      setSymmetryMode(project.settings.symmetryMode);
+      setSelection(null);
+      setFloating(null);
+      setMagicMask(null);
+      setHistory({ stack: [createBaseEntry('Open Project')], index: 0 });
+    } catch (err) {
+      setProjectError(err instanceof Error ? err.message : 'Failed to open project.');
+      console.error(err);
+    }
+  };
+
+  // -- Canvas Size / Crop / Scale --
+  const commitDocumentSize = (label: string, newFrames: Frame[], width: number, height: number) => {
+    if (floating) setFloating(null);
+    setSelection(null);
+    setMagicMask(null);
+    documentCanvases(newFrames).forEach(conformEdit); // smooth scalers blend colors
+    commitStructure(label, { frames: newFrames, currentFrameIndex, activeLayerId, canvasSize: { width, height } });
+  };
+
+  const openSizeModal = () => {
+    setSizeForm(f => ({ ...f, width: canvasWidth, height: canvasHeight }));
+    setSizeError(null);
+    setIsSizeModalOpen(true);
+  };
+
+  const handleResizeCanvas = () => {
+    const { width, height, anchor } = sizeForm;
+    if (width < 1 || height < 1) return setSizeError('Width and height must be at least 1px.');
+    commitDocumentSize('Canvas Size', resizeCanvas(frames, canvasWidth, canvasHeight, width, height, anchor), width, height);
+    setIsSizeModalOpen(false);
+  };
+
+  const handleCropToSelection = () => {
+    const bounds = selection && maskBounds(selection);
+    if (!bounds) return setSizeError('Make a selection first.');
+    commitDocumentSize('Crop to Selection', cropFrames(frames, bounds), bounds.w, bounds.h);
+    setIsSizeModalOpen(false);
+  };
+
+  // Content = the current frame's visible pixels; Trim = every layer of every frame, so animations stay aligned.
+  const handleCropToContent = (allFrames: boolean) => {
+    const bounds = allFrames
+      ? contentBounds(frames, canvasWidth, canvasHeight, false)
+      : contentBounds([currentFrame], canvasWidth, canvasHeight);
+    if (!bounds) return setSizeError('Nothing to crop to: the canvas is empty.');
+    commitDocumentSize(allFrames ? 'Trim Transparent' : 'Crop to Content', cropFrames(frames, bounds), bounds.w, bounds.h);
+    setIsSizeModalOpen(false);
+  };
+
+  const handleScaleImage = () => {
+    const { algorithm, scale, angle } = sizeForm;
+    const width = Math.max(1, Math.round(canvasWidth * scale));
+    const height = Math.max(1, Math.round(canvasHeight * scale));
+    try {
+      commitDocumentSize('Image Scale', scaleFrames(frames, canvasWidth, canvasHeight, width, height, algorithm, angle), width, height);
+      setIsSizeModalOpen(false);
+    } catch (err) {
+      setSizeError(err instanceof Error ? err.message : 'Scaling failed.');
+      console.error(err);
+    }
+  };
+
+  // -- Aseprite --
+  const handleImportAseprite = async (file: File) => {
+    setProjectError(null);
+    try {
+      const { result: sprite, warnings } = parseAseprite(await file.arrayBuffer());
+      setCanvasSize({ width: sprite.width, height: sprite.height });
+      setFrames(sprite.frames);
+      setCurrentFrameIndex(0);
+      setActiveLayerId(sprite.frames[0].layers[sprite.frames[0].layers.length - 1]?.id ?? null);
+      setTags(sprite.tags);
+      restoreColorMode('rgba', sprite.palette.length > 0 ? sprite.palette : generatedPalette);
+      setSelection(null);
+      setFloating(null);
+      setMagicMask(null);
+      setHistory({ stack: [createBaseEntry('Import Aseprite')], index: 0 });
+      setImportWarnings(warnings);
+    } catch (err) {
+      setProjectError(err instanceof Error ? err.message : 'Failed to import Aseprite file.');
+      console.error(err);
+    }
+  };
+
+  const handleExportAseprite = () => {
+    try {
+      const { result: bytes, warnings } = writeAseprite({ width: canvasWidth, height: canvasHeight, frames, tags, palette: generatedPalette });
+      downloadBlob(new Blob([bytes], { type: 'application/octet-stream' }), 'pixelart_sprite.aseprite');
+      setImportWarnings(warnings);
+      setIsExportModalOpen(false);
+    } catch (err) {
+      setProjectError(err instanceof Error ? err.message : 'Failed to export Aseprite file.');
+      console.error(err);
+    }
+  };
+
   const handleImportImage = (file: File) => {
     const reader = new FileReader();
     reader.onload = (e) => {
@@ -656,11 +1222,8 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
       img.onload = () => {
         const newLayer = createLayer(crypto.randomUUID(), file.name.substring(0, 20), canvasWidth, canvasHeight);
         newLayer.context.drawImage(img, 0, 0, canvasWidth, canvasHeight);
-        const activeIndex = layers.findIndex(l => l.id === activeLayerId);
-        const newLayers = [...layers.slice(0, activeIndex + 1), newLayer, ...layers.slice(activeIndex + 1)];
-        updateCurrentFrameLayers(newLayers);
-        setActiveLayerId(newLayer.id);
-        recordHistory();
+        conformEdit(newLayer.canvas);
+        insertLayer('Import Image', activeLayerIndex + 1, newLayer);
       }
       img.src = e.target?.result as string;
     }
@@ -674,47 +1237,244 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
     setGeneratedPalette(quantized);
   }
 
-  // -- Animation Handlers --
-  const handleDuplicateFrame = () => {
-    if (!currentFrame) return;
+  // -- Indexed Color --
+  // Colors chosen in indexed mode always land on a palette entry.
+  const paintColor = (hex: string) => colorMode === 'indexed' ? nearestPaletteColor(indexedPalette, hex) : hex;
+
+  const pickPaletteEntry = (index: number, secondary = false, color = generatedPalette[index]) => {
+    if (secondary) setSecondaryColor(color);
+    else setPrimaryColor(color);
+    setPickedEntries(p => secondary ? { ...p, secondary: index } : { ...p, primary: index });
+  };
+
+  const paletteSwapError = (palette: string[]) => {
+    if (palette.length === 0) return "An indexed document needs at least one palette color.";
+    if (palette.length > MAX_INDEXED_COLORS) return `Indexed palettes hold at most ${MAX_INDEXED_COLORS} colors.`;
+    const used = usedPaletteLength(documentCanvases(frames), indexedPalette);
+    if (palette.length < used) return `The artwork uses ${used} palette entries, but the new palette only has ${palette.length}.`;
+    return null;
+  };
+
+  // In indexed mode the palette belongs to the document: any change to it (editing an entry, cycling,
+  // loading another palette) repaints every frame from its indices. Invalid palettes are rolled back.
+  useEffect(() => {
+    if (colorMode !== 'indexed') return;
+    if (generatedPalette.length === indexedPalette.length && generatedPalette.every((c, i) => c === indexedPalette[i])) return;
+    const edit = paletteEdit.current;
+    paletteEdit.current = null;
+    const error = paletteSwapError(generatedPalette);
+    if (error) {
+      setColorModeError(error);
+      setGeneratedPalette(indexedPalette);
+      return;
+    }
+    setColorModeError(null);
+    const patches = documentCanvases(frames).map(canvas => {
+      const capture = beginPixelCapture(canvas);
+      renderIndices(canvas, indicesOf(canvas, indexedPalette), generatedPalette);
+      return endPixelCapture(capture);
+    }).filter((patch): patch is PixelPatch => patch !== null);
+    const newFrames = frames.map(f => ({ ...f, layers: [...f.layers] }));
+    commitStructure(edit?.label ?? 'Palette Swap', { frames: newFrames, currentFrameIndex, activeLayerId, colorMode: 'indexed', palette: generatedPalette }, patches, edit?.coalesceKey);
+  }, [generatedPalette]);
+
+  const handleEditPaletteEntry = (index: number, color: string) => {
+    paletteEdit.current = { label: 'Edit Palette Entry', coalesceKey: `palette-entry:${index}` };
+    if (index === primaryIndex) pickPaletteEntry(index, false, color);
+    if (index === secondaryIndex) pickPaletteEntry(index, true, color);
+    setGeneratedPalette(generatedPalette.map((c, i) => i === index ? color : c));
+  };
+
+  const handleCyclePalette = (reverse: boolean) => {
+    paletteEdit.current = { label: 'Cycle Colors' };
+    setGeneratedPalette(cyclePalette(generatedPalette, cycleRange.from, cycleRange.to, reverse));
+  };
+
+  const openColorModeModal = () => {
+    setIndexedForm(f => ({ ...f, source: generatedPalette.length > 0 ? f.source : 'quantize' }));
+    setColorModeError(null);
+    setIsColorModeModalOpen(true);
+  };
+
+  const handleConvertToIndexed = () => {
+    const canvases = documentCanvases(frames);
+    const palette = indexedForm.source === 'palette' ? generatedPalette
+      : quantize(canvases.map(c => c.getContext('2d')!.getImageData(0, 0, c.width, c.height)), indexedForm.colors, indexedForm.quantizer);
+    if (palette.length === 0) {
+      return setColorModeError(indexedForm.source === 'palette' ? "The palette is empty." : "There are no opaque pixels to build a palette from.");
+    }
+    if (palette.length > MAX_INDEXED_COLORS) return setColorModeError(`Indexed palettes hold at most ${MAX_INDEXED_COLORS} colors.`);
+
+    const patches = canvases.map(canvas => {
+      const capture = beginPixelCapture(canvas);
+      const imageData = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+      enforcePalette(imageData, palette, indexedForm.options);
+      canvas.getContext('2d')!.putImageData(imageData, 0, 0);
+      indexCanvas(canvas, palette);
+      return endPixelCapture(capture);
+    }).filter((patch): patch is PixelPatch => patch !== null);
+    const newFrames = frames.map(f => ({ ...f, layers: [...f.layers] }));
+    commitStructure('Convert to Indexed', { frames: newFrames, currentFrameIndex, activeLayerId, colorMode: 'indexed', palette }, patches);
+    setPrimaryColor(nearestPaletteColor(palette, primaryColor));
+    setSecondaryColor(nearestPaletteColor(palette, secondaryColor));
+    setIsColorModeModalOpen(false);
+  };
+
+  const handleConvertToRgba = () => {
+    commitStructure('Convert to RGBA', { frames, currentFrameIndex, activeLayerId, colorMode: 'rgba', palette: indexedPalette });
+    setIsColorModeModalOpen(false);
+  };
+
+  // -- Timeline --
+  // Layers are matched across frames by stack position, so the active layer follows frame changes.
+  const layerIdAt = (frame: Frame, position: number) => frame.layers[Math.max(0, Math.min(position, frame.layers.length - 1))]?.id ?? null;
+
+  const goToFrame = (index: number, position = activeLayerIndex) => {
+    setCurrentFrameIndex(index);
+    setActiveLayerId(layerIdAt(frames[index], position));
+  };
+
+  // A stale range (after undo or opening a file) falls back to the current frame.
+  const selectedRange = frameRange.to < frames.length ? frameRange : { from: currentFrameIndex, to: currentFrameIndex };
 
-    const newLayers = currentFrame.layers.map(l => {
-      const newLayer = createLayer(crypto.randomUUID(), l.name, canvasWidth, canvasHeight);
-      newLayer.context.drawImage(l.canvas, 0, 0);
-      return newLayer;
+  const handleSelectCel = (index: number, position: number, extend: boolean) => {
+    if (extend) {
+      setFrameRange(normalizeRange(rangeAnchor.current, index));
+    } else {
+      rangeAnchor.current = index;
+      setFrameRange({ from: index, to: index });
+    }
+    goToFrame(index, position);
+  };
+
+  const handleSelectRange = (range: FrameRange) => {
+    rangeAnchor.current = range.from;
+    setFrameRange(range);
+    if (!inRange(range, currentFrameIndex)) goToFrame(range.from);
+  };
+
+  // The current frame stays selected when it survives the edit; otherwise the edited range is shown.
+  const commitTimeline = (label: string, { frames: newFrames, tags: newTags, range }: TimelineEdit) => {
+    const followed = newFrames.findIndex(f => f.id === currentFrame.id);
+    const index = followed >= 0 ? followed : range.from;
+    rangeAnchor.current = range.from;
+    setFrameRange(range);
+    commitStructure(label, { frames: newFrames, currentFrameIndex: index, activeLayerId: layerIdAt(newFrames[index], activeLayerIndex), tags: newTags });
+  };
+
+  const handleAddFrame = () => {
+    const newFrame = createFrameLike(currentFrame, canvasWidth, canvasHeight);
+    const edit = insertFrames(frames, tags, currentFrameIndex + 1, [newFrame]);
+    rangeAnchor.current = edit.range.from;
+    setFrameRange(edit.range);
+    commitStructure('New Frame', { frames: edit.frames, currentFrameIndex: edit.range.from, activeLayerId: layerIdAt(newFrame, activeLayerIndex), tags: edit.tags });
+  };
+
+  const handleCopyFrames = () => commitTimeline('Copy Frames', copyFrames(frames, tags, selectedRange, canvasWidth, canvasHeight));
+
+  const handleMoveFrames = (to: number) => commitTimeline('Move Frames', moveFrames(frames, tags, selectedRange, to));
+
+  const handleReverseFrames = () => commitTimeline('Reverse Frames', reverseFrames(frames, tags, selectedRange));
+
+  const handleDeleteFrames = () => {
+    const edit = deleteFrames(frames, tags, selectedRange);
+    if (edit) commitTimeline('Delete Frames', edit);
+  };
+
+  // Links the active layer's cels in the selected frames to the first one, so they share its canvas.
+  const handleLinkCels = () => {
+    const source = frames[selectedRange.from].layers[activeLayerIndex];
+    if (rangeLength(selectedRange) < 2 || !source) return;
+    const newFrames = frames.map((f, i) => !inRange(selectedRange, i) ? f : {
+      ...f,
+      layers: f.layers.map((l, p) => p === activeLayerIndex ? { ...l, canvas: source.canvas, context: source.context, offset: { ...source.offset } } : l),
+    });
+    commitStructure('Link Cels', { frames: newFrames, currentFrameIndex, activeLayerId });
+  };
+
+  // Gives every linked cel of the active layer in the selection its own copy; the last cel of a link keeps the original.
+  const handleUnlinkCels = () => {
+    const uses = new Map<HTMLCanvasElement, number>();
+    frames.forEach(f => {
+      const cel = f.layers[activeLayerIndex];
+      if (cel && !isEmptyCel(cel)) uses.set(cel.canvas, (uses.get(cel.canvas) ?? 0) + 1);
+    });
+    let changed = false;
+    const newFrames = frames.map((f, i) => {
+      const cel = f.layers[activeLayerIndex];
+      if (!inRange(selectedRange, i) || !cel || (uses.get(cel.canvas) ?? 0) < 2) return f;
+      uses.set(cel.canvas, uses.get(cel.canvas)! - 1);
+      changed = true;
+      const canvas = cloneCanvas(cel.canvas);
+      copyIndices(cel.canvas, canvas);
+      const context = canvas.getContext('2d')!;
+      return { ...f, layers: f.layers.map((l, p) => p === activeLayerIndex ? { ...l, canvas, context } : l) };
     });
+    if (changed) commitStructure('Unlink Cels', { frames: newFrames, currentFrameIndex, activeLayerId });
+  };
+
+  const handleFrameDuration = (duration: number) => {
+    const newFrames = frames.map((f, i) => inRange(selectedRange, i) ? { ...f, duration } : f);
+    commitStructure('Frame Duration', { frames: newFrames, currentFrameIndex, activeLayerId }, [], `duration:${selectedRange.from}-${selectedRange.to}`);
+  };
+
+  const handleRenameFrame = (index: number, name: string) => {
+    const newFrames = frames.map((f, i) => i === index ? { ...f, name: name.trim() || undefined } : f);
+    commitStructure('Rename Frame', { frames: newFrames, currentFrameIndex, activeLayerId });
+  };
 
-    const newFrame: Frame = {
+  const commitTags = (label: string, newTags: AnimationTag[], coalesceKey?: string) => {
+    commitStructure(label, { frames, currentFrameIndex, activeLayerId, tags: newTags }, [], coalesceKey);
+  };
+
+  const handleAddTag = () => {
+    const tag: AnimationTag = {
       id: crypto.randomUUID(),
-      layers: newLayers,
-      duration: currentFrame.duration
+      name: `Tag ${tags.length + 1}`,
+      from: selectedRange.from,
+      to: selectedRange.to,
+      direction: 'forward',
+      repeat: 0,
+      color: TAG_COLORS[tags.length % TAG_COLORS.length],
     };
+    commitTags('New Tag', [...tags, tag]);
+  };
 
-    setFrames(prev => [...prev.slice(0, currentFrameIndex + 1), newFrame, ...prev.slice(currentFrameIndex + 1)]);
-    setCurrentFrameIndex(i => i + 1);
+  const handleTagChange = (id: string, patch: Partial<AnimationTag>) => {
+    commitTags('Edit Tag', tags.map(t => t.id === id ? { ...t, ...patch } : t), `tag:${id}:${Object.keys(patch).join(',')}`);
   };
 
-  const handleAddFrame = () => {
-    const newFrame = createFrame(canvasWidth, canvasHeight);
-    setFrames(prev => [...prev, newFrame]);
-    setCurrentFrameIndex(frames.length); // go to new frame
+  const handleDeleteTag = (id: string) => {
+    commitTags('Delete Tag', tags.filter(t => t.id !== id));
+    if (playTagId === id) setPlayTagId(null);
   };
 
-  const handleDeleteFrame = () => {
-    if (frames.length <= 1) return;
-    const newFrames = frames.filter((_, i) => i !== currentFrameIndex);
-    setFrames(newFrames);
-    setCurrentFrameIndex(Math.max(0, currentFrameIndex - 1));
+  const handlePlayTagChange = (id: string | null) => {
+    playback.current = null;
+    setPlayTagId(id);
   };
 
-  // Playback Loop
+  // Playback: each frame stays up for its own duration; a tag limits the range, direction and repeats.
   useEffect(() => {
-    if (!isPlaying) return;
-    const interval = setInterval(() => {
-      setCurrentFrameIndex(i => (i + 1) % frames.length);
-    }, 1000 / fps);
-    return () => clearInterval(interval);
-  }, [isPlaying, fps, frames.length]);
+    if (!isPlaying || frames.length === 0) {
+      playback.current = null;
+      return;
+    }
+    const tag = tags.find(t => t.id === playTagId) ?? null;
+    if (!playback.current) {
+      playback.current = startPlayback(tag, frames.length, currentFrameIndex);
+      if (playback.current.index !== currentFrameIndex) return goToFrame(playback.current.index);
+    }
+    const state = { ...playback.current, index: currentFrameIndex };
+    const timer = setTimeout(() => {
+      const next = advancePlayback(state, tag, frames.length);
+      if (!next) return setIsPlaying(false);
+      playback.current = next;
+      goToFrame(next.index);
+      setPlaybackTick(t => t + 1);
+    }, frames[currentFrameIndex]?.duration || DEFAULT_FRAME_DURATION);
+    return () => clearTimeout(timer);
+  }, [isPlaying, currentFrameIndex, playbackTick, playTagId, tags, frames.length]);
 
 
   // Keyboard Shortcuts
@@ -724,9 +1484,48 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
       if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
 
       const keyMap: { [key: string]: Tool } = {
-        'p': 'pencil', 'e': 'eraser', 'g': 'bucket', 'l': 'line', 'r': 'rectangle', 'm': 'move', 'h': 'pan', 'i': 'picker', 'b': 'lighten'
+        'p': 'pencil', 'e': 'eraser', 'g': 'bucket', 'l': 'line', 'r': 'rectangle', 'm': 'move', 'h': 'pan', 'i': 'picker', 'b': 'lighten', 's': 'select', 'w': 'magic-edit'
       };
-      if (keyMap[e.key.toLowerCase()]) {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 's') {
+        e.preventDefault();
+        handleSaveProject();
+        return;
+      }
+      if ((e.ctrlKey || e.metaKey) && ['c', 'x', 'v', 'a', 'd'].includes(e.key.toLowerCase())) {
+        e.preventDefault();
+        const key = e.key.toLowerCase();
+        if (key === 'c') handleCopy(false);
+        else if (key === 'x') handleCopy(true);
+        else if (key === 'v') handlePaste();
+        else if (key === 'a') setSelection(createMask(canvasWidth, canvasHeight, 1));
+        else setSelection(null);
+        return;
+      }
+      if (floating) {
+        const step = e.shiftKey ? 10 : 1;
+        const nudges: { [key: string]: [number, number] } = { ArrowLeft: [-step, 0], ArrowRight: [step, 0], ArrowUp: [0, -step], ArrowDown: [0, step] };
+        if (nudges[e.key]) {
+          e.preventDefault();
+          setFloating({ ...floating, x: floating.x + nudges[e.key][0], y: floating.y + nudges[e.key][1] });
+          return;
+        }
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          commitFloating();
+          return;
+        }
+        if (e.key === 'Escape') {
+          setFloating(null);
+          return;
+        }
+      } else if (e.key === 'Escape') {
+        setSelection(null);
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selection) {
+        e.preventDefault();
+        handleDeleteSelection();
+        return;
+      }
+      if (!e.ctrlKey && !e.metaKey && keyMap[e.key.toLowerCase()]) {
         setActiveTool(keyMap[e.key.toLowerCase()]);
         e.preventDefault();
       }
@@ -763,18 +1562,10 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
 
     ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-    // Onion Skin Rendering (Previous Frame)
-    if (showOnionSkin && currentFrameIndex > 0) {
-      const prevFrame = frames[currentFrameIndex - 1];
-      ctx.globalAlpha = 0.3; // Faint opacity
-      prevFrame.layers.forEach(layer => {
-        if (layer.isVisible) {
-          ctx.globalCompositeOperation = layer.blendMode;
-          ctx.drawImage(layer.canvas, layer.offset.x, layer.offset.y);
-        }
-      });
-      ctx.globalAlpha = 1.0;
-      ctx.globalCompositeOperation = 'source-over';
+    // Onion Skin Rendering, hidden while playing
+    if (showOnionSkin && !isPlaying) {
+      const onion = onionFrames(onionSkin, frames.length, currentFrameIndex, onionTag);
+      drawOnionSkin(ctx, frames, onion, onionSkin, activeLayerId, canvasWidth, canvasHeight);
     }
 
     layers.forEach(layer => {
@@ -782,6 +1573,7 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
         ctx.globalAlpha = layer.opacity;
         ctx.globalCompositeOperation = layer.blendMode;
         ctx.drawImage(layer.canvas, layer.offset.x, layer.offset.y);
+        if (floating && layer.id === activeLayerId) ctx.drawImage(floating.canvas, floating.x, floating.y);
       }
     });
 
@@ -807,14 +1599,70 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
       gridCtx.stroke();
     }
 
-  }, [layers, showGrid, zoom, canvasWidth, canvasHeight]);
+  }, [layers, showGrid, zoom, canvasWidth, canvasHeight, floating, activeLayerId, frames, currentFrameIndex, showOnionSkin, onionSkin, onionTag, isPlaying]);
+
+  // Marching ants around the selection or the floating paste
+  const selectionOutline = useMemo(() => selection ? maskOutlinePath(selection, zoom) : null, [selection, zoom]);
+
+  useEffect(() => {
+    if (!selection && !floating) return;
+    const interval = setInterval(() => setAntsPhase(p => (p + 1) % 8), 120);
+    return () => clearInterval(interval);
+  }, [selection, floating]);
+
+  useEffect(() => {
+    const overlay = selectionCanvasRef.current;
+    const ctx = overlay?.getContext('2d');
+    if (!overlay || !ctx) return;
+    overlay.width = canvasWidth * zoom;
+    overlay.height = canvasHeight * zoom;
+    ctx.clearRect(0, 0, overlay.width, overlay.height);
+
+    let path = selectionOutline;
+    if (floating) {
+      path = new Path2D();
+      path.rect(floating.x * zoom + 0.5, floating.y * zoom + 0.5, floating.canvas.width * zoom, floating.canvas.height * zoom);
+    }
+    if (!path) return;
+
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 4]);
+    ctx.lineDashOffset = -antsPhase;
+    ctx.strokeStyle = '#000000';
+    ctx.stroke(path);
+    ctx.lineDashOffset = 4 - antsPhase;
+    ctx.strokeStyle = '#FFFFFF';
+    ctx.stroke(path);
+  }, [selectionOutline, floating, antsPhase, zoom, canvasWidth, canvasHeight]);
+
+  // Magic edit mask overlay
+  useEffect(() => {
+    const previewCtx = previewCanvasRef.current?.getContext('2d');
+    if (!previewCtx) return;
+    previewCtx.clearRect(0, 0, canvasWidth, canvasHeight);
+    if (activeTool !== 'magic-edit' || !magicMask) return;
+    const overlay = previewCtx.createImageData(canvasWidth, canvasHeight);
+    for (let i = 0; i < magicMask.data.length; i++) {
+      if (magicMask.data[i]) {
+        overlay.data[i * 4] = 217;
+        overlay.data[i * 4 + 1] = 70;
+        overlay.data[i * 4 + 2] = 239;
+        overlay.data[i * 4 + 3] = 140;
+      }
+    }
+    previewCtx.putImageData(overlay, 0, 0);
+  }, [magicMask, activeTool, canvasWidth, canvasHeight]);
+
+  // Leaving the selection tools drops the pasted pixels onto the layer.
+  useEffect(() => {
+    if (floating && activeTool !== 'select' && activeTool !== 'move') commitFloating();
+  }, [activeTool]);
 
 
   if (!currentFrame || !activeLayer) {
     return <div className="w-full h-full flex items-center justify-center bg-slate-800 text-slate-400">Loading Editor...</div>;
   }
 
-  const activeLayerIndex = layers.findIndex(l => l.id === activeLayerId);
   const reversedLayers = useMemo(() => [...layers].reverse(), [layers]);
 
   return (
@@ -825,10 +1673,66 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
           <button title="Undo (Ctrl+Z)" onClick={handleUndo} disabled={historyIndex <= 0} className="p-2 rounded-md hover:bg-slate-700 disabled:opacity-50"><UndoIcon className="w-5 h-5" /></button>
           <button title="Redo (Ctrl+Y)" onClick={handleRedo} disabled={historyIndex >= historyStack.length - 1} className="p-2 rounded-md hover:bg-slate-700 disabled:opacity-50"><RedoIcon className="w-5 h-5" /></button>
         </div>
-        <div className="text-sm font-bold text-slate-400">Pixel Art Studio</div>
-        <button onClick={() => setIsExportModalOpen(true)} className="flex items-center gap-2 px-3 py-1.5 bg-cyan-500 text-slate-900 font-bold rounded-md hover:bg-cyan-400 text-sm">
-          <SaveIcon className="w-4 h-4" /> Save & Close
-        </button>
+        {activeTool === 'select' ? (
+          <div className="flex items-center gap-1 text-xs">
+            {(['rect', 'lasso'] as SelectionShape[]).map(shape => (
+              <button key={shape} onClick={() => setSelectionShape(shape)} className={`px-2 py-1 rounded-md ${selectionShape === shape ? 'bg-fuchsia-600' : 'bg-slate-700 hover:bg-slate-600'}`}>
+                {shape === 'rect' ? 'Rect' : 'Lasso'}
+              </button>
+            ))}
+            <div className="w-px h-5 bg-slate-600 mx-1"></div>
+            {SELECTION_MODES.map(({ mode, label, hint }) => (
+              <button key={mode} title={hint} onClick={() => setSelectionMode(mode)} className={`px-2 py-1 rounded-md ${selectionMode === mode ? 'bg-fuchsia-600' : 'bg-slate-700 hover:bg-slate-600'}`}>{label}</button>
+            ))}
+            <div className="w-px h-5 bg-slate-600 mx-1"></div>
+            {floating ? (
+              <>
+                <button title="Flip Horizontal" onClick={() => handleTransformFloating('flip-horizontal')} className="p-1 rounded-md bg-slate-700 hover:bg-slate-600"><FlipHorizontalIcon className="w-4 h-4" /></button>
+                <button title="Flip Vertical" onClick={() => handleTransformFloating('flip-vertical')} className="p-1 rounded-md bg-slate-700 hover:bg-slate-600"><FlipHorizontalIcon className="w-4 h-4 rotate-90" /></button>
+                <button title="Rotate 90° Counter-clockwise" onClick={() => handleTransformFloating('rotate-ccw')} className="px-2 py-1 rounded-md bg-slate-700 hover:bg-slate-600">-90°</button>
+                <button title="Rotate 90° Clockwise" onClick={() => handleTransformFloating('rotate-cw')} className="px-2 py-1 rounded-md bg-slate-700 hover:bg-slate-600">+90°</button>
+                <button title="Apply (Enter)" onClick={commitFloating} className="px-2 py-1 rounded-md bg-cyan-500 text-slate-900 font-bold hover:bg-cyan-400">Apply</button>
+                <button title="Cancel (Esc)" onClick={() => setFloating(null)} className="px-2 py-1 rounded-md bg-slate-700 hover:bg-slate-600">Cancel</button>
+              </>
+            ) : (
+              <>
+                <button title="Copy (Ctrl+C)" onClick={() => handleCopy(false)} className="px-2 py-1 rounded-md bg-slate-700 hover:bg-slate-600">Copy</button>
+                <button title="Cut (Ctrl+X)" onClick={() => handleCopy(true)} className="px-2 py-1 rounded-md bg-slate-700 hover:bg-slate-600">Cut</button>
+                <button title="Paste (Ctrl+V)" onClick={handlePaste} className="px-2 py-1 rounded-md bg-slate-700 hover:bg-slate-600">Paste</button>
+              </>
+            )}
+          </div>
+        ) : activeTool === 'magic-edit' ? (
+          <div className="flex items-center gap-1 text-xs">
+            <input type="text" value={magicPrompt} onChange={e => setMagicPrompt(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleMagicEdit()}
+              placeholder="Paint a mask, then describe the fix..." className="w-64 p-1.5 bg-slate-700 border-2 border-slate-600 rounded-md" disabled={isMagicLoading} />
+            <button onClick={handleMagicEdit} disabled={isMagicLoading || !magicMask || !magicPrompt.trim()} className="flex items-center gap-1 px-2 py-1.5 bg-fuchsia-600 rounded-md hover:bg-fuchsia-500 disabled:bg-slate-600">
+              <SparklesIcon className="w-4 h-4" /> {isMagicLoading ? 'Editing...' : 'Generate'}
+            </button>
+            <button title="Clear Mask" onClick={() => setMagicMask(null)} disabled={isMagicLoading || !magicMask} className="px-2 py-1.5 rounded-md bg-slate-700 hover:bg-slate-600 disabled:opacity-50">Clear Mask</button>
+            {magicError && <span className="text-red-400 truncate max-w-xs" title={magicError}>{magicError}</span>}
+          </div>
+        ) : (
+          <div className="text-sm font-bold text-slate-400">Pixel Art Studio</div>
+        )}
+        <div className="flex items-center gap-1">
+          {projectError && <span className="text-xs text-red-400 truncate max-w-xs" title={projectError}>{projectError}</span>}
+          <button title="Open Project" onClick={() => projectInputRef.current?.click()} className="p-2 rounded-md hover:bg-slate-700"><FileUpIcon className="w-5 h-5" /></button>
+          <input ref={projectInputRef} type="file" accept={`${PROJECT_EXTENSION},application/json`} className="hidden" onChange={e => {
+            if (e.target.files?.[0]) handleOpenProject(e.target.files[0]);
+            e.target.value = '';
+          }} />
+          <button title="Canvas Size, Crop & Scale" onClick={openSizeModal} className="p-2 rounded-md hover:bg-slate-700"><CropIcon className="w-5 h-5" /></button>
+          <button title="Import Aseprite (.ase/.aseprite)" onClick={() => asepriteInputRef.current?.click()} className="px-2 py-1 rounded-md hover:bg-slate-700 text-xs font-bold">ASE</button>
+          <input ref={asepriteInputRef} type="file" accept=".ase,.aseprite" className="hidden" onChange={e => {
+            if (e.target.files?.[0]) handleImportAseprite(e.target.files[0]);
+            e.target.value = '';
+          }} />
+          <button title="Save Project (Ctrl+S)" onClick={handleSaveProject} className="p-2 rounded-md hover:bg-slate-700"><DownloadIcon className="w-5 h-5" /></button>
+          <button onClick={() => setIsExportModalOpen(true)} className="flex items-center gap-2 px-3 py-1.5 bg-cyan-500 text-slate-900 font-bold rounded-md hover:bg-cyan-400 text-sm">
+            <SaveIcon className="w-4 h-4" /> Save & Close
+          </button>
+        </div>
       </div>
 
       <div className="flex-grow flex min-h-0">
@@ -843,6 +1747,8 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
             { tool: 'replace', icon: ColorReplaceIcon, label: 'Replace' },
             { tool: 'lighten', icon: LightenIcon, label: 'Lighten (B)' },
             { tool: 'picker', icon: DropperIcon, label: 'Picker (I)' },
+            { tool: 'select', icon: SelectionIcon, label: 'Select (S)' },
+            { tool: 'magic-edit', icon: MagicWandIcon, label: 'Magic Edit (W)' },
             { tool: 'move', icon: MoveIcon, label: 'Move (M)' },
             { tool: 'pan', icon: HandIcon, label: 'Pan (H)' },
           ].map(({ tool, icon: Icon, label }) => (
@@ -854,9 +1760,9 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
           ))}
           <div className="mt-auto flex relative py-2">
             <label htmlFor="secondary-color" className="block w-8 h-8 rounded-md border-2 border-slate-500 cursor-pointer absolute top-4 left-2 z-0" style={{ backgroundColor: secondaryColor }} />
-            <input id="secondary-color" type="color" value={secondaryColor} onChange={e => setSecondaryColor(e.target.value)} className="opacity-0 w-0 h-0" />
+            <input id="secondary-color" type="color" value={secondaryColor} onChange={e => setSecondaryColor(paintColor(e.target.value))} className="opacity-0 w-0 h-0" />
             <label htmlFor="primary-color" className="block w-10 h-10 rounded-md border-2 border-slate-500 cursor-pointer relative z-10" style={{ backgroundColor: primaryColor }} />
-            <input id="primary-color" type="color" value={primaryColor} onChange={e => setPrimaryColor(e.target.value)} className="opacity-0 w-0 h-0" />
+            <input id="primary-color" type="color" value={primaryColor} onChange={e => setPrimaryColor(paintColor(e.target.value))} className="opacity-0 w-0 h-0" />
           </div>
           <div className="w-full px-1 mt-2">
             <label className="text-xs text-slate-400">Size: {brushSize}</label>
@@ -872,33 +1778,20 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
                 <canvas ref={mainCanvasRef} className="absolute top-0 left-0" style={{ width: canvasWidth * zoom, height: canvasHeight * zoom }} width={canvasWidth} height={canvasHeight} />
                 <canvas ref={gridCanvasRef} className="absolute top-0 left-0 pointer-events-none" style={{ width: canvasWidth * zoom, height: canvasHeight * zoom }} width={canvasWidth} height={canvasHeight} />
                 <canvas ref={previewCanvasRef} className="absolute top-0 left-0 pointer-events-none" style={{ width: canvasWidth * zoom, height: canvasHeight * zoom }} width={canvasWidth} height={canvasHeight} />
+                <canvas ref={selectionCanvasRef} className="absolute top-0 left-0 pointer-events-none" style={{ width: canvasWidth * zoom, height: canvasHeight * zoom }} />
               </div>
             </div>
           </div>
 
-          {/* Timeline UI */}
-          <div className="h-24 bg-slate-900 border-t-2 border-slate-700 flex flex-col">
-            <div className="flex items-center gap-2 p-1 border-b border-slate-700 bg-slate-800 text-xs">
-              <button onClick={() => setIsPlaying(p => !p)} className={`p-1 w-8 flex items-center justify-center rounded ${isPlaying ? 'bg-red-500 text-white' : 'bg-green-500 text-white'}`}>
-                {isPlaying ? '||' : '>'}
-              </button>
-              <span>FPS: {fps}</span>
-              <input type="range" min="1" max="24" value={fps} onChange={e => setFps(parseInt(e.target.value))} className="w-24" />
-              <div className="flex-grow" />
-              <button onClick={handleDuplicateFrame} className="p-1 hover:bg-slate-700 rounded" title="Duplicate Frame"><DuplicateIcon className="w-4 h-4" /></button>
-              <button onClick={handleAddFrame} className="p-1 hover:bg-slate-700 rounded" title="New Frame"><PlusIcon className="w-4 h-4" /></button>
-              <button onClick={handleDeleteFrame} className="p-1 hover:bg-slate-700 rounded text-red-400" title="Delete Frame"><TrashIcon className="w-4 h-4" /></button>
-            </div>
-            <div className="flex-grow overflow-x-auto flex items-center gap-1 p-2 text-xs">
-              {frames.map((frame, idx) => (
-                <div key={frame.id} onClick={() => setCurrentFrameIndex(idx)}
-                  className={`flex-shrink-0 w-16 h-16 flex flex-col items-center justify-center border-2 rounded bg-slate-800 cursor-pointer ${currentFrameIndex === idx ? 'border-cyan-400 bg-slate-700' : 'border-slate-600 hover:border-slate-500'}`}>
-                  <span className="text-slate-500 font-bold">{idx + 1}</span>
-                  <span className="text-[10px] text-slate-500">{frame.layers.length} lyrs</span>
-                </div>
-              ))}
-            </div>
-          </div>
+          <Timeline
+            frames={frames} tags={tags} currentFrameIndex={currentFrameIndex} activeLayerIndex={activeLayerIndex} range={selectedRange}
+            isPlaying={isPlaying} playTagId={playTagId} onSelectCel={handleSelectCel} onSelectRange={handleSelectRange}
+            onTogglePlay={() => setIsPlaying(p => !p)} onPlayTagChange={handlePlayTagChange}
+            onAddFrame={handleAddFrame} onCopyFrames={handleCopyFrames} onDeleteFrames={handleDeleteFrames} onMoveFrames={handleMoveFrames}
+            onReverseFrames={handleReverseFrames} onDurationChange={handleFrameDuration} onRenameFrame={handleRenameFrame}
+            onLinkCels={handleLinkCels} onUnlinkCels={handleUnlinkCels}
+            onAddTag={handleAddTag} onTagChange={handleTagChange} onDeleteTag={handleDeleteTag}
+          />
         </div>
 
         {/* Right Panels */}
@@ -914,7 +1807,7 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
                     onClick={() => setActiveLayerId(layer.id)} onDoubleClick={() => setRenamingLayerId(layer.id)}
                     className={`p-1.5 rounded-md text-sm cursor-pointer flex items-center gap-2 ${activeLayerId === layer.id ? 'bg-fuchsia-600/40 border-fuchsia-500 border-2' : 'bg-slate-700/50 border-2 border-transparent'}`}>
                     <GrabIcon className="w-4 h-4 text-slate-500 cursor-grab" />
-                    <button onClick={(e) => { e.stopPropagation(); handleLayerPropChange(layer.id, { isVisible: !layer.isVisible }); }}>{layer.isVisible ? <EyeOpenIcon className="w-4 h-4" /> : <EyeClosedIcon className="w-4 h-4" />}</button>
+                    <button onClick={(e) => { e.stopPropagation(); handleLayerPropChange(layer.id, { isVisible: !layer.isVisible }, 'Toggle Visibility'); }}>{layer.isVisible ? <EyeOpenIcon className="w-4 h-4" /> : <EyeClosedIcon className="w-4 h-4" />}</button>
                     <div className="flex-grow overflow-hidden">
                       {renamingLayerId === layer.id ? (
                         <input ref={renameInputRef} type="text" defaultValue={layer.name} onBlur={handleFinishRename} onKeyDown={e => e.key === 'Enter' && handleFinishRename()} onClick={e => e.stopPropagation()} className="w-full bg-slate-900 text-white p-0 m-0 border-0 rounded text-sm" />
@@ -925,9 +1818,9 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
                         <div className="mt-2 space-y-2">
                           <div>
                             <label className="text-xs text-slate-400">Opacity</label>
-                            <input type="range" min="0" max="1" step="0.01" value={layer.opacity} onChange={e => handleLayerPropChange(layer.id, { opacity: parseFloat(e.target.value) })} onClick={e => e.stopPropagation()} className="w-full" />
+                            <input type="range" min="0" max="1" step="0.01" value={layer.opacity} onChange={e => handleLayerPropChange(layer.id, { opacity: parseFloat(e.target.value) }, 'Layer Opacity')} onClick={e => e.stopPropagation()} className="w-full" />
                           </div>
-                          <select value={layer.blendMode} onChange={(e) => handleLayerPropChange(layer.id, { blendMode: e.target.value as GlobalCompositeOperation })} onClick={e => e.stopPropagation()} className="w-full text-xs p-1 bg-slate-800 border border-slate-600 rounded">
+                          <select value={layer.blendMode} onChange={(e) => handleLayerPropChange(layer.id, { blendMode: e.target.value as GlobalCompositeOperation }, 'Blend Mode')} onClick={e => e.stopPropagation()} className="w-full text-xs p-1 bg-slate-800 border border-slate-600 rounded">
                             {BLEND_MODES.map(mode => <option key={mode} value={mode}>{mode}</option>)}
                           </select>
                         </div>
@@ -949,15 +1842,67 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
             </div>
           </div>
           <div className="border-t-2 border-slate-700 pt-2">
-            <h3 className="text-sm font-bold flex items-center gap-2 mb-2"><PaletteIcon className="w-4 h-4" />AI Palette</h3>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-bold flex items-center gap-2"><HistoryIcon className="w-4 h-4" />History</h3>
+              <select value={historyCapMB} onChange={e => handleHistoryCapChange(parseInt(e.target.value))} title="History memory limit" className="text-xs p-0.5 bg-slate-800 border border-slate-600 rounded">
+                {HISTORY_CAP_OPTIONS_MB.map(mb => <option key={mb} value={mb}>{mb} MB</option>)}
+              </select>
+            </div>
+            <ul className="max-h-40 overflow-y-auto space-y-0.5 bg-slate-900/50 p-1 rounded-md text-xs">
+              {historyStack.map((entry, i) => (
+                <li key={entry.id}>
+                  <button onClick={() => jumpToHistory(i)}
+                    className={`w-full text-left px-2 py-1 rounded ${i === historyIndex ? 'bg-fuchsia-600/40 text-white' : i > historyIndex ? 'text-slate-500 hover:bg-slate-700/50' : 'text-slate-300 hover:bg-slate-700/50'}`}>
+                    {entry.label}
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <p className="text-[10px] text-slate-500 mt-1">{formatBytes(historySize(historyStack))} of {historyCapMB} MB used</p>
+          </div>
+          <div className="border-t-2 border-slate-700 pt-2">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-bold flex items-center gap-2"><PaletteIcon className="w-4 h-4" />Palette</h3>
+              <button onClick={openColorModeModal} title="Change color mode" className={`text-xs px-2 py-0.5 rounded-md font-bold ${colorMode === 'indexed' ? 'bg-amber-500 text-slate-900 hover:bg-amber-400' : 'bg-slate-700 hover:bg-slate-600'}`}>
+                {colorMode === 'indexed' ? `Indexed (${indexedPalette.length})` : 'RGBA'}
+              </button>
+            </div>
+            <div className="flex gap-1 mb-1">
+              <select value={palettes.some(p => p.id === activePaletteId) ? activePaletteId! : ''} onChange={e => e.target.value && onSelectPalette(e.target.value)} className="w-full text-xs p-1 bg-slate-700 border-2 border-slate-600 rounded-md">
+                <option value="">Unsaved palette</option>
+                {palettes.map(palette => <option key={palette.id} value={palette.id}>{palette.name}</option>)}
+              </select>
+              <button onClick={onManagePalettes} className="text-xs px-2 bg-slate-700 hover:bg-slate-600 rounded-md" title="Edit, import and export palettes">Manage</button>
+            </div>
             <div className="flex gap-1">
               <input type="text" value={palettePrompt} onChange={e => setPalettePrompt(e.target.value)} placeholder="e.g. enchanted forest" className="w-full text-xs p-2 bg-slate-700 border-2 border-slate-600 rounded-md" />
               <button onClick={() => { setIsPaletteLoading(true); generateAIPalette(palettePrompt).then(setGeneratedPalette).finally(() => setIsPaletteLoading(false)); }} disabled={isPaletteLoading} className="p-2 bg-fuchsia-600 rounded-md hover:bg-fuchsia-500 disabled:bg-slate-600"> <SparklesIcon className="w-4 h-4" /> </button>
             </div>
-            <button onClick={handleExtractPalette} className="text-xs w-full mt-1 p-1 bg-slate-700 hover:bg-slate-600 rounded">Extract Palette from Layer (24 colors)</button>
+            <button onClick={handleExtractPalette} disabled={colorMode === 'indexed'} title={colorMode === 'indexed' ? 'Convert to RGBA to extract a new palette' : undefined} className="text-xs w-full mt-1 p-1 bg-slate-700 hover:bg-slate-600 rounded disabled:opacity-50">Extract Palette from Layer (24 colors)</button>
             <div className="grid grid-cols-8 gap-1 mt-2">
-              {generatedPalette.map((color, i) => (<button key={`${color}-${i}`} onClick={() => setPrimaryColor(color)} onContextMenu={(e) => { e.preventDefault(); setSecondaryColor(color); }} style={{ backgroundColor: color }} className="w-full aspect-square rounded-md border-2 border-transparent hover:border-cyan-400" />))}
+              {generatedPalette.map((color, i) => (<button key={`${color}-${i}`} title={colorMode === 'indexed' ? `${i}: ${color}` : color} onClick={() => pickPaletteEntry(i)} onContextMenu={(e) => { e.preventDefault(); pickPaletteEntry(i, true); }} style={{ backgroundColor: color }}
+                className={`w-full aspect-square rounded-md border-2 hover:border-cyan-400 ${colorMode === 'indexed' && i === primaryIndex ? 'border-white' : 'border-transparent'}`} />))}
             </div>
+            {colorMode === 'indexed' && (
+              <div className="mt-2 space-y-2 text-xs">
+                {primaryIndex >= 0 && (
+                  <label className="flex items-center gap-2" title="Recolors every pixel using this entry, in all frames. Other entries with the same color are left alone.">
+                    Entry {primaryIndex}
+                    <input type="color" value={generatedPalette[primaryIndex]} onChange={e => handleEditPaletteEntry(primaryIndex, e.target.value)} className="w-8 h-6 bg-transparent" />
+                    <span className="text-slate-400">{generatedPalette[primaryIndex]}</span>
+                  </label>
+                )}
+                <div className="flex items-center gap-1" title="Rotate a range of entries to animate the colors using them">
+                  Cycle
+                  <input type="number" min="0" max={generatedPalette.length - 1} value={cycleRange.from} onChange={e => setCycleRange(r => ({ ...r, from: parseInt(e.target.value) || 0 }))} className="w-12 bg-slate-700 p-1 rounded" />
+                  to
+                  <input type="number" min="0" max={generatedPalette.length - 1} value={cycleRange.to} onChange={e => setCycleRange(r => ({ ...r, to: parseInt(e.target.value) || 0 }))} className="w-12 bg-slate-700 p-1 rounded" />
+                  <button onClick={() => handleCyclePalette(true)} className="px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded" title="Cycle backward">&lt;</button>
+                  <button onClick={() => handleCyclePalette(false)} className="px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded" title="Cycle forward">&gt;</button>
+                </div>
+              </div>
+            )}
+            {colorModeError && !isColorModeModalOpen && <p className="text-xs text-red-400 mt-1">{colorModeError}</p>}
           </div>
           <div className="border-t-2 border-slate-700 pt-2">
             <h3 className="text-sm font-bold flex items-center gap-2 mb-2"><ImageIcon className="w-4 h-4" />Reference</h3>
@@ -987,6 +1932,14 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
           <button title="Vertical Symmetry" onClick={() => setSymmetryMode('vertical')} className={`p-1 rounded ${symmetryMode === 'vertical' ? 'text-cyan-400' : 'text-slate-300'}`}><SymmetryVerticalIcon className="w-5 h-5" /></button>
           <div className="w-px h-5 bg-slate-600 mx-1"></div>
           <button title="Toggle Onion Skin" onClick={() => setShowOnionSkin(s => !s)} className={`p-1 rounded ${showOnionSkin ? 'text-cyan-400' : 'text-slate-400'}`}><EyeOpenIcon className="w-5 h-5 opacity-50" /></button>
+          <div className="relative">
+            <button title="Onion Skin Settings" onClick={() => setIsOnionPanelOpen(o => !o)} className={`p-1 rounded ${isOnionPanelOpen ? 'text-cyan-400' : 'text-slate-400'}`}><SettingsIcon className="w-4 h-4" /></button>
+            {isOnionPanelOpen && (
+              <div className="absolute bottom-full right-0 mb-2 z-40">
+                <OnionSkinPanel settings={onionSkin} onChange={settings => { setOnionSkin(settings); setShowOnionSkin(true); }} />
+              </div>
+            )}
+          </div>
           <button title="Toggle Grid" onClick={() => setShowGrid(s => !s)} className={`p-1 rounded ${showGrid ? 'text-cyan-400' : 'text-slate-400'}`}><GridIcon className="w-5 h-5" /></button>
         </div>
         <div className="w-24 text-right text-xs text-slate-400">{canvasWidth} x {canvasHeight}</div>
@@ -994,7 +1947,7 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
 
       {isExportModalOpen && (
         <div className="absolute inset-0 bg-black/50 flex items-center justify-center z-50">
-          <div className="bg-slate-800 border-2 border-slate-600 rounded-lg p-6 shadow-lg text-white">
+          <div className="bg-slate-800 border-2 border-slate-600 rounded-lg p-6 shadow-lg text-white max-h-[90vh] overflow-y-auto">
             <div className="flex justify-between items-center mb-4">
               <h2 className="text-lg font-bold">Export Image</h2>
               <button onClick={() => setIsExportModalOpen(false)}><XIcon className="w-6 h-6" /></button>
@@ -1008,47 +1961,229 @@ const Editor: React.FC<EditorProps> = ({ initialState, onSave }) => {
               ))}
             </div>
 
+            {colorMode === 'indexed' && (
+              <div className="mt-4 border-t border-slate-600 pt-4">
+                <h3 className="text-sm font-bold mb-2">Indexed PNG</h3>
+                <p className="text-xs text-slate-400 mb-2">Downloads the current frame as a {indexedPalette.length}-color palette PNG, keeping the palette order.</p>
+                <div className="grid grid-cols-4 gap-2">
+                  {[1, 2, 4, 8].map(scale => (
+                    <button key={scale} onClick={() => handleExportIndexedPng(scale)} className="p-2 bg-slate-700 hover:bg-amber-500 hover:text-slate-900 rounded-md font-bold text-sm">{scale}x</button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="mt-4 border-t border-slate-600 pt-4">
+              <h3 className="text-sm font-bold mb-2">Sprite Sheet + Atlas</h3>
+              <div className="grid grid-cols-2 gap-2 text-xs">
+                <label className="flex flex-col gap-1">Layout
+                  <select value={sheetOptions.layout} onChange={e => setSheetOptions(o => ({ ...o, layout: e.target.value as SheetLayout }))} className="bg-slate-700 p-1 rounded">
+                    <option value="grid">Grid</option>
+                    <option value="row">Single Row</option>
+                    <option value="column">Single Column</option>
+                    <option value="packed">Bin Packed</option>
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1">Atlas Format
+                  <select value={sheetOptions.format} onChange={e => setSheetOptions(o => ({ ...o, format: e.target.value as AtlasFormat }))} className="bg-slate-700 p-1 rounded">
+                    {ATLAS_FORMATS.map(({ format, label }) => <option key={format} value={format}>{label}</option>)}
+                  </select>
+                </label>
+                {sheetOptions.layout === 'grid' && (
+                  <label className="flex flex-col gap-1">Columns
+                    <input type="number" min="1" value={sheetOptions.columns} onChange={e => setSheetOptions(o => ({ ...o, columns: Math.max(1, parseInt(e.target.value) || 1) }))} className="bg-slate-700 p-1 rounded" />
+                  </label>
+                )}
+                <label className="flex flex-col gap-1">Scale
+                  <select value={sheetOptions.scale} onChange={e => setSheetOptions(o => ({ ...o, scale: parseInt(e.target.value) }))} className="bg-slate-700 p-1 rounded">
+                    {[1, 2, 4, 8].map(scale => <option key={scale} value={scale}>{scale}x</option>)}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1">Padding
+                  <input type="number" min="0" value={sheetOptions.padding} onChange={e => setSheetOptions(o => ({ ...o, padding: Math.max(0, parseInt(e.target.value) || 0) }))} className="bg-slate-700 p-1 rounded" />
+                </label>
+                <label className="flex flex-col gap-1">Extrude
+                  <input type="number" min="0" value={sheetOptions.extrude} onChange={e => setSheetOptions(o => ({ ...o, extrude: Math.max(0, parseInt(e.target.value) || 0) }))} className="bg-slate-700 p-1 rounded" />
+                </label>
+                <label className="flex flex-col gap-1">Pivot X
+                  <input type="number" min="0" max="1" step="0.05" value={sheetOptions.pivot.x} onChange={e => setSheetOptions(o => ({ ...o, pivot: { ...o.pivot, x: parseFloat(e.target.value) || 0 } }))} className="bg-slate-700 p-1 rounded" />
+                </label>
+                <label className="flex flex-col gap-1">Pivot Y
+                  <input type="number" min="0" max="1" step="0.05" value={sheetOptions.pivot.y} onChange={e => setSheetOptions(o => ({ ...o, pivot: { ...o.pivot, y: parseFloat(e.target.value) || 0 } }))} className="bg-slate-700 p-1 rounded" />
+                </label>
+                <label className="flex items-center gap-2 col-span-2">
+                  <input type="checkbox" checked={sheetOptions.trim} onChange={e => setSheetOptions(o => ({ ...o, trim: e.target.checked }))} /> Trim transparent borders
+                </label>
+              </div>
+              <button onClick={handleExportSpriteSheet} className="w-full mt-2 p-3 bg-cyan-500 text-slate-900 hover:bg-cyan-400 rounded-md font-bold">
+                Download Sheet (.png + .json)
+              </button>
+            </div>
+
             <div className="mt-4 border-t border-slate-600 pt-4">
               <h3 className="text-sm font-bold mb-2">Animations</h3>
-              <button onClick={async () => {
-                const { GIFEncoder, quantize, applyPalette } = await import('gifenc');
-
-                const encoder = new GIFEncoder();
-
-                const tempCanvas = document.createElement('canvas');
-                tempCanvas.width = canvasWidth;
-                tempCanvas.height = canvasHeight;
-                const tempCtx = tempCanvas.getContext('2d', { willReadFrequently: true })!;
-
-                frames.forEach(frame => {
-                  tempCtx.clearRect(0, 0, canvasWidth, canvasHeight);
-                  // Draw layers
-                  frame.layers.forEach(l => {
-                    if (l.isVisible) tempCtx.drawImage(l.canvas, l.offset.y, l.offset.y);
-                  });
-
-                  const { data } = tempCtx.getImageData(0, 0, canvasWidth, canvasHeight);
-                  const palette = quantize(data, 256);
-                  const index = applyPalette(data, palette);
-
-                  encoder.writeFrame(index, canvasWidth, canvasHeight, { palette, delay: 1000 / fps });
-                });
-
-                encoder.finish();
-
-                const buffer = encoder.bytesView();
-                const blob = new Blob([buffer], { type: 'image/gif' });
-                const url = URL.createObjectURL(blob);
-                const a = document.createElement('a');
-                a.href = url;
-                a.download = 'pixelart_animation.gif';
-                a.click();
-                setIsExportModalOpen(false);
-              }} className="w-full p-3 bg-fuchsia-600 hover:bg-fuchsia-500 rounded-md font-bold flex items-center justify-center gap-2">
-                Download GIF Animation
+              <div className="grid grid-cols-2 gap-2 text-xs mb-2">
+                <label className="flex flex-col gap-1">Format
+                  <select value={animationOptions.format} onChange={e => setAnimationOptions(o => ({ ...o, format: e.target.value as AnimationFormat }))} className="bg-slate-700 p-1 rounded">
+                    {ANIMATION_FORMATS.map(({ format, label }) => <option key={format} value={format}>{label}</option>)}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1">Frames
+                  <select value={tags.some(t => t.id === animationOptions.source) || animationOptions.source === 'selection' ? animationOptions.source : 'all'}
+                    onChange={e => setAnimationOptions(o => ({ ...o, source: e.target.value }))} className="bg-slate-700 p-1 rounded">
+                    <option value="all">All frames</option>
+                    <option value="selection">Selected frames ({selectedRange.from + 1}-{selectedRange.to + 1})</option>
+                    {tags.map(tag => <option key={tag.id} value={tag.id}>Tag: {tag.name}</option>)}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1">Scale
+                  <select value={animationOptions.scale} onChange={e => setAnimationOptions(o => ({ ...o, scale: parseInt(e.target.value) }))} className="bg-slate-700 p-1 rounded">
+                    {[1, 2, 4, 8].map(scale => <option key={scale} value={scale}>{scale}x ({canvasWidth * scale}px)</option>)}
+                  </select>
+                </label>
+                {(animationOptions.format === 'gif' || animationOptions.format === 'apng' || animationOptions.format === 'webp') && (
+                  <label className="flex items-center gap-2 self-end pb-1">
+                    <input type="checkbox" checked={animationOptions.loop} onChange={e => setAnimationOptions(o => ({ ...o, loop: e.target.checked }))} /> Loop forever
+                  </label>
+                )}
+                {animationOptions.format === 'png-sequence' && (
+                  <label className="flex flex-col gap-1 col-span-2">File names
+                    <input type="text" value={animationOptions.nameTemplate} onChange={e => setAnimationOptions(o => ({ ...o, nameTemplate: e.target.value }))} className="bg-slate-700 p-1 rounded font-mono" />
+                    <span className="text-slate-500">Tokens: {NAME_TEMPLATE_TOKENS}. A timing.json with each frame's duration is included.</span>
+                  </label>
+                )}
+              </div>
+              {animationOptions.format === 'gif' && <p className="text-xs text-slate-500 mb-2">One palette for all frames{colorMode === 'indexed' ? ' (the document palette when it fits)' : ''}; semi-transparent pixels become fully opaque or transparent.</p>}
+              {animationOptions.format === 'video' && <p className="text-xs text-slate-500 mb-2">{supportedVideoType() ? 'Recorded in real time, so this takes as long as the animation plays.' : 'This browser cannot record video.'}</p>}
+              {animationExportError && <p className="text-xs text-red-400 mb-2">{animationExportError}</p>}
+              <button onClick={handleExportAnimation} disabled={isExportingAnimation} className="w-full p-3 bg-fuchsia-600 hover:bg-fuchsia-500 rounded-md font-bold flex items-center justify-center gap-2 disabled:opacity-50">
+                {isExportingAnimation ? 'Exporting...' : 'Download Animation'}
               </button>
+              <button onClick={handleExportAseprite} className="w-full mt-2 p-3 bg-slate-700 hover:bg-slate-600 rounded-md font-bold flex items-center justify-center gap-2">
+                Download .aseprite (layers, frames & tags)
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isSizeModalOpen && (
+        <div className="absolute inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-slate-800 border-2 border-slate-600 rounded-lg p-6 shadow-lg text-white w-96 max-h-[90vh] overflow-y-auto text-sm">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-bold">Canvas & Image Size</h2>
+              <button onClick={() => setIsSizeModalOpen(false)}><XIcon className="w-6 h-6" /></button>
+            </div>
+            <p className="text-xs text-slate-400 mb-4">Applies to every layer in every frame. Current size: {canvasWidth} x {canvasHeight}</p>
+
+            <h3 className="font-bold mb-2">Canvas Size</h3>
+            <div className="flex gap-4 items-start">
+              <div className="flex flex-col gap-2">
+                <label className="flex items-center gap-2">W <input type="number" min="1" value={sizeForm.width} onChange={e => setSizeForm(f => ({ ...f, width: parseInt(e.target.value) || 0 }))} className="w-20 bg-slate-700 p-1 rounded" /></label>
+                <label className="flex items-center gap-2">H <input type="number" min="1" value={sizeForm.height} onChange={e => setSizeForm(f => ({ ...f, height: parseInt(e.target.value) || 0 }))} className="w-20 bg-slate-700 p-1 rounded" /></label>
+              </div>
+              <div className="grid grid-cols-3 gap-1" title="Anchor">
+                {ANCHORS.map(anchor => (
+                  <button key={`${anchor.x}-${anchor.y}`} onClick={() => setSizeForm(f => ({ ...f, anchor }))}
+                    className={`w-6 h-6 rounded border ${sizeForm.anchor.x === anchor.x && sizeForm.anchor.y === anchor.y ? 'bg-fuchsia-600 border-fuchsia-400' : 'bg-slate-700 border-slate-600 hover:bg-slate-600'}`} />
+                ))}
+              </div>
+            </div>
+            <button onClick={handleResizeCanvas} className="w-full mt-2 p-2 bg-cyan-500 text-slate-900 hover:bg-cyan-400 rounded-md font-bold">Resize Canvas</button>
+
+            <h3 className="font-bold mt-4 mb-2 border-t border-slate-600 pt-4">Crop</h3>
+            <div className="grid grid-cols-3 gap-2">
+              <button onClick={handleCropToSelection} disabled={!selection} className="p-2 bg-slate-700 hover:bg-slate-600 rounded-md disabled:opacity-50">To Selection</button>
+              <button onClick={() => handleCropToContent(false)} className="p-2 bg-slate-700 hover:bg-slate-600 rounded-md" title="Crop to the visible pixels of this frame">To Content</button>
+              <button onClick={() => handleCropToContent(true)} className="p-2 bg-slate-700 hover:bg-slate-600 rounded-md" title="Remove transparent borders shared by all frames">Trim</button>
+            </div>
+
+            <h3 className="font-bold mt-4 mb-2 border-t border-slate-600 pt-4">Image Scale</h3>
+            <div className="flex flex-col gap-2">
+              <select value={sizeForm.algorithm} onChange={e => {
+                const algorithm = e.target.value as ScaleAlgorithm;
+                const factors = SCALE_ALGORITHMS.find(a => a.algorithm === algorithm)?.factors;
+                setSizeForm(f => ({ ...f, algorithm, scale: factors && !factors.includes(f.scale) ? factors[0] : f.scale }));
+              }} className="bg-slate-700 p-1 rounded">
+                {SCALE_ALGORITHMS.map(option => <option key={option.algorithm} value={option.algorithm}>{option.label}</option>)}
+              </select>
+              <div className="flex items-center gap-2">
+                <span>Scale</span>
+                {SCALE_ALGORITHMS.find(a => a.algorithm === sizeForm.algorithm)?.factors ? (
+                  <select value={sizeForm.scale} onChange={e => setSizeForm(f => ({ ...f, scale: parseFloat(e.target.value) }))} className="bg-slate-700 p-1 rounded">
+                    {SCALE_ALGORITHMS.find(a => a.algorithm === sizeForm.algorithm)!.factors!.map(factor => <option key={factor} value={factor}>{factor}x</option>)}
+                  </select>
+                ) : (
+                  <input type="number" min="0.1" step="0.25" value={sizeForm.scale} onChange={e => setSizeForm(f => ({ ...f, scale: parseFloat(e.target.value) || 1 }))} className="w-20 bg-slate-700 p-1 rounded" />
+                )}
+                <span className="text-xs text-slate-400">→ {Math.max(1, Math.round(canvasWidth * sizeForm.scale))} x {Math.max(1, Math.round(canvasHeight * sizeForm.scale))}</span>
+              </div>
+              {sizeForm.algorithm === 'rotsprite' && (
+                <>
+                  <label className="flex items-center gap-2">Rotate <input type="number" step="15" value={sizeForm.angle} onChange={e => setSizeForm(f => ({ ...f, angle: parseFloat(e.target.value) || 0 }))} className="w-20 bg-slate-700 p-1 rounded" /> deg</label>
+                  <p className="text-xs text-slate-400">Works on the drawn part of each layer, up to {ROTSPRITE_MAX_SIZE} x {ROTSPRITE_MAX_SIZE} pixels.</p>
+                </>
+              )}
+              <button onClick={handleScaleImage} className="w-full p-2 bg-cyan-500 text-slate-900 hover:bg-cyan-400 rounded-md font-bold">Scale Image</button>
+            </div>
+            {sizeError && <p className="text-xs text-red-400 mt-2">{sizeError}</p>}
+          </div>
+        </div>
+      )}
+
+      {isColorModeModalOpen && (
+        <div className="absolute inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-slate-800 border-2 border-slate-600 rounded-lg p-6 shadow-lg text-white w-96 max-h-[90vh] overflow-y-auto text-sm">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-bold">Color Mode</h2>
+              <button onClick={() => setIsColorModeModalOpen(false)}><XIcon className="w-6 h-6" /></button>
             </div>
+            {colorMode === 'indexed' ? (
+              <>
+                <p className="text-xs text-slate-400 mb-4">Every layer stores an index into the {indexedPalette.length}-color document palette for each pixel. Converting to RGBA keeps the pixels as they are, but palette edits no longer recolor the artwork.</p>
+                <button onClick={handleConvertToRgba} className="w-full p-2 bg-cyan-500 text-slate-900 hover:bg-cyan-400 rounded-md font-bold">Convert to RGBA</button>
+              </>
+            ) : (
+              <>
+                <p className="text-xs text-slate-400 mb-4">Maps every layer of every frame onto one palette and stores a palette index per pixel. Afterwards, editing a palette entry recolors every pixel that uses it, even when other entries share its color.</p>
+                <div className="flex flex-col gap-2">
+                  <label className="flex items-center gap-2">
+                    <input type="radio" checked={indexedForm.source === 'quantize'} onChange={() => setIndexedForm(f => ({ ...f, source: 'quantize' }))} /> Reduce the artwork's colors
+                  </label>
+                  {indexedForm.source === 'quantize' && (
+                    <div className="flex items-center gap-2 pl-6 text-xs">
+                      <select value={indexedForm.quantizer} onChange={e => setIndexedForm(f => ({ ...f, quantizer: e.target.value as Quantizer }))} className="bg-slate-700 p-1 rounded">
+                        {QUANTIZERS.map(({ quantizer, label }) => <option key={quantizer} value={quantizer}>{label}</option>)}
+                      </select>
+                      <label className="flex items-center gap-1">Colors
+                        <input type="number" min="2" max={MAX_INDEXED_COLORS} value={indexedForm.colors} onChange={e => setIndexedForm(f => ({ ...f, colors: Math.max(2, Math.min(MAX_INDEXED_COLORS, parseInt(e.target.value) || 2)) }))} className="w-16 bg-slate-700 p-1 rounded" />
+                      </label>
+                    </div>
+                  )}
+                  <label className="flex items-center gap-2">
+                    <input type="radio" checked={indexedForm.source === 'palette'} disabled={generatedPalette.length === 0} onChange={() => setIndexedForm(f => ({ ...f, source: 'palette' }))} /> Use the current palette ({generatedPalette.length} colors)
+                  </label>
+                  <div className="border-t border-slate-600 pt-2">
+                    <PaletteMatchControls options={indexedForm.options} onChange={options => setIndexedForm(f => ({ ...f, options }))} />
+                  </div>
+                </div>
+                <button onClick={handleConvertToIndexed} className="w-full mt-4 p-2 bg-amber-500 text-slate-900 hover:bg-amber-400 rounded-md font-bold">Convert to Indexed</button>
+              </>
+            )}
+            {colorModeError && <p className="text-xs text-red-400 mt-2">{colorModeError}</p>}
+          </div>
+        </div>
+      )}
+
+      {importWarnings.length > 0 && (
+        <div className="absolute bottom-10 left-1/2 -translate-x-1/2 z-40 w-[28rem] bg-slate-800 border-2 border-amber-500/60 rounded-lg p-3 shadow-lg text-xs">
+          <div className="flex justify-between items-center mb-1">
+            <h3 className="font-bold text-amber-400">Some data could not be carried over</h3>
+            <button onClick={() => setImportWarnings([])}><XIcon className="w-4 h-4" /></button>
           </div>
+          <ul className="list-disc pl-4 space-y-0.5 text-slate-300 max-h-32 overflow-y-auto">
+            {importWarnings.map(warning => <li key={warning}>{warning}</li>)}
+          </ul>
         </div>
       )}
     </div>
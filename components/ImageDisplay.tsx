@@ -1,11 +1,12 @@
 
-import React from 'react';
-import { DownloadIcon, EditIcon } from './icons';
+import React, { useState } from 'react';
+import { DownloadIcon, EditIcon, SparklesIcon, WandSparklesIcon, CopyIcon, PencilIcon, PaletteIcon } from './icons';
 import type { GeneratedAsset } from '../App';
-
-const sanitizeFilename = (prompt: string): string => {
-  return prompt.toLowerCase().substring(0, 30).replace(/[^a-z0-9\s-]/g, '').replace(/\s+/g, '-').trim() || 'untitled';
-};
+import { SliceAlignment, SLICE_ALIGNMENTS } from '../utils/sheetSlicer';
+import { PixelSnapOptions, CellSampling, DEFAULT_PIXEL_SNAP_OPTIONS } from '../utils/pixelSnap';
+import { sanitizeFilename } from '../utils/files';
+import { VideoImportOptions, DEFAULT_VIDEO_IMPORT_OPTIONS } from '../utils/videoFrames';
+import { Quantizer, QUANTIZERS } from '../utils/quantizers';
 
 const LoadingSpinner: React.FC<{ message: string }> = ({ message }) => (
     <div className="flex flex-col items-center justify-center gap-4 text-cyan-400">
@@ -26,9 +27,21 @@ interface ImageDisplayProps {
   error: string | null;
   loadingMessage: string;
   onEdit: (asset: GeneratedAsset) => void;
+  onEditFrames: (asset: GeneratedAsset, alignment: SliceAlignment) => void;
+  onEditVideoFrames: (asset: GeneratedAsset, options: VideoImportOptions) => void;
+  videoImportProgress: string | null; // set while a video is being turned into frames
+  onPixelSnap: (asset: GeneratedAsset, options: PixelSnapOptions) => void;
+  onLockPalette: (asset: GeneratedAsset) => void;
+  onRegenerate: (asset: GeneratedAsset) => void;
+  onLoadSettings: (asset: GeneratedAsset, remix: boolean) => void;
 }
 
-const ImageDisplay: React.FC<ImageDisplayProps> = ({ asset, isLoading, error, loadingMessage, onEdit }) => {
+const ImageDisplay: React.FC<ImageDisplayProps> = ({ asset, isLoading, error, loadingMessage, onEdit, onEditFrames, onEditVideoFrames, videoImportProgress, onPixelSnap, onLockPalette, onRegenerate, onLoadSettings }) => {
+  const [alignment, setAlignment] = useState<SliceAlignment>('baseline');
+  const [showSnapOptions, setShowSnapOptions] = useState(false);
+  const [snapOptions, setSnapOptions] = useState<PixelSnapOptions>(DEFAULT_PIXEL_SNAP_OPTIONS);
+  const [showVideoOptions, setShowVideoOptions] = useState(false);
+  const [videoOptions, setVideoOptions] = useState<VideoImportOptions>(DEFAULT_VIDEO_IMPORT_OPTIONS);
   const containerClasses = "w-full h-full max-h-[calc(100vh-10rem)] flex items-center justify-center flex-col gap-4";
 
   if (isLoading) return <div className={containerClasses}><LoadingSpinner message={loadingMessage} /></div>;
@@ -41,6 +54,9 @@ const ImageDisplay: React.FC<ImageDisplayProps> = ({ asset, isLoading, error, lo
   const baseButtonClasses = "inline-flex items-center gap-2 px-4 py-2 text-sm font-bold transition-all duration-200 border-2 rounded-lg shadow-md shadow-black/40 transform hover:-translate-y-px active:translate-y-0 active:shadow-inner";
   const cyanButtonClasses = "bg-cyan-500 text-slate-900 border-cyan-400 hover:bg-cyan-400 hover:border-cyan-300";
   const fuchsiaButtonClasses = "bg-fuchsia-600 text-white border-fuchsia-500 hover:bg-fuchsia-500 hover:border-fuchsia-400";
+  const slateButtonClasses = "bg-slate-800 text-slate-200 border-slate-600 hover:bg-slate-700";
+  // Only assets that came out of the prompt form carry settings worth reusing.
+  const hasSettings = !!asset.promptData?.stylePreset;
 
   return (
     <div className={containerClasses}>
@@ -63,7 +79,106 @@ const ImageDisplay: React.FC<ImageDisplayProps> = ({ asset, isLoading, error, lo
                 <EditIcon className="w-5 h-5" /> Edit in Studio
             </button>
         )}
+        {asset.type === 'image' && (
+             <button onClick={() => setShowSnapOptions(v => !v)} className={`${baseButtonClasses} ${showSnapOptions ? cyanButtonClasses : slateButtonClasses}`}>
+                <SparklesIcon className="w-5 h-5" /> Pixel Snap
+            </button>
+        )}
+        {asset.type !== 'animation' && (
+          <button onClick={() => onLockPalette(asset)} title="Map this image onto the Palette Lock palette" className={`${baseButtonClasses} ${slateButtonClasses}`}>
+            <PaletteIcon className="w-5 h-5" /> Lock Palette
+          </button>
+        )}
+        {hasSettings && (
+          <>
+            <button onClick={() => onRegenerate(asset)} title="Generate again with the same settings" className={`${baseButtonClasses} ${slateButtonClasses}`}>
+              <WandSparklesIcon className="w-5 h-5" /> Regenerate
+            </button>
+            <button onClick={() => onLoadSettings(asset, false)} title="Copy these settings into the form" className={`${baseButtonClasses} ${slateButtonClasses}`}>
+              <CopyIcon className="w-5 h-5" /> Load Settings
+            </button>
+            <button onClick={() => onLoadSettings(asset, true)} title="Tweak these settings and generate a new version" className={`${baseButtonClasses} ${slateButtonClasses}`}>
+              <PencilIcon className="w-5 h-5" /> Remix
+            </button>
+          </>
+        )}
+        {asset.type === 'animation' && (
+             <button onClick={() => setShowVideoOptions(v => !v)} className={`${baseButtonClasses} ${showVideoOptions ? cyanButtonClasses : fuchsiaButtonClasses}`}>
+                <EditIcon className="w-5 h-5" /> Edit as Frames
+            </button>
+        )}
+        {asset.type === 'spritesheet' && asset.promptData?.dimensions && (
+          <div className="inline-flex items-center gap-2">
+            <select value={alignment} onChange={e => setAlignment(e.target.value as SliceAlignment)} title="Frame alignment" className="p-2 bg-slate-800 border-2 border-slate-600 rounded-lg text-sm">
+              {SLICE_ALIGNMENTS.map(option => <option key={option.alignment} value={option.alignment}>{option.label}</option>)}
+            </select>
+            <button onClick={() => onEditFrames(asset, alignment)} className={`${baseButtonClasses} ${fuchsiaButtonClasses}`}>
+              <EditIcon className="w-5 h-5" /> Edit as Frames
+            </button>
+          </div>
+        )}
       </div>
+
+      {asset.type === 'image' && showSnapOptions && (
+        <div className="flex flex-wrap items-end justify-center gap-3 p-3 bg-slate-800/80 border-2 border-slate-700 rounded-lg text-xs">
+          <label className="flex flex-col gap-1">Pixel size
+            <input type="number" min="0" max="64" value={snapOptions.pixelSize} title="0 = detect automatically" onChange={e => setSnapOptions(o => ({ ...o, pixelSize: Math.max(0, parseInt(e.target.value) || 0) }))} className="w-20 p-1 bg-slate-900 border-2 border-slate-600 rounded-md" />
+          </label>
+          <label className="flex flex-col gap-1">Sampling
+            <select value={snapOptions.sampling} onChange={e => setSnapOptions(o => ({ ...o, sampling: e.target.value as CellSampling }))} className="p-1 bg-slate-900 border-2 border-slate-600 rounded-md">
+              <option value="mode">Mode</option>
+              <option value="median">Median</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">Colors
+            <input type="number" min="0" max="256" value={snapOptions.colors} title="0 = keep sampled colors" onChange={e => setSnapOptions(o => ({ ...o, colors: Math.max(0, parseInt(e.target.value) || 0) }))} className="w-20 p-1 bg-slate-900 border-2 border-slate-600 rounded-md" />
+          </label>
+          <label className="flex items-center gap-2 pb-1.5">
+            <input type="checkbox" checked={snapOptions.removeBackground} onChange={e => setSnapOptions(o => ({ ...o, removeBackground: e.target.checked }))} /> Remove background
+          </label>
+          <button onClick={() => onPixelSnap(asset, snapOptions)} className={`${baseButtonClasses} ${cyanButtonClasses}`}>Snap to Grid</button>
+        </div>
+      )}
+
+      {asset.type === 'animation' && showVideoOptions && (
+        <div className="flex flex-wrap items-end justify-center gap-3 p-3 bg-slate-800/80 border-2 border-slate-700 rounded-lg text-xs">
+          <label className="flex flex-col gap-1">FPS
+            <input type="number" min="1" max="30" value={videoOptions.fps} onChange={e => setVideoOptions(o => ({ ...o, fps: Math.max(1, Math.min(30, parseInt(e.target.value) || 1)) }))} className="w-16 p-1 bg-slate-900 border-2 border-slate-600 rounded-md" />
+          </label>
+          <label className="flex flex-col gap-1">Start (s)
+            <input type="number" min="0" step="0.1" value={videoOptions.start} onChange={e => setVideoOptions(o => ({ ...o, start: Math.max(0, parseFloat(e.target.value) || 0) }))} className="w-16 p-1 bg-slate-900 border-2 border-slate-600 rounded-md" />
+          </label>
+          <label className="flex flex-col gap-1">End (s)
+            <input type="number" min="0" step="0.1" value={videoOptions.end} title="0 = the end of the video" onChange={e => setVideoOptions(o => ({ ...o, end: Math.max(0, parseFloat(e.target.value) || 0) }))} className="w-16 p-1 bg-slate-900 border-2 border-slate-600 rounded-md" />
+          </label>
+          <label className="flex flex-col gap-1">Sprite width
+            <input type="number" min="0" max="512" value={videoOptions.width} title="0 = detect the pixel grid" onChange={e => setVideoOptions(o => ({ ...o, width: Math.max(0, Math.min(512, parseInt(e.target.value) || 0)) }))} className="w-20 p-1 bg-slate-900 border-2 border-slate-600 rounded-md" />
+          </label>
+          <label className="flex flex-col gap-1">Sampling
+            <select value={videoOptions.sampling} onChange={e => setVideoOptions(o => ({ ...o, sampling: e.target.value as CellSampling }))} className="p-1 bg-slate-900 border-2 border-slate-600 rounded-md">
+              <option value="mode">Mode</option>
+              <option value="median">Median</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">Colors
+            <input type="number" min="0" max="256" value={videoOptions.colors} title="Shared palette size, 0 = keep sampled colors" onChange={e => setVideoOptions(o => ({ ...o, colors: Math.max(0, Math.min(256, parseInt(e.target.value) || 0)) }))} className="w-20 p-1 bg-slate-900 border-2 border-slate-600 rounded-md" />
+          </label>
+          <label className="flex flex-col gap-1">Quantizer
+            <select value={videoOptions.quantizer} onChange={e => setVideoOptions(o => ({ ...o, quantizer: e.target.value as Quantizer }))} className="p-1 bg-slate-900 border-2 border-slate-600 rounded-md">
+              {QUANTIZERS.map(q => <option key={q.quantizer} value={q.quantizer}>{q.label}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 pb-1.5" title="Merge repeated frames into longer ones and link frames that come back">
+            <input type="checkbox" checked={videoOptions.dedupe} onChange={e => setVideoOptions(o => ({ ...o, dedupe: e.target.checked }))} /> Deduplicate
+          </label>
+          <label className="flex items-center gap-2 pb-1.5">
+            <input type="checkbox" checked={videoOptions.removeBackground} onChange={e => setVideoOptions(o => ({ ...o, removeBackground: e.target.checked }))} /> Remove background
+          </label>
+          <button onClick={() => onEditVideoFrames(asset, videoOptions)} disabled={!!videoImportProgress} className={`${baseButtonClasses} ${cyanButtonClasses} disabled:opacity-50 disabled:cursor-wait`}>
+            {videoImportProgress ?? 'Import Frames'}
+          </button>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,66 @@
+import React from 'react';
+import { XIcon, UndoIcon, TrashIcon } from './icons';
+import { Job, JobStatus, MAX_CONCURRENCY, isJobActive } from '../services/jobQueue';
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: 'bg-slate-600 text-slate-200',
+  running: 'bg-cyan-500 text-slate-900 animate-pulse',
+  succeeded: 'bg-green-600 text-white',
+  failed: 'bg-red-600 text-white',
+  cancelled: 'bg-slate-700 text-slate-400',
+};
+
+const formatDuration = (ms: number) => ms < 60000 ? `${Math.round(ms / 1000)}s` : `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+
+interface JobQueuePanelProps {
+  jobs: Job[];
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const JobQueuePanel: React.FC<JobQueuePanelProps> = ({ jobs, concurrency, onConcurrencyChange, onCancel, onRetry, onRemove, onClearFinished }) => {
+  const active = jobs.filter(isJobActive).length;
+  return (
+    <div className="border-t-2 border-slate-700 p-2 flex flex-col gap-2 max-h-72">
+      <div className="flex items-center justify-between text-xs">
+        <h3 className="font-bold text-slate-200">Queue <span className="text-slate-500 font-normal">{active} active / {jobs.length}</span></h3>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1 text-slate-400" title="How many generations run at the same time">
+            Parallel
+            <select value={concurrency} onChange={e => onConcurrencyChange(parseInt(e.target.value))} className="bg-slate-900 border border-slate-600 rounded p-0.5">
+              {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <button onClick={onClearFinished} disabled={active === jobs.length} title="Remove finished jobs" className="p-1 text-slate-400 hover:text-red-400 disabled:text-slate-600"><TrashIcon className="w-4 h-4" /></button>
+        </div>
+      </div>
+      <ul className="overflow-y-auto space-y-1">
+        {[...jobs].reverse().map(job => (
+          <li key={job.id} className="p-2 bg-slate-900/50 rounded-md text-xs">
+            <div className="flex items-center gap-2">
+              <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase ${STATUS_STYLES[job.status]}`}>{job.status}</span>
+              <span className="flex-grow truncate text-slate-200" title={job.label}>{job.label}</span>
+              {isJobActive(job) ? (
+                <button onClick={() => onCancel(job.id)} title="Cancel" className="text-slate-400 hover:text-red-400"><XIcon className="w-4 h-4" /></button>
+              ) : (
+                <>
+                  {job.status !== 'succeeded' && <button onClick={() => onRetry(job.id)} title="Retry" className="text-slate-400 hover:text-cyan-400"><UndoIcon className="w-4 h-4" /></button>}
+                  <button onClick={() => onRemove(job.id)} title="Remove" className="text-slate-400 hover:text-red-400"><XIcon className="w-4 h-4" /></button>
+                </>
+              )}
+            </div>
+            {job.status === 'running' && <p className="mt-1 text-cyan-300 truncate">{job.progress}</p>}
+            {job.error && <p className="mt-1 text-red-400 break-words">{job.error}</p>}
+            {job.startedAt && job.finishedAt && <p className="mt-1 text-slate-500">{formatDuration(job.finishedAt - job.startedAt)}</p>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default JobQueuePanel;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { MAX_ONION_FRAMES, OnionSkinSettings } from '../utils/onionSkin';
+
+const inputClasses = "bg-slate-900 border border-slate-600 rounded px-1 py-0.5 w-12";
+
+interface OnionSkinPanelProps {
+  settings: OnionSkinSettings;
+  onChange: (settings: OnionSkinSettings) => void;
+}
+
+const clampFrames = (value: string) => Math.max(0, Math.min(MAX_ONION_FRAMES, parseInt(value) || 0));
+
+// ONION SKIN SETTINGS
+// A small popover above the status bar.
+const OnionSkinPanel: React.FC<OnionSkinPanelProps> = ({ settings, onChange }) => {
+  const update = (patch: Partial<OnionSkinSettings>) => onChange({ ...settings, ...patch });
+  return (
+    <div className="w-64 p-3 bg-slate-800 border-2 border-slate-600 rounded-md shadow-lg text-xs space-y-2">
+      <h3 className="font-bold text-sm">Onion Skin</h3>
+      <div className="flex items-center gap-3">
+        <label className="flex items-center gap-1" title="Frames shown before the current one">Before
+          <input type="number" min="0" max={MAX_ONION_FRAMES} value={settings.before} onChange={e => update({ before: clampFrames(e.target.value) })} className={inputClasses} />
+        </label>
+        <label className="flex items-center gap-1" title="Frames shown after the current one">After
+          <input type="number" min="0" max={MAX_ONION_FRAMES} value={settings.after} onChange={e => update({ after: clampFrames(e.target.value) })} className={inputClasses} />
+        </label>
+      </div>
+      <label className="flex flex-col gap-1">Opacity {Math.round(settings.opacity * 100)}%
+        <input type="range" min="0.05" max="1" step="0.05" value={settings.opacity} onChange={e => update({ opacity: parseFloat(e.target.value) })} />
+      </label>
+      <label className="flex flex-col gap-1" title="Each frame further away is this much as opaque as the one before it">Falloff {Math.round(settings.falloff * 100)}%
+        <input type="range" min="0" max="1" step="0.05" value={settings.falloff} onChange={e => update({ falloff: parseFloat(e.target.value) })} />
+      </label>
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={settings.tint} onChange={e => update({ tint: e.target.checked })} />
+        Tint <span className="text-red-400">past</span> / <span className="text-blue-400">future</span>
+      </label>
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={settings.activeLayerOnly} onChange={e => update({ activeLayerOnly: e.target.checked })} />
+        Active layer only
+      </label>
+      <label className="flex items-center gap-2" title="Frames past the end of the current tag wrap around to its start">
+        <input type="checkbox" checked={settings.loopInTag} onChange={e => update({ loopInTag: e.target.checked })} />
+        Loop within tag
+      </label>
+    </div>
+  );
+};
+
+export default OnionSkinPanel;
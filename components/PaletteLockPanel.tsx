@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { FileUpIcon, PaletteIcon } from './icons';
+import { PaletteLockSettings, PaletteSource } from '../services/paletteLock';
+import { COLOR_SPACES, DITHERINGS, PaletteMatchOptions, ColorSpace, Dithering } from '../utils/paletteMatch';
+import { parsePaletteFile, PALETTE_FILE_ACCEPT } from '../utils/paletteFiles';
+import { findPalette, PaletteDefinition } from '../services/palettes';
+
+const selectClasses = "p-1 bg-slate-900 border-2 border-slate-600 rounded-md text-xs";
+
+export const PaletteSwatches: React.FC<{ colors: string[] }> = ({ colors }) => (
+  <div className="flex flex-wrap gap-0.5">
+    {colors.map((color, i) => <span key={`${color}-${i}`} title={color} className="w-3 h-3 rounded-sm border border-slate-900" style={{ backgroundColor: color }} />)}
+  </div>
+);
+
+// Color space and dithering pickers, shared by the panel and the review dialog.
+export const PaletteMatchControls: React.FC<{ options: PaletteMatchOptions; onChange: (options: PaletteMatchOptions) => void }> = ({ options, onChange }) => (
+  <div className="flex flex-wrap items-end gap-2 text-xs">
+    <label className="flex flex-col gap-1">Match in
+      <select value={options.colorSpace} onChange={e => onChange({ ...options, colorSpace: e.target.value as ColorSpace })} className={selectClasses}>
+        {COLOR_SPACES.map(({ colorSpace, label }) => <option key={colorSpace} value={colorSpace}>{label}</option>)}
+      </select>
+    </label>
+    <label className="flex flex-col gap-1">Dithering
+      <select value={options.dithering} onChange={e => onChange({ ...options, dithering: e.target.value as Dithering })} className={selectClasses}>
+        {DITHERINGS.map(({ dithering, label }) => <option key={dithering} value={dithering}>{label}</option>)}
+      </select>
+    </label>
+    {options.dithering !== 'none' && (
+      <label className="flex flex-col gap-1">Strength {Math.round(options.ditherStrength * 100)}%
+        <input type="range" min="0.1" max="1" step="0.05" value={options.ditherStrength} onChange={e => onChange({ ...options, ditherStrength: parseFloat(e.target.value) })} className="w-24" />
+      </label>
+    )}
+  </div>
+);
+
+interface PaletteLockPanelProps {
+  settings: PaletteLockSettings;
+  onChange: (settings: PaletteLockSettings) => void;
+  editorPalette: string[];
+  palettes: PaletteDefinition[];
+}
+
+const SOURCES: { source: PaletteSource; label: string }[] = [
+  { source: 'editor', label: 'Editor palette' },
+  { source: 'saved', label: 'Saved palette' },
+  { source: 'style', label: "Style preset's palette" },
+  { source: 'file', label: 'Palette file' },
+];
+
+const PaletteLockPanel: React.FC<PaletteLockPanelProps> = ({ settings, onChange, editorPalette, palettes }) => {
+  const [fileError, setFileError] = useState<string | null>(null);
+  const update = (patch: Partial<PaletteLockSettings>) => onChange({ ...settings, ...patch });
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      update({ source: 'file', file: parsePaletteFile(file.name, new Uint8Array(await file.arrayBuffer())) });
+      setFileError(null);
+    } catch (err) {
+      console.error("Failed to load palette file", err);
+      setFileError(err instanceof Error ? err.message : 'Could not read that palette.');
+    }
+  };
+
+  const saved = findPalette(palettes, settings.paletteId);
+  const colors = settings.source === 'editor' ? editorPalette
+    : settings.source === 'saved' ? saved?.colors ?? []
+    : settings.source === 'file' ? settings.file?.colors ?? [] : null;
+
+  return (
+    <div className="mt-4 p-3 bg-slate-900/50 border-2 border-slate-700 rounded-lg space-y-2">
+      <label className="flex items-center gap-2 text-sm font-bold text-slate-200">
+        <input type="checkbox" checked={settings.enabled} onChange={e => update({ enabled: e.target.checked })} />
+        <PaletteIcon className="w-4 h-4" /> Palette Lock
+      </label>
+      {settings.enabled && (
+        <>
+          <p className="text-xs text-slate-400">Results are mapped onto a fixed palette, and you review each one before it is added to the history.</p>
+          <div className="flex items-center gap-2">
+            <select value={settings.source} onChange={e => update({ source: e.target.value as PaletteSource })} className={`${selectClasses} flex-grow`}>
+              {SOURCES.map(({ source, label }) => <option key={source} value={source}>{label}</option>)}
+            </select>
+            <label className="flex items-center gap-1 px-2 py-1 text-xs font-bold rounded bg-slate-700 hover:bg-slate-600 cursor-pointer" title={`Load a ${PALETTE_FILE_ACCEPT} palette`}>
+              <FileUpIcon className="w-3 h-3" /> Load
+              <input type="file" accept={PALETTE_FILE_ACCEPT} className="hidden" onChange={handleFile} />
+            </label>
+          </div>
+          {settings.source === 'saved' && (
+            <select value={saved?.id ?? ''} onChange={e => update({ paletteId: e.target.value || null })} className={`${selectClasses} w-full`}>
+              <option value="">Choose a palette...</option>
+              {palettes.map(palette => <option key={palette.id} value={palette.id}>{palette.name} ({palette.colors.length})</option>)}
+            </select>
+          )}
+          {fileError && <p className="text-xs text-red-400">{fileError}</p>}
+          {colors === null ? (
+            <p className="text-xs text-slate-500">Each job uses the palette of the style preset it was generated with.</p>
+          ) : colors.length > 0 ? (
+            <div className="space-y-1">
+              {settings.source === 'file' && <p className="text-xs text-slate-300">{settings.file?.name} <span className="text-slate-500">({colors.length} colors)</span></p>}
+              <PaletteSwatches colors={colors} />
+            </div>
+          ) : (
+            <p className="text-xs text-amber-400">{settings.source === 'editor' ? 'The Editor palette is empty. Generate or extract one in the Editor.' : settings.source === 'saved' ? 'Choose a palette with at least one color.' : 'Load a palette file.'}</p>
+          )}
+          <PaletteMatchControls options={settings.options} onChange={options => update({ options })} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PaletteLockPanel;
@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { XIcon } from './icons';
+import type { GeneratedAsset } from '../App';
+import { applyPaletteLock, ResolvedPaletteLock } from '../services/paletteLock';
+import type { PaletteMatchOptions } from '../utils/paletteMatch';
+import { PaletteMatchControls, PaletteSwatches } from './PaletteLockPanel';
+
+export interface PaletteReview {
+  id: string;
+  asset: GeneratedAsset; // the result as generated
+  lock: ResolvedPaletteLock;
+  fromHistory: boolean; // locking an asset that is already in the history
+}
+
+export type ReviewDecision = 'locked' | 'original' | 'both' | 'discard';
+
+interface PaletteLockReviewProps {
+  review: PaletteReview;
+  pendingCount: number;
+  onDecide: (decision: ReviewDecision, lockedUrl: string | null, options: PaletteMatchOptions) => void;
+  onLockAll: (options: PaletteMatchOptions) => void;
+}
+
+const PaletteLockReview: React.FC<PaletteLockReviewProps> = ({ review, pendingCount, onDecide, onLockAll }) => {
+  const [options, setOptions] = useState(review.lock.options);
+  const [lockedUrl, setLockedUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Re-locks the preview whenever the options change; a stale result is dropped if a newer one started.
+  useEffect(() => {
+    let cancelled = false;
+    setLockedUrl(null);
+    setError(null);
+    applyPaletteLock(review.asset.url, review.lock.palette, options)
+      .then(url => { if (!cancelled) setLockedUrl(url); })
+      .catch(err => {
+        console.error("Failed to apply palette lock", err);
+        if (!cancelled) setError('Could not map this image onto the palette.');
+      });
+    return () => { cancelled = true; };
+  }, [review, options]);
+
+  const { asset, lock } = review;
+  const label = asset.promptData?.basePrompt || asset.promptData?.prompt || 'Untitled';
+  const buttonClasses = "px-4 py-2 text-sm font-bold rounded transition-colors disabled:opacity-50";
+  const imageClasses = "pixelated object-contain w-full h-72 bg-slate-900/50 rounded";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-slate-800 border-2 border-slate-600 rounded-lg shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b-2 border-slate-700">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold text-slate-100">Palette Lock Review</h2>
+            <p className="text-xs text-slate-400 truncate">{label}{pendingCount > 1 && <span className="text-slate-500"> · {pendingCount - 1} more waiting</span>}</p>
+          </div>
+          <button onClick={() => onDecide('discard', null, options)} title={review.fromHistory ? 'Cancel' : 'Discard this result'} className="text-slate-400 hover:text-white"><XIcon className="w-6 h-6" /></button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <figure className="space-y-1">
+              <img src={asset.url} alt="Original" className={imageClasses} />
+              <figcaption className="text-xs text-slate-400">Original</figcaption>
+            </figure>
+            <figure className="space-y-1">
+              {lockedUrl ? (
+                <img src={lockedUrl} alt="Locked to palette" className={imageClasses} />
+              ) : (
+                <div className={`${imageClasses} flex items-center justify-center text-xs ${error ? 'text-red-400' : 'text-slate-500'}`}>{error ?? 'Mapping colors...'}</div>
+              )}
+              <figcaption className="text-xs text-slate-400">{lock.name} <span className="text-slate-500">({lock.palette.length} colors)</span></figcaption>
+              <PaletteSwatches colors={lock.palette} />
+            </figure>
+          </div>
+          <PaletteMatchControls options={options} onChange={setOptions} />
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2 p-4 border-t-2 border-slate-700">
+          {review.fromHistory ? (
+            <>
+              <button onClick={() => onDecide('discard', null, options)} className={`${buttonClasses} text-slate-400 hover:text-slate-200`}>Cancel</button>
+              <button onClick={() => onDecide('locked', lockedUrl, options)} disabled={!lockedUrl} className={`${buttonClasses} bg-cyan-600 hover:bg-cyan-500 text-white`}>Save Locked Copy</button>
+            </>
+          ) : (
+            <>
+              {pendingCount > 1 && <button onClick={() => onLockAll(options)} title="Lock this and every waiting result with these settings" className={`${buttonClasses} mr-auto bg-slate-700 hover:bg-slate-600 text-slate-200`}>Lock All {pendingCount}</button>}
+              <button onClick={() => onDecide('discard', null, options)} className={`${buttonClasses} text-slate-400 hover:text-red-400`}>Discard</button>
+              <button onClick={() => onDecide('original', null, options)} className={`${buttonClasses} bg-slate-700 hover:bg-slate-600 text-slate-200`}>Keep Original</button>
+              <button onClick={() => onDecide('both', lockedUrl, options)} disabled={!lockedUrl} className={`${buttonClasses} bg-slate-700 hover:bg-slate-600 text-slate-200`}>Keep Both</button>
+              <button onClick={() => onDecide('locked', lockedUrl, options)} disabled={!lockedUrl} className={`${buttonClasses} bg-cyan-600 hover:bg-cyan-500 text-white`}>Keep Locked</button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PaletteLockReview;
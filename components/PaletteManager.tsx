@@ -0,0 +1,262 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { XIcon, PlusIcon, TrashIcon, DownloadIcon, FileUpIcon } from './icons';
+import { createPalette, duplicatePalette, paletteFromFile, PaletteDefinition } from '../services/palettes';
+import { parsePaletteFile, writePaletteFile, PALETTE_FILE_ACCEPT, PALETTE_FORMATS, PaletteFormat } from '../utils/paletteFiles';
+import { createRamp } from '../utils/paletteMatch';
+import { downloadBlob, sanitizeFilename } from '../utils/files';
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const MAX_RAMP_STEPS = 16;
+
+interface PaletteManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  palettes: PaletteDefinition[]; // built-in first, then the user's
+  editorColors: string[];
+  onSave: (palette: PaletteDefinition) => void;
+  onDelete: (id: string) => void;
+  onImport: (palettes: PaletteDefinition[]) => void;
+  onUseInEditor: (palette: PaletteDefinition) => void;
+}
+
+const PaletteManager: React.FC<PaletteManagerProps> = ({ isOpen, onClose, palettes, editorColors, onSave, onDelete, onImport, onUseInEditor }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PaletteDefinition | null>(null);
+  const [swatch, setSwatch] = useState(0);
+  const [rampEnd, setRampEnd] = useState<number | null>(null);
+  const [rampSteps, setRampSteps] = useState(3);
+  const [hexText, setHexText] = useState('');
+  const [exportFormat, setExportFormat] = useState<PaletteFormat>('gpl');
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+  const dragIndex = useRef<number | null>(null);
+
+  const selected = palettes.find(palette => palette.id === selectedId) ?? null;
+  const userPalettes = palettes.filter(palette => !palette.builtIn);
+  const isDirty = !!draft && !!selected && JSON.stringify(draft) !== JSON.stringify(selected);
+  const readOnly = !draft || !!draft.builtIn;
+  const current = draft?.colors[swatch];
+
+  useEffect(() => {
+    setDraft(selected);
+  }, [selected]);
+
+  useEffect(() => {
+    setSwatch(0);
+    setRampEnd(null);
+  }, [selectedId]);
+
+  useEffect(() => {
+    setHexText(current ?? '');
+  }, [current]);
+
+  if (!isOpen) return null;
+
+  const select = (id: string) => {
+    if (isDirty && !window.confirm("Discard unsaved changes to this palette?")) return;
+    setSelectedId(id);
+    setMessage(null);
+  };
+
+  const addPalette = (palette: PaletteDefinition) => {
+    onSave(palette);
+    setSelectedId(palette.id);
+  };
+
+  const setColors = (colors: string[]) => setDraft(prev => prev ? { ...prev, colors } : prev);
+
+  const editSwatch = (color: string) => {
+    if (!draft || !HEX_COLOR.test(color)) return;
+    setColors(draft.colors.map((c, i) => i === swatch ? color.toLowerCase() : c));
+  };
+
+  const addSwatch = () => {
+    if (!draft) return;
+    const at = Math.min(swatch + 1, draft.colors.length);
+    setColors([...draft.colors.slice(0, at), current ?? '#ffffff', ...draft.colors.slice(at)]);
+    setSwatch(at);
+  };
+
+  const removeSwatch = () => {
+    if (!draft || draft.colors.length === 0) return;
+    setColors(draft.colors.filter((_, i) => i !== swatch));
+    setSwatch(Math.max(0, Math.min(swatch, draft.colors.length - 2)));
+    setRampEnd(null);
+  };
+
+  const moveSwatch = (from: number, to: number) => {
+    if (!draft || to < 0 || to >= draft.colors.length || from === to) return;
+    const colors = [...draft.colors];
+    const [color] = colors.splice(from, 1);
+    colors.splice(to, 0, color);
+    setColors(colors);
+    setSwatch(to);
+    setRampEnd(null);
+  };
+
+  // Shift-click picks the other end of a ramp; the ramp goes between the two swatches.
+  const handleSwatchClick = (e: React.MouseEvent, index: number) => {
+    if (e.shiftKey && !readOnly && index !== swatch) setRampEnd(index);
+    else {
+      setSwatch(index);
+      setRampEnd(null);
+    }
+  };
+
+  const insertRamp = () => {
+    if (!draft || rampEnd === null) return;
+    const [lo, hi] = swatch < rampEnd ? [swatch, rampEnd] : [rampEnd, swatch];
+    const ramp = createRamp(draft.colors[lo], draft.colors[hi], rampSteps);
+    setColors([...draft.colors.slice(0, lo + 1), ...ramp, ...draft.colors.slice(lo + 1)]);
+    setSwatch(lo);
+    setRampEnd(hi + ramp.length);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    const imported: PaletteDefinition[] = [];
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        imported.push(paletteFromFile(parsePaletteFile(file.name, new Uint8Array(await file.arrayBuffer()))));
+      } catch (err) {
+        console.error("Failed to import palette", err);
+        errors.push(err instanceof Error ? err.message : `Could not read ${file.name}.`);
+      }
+    }
+    if (imported.length > 0) {
+      onImport(imported);
+      setSelectedId(imported[0].id);
+    }
+    setMessage(errors.length > 0 ? { text: errors.join(' '), error: true } : { text: `Imported ${imported.length} palette(s).` });
+  };
+
+  const handleExport = () => {
+    if (!draft) return;
+    const { extension } = PALETTE_FORMATS.find(f => f.format === exportFormat)!;
+    downloadBlob(writePaletteFile({ name: draft.name, colors: draft.colors }, exportFormat), `${sanitizeFilename(draft.name)}.${extension}`);
+  };
+
+  const handleDelete = () => {
+    if (!selected || selected.builtIn) return;
+    if (!window.confirm(`Delete the palette "${selected.name}"?`)) return;
+    onDelete(selected.id);
+    setSelectedId(null);
+  };
+
+  const inputClasses = "w-full bg-slate-900 border border-slate-700 rounded p-2 text-slate-200 focus:outline-none focus:border-cyan-500 text-sm disabled:opacity-60";
+  const buttonClasses = "flex items-center gap-1 px-2 py-1 text-xs font-bold rounded bg-slate-700 hover:bg-slate-600 text-slate-200 disabled:opacity-50";
+
+  const renderItem = (palette: PaletteDefinition) => (
+    <li key={palette.id}>
+      <button onClick={() => select(palette.id)} className={`w-full text-left px-2 py-1 rounded text-xs ${palette.id === selectedId ? 'bg-cyan-500 text-slate-900 font-bold' : 'text-slate-300 hover:bg-slate-700'}`}>
+        <span className="block truncate">{palette.name} <span className="opacity-60">({palette.colors.length})</span></span>
+        <span className="flex h-1.5 mt-0.5 rounded-sm overflow-hidden">{palette.colors.slice(0, 32).map((color, i) => <span key={i} className="flex-1" style={{ backgroundColor: color }} />)}</span>
+      </button>
+    </li>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-slate-800 border-2 border-slate-600 rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b-2 border-slate-700">
+          <h2 className="text-xl font-bold text-slate-100">Palettes</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white"><XIcon className="w-6 h-6" /></button>
+        </div>
+
+        <div className="flex-grow grid grid-cols-[12rem_1fr] min-h-0">
+          <div className="border-r-2 border-slate-700 p-2 flex flex-col gap-2 min-h-0">
+            <div className="flex flex-wrap gap-1">
+              <button onClick={() => addPalette(createPalette())} className={buttonClasses}><PlusIcon className="w-3 h-3" />New</button>
+              <label className={`${buttonClasses} cursor-pointer`} title={`Import ${PALETTE_FILE_ACCEPT} files`}>
+                <FileUpIcon className="w-3 h-3" />Import
+                <input type="file" accept={PALETTE_FILE_ACCEPT} multiple className="hidden" onChange={handleImport} />
+              </label>
+              <button onClick={() => addPalette(createPalette({ name: 'Editor Palette', colors: [...editorColors] }))} disabled={editorColors.length === 0} className={buttonClasses} title="Save the Editor's current palette">From Editor</button>
+            </div>
+            <div className="overflow-y-auto flex-grow">
+              <p className="px-2 pt-1 text-[10px] uppercase tracking-wider text-slate-500">Yours</p>
+              {userPalettes.length === 0 ? <p className="px-2 py-1 text-xs text-slate-500">None yet. Create, import or duplicate one.</p> : <ul>{userPalettes.map(renderItem)}</ul>}
+              <p className="px-2 pt-2 text-[10px] uppercase tracking-wider text-slate-500">Built-in</p>
+              <ul>{palettes.filter(palette => palette.builtIn).map(renderItem)}</ul>
+            </div>
+          </div>
+
+          <div className="p-4 overflow-y-auto space-y-3">
+            {message && <p className={`text-xs ${message.error ? 'text-red-400' : 'text-green-400'}`}>{message.text}</p>}
+            {!draft ? (
+              <p className="text-sm text-slate-400">Select a palette to view it. Built-in palettes are read-only; duplicate one to make your own version.</p>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center gap-1">
+                  <button onClick={() => onUseInEditor(draft)} className={`${buttonClasses} bg-fuchsia-600 hover:bg-fuchsia-500`}>Use in Editor</button>
+                  <button onClick={() => addPalette(duplicatePalette(draft))} className={buttonClasses}>Duplicate</button>
+                  <select value={exportFormat} onChange={e => setExportFormat(e.target.value as PaletteFormat)} className="ml-auto p-1 bg-slate-900 border border-slate-600 rounded text-xs">
+                    {PALETTE_FORMATS.map(({ format, label }) => <option key={format} value={format}>{label}</option>)}
+                  </select>
+                  <button onClick={handleExport} disabled={draft.colors.length === 0} className={buttonClasses}><DownloadIcon className="w-3 h-3" />Export</button>
+                  {!draft.builtIn && <button onClick={handleDelete} className={`${buttonClasses} hover:bg-red-600`}><TrashIcon className="w-3 h-3" />Delete</button>}
+                </div>
+
+                <label className="block text-sm text-slate-300">Name
+                  <input type="text" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} disabled={readOnly} className={`${inputClasses} mt-1`} />
+                </label>
+
+                <div>
+                  <span className="block text-sm text-slate-300 mb-1">Swatches <span className="text-slate-500">({draft.colors.length})</span></span>
+                  <div className="grid grid-cols-12 gap-1">
+                    {draft.colors.map((color, i) => (
+                      <button
+                        key={i}
+                        draggable={!readOnly}
+                        onDragStart={() => { dragIndex.current = i; }}
+                        onDragOver={e => e.preventDefault()}
+                        onDrop={() => { if (dragIndex.current !== null) moveSwatch(dragIndex.current, i); dragIndex.current = null; }}
+                        onClick={e => handleSwatchClick(e, i)}
+                        title={color}
+                        style={{ backgroundColor: color }}
+                        className={`aspect-square rounded-sm border-2 ${i === swatch ? 'border-cyan-400' : i === rampEnd ? 'border-fuchsia-400' : 'border-slate-900'}`}
+                      />
+                    ))}
+                  </div>
+                  {!readOnly && <p className="mt-1 text-[10px] text-slate-500">Drag to reorder. Shift-click a second swatch to build a ramp between them.</p>}
+                </div>
+
+                {!readOnly && (
+                  <div className="flex flex-wrap items-center gap-2 p-2 bg-slate-900/50 rounded">
+                    <input type="color" value={current ?? '#ffffff'} onChange={e => editSwatch(e.target.value)} disabled={current === undefined} className="w-8 h-8 bg-transparent" />
+                    <input type="text" value={hexText} onChange={e => { setHexText(e.target.value); editSwatch(e.target.value); }} disabled={current === undefined} className="w-20 p-1 bg-slate-900 border border-slate-700 rounded text-xs font-mono" />
+                    <button onClick={() => moveSwatch(swatch, swatch - 1)} disabled={swatch === 0} className={buttonClasses} title="Move left">◀</button>
+                    <button onClick={() => moveSwatch(swatch, swatch + 1)} disabled={swatch >= draft.colors.length - 1} className={buttonClasses} title="Move right">▶</button>
+                    <button onClick={addSwatch} className={buttonClasses}><PlusIcon className="w-3 h-3" />Add</button>
+                    <button onClick={removeSwatch} disabled={current === undefined} className={`${buttonClasses} hover:bg-red-600`}><TrashIcon className="w-3 h-3" />Remove</button>
+                  </div>
+                )}
+
+                {!readOnly && rampEnd !== null && (
+                  <div className="flex flex-wrap items-center gap-2 p-2 bg-slate-900/50 rounded text-xs text-slate-300">
+                    <span className="w-4 h-4 rounded-sm" style={{ backgroundColor: draft.colors[swatch] }} />→<span className="w-4 h-4 rounded-sm" style={{ backgroundColor: draft.colors[rampEnd] }} />
+                    <label className="flex items-center gap-1">Steps
+                      <input type="number" min="1" max={MAX_RAMP_STEPS} value={rampSteps} onChange={e => setRampSteps(Math.max(1, Math.min(MAX_RAMP_STEPS, parseInt(e.target.value) || 1)))} className="w-14 p-1 bg-slate-900 border border-slate-700 rounded" />
+                    </label>
+                    <span className="flex">{createRamp(draft.colors[swatch], draft.colors[rampEnd], rampSteps).map((color, i) => <span key={i} className="w-4 h-4" style={{ backgroundColor: color }} />)}</span>
+                    <button onClick={insertRamp} className={buttonClasses}>Insert Ramp</button>
+                  </div>
+                )}
+
+                {!readOnly && (
+                  <div className="flex justify-end gap-2 pt-3 border-t border-slate-700">
+                    <button onClick={() => setDraft(selected)} disabled={!isDirty} className="px-4 py-2 text-sm font-bold text-slate-400 hover:text-slate-200 disabled:opacity-50">Revert</button>
+                    <button onClick={() => onSave({ ...draft, name: draft.name.trim() || 'Untitled Palette' })} disabled={!isDirty} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded font-bold transition-colors disabled:opacity-50">Save Palette</button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PaletteManager;
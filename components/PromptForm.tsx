@@ -1,13 +1,11 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { SparklesIcon, XIcon, FileUpIcon } from './icons';
+import { createRng, pick, parseSeed, randomSeed, MAX_SEED } from '../utils/random';
+import { DEFAULT_STYLE_PRESET_ID, findStylePreset, StylePresetDefinition } from '../services/stylePresets';
 
-export type StylePreset =
-  | '8-bit' | '16-bit' | 'Game Boy' | 'Monochrome'
-  | 'Isometric' | 'Claymation' | 'LEGO' | 'Comic Book'
-  | 'Cinematic' | 'Stained Glass' | 'Sticker' | 'Low Poly'
-  | 'Voxel' | 'Dithering' | 'HD Pixel Art' | 'Cute'
-  | 'Gothic' | 'Synthwave';
+// Id of a StylePresetDefinition; built-in presets use their name ('16-bit').
+export type StylePreset = string;
 
 export type Genre = 'Fantasy' | 'Sci-Fi' | 'Cyberpunk' | 'Horror' | 'Steampunk' | 'Apocalyptic' | 'Noir' | 'Jungle';
 export type Color = 'Vibrant' | 'Pastel' | 'Gloomy' | 'Neon' | 'Warm' | 'Cool' | 'Earthy' | 'Monochromatic';
@@ -35,13 +33,46 @@ const colorPrompts: Record<Color, string> = {
     'Monochromatic': 'using a monochromatic color palette with shades of a single color',
 };
 
+export const GENRES = Object.keys(genrePrompts) as Genre[];
+export const COLORS = Object.keys(colorPrompts) as Color[];
+
+/** The prompt the single generator sends: description plus the genre and color phrases. */
+export const composePrompt = (prompt: string, genre: Genre, color: Color) => `${prompt}, ${genrePrompts[genre]}, ${colorPrompts[color]}.`;
+
 // Word banks for random generation
 const subjects = ['knight', 'wizard', 'dragon', 'cyborg', 'alien', 'goblin', 'slime monster', 'robot', 'vampire', 'zombie', 'ninja', 'pirate', 'elf', 'demon hunter', 'space marine', 'android detective', 'mech pilot'];
 const descriptors = ['heroic', 'ancient', 'glowing', 'steampunk', 'tiny', 'giant', 'shadowy', 'crystal', 'flaming', 'undead', 'cybernetic', 'mystical', 'ethereal', 'mutated', 'rogue'];
 const items = ['sword', 'staff', 'potion', 'jetpack', 'laser gun', 'shield', 'gem', 'key', 'book', 'helmet', 'grappling hook', 'artifact', 'plasma rifle', 'energy shield', 'ancient scroll'];
 
-const getRandomElement = (arr: string[]) => arr[Math.floor(Math.random() * arr.length)];
-export const generateRandomCharacter = () => `${getRandomElement(descriptors)} ${getRandomElement(subjects)} with a ${getRandomElement(items)}`;
+export const generateRandomCharacter = (seed?: number) => {
+  const rng = seed === undefined ? Math.random : createRng(seed);
+  return `${pick(descriptors, rng)} ${pick(subjects, rng)} with a ${pick(items, rng)}`;
+};
+
+// The full "Surprise Me!" permutation. The same seed always gives the same character, genre and color.
+export const generateRandomSettings = (seed: number): { prompt: string; genre: Genre; color: Color } => {
+  const rng = createRng(seed);
+  const prompt = `${pick(descriptors, rng)} ${pick(subjects, rng)} with a ${pick(items, rng)}`;
+  return { prompt, genre: pick(Object.keys(genrePrompts) as Genre[], rng), color: pick(Object.keys(colorPrompts) as Color[], rng) };
+};
+
+/** Settings from a history item's promptData, pushed into the form. `key` changes on every load. */
+export interface LoadedSettings {
+  mode: GenerationMode;
+  data: any;
+  key: number;
+}
+
+// Items generated before basePrompt/genre/color were stored only have the combined prompt;
+// recover the parts by matching the phrases the form appended.
+const restorePromptParts = (data: any): { prompt: string; genre?: Genre; color?: Color } => {
+  if (typeof data.basePrompt === 'string') return { prompt: data.basePrompt, genre: data.genre, color: data.color };
+  let prompt = String(data.prompt ?? '').replace(/^Base character: /, '');
+  const genre = (Object.keys(genrePrompts) as Genre[]).find(g => prompt.includes(genrePrompts[g]));
+  const color = (Object.keys(colorPrompts) as Color[]).find(c => prompt.includes(colorPrompts[c]));
+  if (genre && color) prompt = prompt.replace(`, ${genrePrompts[genre]}, ${colorPrompts[color]}.`, '');
+  return { prompt, genre, color };
+};
 
 
 const OptionSelector = <T extends string>({ label, options, selected, onSelect, disabled }: {
@@ -71,26 +102,24 @@ const OptionSelector = <T extends string>({ label, options, selected, onSelect,
 
 
 const StylePresetSelector: React.FC<{
-  selected: StylePreset; onSelect: (preset: StylePreset) => void; disabled: boolean;
-}> = ({ selected, onSelect, disabled }) => {
-  const presets: StylePreset[] = [
-    '8-bit', '16-bit', 'Game Boy', 'Monochrome', 'Isometric', 'Claymation', 'LEGO', 'Comic Book',
-    'Cinematic', 'Stained Glass', 'Sticker', 'Low Poly', 'Voxel', 'Dithering', 'HD Pixel Art', 'Cute',
-    'Gothic', 'Synthwave'
-  ];
+  presets: StylePresetDefinition[]; selected: StylePreset; onSelect: (preset: StylePreset) => void; onManage?: () => void; disabled: boolean;
+}> = ({ presets, selected, onSelect, onManage, disabled }) => {
   return (
     <div>
-      <label className="block text-lg text-slate-300 mb-2 ml-1 tracking-wider">Style Preset</label>
+      <div className="flex items-center justify-between mb-2 ml-1">
+        <label className="block text-lg text-slate-300 tracking-wider">Style Preset</label>
+        {onManage && <button type="button" onClick={onManage} className="text-xs text-cyan-400 hover:text-cyan-300">Manage...</button>}
+      </div>
       <div className="grid grid-cols-4 justify-center gap-2 p-1 bg-slate-900 border-2 border-slate-700 rounded-lg">
         {presets.map(preset => (
-          <button key={preset} type="button" onClick={() => onSelect(preset)}
+          <button key={preset.id} type="button" onClick={() => onSelect(preset.id)} title={preset.prompt}
             className={`min-h-[2.75rem] px-1 py-1 text-xs font-bold transition-all duration-200 border-2 rounded-lg flex items-center justify-center text-center leading-tight tracking-normal ${
-              selected === preset
+              selected === preset.id
                 ? 'bg-cyan-400 text-slate-900 border-cyan-300 shadow-inner shadow-black/40'
-                : 'bg-slate-800 text-slate-300 border-slate-600 hover:bg-slate-700 hover:border-slate-500 shadow-md shadow-black/40 transform hover:-translate-y-px active:translate-y-0 active:shadow-inner'
+                : `bg-slate-800 text-slate-300 ${preset.builtIn ? 'border-slate-600' : 'border-fuchsia-700'} hover:bg-slate-700 hover:border-slate-500 shadow-md shadow-black/40 transform hover:-translate-y-px active:translate-y-0 active:shadow-inner`
             } disabled:opacity-50 disabled:transform-none disabled:shadow-none`}
-            disabled={disabled} aria-pressed={selected === preset}>
-            {preset}
+            disabled={disabled} aria-pressed={selected === preset.id}>
+            {preset.name}
           </button>
         ))}
       </div>
@@ -98,6 +127,17 @@ const StylePresetSelector: React.FC<{
   );
 };
 
+// Blank means unseeded. The seed goes to the model where supported and drives "Surprise Me!".
+const SeedField: React.FC<{ value: string; onChange: (value: string) => void; onRebuild: () => void; disabled: boolean }> = ({ value, onChange, onRebuild, disabled }) => (
+  <div>
+    <label className="block text-lg text-slate-300 mb-2 ml-1 tracking-wider">Seed (Optional)</label>
+    <div className="flex gap-2">
+      <input type="text" inputMode="numeric" value={value} onChange={e => onChange(e.target.value.replace(/[^\d]/g, ''))} placeholder={`Random (0 - ${MAX_SEED})`} className="flex-grow p-2 bg-slate-800 border-2 border-slate-600 rounded-md text-sm text-slate-200" disabled={disabled} />
+      <button type="button" onClick={onRebuild} disabled={disabled || parseSeed(value) === undefined} title="Rebuild the random prompt from this seed" className="px-3 bg-slate-800 border-2 border-slate-600 rounded-md text-slate-400 hover:text-cyan-400 disabled:opacity-50"><SparklesIcon className="w-5 h-5" /></button>
+    </div>
+  </div>
+);
+
 const ImageUploader: React.FC<{ onImageUpload: (base64: string | null) => void }> = ({ onImageUpload }) => {
     const [image, setImage] = useState<string | null>(null);
 
@@ -145,23 +185,86 @@ const ImageUploader: React.FC<{ onImageUpload: (base64: string | null) => void }
 };
 
 
-const SingleGenerator: React.FC<{ onSubmit: (data: any) => void; isLoading: boolean }> = ({ onSubmit, isLoading }) => {
-  const [prompt, setPrompt] = useState('a heroic knight with a glowing sword');
+interface GeneratorDefaults {
+  prompt: string;
+  negativePrompt: string;
+  genre: Genre;
+  color: Color;
+}
+
+// The settings both generator forms share, with "Surprise Me!" and restoring loaded settings.
+// `restore` fills in the form's own fields when settings for its mode are loaded.
+const useGeneratorSettings = (
+  mode: GenerationMode, defaults: GeneratorDefaults, stylePresets: StylePresetDefinition[], loaded: LoadedSettings | null | undefined, restore: (data: any) => void
+) => {
+  const [prompt, setPrompt] = useState(defaults.prompt);
+  const [negativePrompt, setNegativePrompt] = useState(defaults.negativePrompt);
+  const [stylePreset, setStylePreset] = useState<StylePreset>(DEFAULT_STYLE_PRESET_ID);
+  const [genre, setGenre] = useState<Genre>(defaults.genre);
+  const [color, setColor] = useState<Color>(defaults.color);
+  const [temperature, setTemperature] = useState(0.8);
+  const [seed, setSeed] = useState('');
+
+  // A preset's default negative prompt replaces the current one; presets without one leave it alone.
+  const selectStyle = (id: StylePreset) => {
+    setStylePreset(id);
+    const preset = findStylePreset(stylePresets, id);
+    if (preset?.negativePrompt) setNegativePrompt(preset.negativePrompt);
+  };
+
+  const applyRandomSettings = (value: number) => {
+    const random = generateRandomSettings(value);
+    setSeed(String(value));
+    setPrompt(random.prompt);
+    setGenre(random.genre);
+    setColor(random.color);
+  };
+
+  useEffect(() => {
+    if (loaded?.mode !== mode) return;
+    const { data } = loaded;
+    const parts = restorePromptParts(data);
+    setPrompt(parts.prompt);
+    if (parts.genre) setGenre(parts.genre);
+    if (parts.color) setColor(parts.color);
+    if (typeof data.negativePrompt === 'string') setNegativePrompt(data.negativePrompt);
+    if (data.stylePreset) setStylePreset(data.stylePreset);
+    if (typeof data.temperature === 'number') setTemperature(data.temperature);
+    setSeed(typeof data.seed === 'number' ? String(data.seed) : '');
+    restore(data);
+  }, [loaded]);
+
+  return {
+    prompt, setPrompt, negativePrompt, setNegativePrompt, stylePreset, selectStyle, genre, setGenre, color, setColor,
+    temperature, setTemperature, seed, setSeed, applyRandomSettings,
+  };
+};
+
+interface GeneratorProps {
+  onSubmit: (data: any) => void;
+  isLoading: boolean;
+  loaded?: LoadedSettings | null;
+  stylePresets: StylePresetDefinition[];
+  onManageStyles?: () => void;
+}
+
+const SingleGenerator: React.FC<GeneratorProps> = ({ onSubmit, isLoading, loaded, stylePresets, onManageStyles }) => {
   const [animationPrompt, setAnimationPrompt] = useState('swinging the sword');
-  const [negativePrompt, setNegativePrompt] = useState('blurry, text, watermark');
   const [generationType, setGenerationType] = useState<'image' | 'animation'>('image');
-  const [stylePreset, setStylePreset] = useState<StylePreset>('16-bit');
-  const [genre, setGenre] = useState<Genre>('Fantasy');
-  const [color, setColor] = useState<Color>('Vibrant');
   const [baseImage, setBaseImage] = useState<string | null>(null);
   const [numToGenerate, setNumToGenerate] = useState(1);
-  const [temperature, setTemperature] = useState(0.8);
-  
+  const {
+    prompt, setPrompt, negativePrompt, setNegativePrompt, stylePreset, selectStyle, genre, setGenre, color, setColor,
+    temperature, setTemperature, seed, setSeed, applyRandomSettings,
+  } = useGeneratorSettings('single', { prompt: 'a heroic knight with a glowing sword', negativePrompt: 'blurry, text, watermark', genre: 'Fantasy', color: 'Vibrant' }, stylePresets, loaded, data => {
+    if (data.animationPrompt) setAnimationPrompt(data.animationPrompt);
+    if (data.generationType) setGenerationType(data.generationType);
+    if (data.numImages) setNumToGenerate(data.numImages);
+  });
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const promptAdditions = [genrePrompts[genre], colorPrompts[color]].join(', ');
-    const fullPrompt = `${prompt}, ${promptAdditions}.`;
-    onSubmit({ prompt: fullPrompt, animationPrompt, negativePrompt, generationType, stylePreset, numImages: numToGenerate, baseImage, temperature });
+    onSubmit({ prompt: composePrompt(prompt, genre, color), basePrompt: prompt, genre, color, animationPrompt, negativePrompt, generationType, stylePreset, numImages: numToGenerate, baseImage, temperature, seed: parseSeed(seed) });
   };
 
   const buttonBaseClasses = "px-4 py-2 text-sm font-bold transition-all duration-300 border-2 rounded-md shadow-md shadow-black/40 transform hover:-translate-y-px active:translate-y-0 active:shadow-inner";
@@ -186,7 +289,7 @@ const SingleGenerator: React.FC<{ onSubmit: (data: any) => void; isLoading: bool
        <ImageUploader onImageUpload={setBaseImage} />
        <OptionSelector label="Genre" options={Object.keys(genrePrompts) as Genre[]} selected={genre} onSelect={option => setGenre(option)} disabled={isLoading} />
        <OptionSelector label="Color" options={Object.keys(colorPrompts) as Color[]} selected={color} onSelect={option => setColor(option)} disabled={isLoading} />
-       <StylePresetSelector selected={stylePreset} onSelect={setStylePreset} disabled={isLoading} />
+       <StylePresetSelector presets={stylePresets} selected={stylePreset} onSelect={selectStyle} onManage={onManageStyles} disabled={isLoading} />
         <div>
           <label htmlFor="creativity-slider" className="block text-lg text-slate-300 mb-2 ml-1 tracking-wider">Creativity: {temperature.toFixed(1)}</label>
            <div className="px-1">
@@ -201,7 +304,7 @@ const SingleGenerator: React.FC<{ onSubmit: (data: any) => void; isLoading: bool
          <label className="block text-lg text-slate-300 mb-2 ml-1 tracking-wider">Description</label>
          <div className="relative">
             <textarea value={prompt} onChange={e => setPrompt(e.target.value)} placeholder="Sprite Description" className="w-full h-24 p-2 pr-10 bg-slate-800 border-2 border-slate-600 rounded-md text-sm text-slate-200 resize-none" disabled={isLoading} />
-            <button type="button" title="Surprise Me!" onClick={() => setPrompt(generateRandomCharacter())} className="absolute top-2 right-2 p-1 text-slate-400 hover:text-cyan-400" disabled={isLoading}><SparklesIcon className="w-5 h-5"/></button>
+            <button type="button" title="Surprise Me!" onClick={() => applyRandomSettings(randomSeed())} className="absolute top-2 right-2 p-1 text-slate-400 hover:text-cyan-400" disabled={isLoading}><SparklesIcon className="w-5 h-5"/></button>
          </div>
        </div>
       {generationType === 'animation' && <textarea value={animationPrompt} onChange={e => setAnimationPrompt(e.target.value)} placeholder="Animation Description" className="w-full h-20 p-2 bg-slate-800 border-2 border-slate-600 rounded-md text-sm text-slate-200 resize-none" disabled={isLoading} />}
@@ -209,6 +312,7 @@ const SingleGenerator: React.FC<{ onSubmit: (data: any) => void; isLoading: bool
         <label className="block text-lg text-slate-300 mb-2 ml-1 tracking-wider">Negative Prompt</label>
         <textarea value={negativePrompt} onChange={e => setNegativePrompt(e.target.value)} placeholder="e.g. blurry, text, watermark" className="w-full h-20 p-2 bg-slate-800 border-2 border-slate-600 rounded-md text-sm text-slate-200 resize-none" disabled={isLoading} />
       </div>
+      <SeedField value={seed} onChange={setSeed} onRebuild={() => applyRandomSettings(parseSeed(seed)!)} disabled={isLoading} />
 
       {canGenerateVariants ? (
         <>
@@ -244,22 +348,23 @@ const SingleGenerator: React.FC<{ onSubmit: (data: any) => void; isLoading: bool
   );
 };
 
-const SpriteSheetGenerator: React.FC<{ onSubmit: (data: any) => void; isLoading: boolean }> = ({ onSubmit, isLoading }) => {
-    const [prompt, setPrompt] = useState('a powerful robot');
-    const [negativePrompt, setNegativePrompt] = useState('blurry, text, watermark, inconsistent design');
-    const [stylePreset, setStylePreset] = useState<StylePreset>('16-bit');
-    const [genre, setGenre] = useState<Genre>('Sci-Fi');
-    const [color, setColor] = useState<Color>('Cool');
+const SpriteSheetGenerator: React.FC<GeneratorProps> = ({ onSubmit, isLoading, loaded, stylePresets, onManageStyles }) => {
     const [actions, setActions] = useState(['idle stance', 'walking right', 'jumping', 'shooting laser']);
     const [dimensions, setDimensions] = useState({ w: 2, h: 2 });
     const [baseImage, setBaseImage] = useState<string | null>(null);
-    const [temperature, setTemperature] = useState(0.8);
+    const {
+        prompt, setPrompt, negativePrompt, setNegativePrompt, stylePreset, selectStyle, genre, setGenre, color, setColor,
+        temperature, setTemperature, seed, setSeed, applyRandomSettings,
+    } = useGeneratorSettings('spritesheet', { prompt: 'a powerful robot', negativePrompt: 'blurry, text, watermark, inconsistent design', genre: 'Sci-Fi', color: 'Cool' }, stylePresets, loaded, data => {
+        if (Array.isArray(data.actions)) setActions(data.actions);
+        if (data.dimensions) setDimensions(data.dimensions);
+    });
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         const promptAdditions = [genrePrompts[genre], colorPrompts[color]].join(', ');
         const fullPrompt = `Base character: ${prompt}, ${promptAdditions}.`;
-        onSubmit({ prompt: fullPrompt, negativePrompt, stylePreset, actions: actions.slice(0, dimensions.w * dimensions.h), dimensions, baseImage, temperature });
+        onSubmit({ prompt: fullPrompt, basePrompt: prompt, genre, color, negativePrompt, stylePreset, actions: actions.slice(0, dimensions.w * dimensions.h), dimensions, baseImage, temperature, seed: parseSeed(seed) });
     };
 
     const handleActionChange = (index: number, value: string) => {
@@ -275,7 +380,7 @@ const SpriteSheetGenerator: React.FC<{ onSubmit: (data: any) => void; isLoading:
             <ImageUploader onImageUpload={setBaseImage} />
             <OptionSelector label="Genre" options={Object.keys(genrePrompts) as Genre[]} selected={genre} onSelect={option => setGenre(option)} disabled={isLoading} />
             <OptionSelector label="Color" options={Object.keys(colorPrompts) as Color[]} selected={color} onSelect={option => setColor(option)} disabled={isLoading} />
-            <StylePresetSelector selected={stylePreset} onSelect={setStylePreset} disabled={isLoading} />
+            <StylePresetSelector presets={stylePresets} selected={stylePreset} onSelect={selectStyle} onManage={onManageStyles} disabled={isLoading} />
              <div>
                 <label htmlFor="creativity-slider-ss" className="block text-lg text-slate-300 mb-2 ml-1 tracking-wider">Creativity: {temperature.toFixed(1)}</label>
                 <div className="px-1">
@@ -290,7 +395,7 @@ const SpriteSheetGenerator: React.FC<{ onSubmit: (data: any) => void; isLoading:
                 <label className="block text-lg text-slate-300 mb-2 ml-1 tracking-wider">Base Character Description</label>
                 <div className="relative">
                     <textarea value={prompt} onChange={e => setPrompt(e.target.value)} placeholder="Base Character Description" className="w-full h-24 p-2 pr-10 bg-slate-800 border-2 border-slate-600 rounded-md text-sm text-slate-200 resize-none" disabled={isLoading} />
-                    <button type="button" title="Surprise Me!" onClick={() => setPrompt(generateRandomCharacter())} className="absolute top-2 right-2 p-1 text-slate-400 hover:text-cyan-400" disabled={isLoading}><SparklesIcon className="w-5 h-5"/></button>
+                    <button type="button" title="Surprise Me!" onClick={() => applyRandomSettings(randomSeed())} className="absolute top-2 right-2 p-1 text-slate-400 hover:text-cyan-400" disabled={isLoading}><SparklesIcon className="w-5 h-5"/></button>
                 </div>
             </div>
             
@@ -318,6 +423,7 @@ const SpriteSheetGenerator: React.FC<{ onSubmit: (data: any) => void; isLoading:
               <label className="block text-lg text-slate-300 mb-2 ml-1 tracking-wider">Negative Prompt</label>
               <textarea value={negativePrompt} onChange={e => setNegativePrompt(e.target.value)} placeholder="e.g. blurry, text, watermark" className="w-full h-20 p-2 bg-slate-800 border-2 border-slate-600 rounded-md text-sm text-slate-200 resize-none" disabled={isLoading} />
             </div>
+            <SeedField value={seed} onChange={setSeed} onRebuild={() => applyRandomSettings(parseSeed(seed)!)} disabled={isLoading} />
             <button type="submit" disabled={isLoading} className={glowButtonClasses}>
                 {isLoading ? 'Generating...' : 'Generate Sheet'}
             </button>
@@ -329,17 +435,28 @@ interface PromptFormProps {
   generationMode: GenerationMode;
   onSubmit: (mode: GenerationMode, data: any) => void;
   isLoading: boolean;
+  loadedSettings?: LoadedSettings | null;
+  remixLabel?: string | null; // prompt of the item being remixed
+  onCancelRemix?: () => void;
+  stylePresets: StylePresetDefinition[];
+  onManageStyles?: () => void;
 }
 
-const PromptForm: React.FC<PromptFormProps> = ({ generationMode, onSubmit, isLoading }) => {
+const PromptForm: React.FC<PromptFormProps> = ({ generationMode, onSubmit, isLoading, loadedSettings, remixLabel, onCancelRemix, stylePresets, onManageStyles }) => {
   const handleFormSubmit = (data: any) => {
     onSubmit(generationMode, data);
   };
 
   return (
     <div>
-      {generationMode === 'single' && <SingleGenerator onSubmit={handleFormSubmit} isLoading={isLoading} />}
-      {generationMode === 'spritesheet' && <SpriteSheetGenerator onSubmit={handleFormSubmit} isLoading={isLoading} />}
+      {remixLabel != null && (
+        <div className="mb-4 flex items-center gap-2 p-2 bg-fuchsia-900/30 border-2 border-fuchsia-600 rounded-lg text-xs text-fuchsia-200">
+          <span className="flex-grow truncate" title={remixLabel}>Remixing: {remixLabel || 'Untitled'}</span>
+          <button type="button" onClick={onCancelRemix} className="p-1 text-fuchsia-300 hover:text-white" aria-label="Cancel remix"><XIcon className="w-4 h-4" /></button>
+        </div>
+      )}
+      {generationMode === 'single' && <SingleGenerator onSubmit={handleFormSubmit} isLoading={isLoading} loaded={loadedSettings} stylePresets={stylePresets} onManageStyles={onManageStyles} />}
+      {generationMode === 'spritesheet' && <SpriteSheetGenerator onSubmit={handleFormSubmit} isLoading={isLoading} loaded={loadedSettings} stylePresets={stylePresets} onManageStyles={onManageStyles} />}
     </div>
   );
 };
@@ -1,6 +1,8 @@
 
 import React, { useState, useEffect } from 'react';
 import { XIcon } from './icons';
+import { CAPABILITIES, loadProviderSettings, saveProviderSettings, ProviderSettings, ProviderCapability } from '../services/imageProvider';
+import { PROVIDERS, getProvider, selectedModel } from '../services/providers';
 
 interface SettingsModalProps {
     isOpen: boolean;
@@ -9,17 +11,28 @@ interface SettingsModalProps {
 
 const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
     const [apiKey, setApiKey] = useState('');
+    const [settings, setSettings] = useState<ProviderSettings>(loadProviderSettings);
 
     useEffect(() => {
         const storedKey = localStorage.getItem('GEMINI_API_KEY');
         if (storedKey) setApiKey(storedKey);
+        setSettings(loadProviderSettings());
     }, [isOpen]);
 
+    const provider = getProvider(settings.providerId);
+
+    const setModel = (capability: ProviderCapability, model: string) => {
+        setSettings(prev => ({
+            ...prev,
+            models: { ...prev.models, [provider.id]: { ...prev.models[provider.id], [capability]: model } },
+        }));
+    };
+
+    // Providers read their settings on every request, so queued jobs pick the change up without a reload.
     const handleSave = () => {
         localStorage.setItem('GEMINI_API_KEY', apiKey.trim());
+        saveProviderSettings({ ...settings, httpBaseUrl: settings.httpBaseUrl.trim(), httpToken: settings.httpToken.trim() });
         onClose();
-        // Reload to ensure services pick up the new key if they aren't reactive
-        window.location.reload();
     };
 
     const handleClear = () => {
@@ -29,9 +42,11 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
 
     if (!isOpen) return null;
 
+    const inputClasses = "w-full bg-slate-900 border border-slate-700 rounded p-2 text-slate-200 focus:outline-none focus:border-cyan-500 font-mono text-sm";
+
     return (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
-            <div className="bg-slate-800 border-2 border-slate-600 rounded-lg shadow-2xl w-full max-w-md p-6">
+            <div className="bg-slate-800 border-2 border-slate-600 rounded-lg shadow-2xl w-full max-w-md p-6 max-h-[90vh] overflow-y-auto">
                 <div className="flex justify-between items-center mb-4">
                     <h2 className="text-xl font-bold text-slate-100">Settings</h2>
                     <button onClick={onClose} className="text-slate-400 hover:text-white">
@@ -42,27 +57,103 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
                 <div className="space-y-4">
                     <div>
                         <label className="block text-sm font-medium text-slate-300 mb-1">
-                            Google Gemini API Key
+                            Image Provider
                         </label>
-                        <input
-                            type="password"
-                            value={apiKey}
-                            onChange={(e) => setApiKey(e.target.value)}
-                            placeholder="AIzaSy..."
-                            className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-slate-200 focus:outline-none focus:border-cyan-500 font-mono text-sm"
-                        />
-                        <p className="text-xs text-slate-500 mt-1">
-                            Your key is stored locally in your browser and never sent to our servers.
-                        </p>
+                        <select
+                            value={provider.id}
+                            onChange={(e) => setSettings(prev => ({ ...prev, providerId: e.target.value }))}
+                            className={inputClasses}
+                        >
+                            {PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                        </select>
+                        <p className="text-xs text-slate-500 mt-1">{provider.description}</p>
+                    </div>
+
+                    {provider.id === 'gemini' && (
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300 mb-1">
+                                Google Gemini API Key
+                            </label>
+                            <input
+                                type="password"
+                                value={apiKey}
+                                onChange={(e) => setApiKey(e.target.value)}
+                                placeholder="AIzaSy..."
+                                className={inputClasses}
+                            />
+                            <p className="text-xs text-slate-500 mt-1">
+                                Your key is stored locally in your browser and never sent to our servers.
+                            </p>
+                        </div>
+                    )}
+
+                    {provider.id === 'http' && (
+                        <div className="space-y-2">
+                            <label className="block text-sm font-medium text-slate-300">
+                                Server URL
+                                <input
+                                    type="url"
+                                    value={settings.httpBaseUrl}
+                                    onChange={(e) => setSettings(prev => ({ ...prev, httpBaseUrl: e.target.value }))}
+                                    placeholder="http://127.0.0.1:7860"
+                                    className={`${inputClasses} mt-1`}
+                                />
+                            </label>
+                            <label className="block text-sm font-medium text-slate-300">
+                                Bearer Token (optional)
+                                <input
+                                    type="password"
+                                    value={settings.httpToken}
+                                    onChange={(e) => setSettings(prev => ({ ...prev, httpToken: e.target.value }))}
+                                    className={`${inputClasses} mt-1`}
+                                />
+                            </label>
+                            <p className="text-xs text-slate-500">
+                                The server must be started with its API enabled and allow this page's origin (CORS).
+                            </p>
+                        </div>
+                    )}
+
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-1">
+                            Models
+                        </label>
+                        <div className="grid grid-cols-[auto_1fr] items-center gap-x-2 gap-y-1 text-xs">
+                            {CAPABILITIES.map(({ capability, label }) => {
+                                const models = provider.models[capability];
+                                return (
+                                    <React.Fragment key={capability}>
+                                        <span className="text-slate-400">{label}</span>
+                                        {!provider[capability] ? (
+                                            <span className="text-slate-600 p-1">Not supported</span>
+                                        ) : models && models.length > 0 ? (
+                                            <select value={selectedModel(provider, capability, settings)} onChange={(e) => setModel(capability, e.target.value)} className={`${inputClasses} p-1 text-xs`}>
+                                                {models.map(model => <option key={model} value={model}>{model}</option>)}
+                                            </select>
+                                        ) : (
+                                            <input
+                                                type="text"
+                                                value={settings.models[provider.id]?.[capability] ?? ''}
+                                                onChange={(e) => setModel(capability, e.target.value)}
+                                                placeholder="Server default"
+                                                className={`${inputClasses} p-1 text-xs`}
+                                            />
+                                        )}
+                                    </React.Fragment>
+                                );
+                            })}
+                        </div>
                     </div>
 
                     <div className="flex justify-end gap-2 pt-4 border-t border-slate-700">
-                        <button
-                            onClick={handleClear}
-                            className="px-4 py-2 text-sm font-bold text-slate-400 hover:text-red-400"
-                        >
-                            Clear Key
-                        </button>
+                        {provider.id === 'gemini' && (
+                            <button
+                                onClick={handleClear}
+                                className="px-4 py-2 text-sm font-bold text-slate-400 hover:text-red-400"
+                            >
+                                Clear Key
+                            </button>
+                        )}
                         <button
                             onClick={handleSave}
                             className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded font-bold transition-colors"
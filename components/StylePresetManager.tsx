@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from 'react';
+import { XIcon, PlusIcon, TrashIcon, DownloadIcon, FileUpIcon } from './icons';
+import {
+  createStylePreset, duplicateStylePreset, exportStylePresets, parseStylePresets, prepareReferenceImage,
+  RESOLUTIONS, StylePresetDefinition,
+} from '../services/stylePresets';
+import { loadImage, createCanvas } from '../utils/canvas';
+import { quantizeColors } from '../utils/color';
+import { downloadBlob, readFileAsDataUrl, readFileAsText, sanitizeFilename } from '../utils/files';
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// "#112233 #445566, 778899" -> ['#112233', '#445566', '#778899']; anything else is dropped.
+const parsePalette = (text: string): string[] =>
+  text.split(/[\s,;]+/).map(token => token.startsWith('#') ? token : `#${token}`).filter(token => HEX_COLOR.test(token)).map(token => token.toLowerCase());
+
+interface StylePresetManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  presets: StylePresetDefinition[]; // built-in first, then the user's
+  onSave: (preset: StylePresetDefinition) => void;
+  onDelete: (id: string) => void;
+  onImport: (presets: StylePresetDefinition[]) => void;
+}
+
+const StylePresetManager: React.FC<StylePresetManagerProps> = ({ isOpen, onClose, presets, onSave, onDelete, onImport }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<StylePresetDefinition | null>(null);
+  const [paletteText, setPaletteText] = useState('');
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+  const selected = presets.find(preset => preset.id === selectedId) ?? null;
+  const userPresets = presets.filter(preset => !preset.builtIn);
+  const isDirty = !!draft && !!selected && JSON.stringify(draft) !== JSON.stringify(selected);
+
+  useEffect(() => {
+    setDraft(selected);
+    setPaletteText(selected?.palette?.join(' ') ?? '');
+  }, [selected]);
+
+  if (!isOpen) return null;
+
+  const select = (id: string) => {
+    if (isDirty && !window.confirm("Discard unsaved changes to this preset?")) return;
+    setSelectedId(id);
+    setMessage(null);
+  };
+
+  const addPreset = (preset: StylePresetDefinition) => {
+    onSave(preset);
+    setSelectedId(preset.id);
+  };
+
+  const update = (patch: Partial<StylePresetDefinition>) => setDraft(prev => prev ? { ...prev, ...patch } : prev);
+
+  const handlePaletteText = (text: string) => {
+    setPaletteText(text);
+    const palette = parsePalette(text);
+    update({ palette: palette.length > 0 ? palette : undefined });
+  };
+
+  const handleReferenceFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      update({ referenceImage: await prepareReferenceImage(await readFileAsDataUrl(file)) });
+    } catch (err) {
+      console.error("Failed to load reference image", err);
+      setMessage({ text: 'Could not read that image.', error: true });
+    }
+  };
+
+  // Takes the palette from the reference image, so a style can be set up from a single example.
+  const handlePaletteFromReference = async () => {
+    if (!draft?.referenceImage) return;
+    const img = await loadImage(draft.referenceImage);
+    const canvas = createCanvas(img.naturalWidth, img.naturalHeight);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.drawImage(img, 0, 0);
+    const palette = quantizeColors(ctx.getImageData(0, 0, canvas.width, canvas.height), 16);
+    setPaletteText(palette.join(' '));
+    update({ palette });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseStylePresets(await readFileAsText(file));
+      onImport(imported);
+      setMessage({ text: `Imported ${imported.length} preset(s).` });
+    } catch (err) {
+      console.error("Failed to import style presets", err);
+      setMessage({ text: err instanceof Error ? err.message : 'Import failed.', error: true });
+    }
+  };
+
+  const handleExport = (list: StylePresetDefinition[], filename: string) => {
+    downloadBlob(new Blob([exportStylePresets(list)], { type: 'application/json' }), `${sanitizeFilename(filename)}.json`);
+  };
+
+  const handleDelete = () => {
+    if (!selected || selected.builtIn) return;
+    if (!window.confirm(`Delete the style preset "${selected.name}"? Assets made with it keep their images.`)) return;
+    onDelete(selected.id);
+    setSelectedId(null);
+  };
+
+  const readOnly = !draft || !!draft.builtIn;
+  const inputClasses = "w-full bg-slate-900 border border-slate-700 rounded p-2 text-slate-200 focus:outline-none focus:border-cyan-500 text-sm disabled:opacity-60";
+  const buttonClasses = "flex items-center gap-1 px-2 py-1 text-xs font-bold rounded bg-slate-700 hover:bg-slate-600 text-slate-200 disabled:opacity-50";
+
+  const renderItem = (preset: StylePresetDefinition) => (
+    <li key={preset.id}>
+      <button onClick={() => select(preset.id)} className={`w-full text-left px-2 py-1 rounded text-xs truncate ${preset.id === selectedId ? 'bg-cyan-500 text-slate-900 font-bold' : 'text-slate-300 hover:bg-slate-700'}`}>
+        {preset.name}
+      </button>
+    </li>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-slate-800 border-2 border-slate-600 rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b-2 border-slate-700">
+          <h2 className="text-xl font-bold text-slate-100">Style Presets</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white"><XIcon className="w-6 h-6" /></button>
+        </div>
+
+        <div className="flex-grow grid grid-cols-[12rem_1fr] min-h-0">
+          <div className="border-r-2 border-slate-700 p-2 flex flex-col gap-2 min-h-0">
+            <div className="flex flex-wrap gap-1">
+              <button onClick={() => addPreset(createStylePreset())} className={buttonClasses}><PlusIcon className="w-3 h-3" />New</button>
+              <label className={`${buttonClasses} cursor-pointer`} title="Import presets from a .json file">
+                <FileUpIcon className="w-3 h-3" />Import
+                <input type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+              </label>
+              <button onClick={() => handleExport(userPresets, 'style-presets')} disabled={userPresets.length === 0} className={buttonClasses} title="Export all of your presets"><DownloadIcon className="w-3 h-3" />Export</button>
+            </div>
+            <div className="overflow-y-auto flex-grow">
+              <p className="px-2 pt-1 text-[10px] uppercase tracking-wider text-slate-500">Yours</p>
+              {userPresets.length === 0 ? <p className="px-2 py-1 text-xs text-slate-500">None yet. Create one or duplicate a built-in.</p> : <ul>{userPresets.map(renderItem)}</ul>}
+              <p className="px-2 pt-2 text-[10px] uppercase tracking-wider text-slate-500">Built-in</p>
+              <ul>{presets.filter(preset => preset.builtIn).map(renderItem)}</ul>
+            </div>
+          </div>
+
+          <div className="p-4 overflow-y-auto space-y-3">
+            {message && <p className={`text-xs ${message.error ? 'text-red-400' : 'text-green-400'}`}>{message.text}</p>}
+            {!draft ? (
+              <p className="text-sm text-slate-400">Select a preset to view it. Built-in presets are read-only; duplicate one to make your own version.</p>
+            ) : (
+              <>
+                <div className="flex flex-wrap gap-1">
+                  <button onClick={() => addPreset(duplicateStylePreset(draft))} className={buttonClasses}>Duplicate</button>
+                  {!draft.builtIn && <button onClick={() => handleExport([draft], draft.name)} className={buttonClasses}><DownloadIcon className="w-3 h-3" />Export</button>}
+                  {!draft.builtIn && <button onClick={handleDelete} className={`${buttonClasses} hover:bg-red-600`}><TrashIcon className="w-3 h-3" />Delete</button>}
+                </div>
+
+                <label className="block text-sm text-slate-300">Name
+                  <input type="text" value={draft.name} onChange={e => update({ name: e.target.value })} disabled={readOnly} className={`${inputClasses} mt-1`} />
+                </label>
+                <label className="block text-sm text-slate-300">Prompt fragment
+                  <textarea value={draft.prompt} onChange={e => update({ prompt: e.target.value })} disabled={readOnly} className={`${inputClasses} mt-1 h-24 resize-y`} />
+                </label>
+                <label className="block text-sm text-slate-300">Default negative prompt
+                  <textarea value={draft.negativePrompt} onChange={e => update({ negativePrompt: e.target.value })} disabled={readOnly} placeholder="Replaces the form's negative prompt when this style is picked" className={`${inputClasses} mt-1 h-16 resize-y`} />
+                </label>
+                <label className="block text-sm text-slate-300">Target resolution
+                  <select value={draft.resolution ?? 0} onChange={e => update({ resolution: parseInt(e.target.value) || undefined })} disabled={readOnly} className={`${inputClasses} mt-1`}>
+                    <option value={0}>Unconstrained</option>
+                    {RESOLUTIONS.map(size => <option key={size} value={size}>{size} x {size} px</option>)}
+                  </select>
+                </label>
+
+                <div>
+                  <label className="block text-sm text-slate-300">Palette constraint
+                    <input type="text" value={paletteText} onChange={e => handlePaletteText(e.target.value)} disabled={readOnly} placeholder="Hex colors, e.g. #0f380f #306230 #8bac0f #9bbc0f" className={`${inputClasses} mt-1 font-mono text-xs`} />
+                  </label>
+                  {draft.palette && (
+                    <div className="mt-1 flex flex-wrap gap-0.5">
+                      {draft.palette.map((color, i) => <span key={`${color}-${i}`} title={color} className="w-4 h-4 rounded-sm border border-slate-900" style={{ backgroundColor: color }} />)}
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <span className="block text-sm text-slate-300 mb-1">Reference image</span>
+                  {draft.referenceImage ? (
+                    <div className="flex items-start gap-2">
+                      <img src={draft.referenceImage} alt="Style reference" className="w-24 h-24 object-contain bg-slate-900/50 rounded" style={{ imageRendering: 'pixelated' }} />
+                      {!readOnly && (
+                        <div className="flex flex-col gap-1">
+                          <button onClick={handlePaletteFromReference} className={buttonClasses}>Use its palette</button>
+                          <button onClick={() => update({ referenceImage: undefined })} className={`${buttonClasses} hover:bg-red-600`}>Remove</button>
+                        </div>
+                      )}
+                    </div>
+                  ) : readOnly ? (
+                    <p className="text-xs text-slate-500">None</p>
+                  ) : (
+                    <label className="w-full h-16 flex items-center justify-center gap-2 bg-slate-900 border-2 border-dashed border-slate-600 rounded-md cursor-pointer hover:border-cyan-400">
+                      <FileUpIcon className="w-5 h-5 text-slate-400" />
+                      <span className="text-xs text-slate-400">Upload an example of the style</span>
+                      <input type="file" accept="image/*" className="hidden" onChange={handleReferenceFile} />
+                    </label>
+                  )}
+                </div>
+
+                {!readOnly && (
+                  <div className="flex justify-end gap-2 pt-3 border-t border-slate-700">
+                    <button onClick={() => { setDraft(selected); setPaletteText(selected?.palette?.join(' ') ?? ''); }} disabled={!isDirty} className="px-4 py-2 text-sm font-bold text-slate-400 hover:text-slate-200 disabled:opacity-50">Revert</button>
+                    <button onClick={() => onSave({ ...draft, name: draft.name.trim() || 'Untitled Style' })} disabled={!isDirty} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded font-bold transition-colors disabled:opacity-50">Save Preset</button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StylePresetManager;
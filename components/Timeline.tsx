@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { PlusIcon, TrashIcon, DuplicateIcon, XIcon, FlipHorizontalIcon } from './icons';
+import type { AnimationTag, Frame, TagDirection } from './Editor';
+import { FrameRange, TAG_DIRECTIONS, inRange, rangeLength } from '../utils/timeline';
+import { isEmptyCel, isLinkedToPrevious } from '../utils/layers';
+
+const COLUMN_WIDTH = 40;
+const inputClasses = "bg-slate-700 border border-slate-600 rounded px-1 py-0.5";
+
+interface TimelineProps {
+  frames: Frame[];
+  tags: AnimationTag[];
+  currentFrameIndex: number;
+  activeLayerIndex: number; // stack position, 0 = bottom
+  range: FrameRange;
+  isPlaying: boolean;
+  playTagId: string | null;
+  onSelectCel: (frameIndex: number, layerIndex: number, extend: boolean) => void;
+  onSelectRange: (range: FrameRange) => void;
+  onTogglePlay: () => void;
+  onPlayTagChange: (id: string | null) => void;
+  onAddFrame: () => void;
+  onCopyFrames: () => void;
+  onDeleteFrames: () => void;
+  onMoveFrames: (to: number) => void;
+  onReverseFrames: () => void;
+  onDurationChange: (duration: number) => void;
+  onRenameFrame: (index: number, name: string) => void;
+  onLinkCels: () => void;
+  onUnlinkCels: () => void;
+  onAddTag: () => void;
+  onTagChange: (id: string, patch: Partial<AnimationTag>) => void;
+  onDeleteTag: (id: string) => void;
+}
+
+// TIMELINE
+// Layers x frames cel grid with tags above it. Every frame has the same layer stack; a filled dot
+// is a cel with pixels, a hollow one an empty cel, and a bar joins cels linked to the previous frame.
+const Timeline: React.FC<TimelineProps> = ({
+  frames, tags, currentFrameIndex, activeLayerIndex, range, isPlaying, playTagId, onSelectCel, onSelectRange, onTogglePlay, onPlayTagChange,
+  onAddFrame, onCopyFrames, onDeleteFrames, onMoveFrames, onReverseFrames, onDurationChange, onRenameFrame, onLinkCels, onUnlinkCels,
+  onAddTag, onTagChange, onDeleteTag,
+}) => {
+  const [editingTagId, setEditingTagId] = useState<string | null>(null);
+  const [renamingFrame, setRenamingFrame] = useState<number | null>(null);
+  const [dragFrom, setDragFrom] = useState<number | null>(null);
+
+  const rowCount = Math.max(...frames.map(f => f.layers.length));
+  const rows = Array.from({ length: rowCount }, (_, i) => rowCount - 1 - i); // top layer first
+  const current = frames[currentFrameIndex];
+  const rowName = (position: number) => (current.layers[position] ?? frames.find(f => f.layers[position])?.layers[position])?.name ?? '';
+
+  const selected = frames.slice(range.from, range.to + 1);
+  const durations = new Set(selected.map(f => f.duration));
+  const editingTag = tags.find(t => t.id === editingTagId);
+  const gridWidth = frames.length * COLUMN_WIDTH;
+
+  // Dropping the selection onto a frame puts it where that frame was.
+  const handleDrop = (target: number) => {
+    if (dragFrom === null) return;
+    setDragFrom(null);
+    if (inRange(range, target)) return;
+    onMoveFrames(target < range.from ? target : target - rangeLength(range) + 1);
+  };
+
+  const finishRename = (index: number, name: string) => {
+    setRenamingFrame(null);
+    if (name !== (frames[index].name ?? '')) onRenameFrame(index, name);
+  };
+
+  return (
+    <div className="h-56 bg-slate-900 border-t-2 border-slate-700 flex flex-col text-xs">
+      <div className="flex items-center gap-2 p-1 border-b border-slate-700 bg-slate-800 flex-wrap">
+        <button onClick={onTogglePlay} title="Play / Pause (Space)" className={`p-1 w-8 flex items-center justify-center rounded ${isPlaying ? 'bg-red-500 text-white' : 'bg-green-500 text-white'}`}>
+          {isPlaying ? '||' : '>'}
+        </button>
+        <select value={playTagId ?? ''} onChange={e => onPlayTagChange(e.target.value || null)} title="What to play" className={inputClasses}>
+          <option value="">All frames</option>
+          {tags.map(tag => <option key={tag.id} value={tag.id}>{tag.name}</option>)}
+        </select>
+        <div className="w-px h-5 bg-slate-600" />
+        <span className="text-slate-400">{rangeLength(range) > 1 ? `Frames ${range.from + 1}-${range.to + 1}` : `Frame ${range.from + 1}`}</span>
+        <label className="flex items-center gap-1" title="Duration of the selected frames">
+          <input type="number" min="10" step="10" value={durations.size === 1 ? selected[0].duration : ''} placeholder="mixed"
+            onChange={e => { const ms = parseInt(e.target.value); if (ms > 0) onDurationChange(ms); }} className={`${inputClasses} w-16`} /> ms
+        </label>
+        <div className="flex-grow" />
+        <button onClick={() => onMoveFrames(range.from - 1)} disabled={range.from === 0} className="px-1.5 py-1 hover:bg-slate-700 rounded disabled:opacity-40" title="Move Left">&lt;</button>
+        <button onClick={() => onMoveFrames(range.from + 1)} disabled={range.to >= frames.length - 1} className="px-1.5 py-1 hover:bg-slate-700 rounded disabled:opacity-40" title="Move Right">&gt;</button>
+        <button onClick={onReverseFrames} disabled={rangeLength(range) < 2} className="p-1 hover:bg-slate-700 rounded disabled:opacity-40" title="Reverse Frames"><FlipHorizontalIcon className="w-4 h-4" /></button>
+        <button onClick={onLinkCels} disabled={rangeLength(range) < 2} className="px-1.5 py-1 hover:bg-slate-700 rounded disabled:opacity-40" title="Link the active layer's cels in the selected frames to the first one">Link</button>
+        <button onClick={onUnlinkCels} className="px-1.5 py-1 hover:bg-slate-700 rounded" title="Give the active layer's linked cels in the selected frames their own copies">Unlink</button>
+        <button onClick={onCopyFrames} className="p-1 hover:bg-slate-700 rounded" title="Copy Frames"><DuplicateIcon className="w-4 h-4" /></button>
+        <button onClick={onAddFrame} className="p-1 hover:bg-slate-700 rounded" title="New Frame"><PlusIcon className="w-4 h-4" /></button>
+        <button onClick={onDeleteFrames} disabled={rangeLength(range) >= frames.length} className="p-1 hover:bg-slate-700 rounded text-red-400 disabled:opacity-40" title="Delete Frames"><TrashIcon className="w-4 h-4" /></button>
+        <button onClick={onAddTag} className="px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded" title="Tag the selected frames">+ Tag</button>
+      </div>
+
+      {editingTag && (
+        <div className="flex items-center gap-2 p-1 border-b border-slate-700 bg-slate-800/60">
+          <input type="color" value={editingTag.color} onChange={e => onTagChange(editingTag.id, { color: e.target.value })} className="w-6 h-5 bg-transparent" />
+          <input type="text" value={editingTag.name} onChange={e => onTagChange(editingTag.id, { name: e.target.value })} className={`${inputClasses} w-28`} />
+          <select value={editingTag.direction} onChange={e => onTagChange(editingTag.id, { direction: e.target.value as TagDirection })} className={inputClasses}>
+            {TAG_DIRECTIONS.map(({ direction, label }) => <option key={direction} value={direction}>{label}</option>)}
+          </select>
+          <label className="flex items-center gap-1" title="0 loops forever">Repeat
+            <input type="number" min="0" value={editingTag.repeat} onChange={e => onTagChange(editingTag.id, { repeat: Math.max(0, parseInt(e.target.value) || 0) })} className={`${inputClasses} w-12`} />
+          </label>
+          <span className="text-slate-400">Frames {editingTag.from + 1}-{editingTag.to + 1}</span>
+          <button onClick={() => onTagChange(editingTag.id, { from: range.from, to: range.to })} className="px-2 py-0.5 bg-slate-700 hover:bg-slate-600 rounded" title="Set the tag's range to the selected frames">Use Selection</button>
+          <div className="flex-grow" />
+          <button onClick={() => { onDeleteTag(editingTag.id); setEditingTagId(null); }} className="p-1 hover:bg-slate-700 rounded text-red-400" title="Delete Tag"><TrashIcon className="w-4 h-4" /></button>
+          <button onClick={() => setEditingTagId(null)} className="p-1 hover:bg-slate-700 rounded"><XIcon className="w-4 h-4" /></button>
+        </div>
+      )}
+
+      <div className="flex-grow overflow-auto">
+        <div className="flex min-w-max">
+          <div className="w-28 flex-shrink-0 sticky left-0 z-10 bg-slate-900 border-r border-slate-700">
+            {tags.map(tag => <div key={tag.id} className="h-4" />)}
+            <div className="h-9 flex items-end px-1 pb-0.5 text-slate-500 border-b border-slate-700">Layers</div>
+            {rows.map(position => (
+              <div key={position} className={`h-6 px-1 flex items-center truncate ${position === activeLayerIndex ? 'text-white bg-fuchsia-600/30' : 'text-slate-400'}`} title={rowName(position)}>{rowName(position)}</div>
+            ))}
+          </div>
+          <div style={{ width: gridWidth }}>
+            {tags.map(tag => (
+              <div key={tag.id} className="h-4 relative">
+                <button onClick={() => { setEditingTagId(tag.id); onSelectRange({ from: tag.from, to: tag.to }); }}
+                  title={`${tag.name}: frames ${tag.from + 1}-${tag.to + 1}, ${tag.direction}${tag.repeat ? `, ${tag.repeat}x` : ''}`}
+                  className={`absolute top-0.5 h-3 rounded-sm text-[9px] leading-3 text-slate-900 font-bold truncate px-1 text-left ${editingTagId === tag.id ? 'ring-1 ring-white' : ''}`}
+                  style={{ left: tag.from * COLUMN_WIDTH + 1, width: (tag.to - tag.from + 1) * COLUMN_WIDTH - 2, backgroundColor: tag.color }}>
+                  {tag.name}
+                </button>
+              </div>
+            ))}
+            <div className="flex h-9 border-b border-slate-700">
+              {frames.map((frame, index) => (
+                <div key={frame.id} draggable onDragStart={() => { if (!inRange(range, index)) onSelectCel(index, activeLayerIndex, false); setDragFrom(index); }}
+                  onDragOver={e => e.preventDefault()} onDrop={() => handleDrop(index)} onDragEnd={() => setDragFrom(null)}
+                  onClick={e => onSelectCel(index, activeLayerIndex, e.shiftKey)} onDoubleClick={() => setRenamingFrame(index)}
+                  title={`${frame.name ? `${frame.name} - ` : ''}${frame.duration} ms. Shift-click to select a range, drag to move, double-click to rename.`}
+                  style={{ width: COLUMN_WIDTH }}
+                  className={`flex-shrink-0 flex flex-col items-center justify-center border-r border-slate-700 cursor-pointer select-none ${inRange(range, index) ? 'bg-cyan-900/60' : 'hover:bg-slate-800'} ${index === currentFrameIndex ? 'text-cyan-300 font-bold' : 'text-slate-400'}`}>
+                  {renamingFrame === index ? (
+                    <input autoFocus type="text" defaultValue={frame.name ?? ''} onClick={e => e.stopPropagation()}
+                      onBlur={e => finishRename(index, e.target.value)} onKeyDown={e => e.key === 'Enter' && finishRename(index, e.currentTarget.value)}
+                      className="w-full bg-slate-900 text-white text-[10px] p-0 border-0" />
+                  ) : (
+                    <span className="truncate w-full text-center">{frame.name || index + 1}</span>
+                  )}
+                  <span className="text-[9px] text-slate-500">{frame.duration}ms</span>
+                </div>
+              ))}
+            </div>
+            {rows.map(position => (
+              <div key={position} className="flex h-6">
+                {frames.map((frame, index) => {
+                  const layer = frame.layers[position];
+                  const isActive = index === currentFrameIndex && position === activeLayerIndex;
+                  const isEmpty = layer && isEmptyCel(layer);
+                  const fill = isEmpty ? (isActive ? 'border-fuchsia-400' : 'border-slate-500')
+                    : isActive ? 'bg-fuchsia-500 border-white' : layer?.isVisible ? 'bg-slate-500 border-slate-400' : 'bg-slate-700 border-slate-600';
+                  return (
+                    <div key={frame.id} onClick={e => layer && onSelectCel(index, position, e.shiftKey)} style={{ width: COLUMN_WIDTH }}
+                      title={isEmpty ? 'Empty cel' : isLinkedToPrevious(frames, index, position) ? 'Linked to the previous frame' : undefined}
+                      className={`relative flex-shrink-0 flex items-center justify-center border-r border-b border-slate-800 ${layer ? 'cursor-pointer hover:bg-slate-700/60' : ''} ${inRange(range, index) ? 'bg-cyan-900/30' : ''}`}>
+                      {isLinkedToPrevious(frames, index, position) && <span className="absolute right-1/2 top-1/2 h-0.5 bg-slate-400" style={{ width: COLUMN_WIDTH }} />}
+                      {layer && <span className={`relative w-2.5 h-2.5 rounded-full border ${fill}`} />}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Timeline;
@@ -0,0 +1,348 @@
+import type { AssetCollection, GeneratedAsset, HistoryItem } from '../App';
+import type { StylePresetDefinition } from './stylePresets';
+import type { PaletteDefinition } from './palettes';
+import { createZip } from '../utils/zip';
+import { sanitizeFilename } from '../utils/files';
+
+// ASSET STORE
+// History lives in IndexedDB: metadata, the original file and a small thumbnail are kept in
+// separate object stores so the history list can load without touching the large blobs.
+
+const DB_NAME = 'pixelArtPro';
+const DB_VERSION = 4;
+const META_STORE = 'assets';
+const BLOB_STORE = 'blobs';
+const THUMB_STORE = 'thumbnails';
+const COLLECTION_STORE = 'collections';
+const STYLE_PRESET_STORE = 'stylePresets';
+const PALETTE_STORE = 'palettes';
+
+const LEGACY_STORAGE_KEY = 'pixelArtHistoryV2';
+const THUMBNAIL_SIZE = 96;
+
+export interface StoredAssetMeta {
+    id: string; // HistoryItem id
+    timestamp: number;
+    asset: Omit<GeneratedAsset, 'url'>;
+    tags?: string[];
+    favorite?: boolean;
+    collectionIds?: string[];
+    parentId?: string;
+    mimeType: string;
+    size: number; // bytes of the original blob
+}
+
+export interface StorageUsage {
+    assetBytes: number;
+    count: number;
+    usage?: number; // whole origin, from navigator.storage.estimate()
+    quota?: number;
+}
+
+export interface EvictionPolicy {
+    maxItems: number; // 0 = unlimited
+    maxAgeDays: number; // 0 = unlimited
+}
+
+const EVICTION_POLICY_STORAGE_KEY = 'pixelArtEvictionPolicy';
+export const DEFAULT_EVICTION_POLICY: EvictionPolicy = { maxItems: 0, maxAgeDays: 0 };
+
+export const EVICTION_PRESETS: { label: string; policy: EvictionPolicy }[] = [
+    { label: 'Keep everything', policy: { maxItems: 0, maxAgeDays: 0 } },
+    { label: 'Keep newest 100', policy: { maxItems: 100, maxAgeDays: 0 } },
+    { label: 'Keep newest 500', policy: { maxItems: 500, maxAgeDays: 0 } },
+    { label: 'Keep last 7 days', policy: { maxItems: 0, maxAgeDays: 7 } },
+    { label: 'Keep last 30 days', policy: { maxItems: 0, maxAgeDays: 30 } },
+];
+
+export const loadEvictionPolicy = (): EvictionPolicy => {
+    try {
+        return { ...DEFAULT_EVICTION_POLICY, ...JSON.parse(localStorage.getItem(EVICTION_POLICY_STORAGE_KEY) || '{}') };
+    } catch {
+        return DEFAULT_EVICTION_POLICY;
+    }
+};
+
+export const saveEvictionPolicy = (policy: EvictionPolicy) => {
+    localStorage.setItem(EVICTION_POLICY_STORAGE_KEY, JSON.stringify(policy));
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(META_STORE)) {
+                    db.createObjectStore(META_STORE, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+                }
+                if (!db.objectStoreNames.contains(BLOB_STORE)) db.createObjectStore(BLOB_STORE);
+                if (!db.objectStoreNames.contains(THUMB_STORE)) db.createObjectStore(THUMB_STORE);
+                if (!db.objectStoreNames.contains(COLLECTION_STORE)) db.createObjectStore(COLLECTION_STORE, { keyPath: 'id' });
+                if (!db.objectStoreNames.contains(STYLE_PRESET_STORE)) db.createObjectStore(STYLE_PRESET_STORE, { keyPath: 'id' });
+                if (!db.objectStoreNames.contains(PALETTE_STORE)) db.createObjectStore(PALETTE_STORE, { keyPath: 'id' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error ?? new Error("Could not open the asset database."));
+        });
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Asset database transaction was aborted."));
+});
+
+const toMeta = (item: HistoryItem, blob: Blob): StoredAssetMeta => {
+    const { url, ...asset } = item.asset;
+    return {
+        id: item.id, timestamp: item.timestamp, asset, mimeType: blob.type, size: blob.size,
+        tags: item.tags, favorite: item.favorite, collectionIds: item.collectionIds, parentId: item.parentId,
+    };
+};
+
+const fromMeta = (meta: StoredAssetMeta, blob: Blob): HistoryItem => ({
+    id: meta.id,
+    timestamp: meta.timestamp,
+    asset: { ...meta.asset, url: URL.createObjectURL(blob) },
+    tags: meta.tags ?? [],
+    favorite: meta.favorite ?? false,
+    collectionIds: meta.collectionIds ?? [],
+    parentId: meta.parentId,
+});
+
+export const saveAsset = async (item: HistoryItem): Promise<void> => {
+    const response = await fetch(item.asset.url);
+    if (!response.ok) throw new Error(`Could not read asset data (${response.status}).`);
+    const blob = await response.blob();
+    const db = await openDB();
+    const tx = db.transaction([META_STORE, BLOB_STORE], 'readwrite');
+    tx.objectStore(META_STORE).put(toMeta(item, blob));
+    tx.objectStore(BLOB_STORE).put(blob, item.id);
+    await transactionDone(tx);
+};
+
+/** Loads all history items, newest first. Each url is a fresh object URL the caller must revoke. */
+export const loadAssets = async (): Promise<HistoryItem[]> => {
+    const db = await openDB();
+    const metas = await promisify(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).getAll() as IDBRequest<StoredAssetMeta[]>);
+    const blobStore = db.transaction(BLOB_STORE, 'readonly').objectStore(BLOB_STORE);
+    const blobs = await Promise.all(metas.map(meta => promisify(blobStore.get(meta.id) as IDBRequest<Blob | undefined>)));
+    return metas
+        .map((meta, i) => blobs[i] ? fromMeta(meta, blobs[i]!) : null)
+        .filter((item): item is HistoryItem => item !== null)
+        .sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/** Writes the library fields (tags, favorite, collections) of already stored items. */
+export const updateAssetMeta = async (items: HistoryItem[]): Promise<void> => {
+    const db = await openDB();
+    const store = db.transaction(META_STORE, 'readonly').objectStore(META_STORE);
+    const metas = await Promise.all(items.map(item => promisify(store.get(item.id) as IDBRequest<StoredAssetMeta | undefined>)));
+    const tx = db.transaction(META_STORE, 'readwrite');
+    metas.forEach((meta, i) => {
+        if (!meta) return;
+        const { tags, favorite, collectionIds } = items[i];
+        tx.objectStore(META_STORE).put({ ...meta, tags, favorite, collectionIds });
+    });
+    await transactionDone(tx);
+};
+
+export const deleteAssets = async (ids: string[]): Promise<void> => {
+    const db = await openDB();
+    const tx = db.transaction([META_STORE, BLOB_STORE, THUMB_STORE], 'readwrite');
+    ids.forEach(id => [META_STORE, BLOB_STORE, THUMB_STORE].forEach(store => tx.objectStore(store).delete(id)));
+    await transactionDone(tx);
+};
+
+export const clearAssets = async (): Promise<void> => {
+    const db = await openDB();
+    const tx = db.transaction([META_STORE, BLOB_STORE, THUMB_STORE], 'readwrite');
+    [META_STORE, BLOB_STORE, THUMB_STORE].forEach(store => tx.objectStore(store).clear());
+    await transactionDone(tx);
+};
+
+// THUMBNAILS
+const renderThumbnail = (blob: Blob): Promise<Blob> => new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const isVideo = blob.type.startsWith('video/');
+    const media = isVideo ? document.createElement('video') : new Image();
+    const draw = () => {
+        const width = isVideo ? (media as HTMLVideoElement).videoWidth : (media as HTMLImageElement).naturalWidth;
+        const height = isVideo ? (media as HTMLVideoElement).videoHeight : (media as HTMLImageElement).naturalHeight;
+        const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height, 1));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(width * scale));
+        canvas.height = Math.max(1, Math.round(height * scale));
+        const ctx = canvas.getContext('2d')!;
+        ctx.imageSmoothingEnabled = false;
+        ctx.drawImage(media, 0, 0, canvas.width, canvas.height);
+        URL.revokeObjectURL(url);
+        canvas.toBlob(thumb => thumb ? resolve(thumb) : reject(new Error("Failed to encode thumbnail.")), 'image/png');
+    };
+    media.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error("Failed to decode asset for thumbnail."));
+    };
+    if (isVideo) {
+        const video = media as HTMLVideoElement;
+        video.muted = true;
+        video.onloadeddata = draw;
+    } else {
+        (media as HTMLImageElement).onload = draw;
+    }
+    media.src = url;
+});
+
+/** Returns an object URL for the asset's thumbnail, rendering and storing it on first use. */
+export const getThumbnailUrl = async (id: string): Promise<string | null> => {
+    const db = await openDB();
+    const cached = await promisify(db.transaction(THUMB_STORE, 'readonly').objectStore(THUMB_STORE).get(id) as IDBRequest<Blob | undefined>);
+    if (cached) return URL.createObjectURL(cached);
+
+    const blob = await promisify(db.transaction(BLOB_STORE, 'readonly').objectStore(BLOB_STORE).get(id) as IDBRequest<Blob | undefined>);
+    if (!blob) return null;
+    const thumb = await renderThumbnail(blob);
+    const tx = db.transaction(THUMB_STORE, 'readwrite');
+    tx.objectStore(THUMB_STORE).put(thumb, id);
+    await transactionDone(tx);
+    return URL.createObjectURL(thumb);
+};
+
+// COLLECTIONS
+export const loadCollections = async (): Promise<AssetCollection[]> => {
+    const db = await openDB();
+    const collections = await promisify(db.transaction(COLLECTION_STORE, 'readonly').objectStore(COLLECTION_STORE).getAll() as IDBRequest<AssetCollection[]>);
+    return collections.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveCollection = async (collection: AssetCollection): Promise<void> => {
+    const db = await openDB();
+    const tx = db.transaction(COLLECTION_STORE, 'readwrite');
+    tx.objectStore(COLLECTION_STORE).put(collection);
+    await transactionDone(tx);
+};
+
+export const deleteCollection = async (id: string): Promise<void> => {
+    const db = await openDB();
+    const tx = db.transaction(COLLECTION_STORE, 'readwrite');
+    tx.objectStore(COLLECTION_STORE).delete(id);
+    await transactionDone(tx);
+};
+
+// STYLE PRESETS
+// Only user presets are stored; the built-in ones ship with the app.
+export const loadStylePresets = async (): Promise<StylePresetDefinition[]> => {
+    const db = await openDB();
+    const presets = await promisify(db.transaction(STYLE_PRESET_STORE, 'readonly').objectStore(STYLE_PRESET_STORE).getAll() as IDBRequest<StylePresetDefinition[]>);
+    return presets.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveStylePresets = async (presets: StylePresetDefinition[]): Promise<void> => {
+    const db = await openDB();
+    const tx = db.transaction(STYLE_PRESET_STORE, 'readwrite');
+    presets.forEach(preset => tx.objectStore(STYLE_PRESET_STORE).put(preset));
+    await transactionDone(tx);
+};
+
+export const deleteStylePreset = async (id: string): Promise<void> => {
+    const db = await openDB();
+    const tx = db.transaction(STYLE_PRESET_STORE, 'readwrite');
+    tx.objectStore(STYLE_PRESET_STORE).delete(id);
+    await transactionDone(tx);
+};
+
+export const loadPalettes = async (): Promise<PaletteDefinition[]> => {
+    const db = await openDB();
+    const palettes = await promisify(db.transaction(PALETTE_STORE, 'readonly').objectStore(PALETTE_STORE).getAll() as IDBRequest<PaletteDefinition[]>);
+    return palettes.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const savePalettes = async (palettes: PaletteDefinition[]): Promise<void> => {
+    const db = await openDB();
+    const tx = db.transaction(PALETTE_STORE, 'readwrite');
+    palettes.forEach(palette => tx.objectStore(PALETTE_STORE).put(palette));
+    await transactionDone(tx);
+};
+
+export const deletePalette = async (id: string): Promise<void> => {
+    const db = await openDB();
+    const tx = db.transaction(PALETTE_STORE, 'readwrite');
+    tx.objectStore(PALETTE_STORE).delete(id);
+    await transactionDone(tx);
+};
+
+// EXPORT
+/** Zips the items' files in the given order, plus a manifest.json with their metadata and promptData. */
+export const exportAssetsZip = async (items: HistoryItem[]): Promise<Blob> => {
+    const entries = await Promise.all(items.map(async (item, i) => {
+        const blob = await (await fetch(item.asset.url)).blob();
+        const extension = blob.type.split('/')[1]?.replace('jpeg', 'jpg') || 'png';
+        return { name: `${String(i + 1).padStart(3, '0')}-${sanitizeFilename(item.asset.promptData?.basePrompt || item.asset.promptData?.prompt || item.asset.type)}.${extension}`, data: blob, item };
+    }));
+    const manifest = entries.map(({ name, item }) => ({
+        file: name, id: item.id, type: item.asset.type, timestamp: item.timestamp,
+        tags: item.tags ?? [], favorite: !!item.favorite, parentId: item.parentId ?? null, promptData: item.asset.promptData ?? null,
+    }));
+    return createZip([...entries, { name: 'manifest.json', data: JSON.stringify(manifest, null, 2) }]);
+};
+
+// USAGE & EVICTION
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+    const db = await openDB();
+    const metas = await promisify(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).getAll() as IDBRequest<StoredAssetMeta[]>);
+    const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : {};
+    return {
+        assetBytes: metas.reduce((sum, m) => sum + m.size, 0),
+        count: metas.length,
+        usage: estimate.usage,
+        quota: estimate.quota,
+    };
+};
+
+/** Deletes the oldest assets that fall outside the policy; favorites are never evicted. Returns the removed ids. */
+export const evictAssets = async (policy: EvictionPolicy): Promise<string[]> => {
+    if (!policy.maxItems && !policy.maxAgeDays) return [];
+    const db = await openDB();
+    const metas = await promisify(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).getAll() as IDBRequest<StoredAssetMeta[]>);
+    const newestFirst = metas.filter(meta => !meta.favorite).sort((a, b) => b.timestamp - a.timestamp);
+    const cutoff = policy.maxAgeDays ? Date.now() - policy.maxAgeDays * 24 * 60 * 60 * 1000 : -Infinity;
+    const evicted = newestFirst
+        .filter((meta, index) => (policy.maxItems > 0 && index >= policy.maxItems) || meta.timestamp < cutoff)
+        .map(meta => meta.id);
+    if (evicted.length > 0) await deleteAssets(evicted);
+    return evicted;
+};
+
+// MIGRATION
+/**
+ * Moves history saved by older versions (base64 data URLs in localStorage) into IndexedDB.
+ * `blob:` URLs from that era died with their page, so those items are reported and dropped.
+ */
+export const migrateLegacyHistory = async (): Promise<{ migrated: number; dropped: number }> => {
+    const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!saved) return { migrated: 0, dropped: 0 };
+    const items: HistoryItem[] = JSON.parse(saved);
+    let migrated = 0, dropped = 0;
+    for (const item of items) {
+        try {
+            await saveAsset(item);
+            migrated++;
+        } catch (e) {
+            console.warn(`Could not migrate history item ${item.id}`, e);
+            dropped++;
+        }
+    }
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return { migrated, dropped };
+};
@@ -1,6 +1,11 @@
 
 import { GoogleGenAI, Modality, Type, GenerateContentResponse } from "@google/genai";
-import type { StylePreset } from '../components/PromptForm';
+import type { ImageProvider, ProviderOptions } from './imageProvider';
+import { withRetry, sleep } from './request';
+import { describeStyle, describeFrames } from './prompts';
+
+// GOOGLE GEMINI PROVIDER
+// Imagen for text-to-image, Gemini image models for edits, Veo for animation.
 
 const getApiKey = () => {
     return localStorage.getItem('GEMINI_API_KEY') || import.meta.env.VITE_API_KEY || '';
@@ -12,152 +17,29 @@ const getAIClient = () => {
     return new GoogleGenAI({ apiKey: key });
 };
 
-const stylePrompts: Record<StylePreset, string> = {
-    '8-bit': '8-bit pixel art sprite, very pixelated, extremely low resolution, limited 4-color palette like the NES, retro video game asset, clean lines, simple, 1:1 aspect ratio.',
-    '16-bit': '16-bit pixel art sprite, SNES/Genesis style, detailed, low resolution, vibrant 32-color palette, retro RPG asset, shaded, 1:1 aspect ratio.',
-    'Game Boy': 'Game Boy pixel art sprite, 4-color grayscale palette (shades of green-and-black), very low resolution, iconic retro handheld style, 1:1 aspect ratio.',
-    'Monochrome': 'Monochrome 1-bit pixel art, black and white only, sharp edges, minimalist, high contrast, 1:1 aspect ratio.',
-    'Isometric': 'isometric 3D pixel art, clean lines, blocky, distinct lighting and shadows, retro strategy game style, 1:1 aspect ratio.',
-    'Claymation': 'claymation style, stop-motion look, slightly imperfect shapes, fingerprint textures, vibrant and soft, 1:1 aspect ratio.',
-    'LEGO': 'LEGO brick-built style, stud connections visible, blocky and modular, bright primary colors, 1:1 aspect ratio.',
-    'Comic Book': 'comic book art style, bold outlines, cel-shading, halftone dot patterns, dynamic, pop art, 1:1 aspect ratio.',
-    'Cinematic': 'cinematic lighting, dramatic shadows, high contrast, detailed, atmospheric, movie still look, 1:1 aspect ratio.',
-    'Stained Glass': 'stained glass window style, thick black lead lines, vibrant translucent colors, glowing effect, 1:1 aspect ratio.',
-    'Sticker': 'die-cut sticker style, thick white border, glossy finish, cute and simple, 1:1 aspect ratio.',
-    'Low Poly': 'low-poly 3D render style, flat shading, geometric shapes, minimalist, modern retro, 1:1 aspect ratio.',
-    'Voxel': 'voxel art style, made of 3D cubes, blocky, Minecraft-like aesthetic, 1:1 aspect ratio.',
-    'Dithering': 'dithered pixel art, limited color palette with dithering for gradients, retro PC-98 style, 1:1 aspect ratio.',
-    'HD Pixel Art': 'modern HD pixel art, high resolution sprite, extremely detailed, clean anti-aliasing on curves, contemporary indie game style, 1:1 aspect ratio.',
-    'Cute': 'cute kawaii style, rounded shapes, simple features, pastel colors, chibi proportions, 1:1 aspect ratio.',
-    'Gothic': 'gothic horror style, dark and moody, high contrast, deep shadows, desaturated colors with red accents, 1:1 aspect ratio.',
-    'Synthwave': 'synthwave retrowave style, neon grid lines, glowing elements, 80s aesthetic, purple and pink hues, 1:1 aspect ratio.',
-};
-
-const dataUrlToBase64 = (dataUrl: string) => dataUrl.split(',')[1];
+const VIDEO_POLL_INTERVAL_MS = 5000;
+const VIDEO_TIMEOUT_MS = 10 * 60 * 1000;
 
-const imageToGenerativePart = async (imageDataUrl: string) => {
-    const base64Encoded = dataUrlToBase64(imageDataUrl);
-    const mimeType = imageDataUrl.match(/data:([a-zA-Z0-9]+\/[a-zA-Z0-9-.+]+).*,.*/)?.[1] || 'image/png';
-    return {
-        inlineData: {
-            mimeType,
-            data: base64Encoded
-        }
-    };
-};
-
-
-export const generatePixelArtImage = async (
-    userPrompt: string, negativePrompt: string, stylePreset: StylePreset, numberOfImages: number = 1
-): Promise<string[]> => {
-    const stylePart = stylePrompts[stylePreset];
-    const negativePart = negativePrompt ? `絶対に避けてください: ${negativePrompt}.` : '';
-    const fullPrompt = `${stylePart} Description: ${userPrompt}. ${negativePart}`;
-
-    const ai = getAIClient();
-    const response = await ai.models.generateImages({
-        model: 'imagen-4.0-generate-001',
-        prompt: fullPrompt,
-        config: { numberOfImages, outputMimeType: 'image/png', aspectRatio: '1:1' },
-    });
-
-    if (!response.generatedImages || response.generatedImages.length === 0) throw new Error("API did not return any images.");
-    return response.generatedImages.map(img => `data:image/png;base64,${img.image.imageBytes}`);
-};
-
-export const generatePixelArtAnimation = async (
-    userPrompt: string, animationPrompt: string, negativePrompt: string, stylePreset: StylePreset, baseImage?: string
-): Promise<string> => {
-    const stylePart = stylePrompts[stylePreset].replace(', 1:1 aspect ratio', '');
-    const negativePart = negativePrompt ? `avoiding: ${negativePrompt}.` : '';
-    const fullPrompt = `Pixel art animation of a ${userPrompt}, performing this action: ${animationPrompt}. ${stylePart} Looping animation. ${negativePart}`;
-
-    let operation;
-
-    if (baseImage) {
-        const base64Data = dataUrlToBase64(baseImage);
-        const mimeType = baseImage.match(/data:([a-zA-Z0-9]+\/[a-zA-Z0-9-.+]+).*,.*/)?.[1] || 'image/png';
-        const ai = getAIClient();
-        operation = await ai.models.generateVideos({
-            model: 'veo-2.0-generate-001',
-            prompt: fullPrompt,
-            image: {
-                imageBytes: base64Data,
-                mimeType: mimeType,
-            },
-            config: { numberOfVideos: 1 }
-        });
-    } else {
-        const ai = getAIClient();
-        operation = await ai.models.generateVideos({
-            model: 'veo-2.0-generate-001',
-            prompt: fullPrompt,
-            config: { numberOfVideos: 1 }
-        });
-    }
+const IMAGEN_MODELS = ['imagen-4.0-generate-001', 'imagen-4.0-fast-generate-001', 'imagen-4.0-ultra-generate-001', 'imagen-3.0-generate-002'];
+const IMAGE_EDIT_MODELS = ['gemini-2.5-flash-image-preview', 'gemini-2.5-flash-image'];
 
+const dataUrlToBase64 = (dataUrl: string) => dataUrl.split(',')[1];
 
-    while (!operation.done) {
-        await new Promise(resolve => setTimeout(resolve, 5000));
-        operation = await ai.operations.getVideosOperation({ operation: operation });
-    }
-
-    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-    if (!downloadLink) throw new Error("Video generation failed to produce a download link.");
-
-    const videoResponse = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-    if (!videoResponse.ok) throw new Error(`Failed to fetch video file: ${videoResponse.statusText}`);
-
-    const videoBlob = await videoResponse.blob();
-    return URL.createObjectURL(videoBlob);
-};
-
-export const generateSpriteSheet = async (
-    userPrompt: string, negativePrompt: string, stylePreset: StylePreset, actions: string[], dimensions: { w: number, h: number }
-): Promise<string> => {
-    const stylePart = stylePrompts[stylePreset];
-    const negativePart = negativePrompt ? `Do not include: ${negativePrompt}.` : '';
-    const gridPrompt = actions.map((action, i) => `Frame ${i + 1}: ${action}.`).join(' ');
-
-    const fullPrompt = `Create a ${dimensions.w}x${dimensions.h} sprite sheet of a single character. ${stylePart} The character is: ${userPrompt}. The sheet should have a transparent background. ${gridPrompt} ${negativePart}`;
-
-    const ai = getAIClient();
-    const response = await ai.models.generateImages({
-        model: 'imagen-4.0-generate-001',
-        prompt: fullPrompt,
-        config: { numberOfImages: 1, outputMimeType: 'image/png' },
-    });
-    if (!response.generatedImages || response.generatedImages.length === 0) throw new Error("API did not return sprite sheet.");
-    return `data:image/png;base64,${response.generatedImages[0].image.imageBytes}`;
-}
-
-export const generateImageFromImage = async (
-    baseImage: string, // base64 data url
-    editPrompt: string,
-    temperature?: number
-): Promise<string> => {
-    const imagePart = await imageToGenerativePart(baseImage);
-    const textPart = { text: `In the style of pixel art, ${editPrompt}` };
-
-    const config: any = {
-        responseModalities: [Modality.IMAGE, Modality.TEXT],
-    };
+const dataUrlMimeType = (dataUrl: string) => dataUrl.match(/data:([a-zA-Z0-9]+\/[a-zA-Z0-9-.+]+).*,.*/)?.[1] || 'image/png';
 
-    if (temperature !== undefined) {
-        config.temperature = temperature;
+const imageToGenerativePart = (imageDataUrl: string) => ({
+    inlineData: {
+        mimeType: dataUrlMimeType(imageDataUrl),
+        data: dataUrlToBase64(imageDataUrl)
     }
+});
 
-    const ai = getAIClient();
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [imagePart, textPart] },
-        config: config,
-    });
-
+// Returns the first inline image of a Gemini response, or throws with the block reason.
+const responseImage = (response: GenerateContentResponse, what: string): string => {
     const candidate = response.candidates?.[0];
     if (!candidate || !candidate.content?.parts) {
         const blockReason = response.promptFeedback?.blockReason;
-        let errorMessage = "AI edit did not return valid content.";
+        let errorMessage = `${what} did not return valid content.`;
         if (blockReason) {
             errorMessage += ` The prompt may have been blocked due to: ${blockReason}.`;
         }
@@ -169,96 +51,186 @@ export const generateImageFromImage = async (
             return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
         }
     }
-    throw new Error("AI edit did not return an image.");
-}
-
-export const generateSpriteSheetFromImage = async (
-    baseImage: string, // base64 data url
-    userPrompt: string,
-    negativePrompt: string,
-    stylePreset: StylePreset,
-    actions: string[],
-    dimensions: { w: number; h: number },
-    temperature?: number
+    throw new Error(`${what} did not return an image.`);
+};
+
+const REFERENCE_INSTRUCTION = 'The attached image is a style reference only: match its palette, shading, outlines and pixel density, but not its subject or composition.';
+
+// Imagen takes no image input, so presets with a reference image go through the image edit model
+// (the registry passes the image-to-image model for those requests).
+const generateWithReference = async (
+    referenceImage: string, text: string, temperature: number | undefined, seed: number | undefined, options: ProviderOptions, what: string
 ): Promise<string> => {
-    const imagePart = await imageToGenerativePart(baseImage);
-    const negativePart = negativePrompt ? `Do not include: ${negativePrompt}.` : '';
-    const gridPrompt = actions.map((action, i) => `Frame ${i + 1}: ${action}.`).join(' ');
+    const ai = getAIClient();
+    const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+        model: options.model,
+        contents: { parts: [imageToGenerativePart(referenceImage), { text: `${REFERENCE_INSTRUCTION} ${text}` }] },
+        config: { responseModalities: [Modality.IMAGE], temperature, seed, abortSignal: options.signal },
+    }), options);
+    return responseImage(response, what);
+};
 
-    const fullPrompt = `Take the character from the provided image and create a ${dimensions.w}x${dimensions.h} sprite sheet. The character is described as: ${userPrompt}. The sheet must have a transparent background. Maintain the original art style exactly. The final image should only be the sprite sheet. ${gridPrompt} ${negativePart}`;
-    const textPart = { text: fullPrompt };
+export const geminiProvider: ImageProvider = {
+    id: 'gemini',
+    name: 'Google Gemini',
+    description: 'Imagen, Gemini and Veo through the Gemini API. Needs an API key.',
+    models: {
+        image: IMAGEN_MODELS,
+        imageToImage: IMAGE_EDIT_MODELS,
+        inpaint: IMAGE_EDIT_MODELS,
+        sheet: IMAGEN_MODELS,
+        animation: ['veo-2.0-generate-001'],
+        palette: ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'],
+    },
+
+    image: async ({ prompt, negativePrompt, style, numberOfImages, seed }, options) => {
+        const stylePart = describeStyle(style);
+        const negativePart = negativePrompt ? `絶対に避けてください: ${negativePrompt}.` : '';
+        const fullPrompt = `${stylePart} Description: ${prompt}. ${negativePart}`;
+
+        const { referenceImage } = style;
+        if (referenceImage) {
+            const images: string[] = [];
+            for (let i = 0; i < numberOfImages; i++) {
+                images.push(await generateWithReference(referenceImage, fullPrompt, undefined, seed === undefined ? undefined : seed + i, options, "Styled generation"));
+            }
+            return images;
+        }
 
-    const config: any = {
-        responseModalities: [Modality.IMAGE],
-    };
+        const ai = getAIClient();
+        const response = await withRetry(() => ai.models.generateImages({
+            model: options.model,
+            prompt: fullPrompt,
+            config: { numberOfImages, outputMimeType: 'image/png', aspectRatio: '1:1', seed, abortSignal: options.signal },
+        }), options);
 
-    if (temperature !== undefined) {
-        config.temperature = temperature;
-    }
+        if (!response.generatedImages || response.generatedImages.length === 0) throw new Error("API did not return any images.");
+        return response.generatedImages.map(img => `data:image/png;base64,${img.image.imageBytes}`);
+    },
 
-    const ai = getAIClient();
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [imagePart, textPart] },
-        config: config,
-    });
+    animation: async ({ prompt, animationPrompt, negativePrompt, style, baseImage, seed }, options) => {
+        const stylePart = describeStyle(style).replace(', 1:1 aspect ratio', '');
+        const negativePart = negativePrompt ? `avoiding: ${negativePrompt}.` : '';
+        const fullPrompt = `Pixel art animation of a ${prompt}, performing this action: ${animationPrompt}. ${stylePart} Looping animation. ${negativePart}`;
 
-    const candidate = response.candidates?.[0];
-    if (!candidate || !candidate.content?.parts) {
-        const blockReason = response.promptFeedback?.blockReason;
-        let errorMessage = "AI sprite sheet generation did not return valid content.";
-        if (blockReason) {
-            errorMessage += ` The prompt may have been blocked due to: ${blockReason}.`;
+        const image = baseImage ? {
+            imageBytes: dataUrlToBase64(baseImage),
+            mimeType: dataUrlMimeType(baseImage),
+        } : undefined;
+
+        const ai = getAIClient();
+        let operation = await withRetry(() => ai.models.generateVideos({
+            model: options.model,
+            prompt: fullPrompt,
+            image,
+            config: { numberOfVideos: 1, seed, abortSignal: options.signal }
+        }), options);
+
+        // Veo runs as a long-running operation; poll it until done, cancelled or out of time.
+        const startedAt = Date.now();
+        while (!operation.done) {
+            const elapsed = Date.now() - startedAt;
+            if (elapsed > VIDEO_TIMEOUT_MS) throw new Error(`Video generation timed out after ${VIDEO_TIMEOUT_MS / 60000} minutes.`);
+            options.onProgress?.(`Rendering video... ${Math.round(elapsed / 1000)}s`);
+            await sleep(VIDEO_POLL_INTERVAL_MS, options.signal);
+            const current = operation;
+            operation = await withRetry(() => ai.operations.getVideosOperation({ operation: current, config: { abortSignal: options.signal } }), options);
         }
-        throw new Error(errorMessage);
-    }
 
-    for (const part of candidate.content.parts) {
-        if (part.inlineData) {
-            return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+        const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+        if (!downloadLink) throw new Error("Video generation failed to produce a download link.");
+
+        options.onProgress?.('Downloading video...');
+        const videoResponse = await fetch(`${downloadLink}&key=${getApiKey()}`, { signal: options.signal });
+        if (!videoResponse.ok) throw new Error(`Failed to fetch video file: ${videoResponse.statusText}`);
+
+        const videoBlob = await videoResponse.blob();
+        return URL.createObjectURL(videoBlob);
+    },
+
+    // Sheets from text use Imagen. Sheets from an image go through the image edit model, which
+    // the registry passes in as the image-to-image model.
+    sheet: async ({ prompt, negativePrompt, style, actions, dimensions, baseImage, temperature, seed }, options) => {
+        const negativePart = negativePrompt ? `Do not include: ${negativePrompt}.` : '';
+        const gridPrompt = describeFrames(actions);
+        const ai = getAIClient();
+
+        if (!baseImage) {
+            const stylePart = describeStyle(style);
+            const fullPrompt = `Create a ${dimensions.w}x${dimensions.h} sprite sheet of a single character. ${stylePart} The character is: ${prompt}. The sheet should have a transparent background. ${gridPrompt} ${negativePart}`;
+            if (style.referenceImage) return generateWithReference(style.referenceImage, fullPrompt, temperature, seed, options, "AI sprite sheet generation");
+            const response = await withRetry(() => ai.models.generateImages({
+                model: options.model,
+                prompt: fullPrompt,
+                config: { numberOfImages: 1, outputMimeType: 'image/png', seed, abortSignal: options.signal },
+            }), options);
+            if (!response.generatedImages || response.generatedImages.length === 0) throw new Error("API did not return sprite sheet.");
+            return `data:image/png;base64,${response.generatedImages[0].image.imageBytes}`;
         }
-    }
-    throw new Error("AI sprite sheet generation did not return an image.");
-};
 
-export const generateAIPalette = async (
-    palettePrompt: string,
-    temperature?: number
-): Promise<string[]> => {
-    const config: any = {
-        responseMimeType: "application/json",
-        responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-                palette: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.STRING,
-                        description: "A hex color code, e.g., '#RRGGBB'"
-                    }
-                }
-            }
-        },
-    };
+        const fullPrompt = `Take the character from the provided image and create a ${dimensions.w}x${dimensions.h} sprite sheet. The character is described as: ${prompt}. The sheet must have a transparent background. Maintain the original art style exactly. The final image should only be the sprite sheet. ${gridPrompt} ${negativePart}`;
+        const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+            model: options.model,
+            contents: { parts: [imageToGenerativePart(baseImage), { text: fullPrompt }] },
+            config: { responseModalities: [Modality.IMAGE], temperature, seed, abortSignal: options.signal },
+        }), options);
+        return responseImage(response, "AI sprite sheet generation");
+    },
 
-    if (temperature !== undefined) {
-        config.temperature = temperature;
-    }
+    imageToImage: async ({ baseImage, prompt, temperature, seed }, options) => {
+        const ai = getAIClient();
+        const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+            model: options.model,
+            contents: { parts: [imageToGenerativePart(baseImage), { text: `In the style of pixel art, ${prompt}` }] },
+            config: { responseModalities: [Modality.IMAGE, Modality.TEXT], temperature, seed, abortSignal: options.signal },
+        }), options);
+        return responseImage(response, "AI edit");
+    },
 
-    const ai = getAIClient();
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: `Generate a color palette of 8 colors based on this theme: "${palettePrompt}". Provide the colors as hex codes.`,
-        config: config,
-    });
-
-    try {
-        const json = JSON.parse(response.text);
-        if (json.palette && Array.isArray(json.palette)) {
-            return json.palette;
+    inpaint: async ({ baseImage, maskImage, prompt, temperature }, options) => {
+        const textPart = { text: `The first image is a pixel art sprite. The second image is a mask: repaint ONLY the area that is white in the mask, leaving every other pixel exactly unchanged. In the masked area: ${prompt}. Match the existing pixel art style, palette and outlines. Return the full image at the same size and framing.` };
+
+        const ai = getAIClient();
+        const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+            model: options.model,
+            contents: { parts: [imageToGenerativePart(baseImage), imageToGenerativePart(maskImage), textPart] },
+            config: { responseModalities: [Modality.IMAGE, Modality.TEXT], temperature, abortSignal: options.signal },
+        }), options);
+        return responseImage(response, "Magic edit");
+    },
+
+    palette: async ({ prompt, temperature }, options) => {
+        const ai = getAIClient();
+        const response = await withRetry(() => ai.models.generateContent({
+            model: options.model,
+            contents: `Generate a color palette of 8 colors based on this theme: "${prompt}". Provide the colors as hex codes.`,
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        palette: {
+                            type: Type.ARRAY,
+                            items: {
+                                type: Type.STRING,
+                                description: "A hex color code, e.g., '#RRGGBB'"
+                            }
+                        }
+                    }
+                },
+                temperature,
+                abortSignal: options.signal,
+            },
+        }), options);
+
+        try {
+            const json = JSON.parse(response.text);
+            if (json.palette && Array.isArray(json.palette)) {
+                return json.palette;
+            }
+        } catch (e) {
+            console.error("Failed to parse palette JSON:", e);
         }
-    } catch (e) {
-        console.error("Failed to parse palette JSON:", e);
-    }
-    throw new Error("Could not generate a valid color palette.");
-}
+        throw new Error("Could not generate a valid color palette.");
+    },
+};
@@ -0,0 +1,119 @@
+import type { ImageProvider, ProviderOptions } from './imageProvider';
+import { loadProviderSettings } from './imageProvider';
+import { withRetry } from './request';
+import { describeStyle, describeFrames } from './prompts';
+
+// HTTP (STABLE DIFFUSION) PROVIDER
+// Talks to a self-hosted server exposing the AUTOMATIC1111 / Forge web UI API
+// (`/sdapi/v1/txt2img`, `/sdapi/v1/img2img`). The base url and optional bearer token come from
+// Settings; the model field is the checkpoint name and is left to the server when blank.
+// Style reference images are not sent: the plain API has no way to use them without extensions.
+
+const DEFAULT_SIZE = 512;
+const DEFAULT_STEPS = 25;
+const DEFAULT_DENOISING = 0.6;
+
+interface SdResponse {
+    images?: string[]; // base64 PNGs without the data url prefix
+}
+
+const dataUrlToBase64 = (dataUrl: string) => dataUrl.split(',')[1];
+
+// The app's creativity (temperature) slider doubles as img2img denoising strength.
+const denoisingStrength = (temperature?: number) => Math.min(1, Math.max(0, temperature ?? DEFAULT_DENOISING));
+
+const post = async (path: string, body: Record<string, unknown>, options: ProviderOptions): Promise<string[]> => {
+    const { httpBaseUrl, httpToken } = loadProviderSettings();
+    if (!httpBaseUrl) throw new Error("HTTP provider has no server URL. Please add it in Settings.");
+
+    const payload = {
+        ...body,
+        steps: DEFAULT_STEPS,
+        override_settings: options.model ? { sd_model_checkpoint: options.model } : undefined,
+    };
+    const response = await withRetry(async () => {
+        const res = await fetch(`${httpBaseUrl.replace(/\/+$/, '')}${path}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(httpToken ? { Authorization: `Bearer ${httpToken}` } : {}),
+            },
+            body: JSON.stringify(payload),
+            signal: options.signal,
+        });
+        if (!res.ok) {
+            // Carry the status so withRetry can tell rate limits and server errors apart.
+            const error = new Error(`Server returned ${res.status} ${res.statusText} for ${path}.`) as Error & { status: number };
+            error.status = res.status;
+            throw error;
+        }
+        return res.json() as Promise<SdResponse>;
+    }, options);
+
+    if (!response.images || response.images.length === 0) throw new Error("Server did not return any images.");
+    return response.images.map(image => image.startsWith('data:') ? image : `data:image/png;base64,${image}`);
+};
+
+export const httpProvider: ImageProvider = {
+    id: 'http',
+    name: 'Stable Diffusion (HTTP)',
+    description: 'A self-hosted AUTOMATIC1111 / Forge compatible server. Animation is not supported.',
+    models: {
+        image: [],
+        imageToImage: [],
+        inpaint: [],
+        sheet: [],
+    },
+
+    image: ({ prompt, negativePrompt, style, numberOfImages, seed }, options) => {
+        options.onProgress?.('Sending prompt to server...');
+        return post('/sdapi/v1/txt2img', {
+            prompt: `${describeStyle(style)} ${prompt}`,
+            negative_prompt: negativePrompt,
+            seed: seed ?? -1,
+            batch_size: numberOfImages,
+            width: DEFAULT_SIZE,
+            height: DEFAULT_SIZE,
+        }, options);
+    },
+
+    imageToImage: async ({ baseImage, prompt, temperature, seed }, options) => {
+        options.onProgress?.('Sending image to server...');
+        const [image] = await post('/sdapi/v1/img2img', {
+            init_images: [dataUrlToBase64(baseImage)],
+            prompt: `pixel art, ${prompt}`,
+            denoising_strength: denoisingStrength(temperature),
+            seed: seed ?? -1,
+        }, options);
+        return image;
+    },
+
+    inpaint: async ({ baseImage, maskImage, prompt, temperature }, options) => {
+        options.onProgress?.('Sending mask to server...');
+        const [image] = await post('/sdapi/v1/img2img', {
+            init_images: [dataUrlToBase64(baseImage)],
+            mask: dataUrlToBase64(maskImage),
+            prompt: `pixel art, ${prompt}`,
+            denoising_strength: denoisingStrength(temperature),
+            inpainting_fill: 1, // start from the original pixels
+            inpaint_full_res: false,
+        }, options);
+        return image;
+    },
+
+    sheet: async ({ prompt, negativePrompt, style, actions, dimensions, baseImage, temperature, seed }, options) => {
+        options.onProgress?.('Sending sprite sheet prompt to server...');
+        const sheetPrompt = `${dimensions.w}x${dimensions.h} sprite sheet of a single character, ${describeStyle(style)} ${prompt}. ${describeFrames(actions)}`;
+        const body = {
+            prompt: sheetPrompt,
+            negative_prompt: negativePrompt,
+            seed: seed ?? -1,
+            width: DEFAULT_SIZE,
+            height: Math.round(DEFAULT_SIZE * dimensions.h / dimensions.w / 8) * 8,
+        };
+        const [image] = baseImage
+            ? await post('/sdapi/v1/img2img', { ...body, init_images: [dataUrlToBase64(baseImage)], denoising_strength: denoisingStrength(temperature) }, options)
+            : await post('/sdapi/v1/txt2img', body, options);
+        return image;
+    },
+};
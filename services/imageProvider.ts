@@ -0,0 +1,128 @@
+import type { StylePresetDefinition } from './stylePresets';
+import type { RequestOptions } from './request';
+
+// IMAGE PROVIDERS
+// Every generation backend implements the same interface. A provider only defines the
+// capabilities it supports; the registry in `providers.ts` picks the active provider and model
+// from the settings stored here.
+
+export type ProviderCapability = 'image' | 'imageToImage' | 'inpaint' | 'sheet' | 'animation' | 'palette';
+
+export const CAPABILITIES: { capability: ProviderCapability; label: string }[] = [
+    { capability: 'image', label: 'Image' },
+    { capability: 'imageToImage', label: 'Image to image' },
+    { capability: 'inpaint', label: 'Inpaint (Magic Edit)' },
+    { capability: 'sheet', label: 'Sprite sheet' },
+    { capability: 'animation', label: 'Animation' },
+    { capability: 'palette', label: 'Palette' },
+];
+
+export interface ImageRequest {
+    prompt: string;
+    negativePrompt: string;
+    style: StylePresetDefinition;
+    numberOfImages: number;
+    seed?: number;
+}
+
+export interface ImageToImageRequest {
+    baseImage: string; // data url
+    prompt: string;
+    temperature?: number;
+    seed?: number;
+}
+
+export interface InpaintRequest {
+    baseImage: string; // data url
+    maskImage: string; // data url, white marks the area to regenerate
+    prompt: string;
+    temperature?: number;
+}
+
+export interface SheetRequest {
+    prompt: string;
+    negativePrompt: string;
+    style: StylePresetDefinition;
+    actions: string[];
+    dimensions: { w: number; h: number };
+    baseImage?: string; // build the sheet from this character instead of from text alone
+    temperature?: number;
+    seed?: number;
+}
+
+export interface AnimationRequest {
+    prompt: string;
+    animationPrompt: string;
+    negativePrompt: string;
+    style: StylePresetDefinition;
+    baseImage?: string;
+    seed?: number;
+}
+
+export interface PaletteRequest {
+    prompt: string;
+    temperature?: number;
+}
+
+export interface CapabilityRequests {
+    image: ImageRequest;
+    imageToImage: ImageToImageRequest;
+    inpaint: InpaintRequest;
+    sheet: SheetRequest;
+    animation: AnimationRequest;
+    palette: PaletteRequest;
+}
+
+// Images are data urls, animations are object urls, palettes are '#rrggbb' strings.
+export interface CapabilityResults {
+    image: string[];
+    imageToImage: string;
+    inpaint: string;
+    sheet: string;
+    animation: string;
+    palette: string[];
+}
+
+export interface ProviderOptions extends RequestOptions {
+    model: string;
+}
+
+export type ProviderMethod<C extends ProviderCapability> = (request: CapabilityRequests[C], options: ProviderOptions) => Promise<CapabilityResults[C]>;
+
+export type ImageProvider = {
+    id: string;
+    name: string;
+    description: string;
+    // Selectable models per capability, default first. An empty list means the model is free text.
+    models: Partial<Record<ProviderCapability, string[]>>;
+} & { [C in ProviderCapability]?: ProviderMethod<C> };
+
+// SETTINGS
+export interface ProviderSettings {
+    providerId: string;
+    models: Record<string, Partial<Record<ProviderCapability, string>>>; // provider id -> capability -> model
+    httpBaseUrl: string;
+    httpToken: string;
+}
+
+const SETTINGS_STORAGE_KEY = 'pixelArtProviderSettings';
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+    providerId: 'gemini',
+    models: {},
+    httpBaseUrl: 'http://127.0.0.1:7860',
+    httpToken: '',
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}');
+        return { ...DEFAULT_PROVIDER_SETTINGS, ...stored };
+    } catch {
+        return DEFAULT_PROVIDER_SETTINGS;
+    }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
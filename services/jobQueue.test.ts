@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRateLimiter } from './jobQueue';
+
+describe('createRateLimiter', () => {
+    beforeEach(() => { vi.useFakeTimers(); });
+    afterEach(() => { vi.useRealTimers(); });
+
+    it('spaces calls out to the per-minute rate', async () => {
+        const wait = createRateLimiter(60);
+        const started: number[] = [];
+        const start = Date.now();
+        [wait(), wait(), wait()].forEach(p => p.then(() => started.push(Date.now() - start)));
+        await vi.advanceTimersByTimeAsync(2000);
+        expect(started).toEqual([0, 1000, 2000]);
+    });
+
+    it('rejects at once for an already cancelled job, without taking a slot', async () => {
+        const wait = createRateLimiter(60);
+        const controller = new AbortController();
+        controller.abort();
+        await expect(wait(controller.signal)).rejects.toThrow('Job was cancelled.');
+
+        let resolved = false;
+        wait().then(() => { resolved = true; });
+        await vi.advanceTimersByTimeAsync(0);
+        expect(resolved).toBe(true);
+    });
+
+    it('rejects when cancelled while waiting and stops listening once the slot arrives', async () => {
+        const wait = createRateLimiter(60);
+        wait();
+        const controller = new AbortController();
+        const waiting = wait(controller.signal);
+        controller.abort();
+        await expect(waiting).rejects.toThrow('Job was cancelled.');
+
+        const signal = new AbortController().signal;
+        const remove = vi.spyOn(signal, 'removeEventListener');
+        const next = wait(signal);
+        await vi.advanceTimersByTimeAsync(3000);
+        await next;
+        expect(remove).toHaveBeenCalledWith('abort', expect.any(Function));
+    });
+
+    it('gives a cancelled job\'s slot to the next job in line', async () => {
+        const wait = createRateLimiter(60);
+        const started: string[] = [];
+        const start = Date.now();
+        const track = (name: string, signal?: AbortSignal) => wait(signal).then(() => { started.push(`${name}@${Date.now() - start}`); }, () => {});
+        const cancelB = new AbortController();
+        const cancelD = new AbortController();
+        track('a');
+        track('b', cancelB.signal);
+        track('c');
+        track('d', cancelD.signal);
+        track('e');
+        cancelB.abort();
+        await vi.advanceTimersByTimeAsync(500);
+        cancelD.abort();
+        await vi.advanceTimersByTimeAsync(3000);
+        expect(started).toEqual(['a@0', 'c@1000', 'e@2000']);
+    });
+});
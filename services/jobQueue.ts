@@ -0,0 +1,186 @@
+// JOB QUEUE
+// Generations run as jobs: at most `concurrency` at a time, each with its own AbortController.
+// Finished, failed and cancelled jobs stay listed until removed so their errors can still be read.
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface Job {
+    id: string;
+    label: string;
+    status: JobStatus;
+    progress: string;
+    error?: string;
+    createdAt: number;
+    startedAt?: number;
+    finishedAt?: number;
+}
+
+export interface JobContext {
+    signal: AbortSignal;
+    setProgress: (message: string) => void;
+}
+
+export type JobRunner = (context: JobContext) => Promise<void>;
+
+export interface JobQueue {
+    enqueue: (label: string, run: JobRunner) => string;
+    cancel: (id: string) => void;
+    retry: (id: string) => void;
+    remove: (id: string) => void;
+    clearFinished: () => void;
+    setConcurrency: (concurrency: number) => void;
+    subscribe: (listener: (jobs: Job[]) => void) => () => void;
+}
+
+export const MAX_CONCURRENCY = 4;
+const CONCURRENCY_STORAGE_KEY = 'pixelArtJobConcurrency';
+
+export const loadJobConcurrency = (): number => {
+    const value = parseInt(localStorage.getItem(CONCURRENCY_STORAGE_KEY) || '', 10);
+    return value >= 1 && value <= MAX_CONCURRENCY ? value : 2;
+};
+
+export const saveJobConcurrency = (concurrency: number) => {
+    localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(concurrency));
+};
+
+export const isJobActive = (job: Job) => job.status === 'queued' || job.status === 'running';
+
+export const createJobQueue = (initialConcurrency: number): JobQueue => {
+    let jobs: Job[] = []; // oldest first, which is also the start order
+    let concurrency = initialConcurrency;
+    const runners = new Map<string, JobRunner>();
+    const controllers = new Map<string, AbortController>();
+    const listeners = new Set<(jobs: Job[]) => void>();
+
+    const emit = () => listeners.forEach(listener => listener(jobs));
+
+    const update = (id: string, patch: Partial<Job>) => {
+        jobs = jobs.map(job => job.id === id ? { ...job, ...patch } : job);
+        emit();
+    };
+
+    const start = (id: string) => {
+        const controller = new AbortController();
+        controllers.set(id, controller);
+        update(id, { status: 'running', progress: 'Starting...', startedAt: Date.now(), error: undefined });
+        const setProgress = (progress: string) => { if (!controller.signal.aborted) update(id, { progress }); };
+
+        runners.get(id)!({ signal: controller.signal, setProgress })
+            .then(() => {
+                if (!controller.signal.aborted) update(id, { status: 'succeeded', progress: 'Done', finishedAt: Date.now() });
+            })
+            .catch(e => {
+                if (controller.signal.aborted) return;
+                console.error(`Job "${id}" failed`, e);
+                update(id, { status: 'failed', progress: 'Failed', error: e instanceof Error ? e.message : 'An unknown error occurred.', finishedAt: Date.now() });
+            })
+            .finally(() => {
+                if (controllers.get(id) === controller) controllers.delete(id);
+                pump();
+            });
+    };
+
+    const pump = () => {
+        let running = jobs.filter(job => job.status === 'running').length;
+        for (const job of jobs) {
+            if (running >= concurrency) break;
+            if (job.status !== 'queued') continue;
+            running++;
+            start(job.id);
+        }
+    };
+
+    const cancel = (id: string) => {
+        const job = jobs.find(j => j.id === id);
+        if (!job || !isJobActive(job)) return;
+        controllers.get(id)?.abort();
+        controllers.delete(id);
+        update(id, { status: 'cancelled', progress: 'Cancelled', finishedAt: Date.now() });
+        pump();
+    };
+
+    return {
+        enqueue: (label, run) => {
+            const id = crypto.randomUUID();
+            runners.set(id, run);
+            jobs = [...jobs, { id, label, status: 'queued', progress: 'Waiting...', createdAt: Date.now() }];
+            emit();
+            pump();
+            return id;
+        },
+        cancel,
+        retry: id => {
+            const job = jobs.find(j => j.id === id);
+            if (!job || isJobActive(job) || job.status === 'succeeded') return;
+            update(id, { status: 'queued', progress: 'Waiting...', error: undefined, startedAt: undefined, finishedAt: undefined });
+            pump();
+        },
+        remove: id => {
+            cancel(id);
+            runners.delete(id);
+            jobs = jobs.filter(job => job.id !== id);
+            emit();
+        },
+        clearFinished: () => {
+            jobs.filter(job => !isJobActive(job)).forEach(job => runners.delete(job.id));
+            jobs = jobs.filter(isJobActive);
+            emit();
+        },
+        setConcurrency: value => {
+            concurrency = Math.max(1, Math.min(MAX_CONCURRENCY, value));
+            pump();
+        },
+        subscribe: listener => {
+            listeners.add(listener);
+            listener(jobs);
+            return () => { listeners.delete(listener); };
+        },
+    };
+};
+
+/**
+ * Spaces out work to at most `perMinute` starts per minute. Each call waits in line and resolves
+ * when its slot arrives (or rejects if `signal` aborts first). Only the first in line holds a
+ * timer, so a cancelled call gives its slot to the next one instead of leaving a gap. An already
+ * aborted signal rejects at once without taking a place in line.
+ */
+export const createRateLimiter = (perMinute: number) => {
+    const interval = 60000 / Math.max(1, perMinute);
+    let lastStart = -Infinity;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const waiting: { start: () => void }[] = [];
+
+    const scheduleNext = () => {
+        clearTimeout(timer);
+        timer = undefined;
+        if (waiting.length === 0) return;
+        const release = () => {
+            lastStart = Date.now();
+            waiting.shift()!.start();
+            scheduleNext();
+        };
+        const delay = lastStart + interval - Date.now();
+        if (delay <= 0) release(); else timer = setTimeout(release, delay);
+    };
+
+    return (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+        const cancelled = () => new DOMException('Job was cancelled.', 'AbortError');
+        if (signal?.aborted) return reject(cancelled());
+        const entry = {
+            start: () => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            },
+        };
+        const onAbort = () => {
+            const index = waiting.indexOf(entry);
+            waiting.splice(index, 1);
+            if (index === 0) scheduleNext();
+            reject(cancelled());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        waiting.push(entry);
+        if (waiting.length === 1) scheduleNext();
+    });
+};
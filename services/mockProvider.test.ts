@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { mockProvider } from './mockProvider';
+import { BUILT_IN_STYLE_PRESETS } from './stylePresets';
+import type { ImageRequest, SheetRequest } from './imageProvider';
+
+const style = BUILT_IN_STYLE_PRESETS[0];
+const options = { model: 'sprite-16' };
+
+const imageRequest = (seed: number): ImageRequest => ({ prompt: 'a heroic knight', negativePrompt: '', style, numberOfImages: 2, seed });
+
+const sheetRequest = (seed: number): SheetRequest => ({
+    prompt: 'a powerful robot', negativePrompt: '', style, actions: ['idle', 'walk'], dimensions: { w: 2, h: 1 }, seed,
+});
+
+describe('mock provider', () => {
+    it('gives identical images for the same request and seed', async () => {
+        const [first, second] = await Promise.all([mockProvider.image!(imageRequest(42), options), mockProvider.image!(imageRequest(42), options)]);
+        expect(first).toHaveLength(2);
+        expect(first[0]).toMatch(/^data:image\/png;base64,/);
+        expect(second).toEqual(first);
+    });
+
+    it('gives different images for a different seed', async () => {
+        const [first, other] = await Promise.all([mockProvider.image!(imageRequest(42), options), mockProvider.image!(imageRequest(43), options)]);
+        expect(other[0]).not.toBe(first[0]);
+        expect(other[1]).not.toBe(first[1]);
+    });
+
+    it('gives reproducible sprite sheets', async () => {
+        const [first, same, other] = await Promise.all([
+            mockProvider.sheet!(sheetRequest(7), options), mockProvider.sheet!(sheetRequest(7), options), mockProvider.sheet!(sheetRequest(8), options),
+        ]);
+        expect(same).toBe(first);
+        expect(other).not.toBe(first);
+    });
+
+    it('gives the same palette for the same prompt', async () => {
+        const [first, second] = await Promise.all([
+            mockProvider.palette!({ prompt: 'swamp at dusk' }, { model: 'palette-8' }), mockProvider.palette!({ prompt: 'swamp at dusk' }, { model: 'palette-8' }),
+        ]);
+        expect(first).toHaveLength(8);
+        first.forEach(color => expect(color).toMatch(/^#[0-9a-f]{6}$/));
+        expect(second).toEqual(first);
+    });
+});
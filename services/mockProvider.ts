@@ -0,0 +1,272 @@
+import type { StylePresetDefinition } from './stylePresets';
+import type { ImageProvider } from './imageProvider';
+import { sleep, RequestOptions } from './request';
+import { createCanvas, loadImage } from '../utils/canvas';
+import { createRng, hashString, pick, Rng } from '../utils/random';
+import { hexToRgba, rgbaToHex } from '../utils/color';
+
+// LOCAL MOCK PROVIDER
+// Procedural sprites instead of model output, so the app runs offline. Every result is a pure
+// function of the request (prompt, style, seed, model), so the same inputs give the same pixels.
+
+const OUTPUT_SIZE = 256;
+const FAKE_LATENCY_MS = 400;
+const ANIMATION_FRAMES = 8;
+const ANIMATION_FPS = 8;
+
+// Fixed palettes for the built-in styles that imply one: [outline, dark, mid, light, accent].
+const STYLE_PALETTES: Record<string, string[]> = {
+    'Game Boy': ['#0f380f', '#306230', '#8bac0f', '#9bbc0f', '#8bac0f'],
+    'Monochrome': ['#000000', '#000000', '#ffffff', '#ffffff', '#ffffff'],
+    '8-bit': ['#000000', '#a80020', '#f83800', '#fca044', '#0058f8'],
+    'Synthwave': ['#1a0933', '#7b2cbf', '#ff2a6d', '#ff9ee5', '#05d9e8'],
+    'Gothic': ['#0b0b0f', '#2b2b33', '#55555f', '#8a8a96', '#b3001b'],
+    'Cute': ['#5a3d55', '#f7a8c4', '#fcd5e1', '#fff4f8', '#a0e7e5'],
+};
+
+const modelGridSize = (model: string) => model.endsWith('32') ? 32 : 16;
+
+const seedFor = (...parts: (string | number | undefined)[]) => hashString(parts.map(part => part ?? '').join('|'));
+
+const luminance = (hex: string) => {
+    const [r, g, b] = hexToRgba(hex);
+    return 0.299 * r + 0.587 * g + 0.114 * b;
+};
+
+const stylePalette = (style: StylePresetDefinition | undefined, rng: Rng): string[] => {
+    // A preset palette is spread over the five slots from darkest to lightest.
+    if (style?.palette?.length) {
+        const sorted = [...style.palette].sort((a, b) => luminance(a) - luminance(b));
+        return [0, 1, 2, 3, 4].map(i => sorted[Math.round(i * (sorted.length - 1) / 4)]);
+    }
+    const fixed = style && STYLE_PALETTES[style.id];
+    if (fixed) return fixed;
+    const hue = Math.floor(rng() * 360);
+    const accent = (hue + 150 + Math.floor(rng() * 60)) % 360;
+    return [`hsl(${hue}, 40%, 10%)`, `hsl(${hue}, 55%, 30%)`, `hsl(${hue}, 60%, 48%)`, `hsl(${hue}, 70%, 68%)`, `hsl(${accent}, 80%, 60%)`];
+};
+
+/**
+ * A horizontally mirrored "space invader" style sprite: random fill that thins out towards the
+ * edges, shaded top to bottom, with an outline around the filled cells.
+ * Cells: 0 empty, 1 outline, 2-4 shades, 5 accent.
+ */
+const spriteCells = (size: number, rng: Rng): number[][] => {
+    const half = size / 2;
+    const cells = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+    for (let y = 1; y < size - 1; y++) {
+        for (let x = 1; x < half; x++) {
+            const dx = (half - x) / half;
+            const dy = Math.abs(y - size / 2) / (size / 2);
+            if (rng() > 0.25 + 0.6 * Math.hypot(dx, dy)) continue;
+            const shade = rng() < 0.08 ? 5 : 2 + Math.min(2, Math.floor((1 - y / size) * 3));
+            cells[y][x] = shade;
+            cells[y][size - 1 - x] = shade;
+        }
+    }
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            if (cells[y][x] !== 0) continue;
+            const neighbours = [cells[y - 1]?.[x], cells[y + 1]?.[x], cells[y][x - 1], cells[y][x + 1]];
+            if (neighbours.some(cell => cell !== undefined && cell > 1)) cells[y][x] = 1;
+        }
+    }
+    return cells;
+};
+
+const drawCells = (ctx: CanvasRenderingContext2D, cells: number[][], palette: string[], x: number, y: number, cellSize: number) => {
+    cells.forEach((row, cy) => row.forEach((cell, cx) => {
+        if (cell === 0) return;
+        ctx.fillStyle = palette[cell - 1];
+        ctx.fillRect(x + cx * cellSize, y + cy * cellSize, cellSize, cellSize);
+    }));
+};
+
+const renderSprite = (cells: number[][], palette: string[], size = OUTPUT_SIZE): HTMLCanvasElement => {
+    const canvas = createCanvas(size, size);
+    drawCells(canvas.getContext('2d')!, cells, palette, 0, 0, size / cells.length);
+    return canvas;
+};
+
+// Shuffles the bottom rows so frames of the same sprite differ like a walk cycle would.
+const poseCells = (cells: number[][], rng: Rng): number[][] => {
+    const size = cells.length;
+    return cells.map((row, y) => {
+        if (y < size * 0.7) return row;
+        const shift = Math.floor(rng() * 3) - 1;
+        return row.map((_, x) => row[Math.min(size - 1, Math.max(0, x + shift))]);
+    });
+};
+
+const simulateLatency = (options: RequestOptions, message: string) => {
+    options.onProgress?.(message);
+    return sleep(FAKE_LATENCY_MS, options.signal);
+};
+
+const pixelate = async (src: string, grid: number, tintSeed: number): Promise<HTMLCanvasElement> => {
+    const img = await loadImage(src);
+    const small = createCanvas(grid, grid);
+    const smallCtx = small.getContext('2d')!;
+    smallCtx.drawImage(img, 0, 0, grid, grid);
+    const imageData = smallCtx.getImageData(0, 0, grid, grid);
+    // Posterize to 4 levels per channel and nudge towards a prompt-derived tint.
+    const tint = [tintSeed & 0xff, (tintSeed >> 8) & 0xff, (tintSeed >> 16) & 0xff];
+    for (let i = 0; i < imageData.data.length; i += 4) {
+        for (let c = 0; c < 3; c++) {
+            const value = imageData.data[i + c] * 0.8 + tint[c] * 0.2;
+            imageData.data[i + c] = Math.round(value / 85) * 85;
+        }
+    }
+    smallCtx.putImageData(imageData, 0, 0);
+    const canvas = createCanvas(img.naturalWidth, img.naturalHeight);
+    canvas.getContext('2d')!.drawImage(small, 0, 0, canvas.width, canvas.height);
+    return canvas;
+};
+
+const recordAnimation = (frames: HTMLCanvasElement[], signal?: AbortSignal): Promise<string> => new Promise((resolve, reject) => {
+    if (typeof MediaRecorder === 'undefined') return reject(new Error("This browser cannot record video (MediaRecorder is unavailable)."));
+    const canvas = createCanvas(OUTPUT_SIZE, OUTPUT_SIZE);
+    const ctx = canvas.getContext('2d')!;
+    const recorder = new MediaRecorder(canvas.captureStream(ANIMATION_FPS), { mimeType: 'video/webm' });
+    const chunks: Blob[] = [];
+    let frame = 0;
+    const draw = () => {
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(frames[frame % frames.length], 0, 0);
+        frame++;
+    };
+    draw();
+    const timer = setInterval(() => {
+        if (frame >= frames.length * 2) {
+            clearInterval(timer);
+            recorder.stop();
+            return;
+        }
+        draw();
+    }, 1000 / ANIMATION_FPS);
+    recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+    recorder.onstop = () => {
+        if (signal?.aborted) return;
+        resolve(URL.createObjectURL(new Blob(chunks, { type: 'video/webm' })));
+    };
+    signal?.addEventListener('abort', () => {
+        clearInterval(timer);
+        if (recorder.state !== 'inactive') recorder.stop();
+        reject(new DOMException('Generation was cancelled.', 'AbortError'));
+    }, { once: true });
+    recorder.start();
+});
+
+const MOCK_MODELS = ['sprite-16', 'sprite-32'];
+
+export const mockProvider: ImageProvider = {
+    id: 'mock',
+    name: 'Local mock',
+    description: 'Deterministic procedural sprites generated in the browser. No network or API key; for offline work and testing.',
+    models: {
+        image: MOCK_MODELS,
+        imageToImage: MOCK_MODELS,
+        inpaint: MOCK_MODELS,
+        sheet: MOCK_MODELS,
+        animation: MOCK_MODELS,
+        palette: ['palette-8'],
+    },
+
+    image: async ({ prompt, style, numberOfImages, seed }, options) => {
+        await simulateLatency(options, 'Generating mock sprites...');
+        const grid = modelGridSize(options.model);
+        return Array.from({ length: numberOfImages }, (_, i) => {
+            const rng = createRng(seedFor(prompt, style.id, seed, i));
+            const palette = stylePalette(style, rng);
+            return renderSprite(spriteCells(grid, rng), palette).toDataURL('image/png');
+        });
+    },
+
+    imageToImage: async ({ baseImage, prompt, seed }, options) => {
+        await simulateLatency(options, 'Pixelating image...');
+        const canvas = await pixelate(baseImage, modelGridSize(options.model) * 2, seedFor(prompt, seed));
+        return canvas.toDataURL('image/png');
+    },
+
+    // Fills the white part of the mask with a sprite generated from the prompt.
+    inpaint: async ({ baseImage, maskImage, prompt }, options) => {
+        await simulateLatency(options, 'Filling masked area...');
+        const [base, mask] = await Promise.all([loadImage(baseImage), loadImage(maskImage)]);
+        const { naturalWidth: width, naturalHeight: height } = base;
+        const canvas = createCanvas(width, height);
+        const ctx = canvas.getContext('2d')!;
+        ctx.drawImage(base, 0, 0);
+        const maskCtx = createCanvas(width, height).getContext('2d')!;
+        maskCtx.drawImage(mask, 0, 0, width, height);
+
+        const rng = createRng(seedFor(prompt));
+        const fillCtx = createCanvas(width, height).getContext('2d')!;
+        fillCtx.drawImage(renderSprite(spriteCells(modelGridSize(options.model), rng), stylePalette(undefined, rng)), 0, 0, width, height);
+
+        const result = ctx.getImageData(0, 0, width, height);
+        const maskData = maskCtx.getImageData(0, 0, width, height).data;
+        const fillData = fillCtx.getImageData(0, 0, width, height).data;
+        for (let i = 0; i < result.data.length; i += 4) {
+            if (maskData[i] < 128) continue;
+            for (let c = 0; c < 4; c++) result.data[i + c] = fillData[i + c];
+        }
+        ctx.putImageData(result, 0, 0);
+        return canvas.toDataURL('image/png');
+    },
+
+    // One cell per action (repeating when the grid has more cells), each a slightly different pose.
+    sheet: async ({ prompt, style, actions, dimensions, baseImage, seed }, options) => {
+        await simulateLatency(options, 'Laying out mock sprite sheet...');
+        const cellSize = Math.max(32, Math.floor(512 / Math.max(dimensions.w, dimensions.h)));
+        const canvas = createCanvas(cellSize * dimensions.w, cellSize * dimensions.h);
+        const ctx = canvas.getContext('2d')!;
+        const rng = createRng(seedFor(prompt, style.id, seed));
+        const palette = stylePalette(style, rng);
+        const cells = spriteCells(modelGridSize(options.model), rng);
+        const base = baseImage ? await loadImage(baseImage) : null;
+
+        for (let i = 0; i < dimensions.w * dimensions.h; i++) {
+            const action = actions.length > 0 ? actions[i % actions.length] : '';
+            const poseRng = createRng(seedFor(action, seed, i));
+            const x = (i % dimensions.w) * cellSize;
+            const bob = Math.round(Math.sin((i / Math.max(1, actions.length)) * Math.PI * 2) * cellSize / 16);
+            const y = Math.floor(i / dimensions.w) * cellSize + bob;
+            if (base) ctx.drawImage(base, x, y, cellSize, cellSize);
+            else drawCells(ctx, poseCells(cells, poseRng), palette, x, y, cellSize / cells.length);
+        }
+        return canvas.toDataURL('image/png');
+    },
+
+    animation: async ({ prompt, animationPrompt, style, baseImage, seed }, options) => {
+        await simulateLatency(options, 'Rendering mock animation...');
+        const rng = createRng(seedFor(prompt, animationPrompt, style.id, seed));
+        const palette = stylePalette(style, rng);
+        const cells = spriteCells(modelGridSize(options.model), rng);
+        const base = baseImage ? await loadImage(baseImage) : null;
+        const frames = Array.from({ length: ANIMATION_FRAMES }, (_, i) => {
+            const frame = createCanvas(OUTPUT_SIZE, OUTPUT_SIZE);
+            const bob = Math.round(Math.sin((i / ANIMATION_FRAMES) * Math.PI * 2) * 8);
+            const frameCtx = frame.getContext('2d')!;
+            if (base) frameCtx.drawImage(base, 0, bob, OUTPUT_SIZE, OUTPUT_SIZE);
+            else frameCtx.drawImage(renderSprite(poseCells(cells, createRng(seedFor(animationPrompt, i))), palette), 0, bob);
+            return frame;
+        });
+        options.onProgress?.('Recording mock animation...');
+        return recordAnimation(frames, options.signal);
+    },
+
+    palette: async ({ prompt }, options) => {
+        await simulateLatency(options, 'Mixing mock palette...');
+        const rng = createRng(seedFor(prompt));
+        const hue = rng() * 360;
+        const ctx = createCanvas(1, 1).getContext('2d', { willReadFrequently: true })!;
+        // A dark-to-light ramp around the base hue, with a complementary accent at the end.
+        return Array.from({ length: 8 }, (_, i) => {
+            const h = i === 7 ? (hue + 180) % 360 : hue + (i - 3) * 8 + pick([-10, 0, 10], rng);
+            ctx.fillStyle = `hsl(${h}, ${50 + i * 4}%, ${12 + i * 10}%)`;
+            ctx.fillRect(0, 0, 1, 1);
+            const [r, g, b] = ctx.getImageData(0, 0, 1, 1).data;
+            return rgbaToHex(r, g, b);
+        });
+    },
+};
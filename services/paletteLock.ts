@@ -0,0 +1,80 @@
+import { loadImage, createCanvas } from '../utils/canvas';
+import { enforcePalette, PaletteMatchOptions, DEFAULT_PALETTE_MATCH_OPTIONS } from '../utils/paletteMatch';
+import type { PaletteFile } from '../utils/paletteFiles';
+import { findPalette, PaletteDefinition } from './palettes';
+
+// PALETTE LOCK
+// Forces generation results onto a fixed palette. The prompt asks the model for the colors, then
+// every result is mapped onto them and held for review before it reaches the history.
+
+export type PaletteSource = 'editor' | 'saved' | 'style' | 'file';
+
+export interface PaletteLockSettings {
+    enabled: boolean;
+    source: PaletteSource;
+    paletteId: string | null; // for 'saved'
+    file: PaletteFile | null;
+    options: PaletteMatchOptions;
+}
+
+/** A palette lock resolved for one job: the colors are fixed when the job is queued. */
+export interface ResolvedPaletteLock {
+    name: string;
+    palette: string[];
+    options: PaletteMatchOptions;
+}
+
+const STORAGE_KEY = 'pixelArtPaletteLock';
+
+export const DEFAULT_PALETTE_LOCK: PaletteLockSettings = {
+    enabled: false,
+    source: 'editor',
+    paletteId: null,
+    file: null,
+    options: DEFAULT_PALETTE_MATCH_OPTIONS,
+};
+
+export const loadPaletteLock = (): PaletteLockSettings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+        if (!stored) return DEFAULT_PALETTE_LOCK;
+        return { ...DEFAULT_PALETTE_LOCK, ...stored, options: { ...DEFAULT_PALETTE_MATCH_OPTIONS, ...stored.options } };
+    } catch {
+        return DEFAULT_PALETTE_LOCK;
+    }
+};
+
+export const savePaletteLock = (settings: PaletteLockSettings) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/** The lock to apply to a job, or null when it is off. Throws when it is on but its source has no colors. */
+export const resolvePaletteLock = (
+    settings: PaletteLockSettings, editorPalette: string[], palettes: PaletteDefinition[], style: { name: string; palette?: string[] }
+): ResolvedPaletteLock | null => {
+    if (!settings.enabled) return null;
+    const saved = findPalette(palettes, settings.paletteId);
+    const { name, palette } = settings.source === 'editor' ? { name: 'Editor palette', palette: editorPalette }
+        : settings.source === 'saved' ? { name: saved?.name ?? 'Saved palette', palette: saved?.colors ?? [] }
+        : settings.source === 'style' ? { name: `${style.name} palette`, palette: style.palette ?? [] }
+        : { name: settings.file?.name ?? 'Palette file', palette: settings.file?.colors ?? [] };
+    if (palette.length === 0) {
+        throw new Error(settings.source === 'editor' ? "Palette lock is on, but the Editor palette is empty. Generate or extract one in the Editor first."
+            : settings.source === 'saved' ? (saved ? `Palette lock is on, but the palette "${saved.name}" is empty.` : "Palette lock is on, but no saved palette is selected.")
+            : settings.source === 'style' ? `Palette lock is on, but the style "${style.name}" has no palette.`
+            : "Palette lock is on, but no palette file is loaded.");
+    }
+    return { name, palette, options: settings.options };
+};
+
+/** Maps an image onto the palette and returns it as a PNG data URL. */
+export const applyPaletteLock = async (url: string, palette: string[], options: PaletteMatchOptions): Promise<string> => {
+    const img = await loadImage(url);
+    const canvas = createCanvas(img.naturalWidth, img.naturalHeight);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.drawImage(img, 0, 0);
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    enforcePalette(imageData, palette, options);
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.toDataURL('image/png');
+};
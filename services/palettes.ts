@@ -0,0 +1,77 @@
+import type { PaletteFile } from '../utils/paletteFiles';
+
+// PALETTES
+// Named color palettes for the Editor and the palette lock. The built-in ones are the classic
+// console and Lospec palettes and are read-only; user palettes are stored in IndexedDB.
+
+export interface PaletteDefinition {
+    id: string;
+    name: string;
+    colors: string[]; // '#rrggbb', in display order
+    builtIn?: boolean;
+    createdAt: number;
+}
+
+const hexList = (list: string) => list.split(' ').map(hex => `#${hex}`);
+
+export const BUILT_IN_PALETTES: PaletteDefinition[] = [
+    {
+        id: 'pico-8', name: 'PICO-8',
+        colors: hexList('000000 1d2b53 7e2553 008751 ab5236 5f574f c2c3c7 fff1e8 ff004d ffa300 ffec27 00e436 29adff 83769c ff77a8 ffccaa'),
+    },
+    {
+        id: 'nes', name: 'NES',
+        colors: hexList('000000 fcfcfc f8f8f8 bcbcbc 7c7c7c a4e4fc 3cbcfc 0078f8 0000fc b8b8f8 6888fc 0058f8 0000bc d8b8f8 9878f8 6844fc 4428bc f8b8f8 f878f8 d800cc 940084 f8a4c0 f85898 e40058 a80020 f0d0b0 f87858 f83800 a81000 fce0a8 fca044 e45c10 881400 f8d878 f8b800 ac7c00 503000 d8f878 b8f818 00b800 007800 b8f8b8 58d854 00a800 006800 b8f8d8 58f898 00a844 005800 00fcfc 00e8d8 008888 004058 f8d8f8 787878'),
+    },
+    {
+        id: 'game-boy', name: 'Game Boy',
+        colors: hexList('0f380f 306230 8bac0f 9bbc0f'),
+    },
+    {
+        id: 'db32', name: 'DawnBringer 32',
+        colors: hexList('000000 222034 45283c 663931 8f563b df7126 d9a066 eec39a fbf236 99e550 6abe30 37946e 4b692f 524b24 323c39 3f3f74 306082 5b6ee1 639bff 5fcde4 cbdbfc ffffff 9badb7 847e87 696a6a 595652 76428a ac3232 d95763 d77bba 8f974a 8a6f30'),
+    },
+    {
+        id: 'endesga-32', name: 'Endesga 32',
+        colors: hexList('be4a2f d77643 ead4aa e4a672 b86f50 733e39 3e2731 a22633 e43b44 f77622 feae34 fee761 63c74d 3e8948 265c42 193c3e 124e89 0099db 2ce8f5 ffffff c0cbdc 8b9bb4 5a6988 3a4466 262b44 181425 ff0044 68386c b55088 f6757a e8b796 c28569'),
+    },
+].map(palette => ({ ...palette, builtIn: true, createdAt: 0 }));
+
+export const findPalette = (palettes: PaletteDefinition[], id: string | null | undefined) => palettes.find(palette => palette.id === id);
+
+export const createPalette = (fields: Partial<PaletteDefinition> = {}): PaletteDefinition => ({
+    name: 'New Palette',
+    colors: ['#000000', '#ffffff'],
+    ...fields,
+    id: crypto.randomUUID(),
+    builtIn: undefined,
+    createdAt: Date.now(),
+});
+
+export const duplicatePalette = (palette: PaletteDefinition) => createPalette({ name: `${palette.name} Copy`, colors: [...palette.colors] });
+
+export const paletteFromFile = (file: PaletteFile) => createPalette({ name: file.name, colors: file.colors });
+
+// EDITOR PALETTE
+// The Editor's working palette survives reloads; it remembers which saved palette it was loaded from.
+
+export interface EditorPalette {
+    paletteId: string | null;
+    colors: string[];
+}
+
+const EDITOR_PALETTE_STORAGE_KEY = 'pixelArtEditorPalette';
+
+export const loadEditorPalette = (): EditorPalette => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(EDITOR_PALETTE_STORAGE_KEY) || 'null');
+        if (stored && Array.isArray(stored.colors)) return { paletteId: stored.paletteId ?? null, colors: stored.colors };
+    } catch {
+        // fall through to an empty palette
+    }
+    return { paletteId: null, colors: [] };
+};
+
+export const saveEditorPalette = (palette: EditorPalette) => {
+    localStorage.setItem(EDITOR_PALETTE_STORAGE_KEY, JSON.stringify(palette));
+};
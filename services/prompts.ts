@@ -0,0 +1,14 @@
+import type { StylePresetDefinition } from './stylePresets';
+
+// PROMPT FRAGMENTS
+// Shared by the text-prompted providers.
+
+/** The style part of a prompt: the preset's fragment plus its resolution and palette constraints. */
+export const describeStyle = (style: StylePresetDefinition) => [
+    style.prompt,
+    style.resolution && `Drawn on a ${style.resolution}x${style.resolution} pixel grid.`,
+    style.palette?.length && `Use only these colors: ${style.palette.join(', ')}.`,
+].filter(Boolean).join(' ');
+
+/** "Frame 1: idle. Frame 2: walk." — the per-frame instructions of a sprite sheet prompt. */
+export const describeFrames = (actions: string[]) => actions.map((action, i) => `Frame ${i + 1}: ${action}.`).join(' ');
@@ -0,0 +1,27 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_PROVIDER_SETTINGS, saveProviderSettings } from './imageProvider';
+import { generatePixelArtImage, getProvider, selectedModel } from './providers';
+import { mockProvider } from './mockProvider';
+import { BUILT_IN_STYLE_PRESETS } from './stylePresets';
+
+const style = BUILT_IN_STYLE_PRESETS[0];
+
+describe('provider registry', () => {
+    beforeEach(() => { localStorage.clear(); });
+
+    it('resolves the mock provider and its default model', () => {
+        expect(getProvider('mock')).toBe(mockProvider);
+        expect(selectedModel(mockProvider, 'image', { ...DEFAULT_PROVIDER_SETTINGS, providerId: 'mock' })).toBe('sprite-16');
+    });
+
+    it('generates through the mock provider without an API key', async () => {
+        saveProviderSettings({ ...DEFAULT_PROVIDER_SETTINGS, providerId: 'mock', models: { mock: { image: 'sprite-32' } } });
+        const images = await generatePixelArtImage('a heroic knight', '', style, 1, 42);
+        expect(images).toHaveLength(1);
+        expect(images[0]).toEqual((await mockProvider.image!({ prompt: 'a heroic knight', negativePrompt: '', style, numberOfImages: 1, seed: 42 }, { model: 'sprite-32' }))[0]);
+    });
+
+    it('needs an API key for the default Gemini provider', async () => {
+        await expect(generatePixelArtImage('a heroic knight', '', style, 1, 42)).rejects.toThrow(/API Key is missing/);
+    });
+});
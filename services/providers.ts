@@ -0,0 +1,65 @@
+import type { StylePresetDefinition } from './stylePresets';
+import type { CapabilityRequests, CapabilityResults, ImageProvider, ProviderCapability, ProviderMethod } from './imageProvider';
+import { CAPABILITIES, loadProviderSettings } from './imageProvider';
+import type { RequestOptions } from './request';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+import { httpProvider } from './httpProvider';
+
+// PROVIDER REGISTRY
+// Resolves the provider and model from Settings on every call, so a change applies to the next
+// request without a reload. The generate* functions keep the signatures the app already uses.
+
+export const PROVIDERS: ImageProvider[] = [geminiProvider, mockProvider, httpProvider];
+
+export const getProvider = (id: string): ImageProvider => PROVIDERS.find(provider => provider.id === id) ?? PROVIDERS[0];
+
+/** The model used for `capability`: the one chosen in Settings, else the provider's default. */
+export const selectedModel = (provider: ImageProvider, capability: ProviderCapability, settings = loadProviderSettings()): string =>
+    settings.models[provider.id]?.[capability] || provider.models[capability]?.[0] || '';
+
+// `modelCapability` lets a request borrow another capability's model: sheets built from an image,
+// and images or sheets whose style has a reference image, need a model that takes image input.
+const run = async <C extends ProviderCapability>(
+    capability: C, request: CapabilityRequests[C], options: RequestOptions, modelCapability: ProviderCapability = capability
+): Promise<CapabilityResults[C]> => {
+    const settings = loadProviderSettings();
+    const provider = getProvider(settings.providerId);
+    const method = provider[capability] as ProviderMethod<C> | undefined;
+    if (!method) {
+        const label = CAPABILITIES.find(c => c.capability === capability)?.label ?? capability;
+        throw new Error(`${provider.name} does not support ${label.toLowerCase()} generation. Pick another provider in Settings.`);
+    }
+    return method(request, { ...options, model: selectedModel(provider, modelCapability, settings) });
+};
+
+export const generatePixelArtImage = (
+    userPrompt: string, negativePrompt: string, style: StylePresetDefinition, numberOfImages: number = 1, seed?: number,
+    options: RequestOptions = {}
+) => run('image', { prompt: userPrompt, negativePrompt, style, numberOfImages, seed }, options, style.referenceImage ? 'imageToImage' : 'image');
+
+export const generatePixelArtAnimation = (
+    userPrompt: string, animationPrompt: string, negativePrompt: string, style: StylePresetDefinition, baseImage?: string, seed?: number,
+    options: RequestOptions = {}
+) => run('animation', { prompt: userPrompt, animationPrompt, negativePrompt, style, baseImage, seed }, options);
+
+export const generateSpriteSheet = (
+    userPrompt: string, negativePrompt: string, style: StylePresetDefinition, actions: string[], dimensions: { w: number, h: number }, seed?: number,
+    options: RequestOptions = {}
+) => run('sheet', { prompt: userPrompt, negativePrompt, style, actions, dimensions, seed }, options, style.referenceImage ? 'imageToImage' : 'sheet');
+
+export const generateSpriteSheetFromImage = (
+    baseImage: string, userPrompt: string, negativePrompt: string, style: StylePresetDefinition, actions: string[], dimensions: { w: number; h: number },
+    temperature?: number, seed?: number, options: RequestOptions = {}
+) => run('sheet', { prompt: userPrompt, negativePrompt, style, actions, dimensions, baseImage, temperature, seed }, options, 'imageToImage');
+
+export const generateImageFromImage = (
+    baseImage: string, editPrompt: string, temperature?: number, seed?: number, options: RequestOptions = {}
+) => run('imageToImage', { baseImage, prompt: editPrompt, temperature, seed }, options);
+
+export const inpaintImage = (
+    baseImage: string, maskImage: string, editPrompt: string, temperature?: number, options: RequestOptions = {}
+) => run('inpaint', { baseImage, maskImage, prompt: editPrompt, temperature }, options);
+
+export const generateAIPalette = (palettePrompt: string, temperature?: number, options: RequestOptions = {}) =>
+    run('palette', { prompt: palettePrompt, temperature }, options);
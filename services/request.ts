@@ -0,0 +1,48 @@
+// RETRY & CANCELLATION
+// Shared by every image provider: requests can be aborted through `signal`, report status through
+// `onProgress`, and transient server failures are retried with backoff.
+
+export interface RequestOptions {
+    signal?: AbortSignal;
+    onProgress?: (message: string) => void;
+}
+
+const MAX_RETRIES = 4;
+const BASE_RETRY_DELAY_MS = 2000;
+
+export const abortError = () => new DOMException('Generation was cancelled.', 'AbortError');
+
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Rate limits (429) and server errors (5xx) are worth retrying; everything else is our fault.
+const retryableStatus = (e: unknown): number | null => {
+    const status = (e as { status?: unknown })?.status;
+    return typeof status === 'number' && (status === 429 || status >= 500) ? status : null;
+};
+
+/** Runs `request`, retrying 429/5xx with exponential backoff (plus jitter) until MAX_RETRIES. */
+export const withRetry = async <T>(request: () => Promise<T>, options: RequestOptions): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await request();
+        } catch (e) {
+            if (options.signal?.aborted) throw abortError();
+            const status = retryableStatus(e);
+            if (status === null || attempt >= MAX_RETRIES) throw e;
+            const delay = BASE_RETRY_DELAY_MS * 2 ** attempt * (0.75 + Math.random() * 0.5);
+            options.onProgress?.(`Server returned ${status}, retrying in ${Math.round(delay / 1000)}s (${attempt + 1}/${MAX_RETRIES})...`);
+            await sleep(delay, options.signal);
+        }
+    }
+};
@@ -0,0 +1,169 @@
+import { createCanvas, loadImage } from '../utils/canvas';
+import { snapToPixelGrid } from '../utils/pixelSnap';
+import { enforcePalette, DEFAULT_PALETTE_MATCH_OPTIONS } from '../utils/paletteMatch';
+
+// STYLE PRESETS
+// A preset is a prompt fragment plus optional constraints: a default negative prompt, a target
+// sprite resolution, a fixed palette and a reference image. The built-in presets are prompt-only
+// and read-only; user presets are stored in IndexedDB and shared as JSON files.
+
+export interface StylePresetDefinition {
+    id: string; // built-in presets use their name, which is what older promptData stores
+    name: string;
+    prompt: string;
+    negativePrompt: string;
+    resolution?: number; // sprite size in pixels; results are snapped to this grid
+    palette?: string[]; // '#rrggbb'; results are snapped to these colors
+    referenceImage?: string; // data url, used as a style reference where the provider supports it
+    builtIn?: boolean;
+    createdAt: number;
+}
+
+export const RESOLUTIONS = [16, 24, 32, 48, 64, 96, 128];
+
+const MAX_REFERENCE_SIZE = 256;
+const EXPORT_FORMAT = 'pixelartpro-style-presets';
+
+const BUILT_IN_PROMPTS: Record<string, string> = {
+    '8-bit': '8-bit pixel art sprite, very pixelated, extremely low resolution, limited 4-color palette like the NES, retro video game asset, clean lines, simple, 1:1 aspect ratio.',
+    '16-bit': '16-bit pixel art sprite, SNES/Genesis style, detailed, low resolution, vibrant 32-color palette, retro RPG asset, shaded, 1:1 aspect ratio.',
+    'Game Boy': 'Game Boy pixel art sprite, 4-color grayscale palette (shades of green-and-black), very low resolution, iconic retro handheld style, 1:1 aspect ratio.',
+    'Monochrome': 'Monochrome 1-bit pixel art, black and white only, sharp edges, minimalist, high contrast, 1:1 aspect ratio.',
+    'Isometric': 'isometric 3D pixel art, clean lines, blocky, distinct lighting and shadows, retro strategy game style, 1:1 aspect ratio.',
+    'Claymation': 'claymation style, stop-motion look, slightly imperfect shapes, fingerprint textures, vibrant and soft, 1:1 aspect ratio.',
+    'LEGO': 'LEGO brick-built style, stud connections visible, blocky and modular, bright primary colors, 1:1 aspect ratio.',
+    'Comic Book': 'comic book art style, bold outlines, cel-shading, halftone dot patterns, dynamic, pop art, 1:1 aspect ratio.',
+    'Cinematic': 'cinematic lighting, dramatic shadows, high contrast, detailed, atmospheric, movie still look, 1:1 aspect ratio.',
+    'Stained Glass': 'stained glass window style, thick black lead lines, vibrant translucent colors, glowing effect, 1:1 aspect ratio.',
+    'Sticker': 'die-cut sticker style, thick white border, glossy finish, cute and simple, 1:1 aspect ratio.',
+    'Low Poly': 'low-poly 3D render style, flat shading, geometric shapes, minimalist, modern retro, 1:1 aspect ratio.',
+    'Voxel': 'voxel art style, made of 3D cubes, blocky, Minecraft-like aesthetic, 1:1 aspect ratio.',
+    'Dithering': 'dithered pixel art, limited color palette with dithering for gradients, retro PC-98 style, 1:1 aspect ratio.',
+    'HD Pixel Art': 'modern HD pixel art, high resolution sprite, extremely detailed, clean anti-aliasing on curves, contemporary indie game style, 1:1 aspect ratio.',
+    'Cute': 'cute kawaii style, rounded shapes, simple features, pastel colors, chibi proportions, 1:1 aspect ratio.',
+    'Gothic': 'gothic horror style, dark and moody, high contrast, deep shadows, desaturated colors with red accents, 1:1 aspect ratio.',
+    'Synthwave': 'synthwave retrowave style, neon grid lines, glowing elements, 80s aesthetic, purple and pink hues, 1:1 aspect ratio.',
+};
+
+export const BUILT_IN_STYLE_PRESETS: StylePresetDefinition[] = Object.entries(BUILT_IN_PROMPTS).map(([name, prompt]) => ({
+    id: name, name, prompt, negativePrompt: '', builtIn: true, createdAt: 0,
+}));
+
+export const DEFAULT_STYLE_PRESET_ID = '16-bit';
+
+export const findStylePreset = (presets: StylePresetDefinition[], id: string) => presets.find(preset => preset.id === id);
+
+export const styleName = (presets: StylePresetDefinition[], id: string) => findStylePreset(presets, id)?.name ?? id;
+
+export const createStylePreset = (fields: Partial<StylePresetDefinition> = {}): StylePresetDefinition => ({
+    name: 'New Style',
+    prompt: 'pixel art sprite, 1:1 aspect ratio.',
+    negativePrompt: '',
+    ...fields,
+    id: crypto.randomUUID(),
+    builtIn: false,
+    createdAt: Date.now(),
+});
+
+export const duplicateStylePreset = (preset: StylePresetDefinition): StylePresetDefinition =>
+    createStylePreset({ ...preset, name: `${preset.name} Copy` });
+
+// IMPORT & EXPORT
+export const exportStylePresets = (presets: StylePresetDefinition[]): string => JSON.stringify({
+    format: EXPORT_FORMAT,
+    version: 1,
+    presets: presets.map(({ builtIn, ...preset }) => preset),
+}, null, 2);
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const toPreset = (value: unknown, index: number): StylePresetDefinition => {
+    const entry = value as Partial<StylePresetDefinition> | null;
+    if (!entry || typeof entry !== 'object') throw new Error(`Preset ${index + 1} is not an object.`);
+    if (typeof entry.name !== 'string' || !entry.name.trim()) throw new Error(`Preset ${index + 1} has no name.`);
+    if (typeof entry.prompt !== 'string') throw new Error(`Preset "${entry.name}" has no prompt.`);
+    const preset: StylePresetDefinition = {
+        id: typeof entry.id === 'string' && entry.id ? entry.id : crypto.randomUUID(),
+        name: entry.name.trim(),
+        prompt: entry.prompt,
+        negativePrompt: typeof entry.negativePrompt === 'string' ? entry.negativePrompt : '',
+        createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : Date.now(),
+    };
+    if (typeof entry.resolution === 'number' && entry.resolution >= 4 && entry.resolution <= 512) preset.resolution = Math.round(entry.resolution);
+    if (Array.isArray(entry.palette)) {
+        const palette = entry.palette.filter(color => typeof color === 'string' && HEX_COLOR.test(color)).map(color => color.toLowerCase());
+        if (palette.length > 0) preset.palette = palette;
+    }
+    if (typeof entry.referenceImage === 'string' && entry.referenceImage.startsWith('data:image/')) preset.referenceImage = entry.referenceImage;
+    return preset;
+};
+
+/** Reads an exported preset file (or a bare array of presets). Throws on anything else. */
+export const parseStylePresets = (text: string): StylePresetDefinition[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        throw new Error(`Invalid JSON: ${e instanceof Error ? e.message : e}`);
+    }
+    const list = Array.isArray(data) ? data : (data as { format?: unknown; presets?: unknown })?.format === EXPORT_FORMAT ? (data as { presets: unknown }).presets : null;
+    if (!Array.isArray(list)) throw new Error("Not a style preset file.");
+    return list.map(toPreset);
+};
+
+/**
+ * Adds imported presets to the user's. A preset with the id of an existing user preset replaces
+ * it, so re-importing an updated house style file updates the team's copies in place; ids that
+ * clash with a built-in get a fresh id.
+ */
+export const mergeStylePresets = (existing: StylePresetDefinition[], imported: StylePresetDefinition[]): StylePresetDefinition[] => {
+    const builtInIds = new Set(BUILT_IN_STYLE_PRESETS.map(preset => preset.id));
+    const merged = [...existing];
+    imported.forEach(preset => {
+        const incoming = builtInIds.has(preset.id) ? { ...preset, id: crypto.randomUUID() } : preset;
+        const index = merged.findIndex(p => p.id === incoming.id);
+        if (index >= 0) merged[index] = incoming;
+        else merged.push(incoming);
+    });
+    return merged;
+};
+
+/** Downscales a reference image so presets stay small enough to store and send with prompts. */
+export const prepareReferenceImage = async (dataUrl: string): Promise<string> => {
+    const img = await loadImage(dataUrl);
+    const scale = Math.min(1, MAX_REFERENCE_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = createCanvas(Math.max(1, Math.round(img.naturalWidth * scale)), Math.max(1, Math.round(img.naturalHeight * scale)));
+    canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+};
+
+// CONSTRAINTS
+/**
+ * Snaps a generated image to the preset's resolution and palette. `cells` is the grid of sprites
+ * in the image (a sprite sheet is several sprites wide), so each sprite gets `resolution` pixels.
+ * Returns the url unchanged when the preset has no constraints.
+ */
+export const applyStyleConstraints = async (
+    url: string, style: StylePresetDefinition, cells: { w: number; h: number } = { w: 1, h: 1 }
+): Promise<string> => {
+    if (!style.resolution && !style.palette?.length) return url;
+    const img = await loadImage(url);
+    let canvas = createCanvas(img.naturalWidth, img.naturalHeight);
+    canvas.getContext('2d')!.drawImage(img, 0, 0);
+
+    if (style.resolution) {
+        const width = style.resolution * cells.w;
+        const height = style.resolution * cells.h;
+        const pixelSize = Math.max(1, Math.round(canvas.width / width));
+        const { canvas: snapped } = snapToPixelGrid(canvas, { pixelSize, sampling: 'mode', colors: 0, removeBackground: false });
+        canvas = createCanvas(width, height);
+        canvas.getContext('2d')!.drawImage(snapped, 0, 0, width, height);
+    }
+    if (style.palette?.length) {
+        const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        enforcePalette(imageData, style.palette, DEFAULT_PALETTE_MATCH_OPTIONS);
+        ctx.putImageData(imageData, 0, 0);
+    }
+    return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,169 @@
+import { unzlibSync, unzipSync, strFromU8 } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import type { AnimationTag, Frame } from '../components/Editor';
+import { AnimationExportOptions, DEFAULT_ANIMATION_EXPORT, exportAnimation, exportSequence, frameFileName } from './animationExport';
+import { createLayer } from './layers';
+
+const WIDTH = 3;
+const HEIGHT = 2;
+const COLORS = ['#ff0000', '#00ff00', '#0000ff'];
+
+// Frame i is filled with COLORS[i] except its top-left pixel, which stays transparent.
+const makeFrames = (): Frame[] => COLORS.map((color, i) => {
+  const layer = createLayer('l', 'Layer', WIDTH, HEIGHT);
+  layer.context.fillStyle = color;
+  layer.context.fillRect(0, 0, WIDTH, HEIGHT);
+  layer.context.clearRect(0, 0, 1, 1);
+  return { id: `f${i}`, layers: [layer], duration: 100 * (i + 1) };
+});
+
+const indices = (sequence: { index: number }[]) => sequence.map(item => item.index);
+
+const exportBytes = async (frames: Frame[], sequence: number[], options: Partial<AnimationExportOptions>) => {
+  const items = sequence.map(index => ({ index, duration: frames[index].duration }));
+  const { blob, extension } = await exportAnimation(frames, items, WIDTH, HEIGHT, { ...DEFAULT_ANIMATION_EXPORT, ...options }, [], 'hero', null);
+  return { bytes: new Uint8Array(await blob.arrayBuffer()), extension, type: blob.type };
+};
+
+describe('exportSequence', () => {
+  const frames = makeFrames().concat(makeFrames()).map((frame, i) => ({ ...frame, duration: i }));
+  const range = { from: 1, to: 4 };
+
+  it('plays the range once in each direction', () => {
+    expect(indices(exportSequence(frames, range))).toEqual([1, 2, 3, 4]);
+    expect(indices(exportSequence(frames, range, 'reverse'))).toEqual([4, 3, 2, 1]);
+    expect(indices(exportSequence(frames, range, 'ping-pong'))).toEqual([1, 2, 3, 4, 3, 2]);
+    expect(indices(exportSequence(frames, range, 'ping-pong-reverse'))).toEqual([4, 3, 2, 1, 2, 3]);
+  });
+
+  it('keeps each frame\'s duration and handles single-frame ping-pongs', () => {
+    expect(exportSequence(frames, range, 'ping-pong').map(item => item.duration)).toEqual([1, 2, 3, 4, 3, 2]);
+    expect(exportSequence(frames, { from: 2, to: 2 }, 'ping-pong')).toEqual([{ index: 2, duration: 2 }]);
+  });
+});
+
+describe('frameFileName', () => {
+  const tags: AnimationTag[] = [{ id: 't', name: 'walk', from: 2, to: 5, direction: 'forward', repeat: 0, color: '#4ade80' }];
+
+  it('fills in every token and zero-pads the position to the frame count', () => {
+    expect(frameFileName('{name}-{tag}-{frame}-{index}-{duration}ms', 'hero', { index: 3, duration: 120 }, 4, 12, tags)).toBe('hero-walk-05-4-120ms.png');
+  });
+
+  it('leaves unknown tokens alone, blanks {tag} outside tags and keeps a single .png extension', () => {
+    expect(frameFileName('{name}_{frame}_{what}{tag}.png', 'hero', { index: 0, duration: 100 }, 0, 3, tags)).toBe('hero_1_{what}.png');
+  });
+});
+
+// PNG chunks as [type, data] pairs, after the 8-byte signature.
+const pngChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const chunks: [string, Uint8Array][] = [];
+  for (let pos = 8; pos < bytes.length;) {
+    const length = view.getUint32(pos);
+    chunks.push([String.fromCharCode(...bytes.subarray(pos + 4, pos + 8)), bytes.subarray(pos + 8, pos + 8 + length)]);
+    pos += 12 + length;
+  }
+  return chunks;
+};
+
+// RIFF chunks as [type, data] pairs, starting at `start`.
+const riffChunks = (bytes: Uint8Array, start: number, end = bytes.length) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const chunks: [string, Uint8Array][] = [];
+  for (let pos = start; pos + 8 <= end;) {
+    const size = view.getUint32(pos + 4, true);
+    chunks.push([String.fromCharCode(...bytes.subarray(pos, pos + 4)), bytes.subarray(pos + 8, pos + 8 + size)]);
+    pos += 8 + size + (size & 1);
+  }
+  return chunks;
+};
+
+const uint24 = (bytes: Uint8Array, pos: number) => bytes[pos] | (bytes[pos + 1] << 8) | (bytes[pos + 2] << 16);
+
+describe('APNG export', () => {
+  it('writes acTL, then fcTL with IDAT for the first frame and fcTL with fdAT for the rest', async () => {
+    const { bytes, extension } = await exportBytes(makeFrames(), [0, 1, 2, 1], { format: 'apng', loop: true });
+    expect(extension).toBe('png');
+    const chunks = pngChunks(bytes);
+    expect(chunks.map(([type]) => type)).toEqual(['IHDR', 'acTL', 'fcTL', 'IDAT', 'fcTL', 'fdAT', 'fcTL', 'fdAT', 'fcTL', 'fdAT', 'IEND']);
+
+    const acTL = new DataView(chunks[1][1].buffer, chunks[1][1].byteOffset);
+    expect([acTL.getUint32(0), acTL.getUint32(4)]).toEqual([4, 0]);
+
+    // fcTL and fdAT share one sequence counter.
+    const sequence = chunks.filter(([type]) => type === 'fcTL' || type === 'fdAT').map(([, data]) => new DataView(data.buffer, data.byteOffset).getUint32(0));
+    expect(sequence).toEqual([0, 1, 2, 3, 4, 5, 6]);
+
+    const controls = chunks.filter(([type]) => type === 'fcTL').map(([, data]) => {
+      const view = new DataView(data.buffer, data.byteOffset);
+      return [view.getUint32(4), view.getUint32(8), view.getUint16(20), view.getUint16(22), data[24], data[25]];
+    });
+    expect(controls).toEqual([[3, 2, 100, 1000, 0, 0], [3, 2, 200, 1000, 0, 0], [3, 2, 300, 1000, 0, 0], [3, 2, 200, 1000, 0, 0]]);
+  });
+
+  it('stores unfiltered RGBA rows with the transparent pixel intact', async () => {
+    const chunks = pngChunks((await exportBytes(makeFrames(), [1], { format: 'apng' })).bytes);
+    const rows = unzlibSync(chunks.find(([type]) => type === 'IDAT')![1]);
+    expect(Array.from(rows.subarray(0, 1 + WIDTH * 4))).toEqual([0, 0, 0, 0, 0, 0, 255, 0, 255, 0, 255, 0, 255]);
+    expect(rows).toHaveLength((1 + WIDTH * 4) * HEIGHT);
+  });
+
+  it('plays once when not looping', async () => {
+    const [, acTL] = pngChunks((await exportBytes(makeFrames(), [0, 1], { format: 'apng', loop: false })).bytes)[1];
+    expect(new DataView(acTL.buffer, acTL.byteOffset).getUint32(4)).toBe(1);
+  });
+});
+
+describe('WebP export', () => {
+  it('wraps one ANMF per shown frame in an animated RIFF container', async () => {
+    const { bytes, extension, type } = await exportBytes(makeFrames(), [0, 1, 2, 1], { format: 'webp', loop: false, scale: 2 });
+    expect([extension, type]).toEqual(['webp', 'image/webp']);
+    expect(String.fromCharCode(...bytes.subarray(0, 4), ...bytes.subarray(8, 12))).toBe('RIFFWEBP');
+    expect(new DataView(bytes.buffer).getUint32(4, true)).toBe(bytes.length - 8);
+
+    const chunks = riffChunks(bytes, 12);
+    expect(chunks.map(([name]) => name)).toEqual(['VP8X', 'ANIM', 'ANMF', 'ANMF', 'ANMF', 'ANMF']);
+    const [[, vp8x], [, anim]] = chunks;
+    expect(vp8x[0]).toBe(0x12);
+    expect([uint24(vp8x, 4) + 1, uint24(vp8x, 7) + 1]).toEqual([WIDTH * 2, HEIGHT * 2]);
+    expect(new DataView(anim.buffer, anim.byteOffset).getUint16(4, true)).toBe(1);
+
+    const frames = chunks.slice(2).map(([, data]) => ({
+      size: [uint24(data, 6) + 1, uint24(data, 9) + 1],
+      duration: uint24(data, 12),
+      flags: data[15],
+      image: riffChunks(data, 16, data.length).map(([name]) => name),
+    }));
+    expect(frames.map(f => f.duration)).toEqual([100, 200, 300, 200]);
+    frames.forEach(frame => {
+      expect(frame.size).toEqual([WIDTH * 2, HEIGHT * 2]);
+      expect(frame.flags).toBe(0x02);
+      expect(frame.image.some(name => name === 'VP8L' || name === 'VP8 ')).toBe(true);
+    });
+  });
+});
+
+describe('PNG sequence export', () => {
+  it('zips one PNG per shown frame and a timing file', async () => {
+    const { bytes, extension } = await exportBytes(makeFrames(), [0, 2, 0], { format: 'png-sequence', nameTemplate: '{name}_{frame}' });
+    expect(extension).toBe('zip');
+    const files = unzipSync(bytes);
+    expect(Object.keys(files).sort()).toEqual(['hero_1.png', 'hero_2.png', 'hero_3.png', 'timing.json']);
+    expect(JSON.parse(strFromU8(files['timing.json']))).toEqual({
+      frames: [
+        { file: 'hero_1.png', index: 0, duration: 100 },
+        { file: 'hero_2.png', index: 2, duration: 300 },
+        { file: 'hero_3.png', index: 0, duration: 100 },
+      ],
+    });
+    expect(Array.from(files['hero_2.png'].subarray(1, 4), c => String.fromCharCode(c)).join('')).toBe('PNG');
+  });
+
+  it('refuses a template that gives frames the same name', async () => {
+    await expect(exportBytes(makeFrames(), [0, 1], { format: 'png-sequence', nameTemplate: '{name}' })).rejects.toThrow(/same file name/);
+  });
+
+  it('refuses an empty sequence', async () => {
+    await expect(exportBytes(makeFrames(), [], { format: 'apng' })).rejects.toThrow(/no frames/);
+  });
+});
@@ -0,0 +1,306 @@
+import { zlibSync } from 'fflate';
+import type { AnimationTag, Frame, TagDirection } from '../components/Editor';
+import type { FrameRange } from './timeline';
+import { compositeFrame } from './layers';
+import { canvasToBlob, createCanvas } from './canvas';
+import { hexToRgba } from './color';
+import { quantize } from './quantizers';
+import { createPaletteMatcher } from './paletteMatch';
+import { createZip } from './zip';
+import { PNG_SIGNATURE, concatBytes, pngChunk, pngHeader } from './png';
+
+// ANIMATION EXPORT
+// Renders the exported frames once at the export scale, then hands them to one of the encoders.
+// Every format keeps each frame's own duration.
+
+export type AnimationFormat = 'gif' | 'apng' | 'webp' | 'video' | 'png-sequence';
+
+export const ANIMATION_FORMATS: { format: AnimationFormat; label: string }[] = [
+  { format: 'gif', label: 'GIF' },
+  { format: 'apng', label: 'APNG (lossless, full alpha)' },
+  { format: 'webp', label: 'Animated WebP' },
+  { format: 'video', label: 'Video (WebM / MP4)' },
+  { format: 'png-sequence', label: 'PNG sequence (.zip)' },
+];
+
+export interface AnimationExportOptions {
+  format: AnimationFormat;
+  source: string; // 'all', 'selection' or a tag id
+  scale: number;
+  loop: boolean; // false plays once; video always plays once
+  nameTemplate: string; // PNG sequence only, see frameFileName
+}
+
+export const DEFAULT_ANIMATION_EXPORT: AnimationExportOptions = {
+  format: 'gif', source: 'all', scale: 1, loop: true, nameTemplate: '{name}_{frame}',
+};
+
+export const NAME_TEMPLATE_TOKENS = '{name}, {frame}, {index}, {tag}, {duration}';
+
+export interface ExportFrame {
+  index: number; // frame index in the document
+  duration: number;
+}
+
+/** One pass over the range in play order; tags play in their own direction. */
+export const exportSequence = (frames: Frame[], range: FrameRange, direction: TagDirection = 'forward'): ExportFrame[] => {
+  const span = frames.slice(range.from, range.to + 1).map((frame, i) => ({ index: range.from + i, duration: frame.duration }));
+  const backward = [...span].reverse();
+  switch (direction) {
+    case 'reverse': return backward;
+    case 'ping-pong': return [...span, ...backward.slice(1, -1)];
+    case 'ping-pong-reverse': return [...backward, ...span.slice(1, -1)];
+    default: return span;
+  }
+};
+
+interface RenderedFrame extends ExportFrame {
+  canvas: HTMLCanvasElement;
+  imageData: ImageData;
+}
+
+// Frames that play more than once (ping-pong) are rendered once.
+const renderSequence = (frames: Frame[], sequence: ExportFrame[], width: number, height: number, scale: number): RenderedFrame[] => {
+  const cache = new Map<number, Omit<RenderedFrame, keyof ExportFrame>>();
+  return sequence.map(item => {
+    let rendered = cache.get(item.index);
+    if (!rendered) {
+      const canvas = createCanvas(width * scale, height * scale);
+      const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+      compositeFrame(ctx, frames[item.index], width, height);
+      rendered = { canvas, imageData: ctx.getImageData(0, 0, canvas.width, canvas.height) };
+      cache.set(item.index, rendered);
+    }
+    return { ...item, ...rendered };
+  });
+};
+
+// -- GIF --
+
+const hasTransparentPixels = ({ data }: ImageData) => {
+  for (let i = 3; i < data.length; i += 4) if (data[i] < 128) return true;
+  return false;
+};
+
+/**
+ * One global palette for the whole animation, so colors don't flicker between frames. Index 0 is
+ * reserved for transparency when any frame has transparent pixels. `palette` (e.g. the indexed
+ * document palette) is used as is when it fits, otherwise all frames are quantized together.
+ */
+const encodeGif = async (rendered: RenderedFrame[], loop: boolean, palette: string[] | null) => {
+  const { GIFEncoder } = await import('gifenc');
+  const images = rendered.map(frame => frame.imageData);
+  const transparent = images.some(hasTransparentPixels);
+  const slots = transparent ? 255 : 256;
+  const colors = palette && palette.length > 0 && palette.length <= slots ? palette : quantize(images, slots, 'median-cut');
+  const first = transparent ? 1 : 0;
+  const table = [...(transparent ? [[0, 0, 0]] : []), ...colors.map(hex => hexToRgba(hex).slice(0, 3))];
+  const nearest = createPaletteMatcher(colors, 'rgb');
+
+  const encoder = GIFEncoder();
+  rendered.forEach(({ imageData: { data, width, height }, duration }, i) => {
+    const index = new Uint8Array(width * height);
+    for (let p = 0; p < index.length; p++) {
+      index[p] = data[p * 4 + 3] < 128 ? 0 : first + nearest(data[p * 4], data[p * 4 + 1], data[p * 4 + 2]);
+    }
+    encoder.writeFrame(index, width, height, {
+      palette: i === 0 ? table : undefined, delay: duration, transparent, transparentIndex: 0, repeat: loop ? 0 : -1,
+    });
+  });
+  encoder.finish();
+  return new Blob([encoder.bytesView()], { type: 'image/gif' });
+};
+
+// -- APNG --
+
+const rgbaRows = ({ data, width, height }: ImageData) => {
+  const stride = width * 4;
+  const raw = new Uint8Array((stride + 1) * height); // filter type 0 per row
+  for (let y = 0; y < height; y++) raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  return raw;
+};
+
+// Each frame replaces the whole canvas: no blending with, and no disposal of, the previous one.
+const encodeApng = (rendered: RenderedFrame[], loop: boolean) => {
+  const { width, height } = rendered[0].imageData;
+  const actl = new Uint8Array(8);
+  new DataView(actl.buffer).setUint32(0, rendered.length);
+  new DataView(actl.buffer).setUint32(4, loop ? 0 : 1);
+  const parts = [PNG_SIGNATURE, pngHeader(width, height, 8, 6), pngChunk('acTL', actl)]; // color type 6: RGBA
+  let sequence = 0;
+  rendered.forEach((frame, i) => {
+    const fctl = new Uint8Array(26);
+    const view = new DataView(fctl.buffer);
+    view.setUint32(0, sequence++);
+    view.setUint32(4, width);
+    view.setUint32(8, height);
+    view.setUint16(20, Math.min(0xFFFF, frame.duration));
+    view.setUint16(22, 1000); // durations are in ms
+    parts.push(pngChunk('fcTL', fctl));
+    const data = zlibSync(rgbaRows(frame.imageData), { level: 9 });
+    if (i === 0) {
+      parts.push(pngChunk('IDAT', data));
+    } else {
+      const fdat = new Uint8Array(4 + data.length);
+      new DataView(fdat.buffer).setUint32(0, sequence++);
+      fdat.set(data, 4);
+      parts.push(pngChunk('fdAT', fdat));
+    }
+  });
+  parts.push(pngChunk('IEND', new Uint8Array(0)));
+  return new Blob([concatBytes(parts)], { type: 'image/png' });
+};
+
+// -- Animated WebP --
+// The browser encodes each frame as a still WebP (quality 1 asks for lossless); its image chunks
+// are then wrapped into ANMF frames of an animated RIFF container.
+
+const fourcc = (bytes: Uint8Array, pos: number) => String.fromCharCode(...bytes.subarray(pos, pos + 4));
+
+const riffChunk = (type: string, data: Uint8Array) => {
+  const out = new Uint8Array(8 + data.length + (data.length & 1));
+  for (let i = 0; i < 4; i++) out[i] = type.charCodeAt(i);
+  new DataView(out.buffer).setUint32(4, data.length, true);
+  out.set(data, 8);
+  return out;
+};
+
+const setUint24 = (bytes: Uint8Array, pos: number, value: number) => {
+  bytes[pos] = value & 0xFF;
+  bytes[pos + 1] = (value >> 8) & 0xFF;
+  bytes[pos + 2] = (value >> 16) & 0xFF;
+};
+
+const webpImageChunks = async (canvas: HTMLCanvasElement) => {
+  const blob = await canvasToBlob(canvas, 'image/webp', 1);
+  if (blob.type !== 'image/webp') throw new Error("This browser cannot encode WebP images.");
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const chunks: Uint8Array[] = [];
+  for (let pos = 12; pos + 8 <= bytes.length;) {
+    const size = view.getUint32(pos + 4, true);
+    const end = pos + 8 + size + (size & 1);
+    if (['ALPH', 'VP8 ', 'VP8L'].includes(fourcc(bytes, pos))) chunks.push(bytes.subarray(pos, end));
+    pos = end;
+  }
+  return concatBytes(chunks);
+};
+
+const encodeWebp = async (rendered: RenderedFrame[], loop: boolean) => {
+  const { width, height } = rendered[0].canvas;
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = 0x10 | 0x02; // alpha | animation
+  setUint24(vp8x, 4, width - 1);
+  setUint24(vp8x, 7, height - 1);
+  const anim = new Uint8Array(6); // transparent background
+  new DataView(anim.buffer).setUint16(4, loop ? 0 : 1, true);
+
+  const encoded = new Map<HTMLCanvasElement, Uint8Array>();
+  const frames: Uint8Array[] = [];
+  for (const frame of rendered) {
+    let image = encoded.get(frame.canvas);
+    if (!image) {
+      image = await webpImageChunks(frame.canvas);
+      encoded.set(frame.canvas, image);
+    }
+    const header = new Uint8Array(16);
+    setUint24(header, 6, width - 1);
+    setUint24(header, 9, height - 1);
+    setUint24(header, 12, Math.min(0xFFFFFF, frame.duration));
+    header[15] = 0x02; // do not blend with the previous frame
+    frames.push(riffChunk('ANMF', concatBytes([header, image])));
+  }
+
+  const body = concatBytes([riffChunk('VP8X', vp8x), riffChunk('ANIM', anim), ...frames]);
+  const riff = new Uint8Array(12);
+  riff.set([0x52, 0x49, 0x46, 0x46]); // RIFF
+  new DataView(riff.buffer).setUint32(4, body.length + 4, true);
+  riff.set([0x57, 0x45, 0x42, 0x50], 8); // WEBP
+  return new Blob([riff, body], { type: 'image/webp' });
+};
+
+// -- Video --
+
+const VIDEO_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4'];
+
+export const supportedVideoType = () =>
+  typeof MediaRecorder === 'undefined' ? null : VIDEO_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+
+// MediaRecorder captures in real time, so recording takes as long as the animation plays.
+const recordVideo = async (rendered: RenderedFrame[]) => {
+  const mimeType = supportedVideoType();
+  if (!mimeType) throw new Error("This browser cannot record video.");
+  const { width, height } = rendered[0].canvas;
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  recorder.start();
+  for (const frame of rendered) {
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(frame.canvas, 0, 0);
+    track.requestFrame();
+    await new Promise(resolve => setTimeout(resolve, frame.duration));
+  }
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach(t => t.stop());
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+};
+
+// -- PNG sequence --
+
+/**
+ * File name for one exported frame. Tokens: {name} the document name, {frame} the position in the
+ * export (1-based, zero-padded), {index} the frame number in the document, {tag} the name of the
+ * first tag holding the frame, {duration} in ms.
+ */
+export const frameFileName = (template: string, name: string, frame: ExportFrame, position: number, count: number, tags: AnimationTag[]) => {
+  const tokens: Record<string, string> = {
+    name,
+    frame: String(position + 1).padStart(String(count).length, '0'),
+    index: String(frame.index + 1),
+    tag: tags.find(t => frame.index >= t.from && frame.index <= t.to)?.name ?? '',
+    duration: String(frame.duration),
+  };
+  return `${template.replace(/\.png$/i, '').replace(/\{(\w+)\}/g, (match, token) => tokens[token] ?? match)}.png`;
+};
+
+const encodePngSequence = async (rendered: RenderedFrame[], template: string, name: string, tags: AnimationTag[]) => {
+  const names = rendered.map((frame, i) => frameFileName(template, name, frame, i, rendered.length, tags));
+  if (new Set(names).size < names.length) throw new Error("The naming template gives several frames the same file name; include {frame}.");
+  const timing = { frames: rendered.map((frame, i) => ({ file: names[i], index: frame.index, duration: frame.duration })) };
+  return createZip([
+    ...await Promise.all(rendered.map(async (frame, i) => ({ name: names[i], data: await canvasToBlob(frame.canvas) }))),
+    { name: 'timing.json', data: JSON.stringify(timing, null, 2) },
+  ]);
+};
+
+export interface AnimationExportResult {
+  blob: Blob;
+  extension: string;
+}
+
+/** Encodes the frames listed in `sequence`. `palette` is the document palette in indexed mode. */
+export const exportAnimation = async (
+  frames: Frame[], sequence: ExportFrame[], width: number, height: number, options: AnimationExportOptions,
+  tags: AnimationTag[], name: string, palette: string[] | null
+): Promise<AnimationExportResult> => {
+  if (sequence.length === 0) throw new Error("There are no frames to export.");
+  const rendered = renderSequence(frames, sequence, width, height, Math.max(1, Math.round(options.scale)));
+  switch (options.format) {
+    case 'gif': return { blob: await encodeGif(rendered, options.loop, palette), extension: 'gif' };
+    case 'apng': return { blob: encodeApng(rendered, options.loop), extension: 'png' };
+    case 'webp': return { blob: await encodeWebp(rendered, options.loop), extension: 'webp' };
+    case 'video': {
+      const blob = await recordVideo(rendered);
+      return { blob, extension: blob.type === 'video/mp4' ? 'mp4' : 'webm' };
+    }
+    case 'png-sequence': return { blob: await encodePngSequence(rendered, options.nameTemplate, name, tags), extension: 'zip' };
+  }
+};
@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import type { AnimationTag, Frame, Layer } from '../components/Editor';
+import { parseAseprite, writeAseprite } from './aseprite';
+import { createCanvas } from './canvas';
+import { compositeFrame, createLayer } from './layers';
+
+const WIDTH = 16;
+const HEIGHT = 16;
+
+const paint = (layer: Layer, color: string, x: number, y: number, w: number, h: number) => {
+  layer.context.fillStyle = color;
+  layer.context.fillRect(x, y, w, h);
+  return layer;
+};
+
+const pixelAt = (layer: Layer, x: number, y: number) => Array.from(layer.context.getImageData(x, y, 1, 1).data);
+
+const roundTrip = (frames: Frame[], tags: AnimationTag[] = [], palette: string[] = []) => {
+  const { result: bytes, warnings: writeWarnings } = writeAseprite({ width: WIDTH, height: HEIGHT, frames, tags, palette });
+  const { result, warnings } = parseAseprite(bytes.slice().buffer);
+  return { doc: result, warnings: [...writeWarnings, ...warnings] };
+};
+
+describe('Aseprite layers', () => {
+  it('keeps hidden layers hidden, with their pixels', () => {
+    const base = paint(createLayer('base', 'Base', WIDTH, HEIGHT), '#ff0000', 0, 0, 4, 4);
+    const hidden = { ...paint(createLayer('ref', 'Reference', WIDTH, HEIGHT), '#00ff00', 2, 3, 5, 5), isVisible: false };
+    const { doc, warnings } = roundTrip([
+      { id: 'f1', duration: 100, layers: [base, hidden] },
+      { id: 'f2', duration: 100, layers: [{ ...base }, { ...hidden }] },
+    ]);
+
+    expect(warnings).toEqual([]);
+    doc.frames.forEach(frame => {
+      const [, reference] = frame.layers;
+      expect(reference).toMatchObject({ name: 'Reference', isVisible: false });
+      expect(pixelAt(reference, 2, 3)).toEqual([0, 255, 0, 255]);
+    });
+  });
+
+  it('warns when visibility differs between frames', () => {
+    const layer = paint(createLayer('base', 'Base', WIDTH, HEIGHT), '#ff0000', 0, 0, 4, 4);
+    const { doc, warnings } = roundTrip([
+      { id: 'f1', duration: 100, layers: [layer] },
+      { id: 'f2', duration: 100, layers: [{ ...layer, isVisible: false }] },
+    ]);
+
+    expect(warnings).toEqual([expect.stringContaining('hidden in some frames only')]);
+    expect(doc.frames.map(f => f.layers[0].isVisible)).toEqual([true, true]);
+    expect(pixelAt(doc.frames[1].layers[0], 0, 0)).toEqual([255, 0, 0, 255]);
+  });
+});
+
+describe('Aseprite cel positions', () => {
+  it('imports a cel at (8,8) so the pencil paints where the user clicks', () => {
+    const sprite = paint(createLayer('sprite', 'Sprite', WIDTH, HEIGHT), '#ff0000', 8, 8, 4, 4);
+    const { doc } = roundTrip([{ id: 'f1', duration: 100, layers: [sprite] }]);
+    const [layer] = doc.frames[0].layers;
+    expect(layer.offset).toEqual({ x: 0, y: 0 });
+    expect(pixelAt(layer, 8, 8)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(layer, 0, 0)).toEqual([0, 0, 0, 0]);
+
+    // The pencil draws on the layer's context in document coordinates.
+    layer.context.fillStyle = '#0000ff';
+    layer.context.fillRect(9, 9, 1, 1);
+
+    const ctx = createCanvas(WIDTH, HEIGHT).getContext('2d')!;
+    compositeFrame(ctx, doc.frames[0], WIDTH, HEIGHT);
+    expect(Array.from(ctx.getImageData(9, 9, 1, 1).data)).toEqual([0, 0, 255, 255]);
+    expect(Array.from(ctx.getImageData(8, 8, 1, 1).data)).toEqual([255, 0, 0, 255]);
+  });
+
+  it('keeps linked cels linked and writes them back at their position', () => {
+    const sprite = paint(createLayer('sprite', 'Sprite', WIDTH, HEIGHT), '#ff0000', 8, 8, 4, 4);
+    const first = roundTrip([
+      { id: 'f1', duration: 100, layers: [sprite] },
+      { id: 'f2', duration: 100, layers: [{ ...sprite }] },
+    ]).doc;
+    expect(first.frames[1].layers[0].canvas).toBe(first.frames[0].layers[0].canvas);
+
+    const second = roundTrip(first.frames).doc;
+    expect(second.frames[1].layers[0].canvas).toBe(second.frames[0].layers[0].canvas);
+    expect(pixelAt(second.frames[1].layers[0], 8, 8)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(second.frames[1].layers[0], 7, 7)).toEqual([0, 0, 0, 0]);
+  });
+});
+
+describe('Aseprite layer opacity', () => {
+  it('stores opacity on the layer and keeps cels opaque', () => {
+    const layer = { ...paint(createLayer('glow', 'Glow', WIDTH, HEIGHT), '#ff0000', 0, 0, 4, 4), opacity: 0.6 };
+    const { result: bytes } = writeAseprite({ width: WIDTH, height: HEIGHT, frames: [{ id: 'f1', duration: 100, layers: [layer] }], tags: [], palette: [] });
+    const view = new DataView(bytes.buffer);
+    const chunks = new Map<number, number>();
+    for (let pos = 128 + 16; pos < bytes.length; pos += view.getUint32(pos, true)) chunks.set(view.getUint16(pos + 4, true), pos + 6);
+    expect(bytes[chunks.get(0x2004)! + 12]).toBe(153);
+    expect(bytes[chunks.get(0x2005)! + 6]).toBe(255);
+
+    const { doc } = roundTrip([{ id: 'f1', duration: 100, layers: [layer] }]);
+    expect(doc.frames[0].layers[0].opacity).toBeCloseTo(0.6, 2);
+  });
+
+  it('warns when opacity differs between frames', () => {
+    const layer = paint(createLayer('base', 'Base', WIDTH, HEIGHT), '#ff0000', 0, 0, 4, 4);
+    const { warnings } = roundTrip([
+      { id: 'f1', duration: 100, layers: [layer] },
+      { id: 'f2', duration: 100, layers: [{ ...layer, opacity: 0.5 }] },
+    ]);
+    expect(warnings).toEqual([expect.stringContaining('different opacities across frames')]);
+  });
+});
+
+describe('Aseprite tags and palette', () => {
+  it('round-trips tags with their direction, repeat and color', () => {
+    const layer = paint(createLayer('base', 'Base', WIDTH, HEIGHT), '#ff0000', 0, 0, 4, 4);
+    const frames = Array.from({ length: 4 }, (_, i) => ({ id: `f${i}`, duration: 100, layers: [{ ...layer }] }));
+    const tags: AnimationTag[] = [
+      { id: 'a', name: 'Walk', from: 0, to: 2, direction: 'ping-pong', repeat: 3, color: '#4ade80' },
+      { id: 'b', name: 'Blink', from: 3, to: 9, direction: 'reverse', repeat: 0, color: '#f87171' },
+    ];
+    const { doc } = roundTrip(frames, tags);
+    expect(doc.tags.map(({ id, ...tag }) => tag)).toEqual([
+      { name: 'Walk', from: 0, to: 2, direction: 'ping-pong', repeat: 3, color: '#4ade80' },
+      { name: 'Blink', from: 3, to: 3, direction: 'reverse', repeat: 0, color: '#f87171' },
+    ]);
+  });
+
+  it('round-trips the palette', () => {
+    const layer = paint(createLayer('base', 'Base', WIDTH, HEIGHT), '#ff0000', 0, 0, 4, 4);
+    const { doc } = roundTrip([{ id: 'f1', duration: 100, layers: [layer] }], [], ['#000000', '#ff0000', '#12ab34']);
+    expect(doc.palette).toEqual(['#000000', '#ff0000', '#12ab34']);
+  });
+});
+
+// A minimal sprite built byte by byte, for the parts of the format the writer never produces.
+const le = (value: number, size: number) => Array.from({ length: size }, (_, i) => (value >> (i * 8)) & 0xFF);
+const text = (s: string) => [...le(s.length, 2), ...Array.from(s, c => c.charCodeAt(0))];
+const chunk = (type: number, body: number[]) => [...le(body.length + 6, 4), ...le(type, 2), ...body];
+const layerChunk = (name: string, flags = 1) => chunk(0x2004, [...le(flags, 2), ...le(0, 2), ...le(0, 2), ...le(0, 4), ...le(0, 2), 255, 0, 0, 0, ...text(name)]);
+const rawCel = (x: number, y: number, w: number, h: number, pixels: number[]) =>
+  chunk(0x2005, [...le(0, 2), ...le(x, 2), ...le(y, 2), 255, ...le(0, 2), ...le(0, 2), 0, 0, 0, 0, 0, ...le(w, 2), ...le(h, 2), ...pixels]);
+const buildSprite = (depth: number, transparentIndex: number, chunks: number[][]) => {
+  const body = chunks.flat();
+  const frame = [...le(16 + body.length, 4), ...le(0xF1FA, 2), ...le(chunks.length, 2), ...le(100, 2), 0, 0, ...le(chunks.length, 4), ...body];
+  const header = [...le(0, 4), ...le(0xA5E0, 2), ...le(1, 2), ...le(WIDTH, 2), ...le(HEIGHT, 2), ...le(depth, 2), ...le(1, 4), ...le(100, 2), ...le(0, 8), transparentIndex];
+  const bytes = [...header, ...new Array(128 - header.length).fill(0), ...frame];
+  return new Uint8Array([...le(bytes.length, 4), ...bytes.slice(4)]).buffer;
+};
+
+describe('Aseprite hand-built files', () => {
+  const newPalette = (colors: number[][]) =>
+    chunk(0x2019, [...le(colors.length, 4), ...le(0, 4), ...le(colors.length - 1, 4), ...le(0, 8), ...colors.flatMap(rgba => [0, 0, ...rgba])]);
+
+  it('reads 8-bit indexed cels through the palette, with the transparent index left clear', () => {
+    const palette = newPalette([[0, 0, 0, 255], [255, 0, 0, 255], [0, 0, 255, 255]]);
+    const { result, warnings } = parseAseprite(buildSprite(8, 0, [palette, layerChunk('Ink'), rawCel(1, 1, 2, 2, [0, 1, 2, 1])]));
+    const [layer] = result.frames[0].layers;
+    expect(warnings).toEqual([]);
+    expect(result.palette).toEqual(['#000000', '#ff0000', '#0000ff']);
+    expect(pixelAt(layer, 1, 1)).toEqual([0, 0, 0, 0]);
+    expect(pixelAt(layer, 2, 1)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(layer, 1, 2)).toEqual([0, 0, 255, 255]);
+    expect(pixelAt(layer, 2, 2)).toEqual([255, 0, 0, 255]);
+  });
+
+  it('paints the transparent index on background layers', () => {
+    const palette = newPalette([[0, 0, 0, 255], [255, 0, 0, 255]]);
+    const { result } = parseAseprite(buildSprite(8, 0, [palette, layerChunk('Background', 1 | 8), rawCel(0, 0, 1, 1, [0])]));
+    expect(pixelAt(result.frames[0].layers[0], 0, 0)).toEqual([0, 0, 0, 255]);
+  });
+
+  it('reads old 6-bit palettes', () => {
+    const oldPalette = chunk(0x0011, [...le(1, 2), 0, 2, 63, 0, 0, 0, 32, 63]);
+    const { result } = parseAseprite(buildSprite(8, 0, [oldPalette, layerChunk('Ink'), rawCel(0, 0, 2, 1, [0, 1])]));
+    expect(result.palette).toEqual(['#fc0000', '#0080fc']);
+    expect(pixelAt(result.frames[0].layers[0], 1, 0)).toEqual([0, 128, 252, 255]);
+  });
+
+  it('drops unsupported and unknown chunks with a warning', () => {
+    const { result, warnings } = parseAseprite(buildSprite(32, 0, [
+      layerChunk('Ink'),
+      chunk(0x2016, [1, 2, 3, 4]),
+      chunk(0x2022, [0, 0, 0, 0]),
+      chunk(0x7777, [9]),
+      rawCel(0, 0, 1, 1, [0, 255, 0, 255]),
+    ]));
+    expect(warnings).toEqual([
+      'Masks are not supported and were dropped.',
+      'Slices are not supported and were dropped.',
+      'Unknown chunk type 0x7777 was dropped.',
+    ]);
+    expect(pixelAt(result.frames[0].layers[0], 0, 0)).toEqual([0, 255, 0, 255]);
+  });
+});
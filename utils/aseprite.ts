@@ -0,0 +1,502 @@
+import { unzlibSync, zlibSync } from 'fflate';
+import type { AnimationTag, Frame, Layer, TagDirection } from '../components/Editor';
+import { createEmptyCel, createLayer, isEmptyCel } from './layers';
+import { hexToRgba, rgbaToHex } from './color';
+import { opaqueBounds } from './canvas';
+
+// ASEPRITE (.ase / .aseprite)
+// Reader and writer for the binary format described at
+// https://github.com/aseprite/aseprite/blob/main/docs/ase-file-specs.md
+// Aseprite layers are global with one cel per frame, as in the Editor: every frame has the same
+// layer stack and each cel becomes that frame's Layer. Linked cels share a canvas both ways.
+// Cels are drawn into full-canvas layers at their position, so Layer.offset stays 0 as the drawing
+// tools expect; the writer crops each cel back to its opaque bounds.
+
+export interface AsepriteDocument {
+  width: number;
+  height: number;
+  frames: Frame[];
+  tags: AnimationTag[];
+  palette: string[];
+}
+
+export interface AsepriteResult<T> {
+  result: T;
+  warnings: string[];
+}
+
+const HEADER_MAGIC = 0xA5E0;
+const FRAME_MAGIC = 0xF1FA;
+
+const CHUNK = {
+  OLD_PALETTE_256: 0x0004,
+  OLD_PALETTE_64: 0x0011,
+  LAYER: 0x2004,
+  CEL: 0x2005,
+  CEL_EXTRA: 0x2006,
+  COLOR_PROFILE: 0x2007,
+  EXTERNAL_FILES: 0x2008,
+  MASK: 0x2016,
+  PATH: 0x2017,
+  TAGS: 0x2018,
+  PALETTE: 0x2019,
+  USER_DATA: 0x2020,
+  SLICE: 0x2022,
+  TILESET: 0x2023,
+};
+
+const UNSUPPORTED_CHUNKS: Record<number, string> = {
+  [CHUNK.CEL_EXTRA]: 'Cel extra data (precise cel bounds)',
+  [CHUNK.EXTERNAL_FILES]: 'External file references',
+  [CHUNK.MASK]: 'Masks',
+  [CHUNK.PATH]: 'Paths',
+  [CHUNK.USER_DATA]: 'User data (text/colors/properties)',
+  [CHUNK.SLICE]: 'Slices',
+  [CHUNK.TILESET]: 'Tilesets',
+};
+
+// Index = Aseprite blend mode id. Modes the canvas cannot express map to null.
+const BLEND_MODES: (GlobalCompositeOperation | null)[] = [
+  'source-over', 'multiply', 'screen', 'overlay', 'darken', 'lighten', 'color-dodge', 'color-burn',
+  'hard-light', 'soft-light', 'difference', 'exclusion', 'hue', 'saturation', 'color', 'luminosity',
+  'lighter', null, null,
+];
+const BLEND_MODE_NAMES = ['Normal', 'Multiply', 'Screen', 'Overlay', 'Darken', 'Lighten', 'Color Dodge', 'Color Burn',
+  'Hard Light', 'Soft Light', 'Difference', 'Exclusion', 'Hue', 'Saturation', 'Color', 'Luminosity', 'Addition', 'Subtract', 'Divide'];
+
+const TAG_DIRECTIONS: TagDirection[] = ['forward', 'reverse', 'ping-pong', 'ping-pong-reverse'];
+
+// BINARY HELPERS
+const createReader = (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  let pos = 0;
+  const reader = {
+    get pos() { return pos; },
+    seek: (to: number) => { pos = to; },
+    skip: (n: number) => { pos += n; },
+    byte: () => view.getUint8(pos++),
+    word: () => { const v = view.getUint16(pos, true); pos += 2; return v; },
+    short: () => { const v = view.getInt16(pos, true); pos += 2; return v; },
+    dword: () => { const v = view.getUint32(pos, true); pos += 4; return v; },
+    bytes: (n: number) => { const v = bytes.subarray(pos, pos + n); pos += n; return v; },
+    string: () => new TextDecoder().decode(reader.bytes(reader.word())),
+  };
+  return reader;
+};
+
+const createWriter = () => {
+  const chunks: number[] = [];
+  const writer = {
+    get length() { return chunks.length; },
+    byte: (v: number) => { chunks.push(v & 0xFF); },
+    word: (v: number) => { chunks.push(v & 0xFF, (v >> 8) & 0xFF); },
+    short: (v: number) => writer.word(v < 0 ? v + 0x10000 : v),
+    dword: (v: number) => { chunks.push(v & 0xFF, (v >> 8) & 0xFF, (v >> 16) & 0xFF, (v >>> 24) & 0xFF); },
+    zeros: (n: number) => { for (let i = 0; i < n; i++) chunks.push(0); },
+    bytes: (data: Uint8Array) => { for (let i = 0; i < data.length; i++) chunks.push(data[i]); },
+    string: (s: string) => { const data = new TextEncoder().encode(s); writer.word(data.length); writer.bytes(data); },
+    patchDword: (at: number, v: number) => {
+      chunks[at] = v & 0xFF; chunks[at + 1] = (v >> 8) & 0xFF; chunks[at + 2] = (v >> 16) & 0xFF; chunks[at + 3] = (v >>> 24) & 0xFF;
+    },
+    toUint8Array: () => new Uint8Array(chunks),
+  };
+  return writer;
+};
+
+// READER
+interface AseLayerInfo {
+  name: string;
+  visible: boolean;
+  background: boolean;
+  type: number;
+  blendMode: number;
+  opacity: number;
+}
+
+interface AseCel {
+  x: number;
+  y: number;
+  opacity: number;
+  width: number;
+  height: number;
+  rgba: Uint8ClampedArray;
+}
+
+export const parseAseprite = (buffer: ArrayBuffer): AsepriteResult<AsepriteDocument> => {
+  const r = createReader(buffer);
+  const warnings = new Set<string>();
+
+  r.dword(); // file size
+  if (r.word() !== HEADER_MAGIC) throw new Error("This file is not an Aseprite sprite.");
+  const frameCount = r.word();
+  const width = r.word();
+  const height = r.word();
+  const depth = r.word();
+  const flags = r.dword();
+  r.word(); // speed (deprecated)
+  r.skip(8);
+  const transparentIndex = r.byte();
+  r.skip(3);
+  r.word(); // number of colors
+  r.seek(128);
+
+  if (depth !== 32 && depth !== 16 && depth !== 8) throw new Error(`Unsupported color depth: ${depth} bpp.`);
+  const layerOpacityValid = (flags & 1) === 1;
+
+  const layerInfos: AseLayerInfo[] = [];
+  const palette: [number, number, number, number][] = [];
+  let hasNewPalette = false;
+  const tags: AnimationTag[] = [];
+  const celsPerFrame: (AseCel | null)[][] = [];
+  const durations: number[] = [];
+
+  const decodePixels = (raw: Uint8Array, w: number, h: number, layer: AseLayerInfo | undefined): Uint8ClampedArray => {
+    const rgba = new Uint8ClampedArray(w * h * 4);
+    for (let i = 0; i < w * h; i++) {
+      if (depth === 32) {
+        rgba.set(raw.subarray(i * 4, i * 4 + 4), i * 4);
+      } else if (depth === 16) {
+        const v = raw[i * 2];
+        rgba[i * 4] = v; rgba[i * 4 + 1] = v; rgba[i * 4 + 2] = v; rgba[i * 4 + 3] = raw[i * 2 + 1];
+      } else {
+        const index = raw[i];
+        if (index === transparentIndex && !layer?.background) continue;
+        const color = palette[index] ?? [0, 0, 0, 255];
+        rgba.set(color, i * 4);
+      }
+    }
+    return rgba;
+  };
+
+  for (let f = 0; f < frameCount; f++) {
+    const frameStart = r.pos;
+    const frameBytes = r.dword();
+    if (r.word() !== FRAME_MAGIC) throw new Error(`Frame ${f + 1} is corrupt.`);
+    const oldChunkCount = r.word();
+    durations.push(r.word());
+    r.skip(2);
+    const newChunkCount = r.dword();
+    const chunkCount = newChunkCount === 0 ? oldChunkCount : newChunkCount;
+    const cels: (AseCel | null)[] = [];
+
+    for (let c = 0; c < chunkCount; c++) {
+      const chunkStart = r.pos;
+      const chunkSize = r.dword();
+      const type = r.word();
+
+      switch (type) {
+        case CHUNK.LAYER: {
+          const layerFlags = r.word();
+          const layerType = r.word();
+          r.word(); // child level
+          r.skip(4); // default width/height
+          const blendMode = r.word();
+          const opacity = r.byte();
+          r.skip(3);
+          const name = r.string();
+          if (layerType === 1) warnings.add(`Group layer "${name}" was dropped; its children are imported as top-level layers.`);
+          if (layerType === 2) warnings.add(`Tilemap layer "${name}" is not supported and was skipped.`);
+          layerInfos.push({ name, visible: (layerFlags & 1) === 1, background: (layerFlags & 8) === 8, type: layerType, blendMode, opacity: layerOpacityValid ? opacity : 255 });
+          break;
+        }
+        case CHUNK.CEL: {
+          const layerIndex = r.word();
+          const x = r.short();
+          const y = r.short();
+          const opacity = r.byte();
+          const celType = r.word();
+          r.short(); // z-index
+          r.skip(5);
+          const layer = layerInfos[layerIndex];
+          if (celType === 0 || celType === 2) {
+            const w = r.word();
+            const h = r.word();
+            const data = r.bytes(chunkStart + chunkSize - r.pos);
+            const raw = celType === 2 ? unzlibSync(data) : data;
+            cels[layerIndex] = { x, y, opacity, width: w, height: h, rgba: decodePixels(raw, w, h, layer) };
+          } else if (celType === 1) {
+            const linkedFrame = r.word();
+            const linked = celsPerFrame[linkedFrame]?.[layerIndex];
+            if (linked) cels[layerIndex] = { ...linked, x, y, opacity }; // same pixels, so the same canvas below
+          } else {
+            warnings.add('Tilemap cels are not supported and were skipped.');
+          }
+          break;
+        }
+        case CHUNK.TAGS: {
+          const count = r.word();
+          r.skip(8);
+          for (let t = 0; t < count; t++) {
+            const from = r.word();
+            const to = r.word();
+            const direction = r.byte();
+            const repeat = r.word();
+            r.skip(6);
+            const [red, green, blue] = [r.byte(), r.byte(), r.byte()];
+            r.skip(1);
+            const name = r.string();
+            tags.push({ id: crypto.randomUUID(), name, from, to, direction: TAG_DIRECTIONS[direction] ?? 'forward', repeat, color: rgbaToHex(red, green, blue) });
+          }
+          break;
+        }
+        case CHUNK.PALETTE: {
+          hasNewPalette = true;
+          r.dword(); // new palette size
+          const first = r.dword();
+          const last = r.dword();
+          r.skip(8);
+          for (let i = first; i <= last; i++) {
+            const entryFlags = r.word();
+            palette[i] = [r.byte(), r.byte(), r.byte(), r.byte()];
+            if (entryFlags & 1) r.string();
+          }
+          break;
+        }
+        case CHUNK.OLD_PALETTE_256:
+        case CHUNK.OLD_PALETTE_64: {
+          if (hasNewPalette) break;
+          const scale = type === CHUNK.OLD_PALETTE_64 ? 4 : 1;
+          const packets = r.word();
+          let index = 0;
+          for (let p = 0; p < packets; p++) {
+            index += r.byte();
+            const count = r.byte() || 256;
+            for (let i = 0; i < count; i++, index++) {
+              palette[index] = [Math.min(255, r.byte() * scale), Math.min(255, r.byte() * scale), Math.min(255, r.byte() * scale), 255];
+            }
+          }
+          break;
+        }
+        case CHUNK.COLOR_PROFILE: {
+          const profileType = r.word();
+          if (profileType === 2) warnings.add('Embedded ICC color profile was ignored; colors are treated as sRGB.');
+          break;
+        }
+        default:
+          warnings.add(UNSUPPORTED_CHUNKS[type]
+            ? `${UNSUPPORTED_CHUNKS[type]} are not supported and were dropped.`
+            : `Unknown chunk type 0x${type.toString(16).padStart(4, '0')} was dropped.`);
+      }
+      r.seek(chunkStart + chunkSize);
+    }
+    celsPerFrame.push(cels);
+    r.seek(frameStart + frameBytes);
+  }
+
+  layerInfos.forEach(info => {
+    if (BLEND_MODES[info.blendMode] === null) {
+      warnings.add(`Layer "${info.name}" uses the ${BLEND_MODE_NAMES[info.blendMode]} blend mode, which is imported as Normal.`);
+    }
+  });
+
+  const layerIds = layerInfos.map(() => crypto.randomUUID());
+  const fallbackId = crypto.randomUUID();
+  // By pixel data, then position: linked cels share both, and so share a canvas.
+  const canvases = new Map<Uint8ClampedArray, Map<string, Pick<Layer, 'canvas' | 'context'>>>();
+  const frames: Frame[] = celsPerFrame.map((cels, f) => {
+    const layers: Layer[] = [];
+    layerInfos.forEach((info, index) => {
+      if (info.type !== 0) return;
+      const cel = cels[index];
+      let layer = createEmptyCel(layerIds[index], info.name, width, height);
+      let opacity = info.opacity / 255;
+      if (cel) {
+        const atPosition = canvases.get(cel.rgba) ?? new Map<string, Pick<Layer, 'canvas' | 'context'>>();
+        canvases.set(cel.rgba, atPosition);
+        let pixels = atPosition.get(`${cel.x},${cel.y}`);
+        if (!pixels) {
+          if (cel.x < 0 || cel.y < 0 || cel.x + cel.width > width || cel.y + cel.height > height) {
+            warnings.add(`Cels reaching past the canvas edges were cropped (layer "${info.name}").`);
+          }
+          const { canvas, context } = createLayer(layerIds[index], info.name, width, height);
+          context.putImageData(new ImageData(cel.rgba, cel.width, cel.height), cel.x, cel.y);
+          pixels = { canvas, context };
+          atPosition.set(`${cel.x},${cel.y}`, pixels);
+        }
+        layer = { ...layer, ...pixels };
+        opacity *= cel.opacity / 255;
+      }
+      layers.push({ ...layer, isVisible: info.visible, opacity, blendMode: BLEND_MODES[info.blendMode] ?? 'source-over' });
+    });
+    if (layers.length === 0) layers.push(createLayer(fallbackId, 'Layer 1', width, height));
+    return { id: crypto.randomUUID(), layers, duration: durations[f] || 100 };
+  });
+
+  return {
+    result: {
+      width,
+      height,
+      frames,
+      tags: tags.filter(tag => tag.from < frames.length).map(tag => ({ ...tag, to: Math.min(tag.to, frames.length - 1) })),
+      palette: palette.filter(Boolean).map(([red, green, blue]) => rgbaToHex(red, green, blue)),
+    },
+    warnings: Array.from(warnings),
+  };
+};
+
+// WRITER
+const blendModeId = (mode: GlobalCompositeOperation) => {
+  const index = BLEND_MODES.indexOf(mode);
+  return index < 0 ? 0 : index;
+};
+
+const writeChunk = (out: ReturnType<typeof createWriter>, type: number, body: (w: ReturnType<typeof createWriter>) => void) => {
+  const w = createWriter();
+  body(w);
+  const data = w.toUint8Array();
+  out.dword(data.length + 6);
+  out.word(type);
+  out.bytes(data);
+};
+
+export const writeAseprite = (doc: AsepriteDocument): AsepriteResult<Uint8Array> => {
+  const warnings = new Set<string>();
+  const { width, height, frames } = doc;
+  const tags = doc.tags.filter(tag => tag.from < frames.length).map(tag => ({ ...tag, to: Math.min(tag.to, frames.length - 1) }));
+  const palette = doc.palette.length > 0 ? doc.palette : ['#000000'];
+
+  // Every frame has the same layer stack (see normalizeLayerStacks); the first frame that has a slot names it.
+  const layerCount = Math.max(...frames.map(f => f.layers.length));
+  const layerSlots = Array.from({ length: layerCount }, (_, i) => frames.find(f => f.layers[i])!.layers[i]);
+  frames.forEach(frame => frame.layers.forEach((layer, i) => {
+    if (layer.name !== layerSlots[i].name) warnings.add(`Layer ${i + 1} has different names across frames; "${layerSlots[i].name}" was used.`);
+    if (layer.blendMode !== layerSlots[i].blendMode) warnings.add(`Layer "${layerSlots[i].name}" has different blend modes across frames; the first was used.`);
+    if (layer.opacity !== layerSlots[i].opacity) warnings.add(`Layer "${layerSlots[i].name}" has different opacities across frames; the first was used.`);
+    if (layer.isVisible !== layerSlots[i].isVisible) warnings.add(`Layer "${layerSlots[i].name}" is hidden in some frames only; Aseprite layers are shown or hidden as a whole, so the first frame's visibility was used.`);
+    if (BLEND_MODES.indexOf(layer.blendMode) < 0) warnings.add(`Blend mode "${layer.blendMode}" has no Aseprite equivalent and was written as Normal.`);
+  }));
+
+  const out = createWriter();
+  out.dword(0); // file size, patched below
+  out.word(HEADER_MAGIC);
+  out.word(frames.length);
+  out.word(width);
+  out.word(height);
+  out.word(32);
+  out.dword(1); // layer opacity is valid
+  out.word(frames[0]?.duration || 100);
+  out.zeros(8);
+  out.byte(0); // transparent index
+  out.zeros(3);
+  out.word(palette.length >= 256 ? 0 : palette.length);
+  out.byte(1); // pixel width
+  out.byte(1); // pixel height
+  out.short(0);
+  out.short(0);
+  out.word(16);
+  out.word(16);
+  out.zeros(84);
+
+  // Canvases already written per layer, so later frames that share them become linked cels.
+  const written = layerSlots.map(() => new Map<HTMLCanvasElement, { frame: number, x: number, y: number }>());
+
+  frames.forEach((frame, f) => {
+    const frameStart = out.length;
+    const body = createWriter();
+    let chunkCount = 0;
+
+    if (f === 0) {
+      writeChunk(body, CHUNK.PALETTE, w => {
+        w.dword(palette.length);
+        w.dword(0);
+        w.dword(palette.length - 1);
+        w.zeros(8);
+        palette.forEach(hex => {
+          const [red, green, blue] = hexToRgba(hex);
+          w.word(0);
+          w.byte(red); w.byte(green); w.byte(blue); w.byte(255);
+        });
+      });
+      chunkCount++;
+
+      layerSlots.forEach(layer => {
+        writeChunk(body, CHUNK.LAYER, w => {
+          w.word((layer.isVisible ? 1 : 0) | 2); // visible | editable
+          w.word(0); // normal layer
+          w.word(0); // child level
+          w.word(0);
+          w.word(0);
+          w.word(blendModeId(layer.blendMode));
+          w.byte(Math.round(layer.opacity * 255));
+          w.zeros(3);
+          w.string(layer.name);
+        });
+        chunkCount++;
+      });
+
+      if (tags.length > 0) {
+        writeChunk(body, CHUNK.TAGS, w => {
+          w.word(tags.length);
+          w.zeros(8);
+          tags.forEach(tag => {
+            const [red, green, blue] = hexToRgba(tag.color);
+            w.word(tag.from);
+            w.word(tag.to);
+            w.byte(Math.max(0, TAG_DIRECTIONS.indexOf(tag.direction)));
+            w.word(tag.repeat);
+            w.zeros(6);
+            w.byte(red); w.byte(green); w.byte(blue);
+            w.byte(0);
+            w.string(tag.name);
+          });
+        });
+        chunkCount++;
+      }
+    }
+
+    frame.layers.forEach((layer, index) => {
+      if (isEmptyCel(layer)) return;
+      const linked = written[index].get(layer.canvas);
+      if (linked) {
+        writeChunk(body, CHUNK.CEL, w => {
+          w.word(index);
+          w.short(layer.offset.x + linked.x);
+          w.short(layer.offset.y + linked.y);
+          w.byte(255); // cel opacity, see the layer chunk
+          w.word(1); // linked cel
+          w.short(0);
+          w.zeros(5);
+          w.word(linked.frame);
+        });
+        chunkCount++;
+        return;
+      }
+      const imageData = layer.context.getImageData(0, 0, layer.canvas.width, layer.canvas.height);
+      const bounds = opaqueBounds(imageData);
+      if (!bounds) return;
+      const pixels = new Uint8Array(bounds.w * bounds.h * 4);
+      for (let y = 0; y < bounds.h; y++) {
+        const start = ((bounds.y + y) * imageData.width + bounds.x) * 4;
+        pixels.set(imageData.data.subarray(start, start + bounds.w * 4), y * bounds.w * 4);
+      }
+      writeChunk(body, CHUNK.CEL, w => {
+        w.word(index);
+        w.short(layer.offset.x + bounds.x);
+        w.short(layer.offset.y + bounds.y);
+        w.byte(255); // cel opacity, see the layer chunk
+        w.word(2); // compressed image
+        w.short(0);
+        w.zeros(5);
+        w.word(bounds.w);
+        w.word(bounds.h);
+        w.bytes(zlibSync(pixels));
+      });
+      written[index].set(layer.canvas, { frame: f, x: bounds.x, y: bounds.y });
+      chunkCount++;
+    });
+
+    const data = body.toUint8Array();
+    out.dword(16 + data.length);
+    out.word(FRAME_MAGIC);
+    out.word(Math.min(chunkCount, 0xFFFF));
+    out.word(frame.duration);
+    out.zeros(2);
+    out.dword(chunkCount);
+    out.bytes(data);
+    if (out.length - frameStart !== 16 + data.length) throw new Error("Aseprite writer produced an inconsistent frame.");
+  });
+
+  out.patchDword(0, out.length);
+  return { result: out.toUint8Array(), warnings: Array.from(warnings) };
+};
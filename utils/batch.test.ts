@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_STYLE_PRESETS, createStylePreset } from '../services/stylePresets';
+import { parseBatch, parseCsv } from './batch';
+
+const STYLES = [...BUILT_IN_STYLE_PRESETS, { ...createStylePreset({ name: 'Moody Forest' }), id: 'custom-1' }];
+
+describe('parseCsv', () => {
+  it('splits rows and fields, keeping quoted commas, quotes and newlines', () => {
+    expect(parseCsv('a,b,c\r\n"one, two","say ""hi""","line 1\nline 2"\n')).toEqual([
+      ['a', 'b', 'c'],
+      ['one, two', 'say "hi"', 'line 1\nline 2'],
+    ]);
+  });
+
+  it('keeps empty fields, drops blank rows and reads a last row without a newline', () => {
+    expect(parseCsv('a,,c\n\n , \nx,y')).toEqual([['a', '', 'c'], ['x', 'y']]);
+  });
+});
+
+describe('parseBatch', () => {
+  it('reads a CSV with aliased column names', () => {
+    const csv = [
+      'Description,Style Preset,negative_prompt,Genre,Colour',
+      '"a knight, with a sword",8-bit,blurry,fantasy,warm',
+      'a robot,moody forest,,Sci Fi,',
+    ].join('\n');
+    expect(parseBatch(csv, STYLES)).toEqual({
+      rows: [
+        { prompt: 'a knight, with a sword', stylePreset: '8-bit', negativePrompt: 'blurry', genre: 'Fantasy', color: 'Warm' },
+        { prompt: 'a robot', stylePreset: 'custom-1', genre: 'Sci-Fi' },
+      ],
+      warnings: [],
+    });
+  });
+
+  it('treats text without a recognizable header as one prompt per line, commas and all', () => {
+    expect(parseBatch('a slime, green\n\n  a bat  \r\na chest', STYLES)).toEqual({
+      rows: [{ prompt: 'a slime, green' }, { prompt: 'a bat' }, { prompt: 'a chest' }],
+      warnings: [],
+    });
+  });
+
+  it('reads a JSON array of strings and objects', () => {
+    const json = JSON.stringify(['a tree', { prompt: 'a rock', style: 'Game Boy', color: 'neon' }, 42]);
+    expect(parseBatch(json, STYLES).rows).toEqual([{ prompt: 'a tree' }, { prompt: 'a rock', stylePreset: 'Game Boy', color: 'Neon' }]);
+  });
+
+  it('reads JSON wrapped in "prompts" or "items"', () => {
+    expect(parseBatch('{"prompts": ["a"]}', STYLES).rows).toEqual([{ prompt: 'a' }]);
+    expect(parseBatch('{"items": [{"subject": "b"}]}', STYLES).rows).toEqual([{ prompt: 'b' }]);
+    expect(() => parseBatch('{"list": []}', STYLES)).toThrow(/JSON must be an array/);
+    expect(() => parseBatch('[1, 2', STYLES)).toThrow(/Invalid JSON/);
+  });
+
+  it('warns about unknown styles, genres, colors and columns and falls back to the defaults', () => {
+    const csv = 'prompt,style,genre,color,mood\na cat,Watercolor,Western,Plaid,happy\n,8-bit,,,';
+    expect(parseBatch(csv, STYLES)).toEqual({
+      rows: [{ prompt: 'a cat' }],
+      warnings: [
+        'Row 2: ignored unknown column "mood".',
+        'Row 2: unknown style "Watercolor", using the default.',
+        'Row 2: unknown genre "Western", using the default.',
+        'Row 2: unknown color "Plaid", using the default.',
+        'Row 3: ignored unknown column "mood".',
+        'Row 3: skipped, no prompt.',
+      ],
+    });
+  });
+
+  it('returns nothing for blank input', () => {
+    expect(parseBatch('  \n ', STYLES)).toEqual({ rows: [], warnings: [] });
+  });
+});
@@ -0,0 +1,141 @@
+import type { StylePreset, Genre, Color } from '../components/PromptForm';
+import { GENRES, COLORS } from '../components/PromptForm';
+import type { StylePresetDefinition } from '../services/stylePresets';
+
+// BATCH PROMPT LISTS
+// Accepts a JSON array (strings or objects), a CSV with a header row, or plain text with one
+// prompt per line. Every row may override the batch defaults for style, negative prompt, genre
+// and color; unknown values are reported and fall back to the default. Styles match a preset's
+// name or id.
+
+export interface BatchRow {
+  prompt: string;
+  stylePreset?: StylePreset;
+  negativePrompt?: string;
+  genre?: Genre;
+  color?: Color;
+}
+
+export interface BatchParseResult {
+  rows: BatchRow[];
+  warnings: string[];
+}
+
+// Accepted spellings for each column, lowercased with spaces, dashes and underscores removed.
+const FIELD_ALIASES: Record<string, keyof BatchRow> = {
+  prompt: 'prompt', description: 'prompt', subject: 'prompt',
+  style: 'stylePreset', stylepreset: 'stylePreset', preset: 'stylePreset',
+  negative: 'negativePrompt', negativeprompt: 'negativePrompt', avoid: 'negativePrompt',
+  genre: 'genre',
+  color: 'color', colour: 'color', palette: 'color',
+};
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[\s_-]/g, '');
+
+const matchOption = <T extends string>(options: readonly T[], value: string): T | undefined =>
+  options.find(option => normalizeKey(option) === normalizeKey(value));
+
+/** Minimal RFC 4180 parser: quoted fields, doubled quotes and newlines inside quotes. */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+const toRow = (record: Record<string, unknown>, line: number, styles: StylePresetDefinition[], warnings: string[]): BatchRow | null => {
+  const row: Partial<Record<keyof BatchRow, string>> = {};
+  Object.entries(record).forEach(([key, value]) => {
+    const field = FIELD_ALIASES[normalizeKey(key)];
+    if (!field) return warnings.push(`Row ${line}: ignored unknown column "${key}".`);
+    if (value !== undefined && value !== null && String(value).trim()) row[field] = String(value).trim();
+  });
+  if (!row.prompt) {
+    warnings.push(`Row ${line}: skipped, no prompt.`);
+    return null;
+  }
+
+  const result: BatchRow = { prompt: row.prompt };
+  if (row.negativePrompt) result.negativePrompt = row.negativePrompt;
+  if (row.stylePreset) {
+    const style = styles.find(preset => normalizeKey(preset.name) === normalizeKey(row.stylePreset!) || preset.id === row.stylePreset);
+    if (style) result.stylePreset = style.id;
+    else warnings.push(`Row ${line}: unknown style "${row.stylePreset}", using the default.`);
+  }
+  const options = [
+    ['genre', GENRES],
+    ['color', COLORS],
+  ] as const;
+  options.forEach(([field, values]) => {
+    const raw = row[field];
+    if (!raw) return;
+    const match = matchOption<string>(values, raw);
+    if (!match) warnings.push(`Row ${line}: unknown ${field} "${raw}", using the default.`);
+    else if (field === 'genre') result.genre = match as Genre;
+    else result.color = match as Color;
+  });
+  return result;
+};
+
+export const parseBatch = (text: string, styles: StylePresetDefinition[]): BatchParseResult => {
+  const warnings: string[] = [];
+  const trimmed = text.trim();
+  if (!trimmed) return { rows: [], warnings };
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch (e) {
+      throw new Error(`Invalid JSON: ${e instanceof Error ? e.message : e}`);
+    }
+    // Also accept { "prompts": [...] } / { "items": [...] } wrappers.
+    const wrapper = data as { prompts?: unknown; items?: unknown } | null;
+    const list = Array.isArray(data) ? data : wrapper?.prompts ?? wrapper?.items;
+    if (!Array.isArray(list)) throw new Error("JSON must be an array of prompts or objects with a \"prompt\" field.");
+    const rows = list.map((entry, i) => typeof entry === 'string'
+      ? toRow({ prompt: entry }, i + 1, styles, warnings)
+      : entry && typeof entry === 'object' ? toRow(entry as Record<string, unknown>, i + 1, styles, warnings) : null);
+    return { rows: rows.filter((row): row is BatchRow => row !== null), warnings };
+  }
+
+  const table = parseCsv(trimmed);
+  const header = table[0].map(cell => FIELD_ALIASES[normalizeKey(cell)]);
+  // Without a recognizable header every line is a prompt (commas and all).
+  if (!header.includes('prompt')) {
+    const rows = trimmed.split(/\r?\n/).map(line => line.trim()).filter(Boolean).map(prompt => ({ prompt }));
+    return { rows, warnings };
+  }
+  const rows = table.slice(1).map((cells, i) => {
+    const record: Record<string, string> = {};
+    table[0].forEach((name, col) => { record[name] = cells[col] ?? ''; });
+    return toRow(record, i + 2, styles, warnings);
+  });
+  return { rows: rows.filter((row): row is BatchRow => row !== null), warnings };
+};
@@ -0,0 +1,83 @@
+import type { Rect } from './history';
+
+// CANVAS HELPERS
+// Small helpers shared by editor features that work on offscreen canvases.
+
+export type CanvasTransform = 'flip-horizontal' | 'flip-vertical' | 'rotate-cw' | 'rotate-ccw';
+
+export const createCanvas = (width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')!.imageSmoothingEnabled = false;
+  return canvas;
+};
+
+export const cloneCanvas = (source: CanvasImageSource & { width: number; height: number }): HTMLCanvasElement => {
+  const canvas = createCanvas(source.width, source.height);
+  canvas.getContext('2d')!.drawImage(source, 0, 0);
+  return canvas;
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/png', quality?: number): Promise<Blob> => new Promise((resolve, reject) => {
+  canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode canvas.')), type, quality);
+});
+
+export const transformCanvas = (source: HTMLCanvasElement, transform: CanvasTransform): HTMLCanvasElement => {
+  const rotates = transform === 'rotate-cw' || transform === 'rotate-ccw';
+  const canvas = createCanvas(rotates ? source.height : source.width, rotates ? source.width : source.height);
+  const ctx = canvas.getContext('2d')!;
+  switch (transform) {
+    case 'flip-horizontal':
+      ctx.translate(canvas.width, 0);
+      ctx.scale(-1, 1);
+      break;
+    case 'flip-vertical':
+      ctx.translate(0, canvas.height);
+      ctx.scale(1, -1);
+      break;
+    case 'rotate-cw':
+      ctx.translate(canvas.width, 0);
+      ctx.rotate(Math.PI / 2);
+      break;
+    case 'rotate-ccw':
+      ctx.translate(0, canvas.height);
+      ctx.rotate(-Math.PI / 2);
+      break;
+  }
+  ctx.drawImage(source, 0, 0);
+  return canvas;
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = 'anonymous';
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Failed to load image.'));
+  img.src = src;
+});
+
+// Nearest-neighbour upscale so tiny sprites are legible to image models.
+export const upscaleNearest = (source: HTMLCanvasElement, minSize: number): HTMLCanvasElement => {
+  const scale = Math.max(1, Math.ceil(minSize / Math.max(source.width, source.height)));
+  const canvas = createCanvas(source.width * scale, source.height * scale);
+  canvas.getContext('2d')!.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Bounding box of the non-transparent pixels, or null for a fully transparent image.
+export const opaqueBounds = (imageData: ImageData): Rect | null => {
+  const { width, height, data } = imageData;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] > 0) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 };
+};
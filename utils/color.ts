@@ -0,0 +1,113 @@
+// COLOR HELPERS
+
+export const hexToRgba = (hex: string): [number, number, number, number] => {
+  const r = parseInt(hex.slice(1, 3), 16) || 0;
+  const g = parseInt(hex.slice(3, 5), 16) || 0;
+  const b = parseInt(hex.slice(5, 7), 16) || 0;
+  return [r, g, b, 255];
+};
+
+export const rgbaToHex = (r: number, g: number, b: number): string => {
+  return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
+};
+
+// Color Quantization using Median Cut
+export const quantizeColors = (imageData: ImageData, count: number): string[] => {
+  const pixels: [number, number, number][] = [];
+  for (let i = 0; i < imageData.data.length; i += 4) {
+    if (imageData.data[i + 3] > 128) { // Only consider opaque pixels
+      pixels.push([imageData.data[i], imageData.data[i + 1], imageData.data[i + 2]]);
+    }
+  }
+
+  if (pixels.length === 0) return [];
+  if (new Set(pixels.map(p => rgbaToHex(p[0], p[1], p[2]))).size <= count) {
+    return Array.from(new Set(pixels.map(p => rgbaToHex(p[0], p[1], p[2]))));
+  }
+
+  const buckets: [number, number, number][][] = [pixels];
+
+  while (buckets.length < count) {
+    let largestBucketIndex = -1;
+    let largestRange = -1;
+
+    buckets.forEach((bucket, i) => {
+      if (bucket.length > 1) {
+        let minR = 255, maxR = 0, minG = 255, maxG = 0, minB = 255, maxB = 0;
+        bucket.forEach(([r, g, b]) => {
+          minR = Math.min(minR, r); maxR = Math.max(maxR, r);
+          minG = Math.min(minG, g); maxG = Math.max(maxG, g);
+          minB = Math.min(minB, b); maxB = Math.max(maxB, b);
+        });
+        const range = Math.max(maxR - minR, maxG - minG, maxB - minB);
+        if (range > largestRange) {
+          largestRange = range;
+          largestBucketIndex = i;
+        }
+      }
+    });
+
+    if (largestBucketIndex === -1) break;
+
+    const bucketToSort = buckets[largestBucketIndex];
+    let minR = 255, maxR = 0, minG = 255, maxG = 0, minB = 255, maxB = 0;
+    bucketToSort.forEach(([r, g, b]) => {
+      minR = Math.min(minR, r); maxR = Math.max(maxR, r);
+      minG = Math.min(minG, g); maxG = Math.max(maxG, g);
+      minB = Math.min(minB, b); maxB = Math.max(maxB, b);
+    });
+
+    const rRange = maxR - minR;
+    const gRange = maxG - minG;
+    const bRange = maxB - minB;
+
+    let sortAxis = 0; // 0=R, 1=G, 2=B
+    if (gRange >= rRange && gRange >= bRange) sortAxis = 1;
+    else if (bRange >= rRange && bRange >= gRange) sortAxis = 2;
+
+    bucketToSort.sort((a, b) => a[sortAxis] - b[sortAxis]);
+
+    const mid = Math.floor(bucketToSort.length / 2);
+    const newBucket1 = bucketToSort.slice(0, mid);
+    const newBucket2 = bucketToSort.slice(mid);
+    buckets.splice(largestBucketIndex, 1, newBucket1, newBucket2);
+  }
+
+  const palette: string[] = [];
+  buckets.forEach(bucket => {
+    if (bucket.length > 0) {
+      const avgR = Math.round(bucket.reduce((sum, p) => sum + p[0], 0) / bucket.length);
+      const avgG = Math.round(bucket.reduce((sum, p) => sum + p[1], 0) / bucket.length);
+      const avgB = Math.round(bucket.reduce((sum, p) => sum + p[2], 0) / bucket.length);
+      palette.push(rgbaToHex(avgR, avgG, avgB));
+    }
+  });
+
+  return Array.from(new Set(palette)); // Remove duplicates
+}
+
+// Snaps every opaque pixel to its nearest palette color; alpha is thresholded to fully on/off.
+export const snapToPalette = (imageData: ImageData, palette: string[]) => {
+  if (palette.length === 0) return;
+  const colors = palette.map(hexToRgba);
+  const data = imageData.data;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 128) {
+      data[i + 3] = 0;
+      continue;
+    }
+    let best = colors[0], bestDistance = Infinity;
+    for (const color of colors) {
+      const dr = data[i] - color[0], dg = data[i + 1] - color[1], db = data[i + 2] - color[2];
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = color;
+      }
+    }
+    data[i] = best[0];
+    data[i + 1] = best[1];
+    data[i + 2] = best[2];
+    data[i + 3] = 255;
+  }
+};
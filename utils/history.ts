@@ -0,0 +1,198 @@
+import type { AnimationTag, Frame } from '../components/Editor';
+import type { ColorMode } from './indexedColor';
+import { storedIndices } from './layers';
+
+// HISTORY
+// Pixel edits are stored as dirty-rect patches (only the changed region, before & after).
+// Structural edits (layers, frames, properties) store the Frame[] arrays themselves, which
+// are cheap because layers share their canvases between snapshots.
+
+export interface Rect { x: number; y: number; w: number; h: number; }
+
+export interface PixelPatch {
+  canvas: HTMLCanvasElement;
+  rect: Rect;
+  before: ImageData;
+  after: ImageData;
+  // The palette indices of the rect, for canvases that carry them (see utils/layers).
+  indices?: { before: Uint16Array; after: Uint16Array };
+}
+
+export interface StructureSnapshot {
+  frames: Frame[];
+  currentFrameIndex: number;
+  activeLayerId: string | null;
+  canvasSize?: { width: number; height: number };
+  // Only set by entries that change the color mode or the indexed palette.
+  colorMode?: ColorMode;
+  palette?: string[];
+  // Only set by entries that change frame order or tags, which are anchored to frame indices.
+  tags?: AnimationTag[];
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  patches: PixelPatch[];
+  structure?: { before: StructureSnapshot; after: StructureSnapshot };
+  coalesceKey?: string;
+  size: number; // approximate bytes held by this entry
+}
+
+export interface PixelCapture {
+  canvas: HTMLCanvasElement;
+  data: ImageData;
+  indices?: Uint16Array;
+}
+
+export const DEFAULT_HISTORY_CAP_MB = 64;
+export const HISTORY_CAP_OPTIONS_MB = [16, 32, 64, 128, 256];
+
+export const createBaseEntry = (label = 'Open'): HistoryEntry => ({ id: crypto.randomUUID(), label, patches: [], size: 0 });
+
+// Grab the full layer before an edit; only the changed rect survives into the history entry.
+export const beginPixelCapture = (canvas: HTMLCanvasElement): PixelCapture => ({
+  canvas,
+  data: canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height),
+  indices: storedIndices(canvas)?.slice(),
+});
+
+export const endPixelCapture = (capture: PixelCapture): PixelPatch | null => {
+  const { canvas, data: before } = capture;
+  const ctx = canvas.getContext('2d')!;
+  // Canvas may have been resized since capture; compare only the shared area.
+  const width = Math.min(before.width, canvas.width);
+  const height = Math.min(before.height, canvas.height);
+  if (width !== before.width || height !== before.height) return null;
+  const after = ctx.getImageData(0, 0, width, height);
+
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  const a = before.data, b = after.data;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (a[i] !== b[i] || a[i + 1] !== b[i + 1] || a[i + 2] !== b[i + 2] || a[i + 3] !== b[i + 3]) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  if (maxX < 0) return null;
+
+  const rect = { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 };
+  const patch: PixelPatch = { canvas, rect, before: cropImageData(before, rect), after: cropImageData(after, rect) };
+  const indices = storedIndices(canvas);
+  if (capture.indices?.length === width * height && indices?.length === width * height) {
+    patch.indices = { before: cropIndices(capture.indices, width, rect), after: cropIndices(indices, width, rect) };
+  }
+  return patch;
+};
+
+const cropIndices = (source: Uint16Array, width: number, rect: Rect) => {
+  const out = new Uint16Array(rect.w * rect.h);
+  for (let y = 0; y < rect.h; y++) {
+    const start = (rect.y + y) * width + rect.x;
+    out.set(source.subarray(start, start + rect.w), y * rect.w);
+  }
+  return out;
+};
+
+const cropImageData = (source: ImageData, rect: Rect): ImageData => {
+  const out = new ImageData(rect.w, rect.h);
+  for (let y = 0; y < rect.h; y++) {
+    const start = ((rect.y + y) * source.width + rect.x) * 4;
+    out.data.set(source.data.subarray(start, start + rect.w * 4), y * rect.w * 4);
+  }
+  return out;
+};
+
+export const applyPatches = (patches: PixelPatch[], direction: 'undo' | 'redo') => {
+  const ordered = direction === 'undo' ? [...patches].reverse() : patches;
+  ordered.forEach(({ canvas, rect, before, after, indices }) => {
+    canvas.getContext('2d')!.putImageData(direction === 'undo' ? before : after, rect.x, rect.y);
+    const target = storedIndices(canvas);
+    if (!indices || target?.length !== canvas.width * canvas.height) return;
+    const source = direction === 'undo' ? indices.before : indices.after;
+    for (let y = 0; y < rect.h; y++) target.set(source.subarray(y * rect.w, (y + 1) * rect.w), (rect.y + y) * canvas.width + rect.x);
+  });
+};
+
+const canvasesOf = (frames: Frame[]) => {
+  const set = new Set<HTMLCanvasElement>();
+  frames.forEach(f => f.layers.forEach(l => set.add(l.canvas)));
+  return set;
+};
+
+// Canvases that exist on only one side of a structural change are kept alive solely by history.
+const structureSize = (before: StructureSnapshot, after: StructureSnapshot) => {
+  const a = canvasesOf(before.frames);
+  const b = canvasesOf(after.frames);
+  let bytes = 0;
+  a.forEach(c => { if (!b.has(c)) bytes += c.width * c.height * 4; });
+  b.forEach(c => { if (!a.has(c)) bytes += c.width * c.height * 4; });
+  return bytes + 1024;
+};
+
+export const createHistoryEntry = (
+  label: string,
+  patches: PixelPatch[],
+  structure?: { before: StructureSnapshot; after: StructureSnapshot },
+  coalesceKey?: string
+): HistoryEntry => {
+  const patchBytes = patches.reduce((sum, p) => sum + p.before.data.length + p.after.data.length + (p.indices ? p.rect.w * p.rect.h * 4 : 0), 0);
+  return {
+    id: crypto.randomUUID(),
+    label,
+    patches,
+    structure,
+    coalesceKey,
+    size: patchBytes + (structure ? structureSize(structure.before, structure.after) : 0),
+  };
+};
+
+export const historySize = (stack: HistoryEntry[]) => stack.reduce((sum, e) => sum + e.size, 0);
+
+/**
+ * Pushes an entry after the current index, discarding any redo branch. Consecutive entries
+ * sharing a coalesceKey (e.g. dragging an opacity slider) collapse into one step. The oldest
+ * steps are dropped once the stack exceeds the memory cap; index 0 always stays a base marker.
+ */
+export const pushHistoryEntry = (
+  stack: HistoryEntry[],
+  index: number,
+  entry: HistoryEntry,
+  capBytes: number
+): { stack: HistoryEntry[]; index: number } => {
+  const kept = stack.slice(0, index + 1);
+  const last = kept[kept.length - 1];
+
+  if (entry.coalesceKey && last && index > 0 && last.coalesceKey === entry.coalesceKey && last.structure && entry.structure) {
+    kept[kept.length - 1] = createHistoryEntry(
+      entry.label,
+      [...last.patches, ...entry.patches],
+      { before: last.structure.before, after: entry.structure.after },
+      entry.coalesceKey
+    );
+  } else {
+    kept.push(entry);
+  }
+
+  return trimHistory(kept, kept.length - 1, capBytes);
+};
+
+// Drops the oldest undo steps first; redo steps are only discarded when nothing older is left.
+export const trimHistory = (stack: HistoryEntry[], index: number, capBytes: number): { stack: HistoryEntry[]; index: number } => {
+  const kept = [...stack];
+  let newIndex = index;
+  while (kept.length > 1 && historySize(kept) > capBytes) {
+    if (newIndex > 0) {
+      kept.splice(1, 1);
+      newIndex--;
+    } else {
+      kept.pop();
+    }
+  }
+  return { stack: kept, index: newIndex };
+};
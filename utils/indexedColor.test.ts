@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import type { Frame, Layer } from '../components/Editor';
+import { applyPatches, beginPixelCapture, endPixelCapture } from './history';
+import {
+  TRANSPARENT_INDEX, cyclePalette, documentCanvases, frameIndices, indexCanvas, indexImage, indicesOf, renderIndices, scaleIndices,
+  syncIndices, usedPaletteLength,
+} from './indexedColor';
+import { cloneFrame, createEmptyCel, createLayer } from './layers';
+
+const WIDTH = 3;
+const HEIGHT = 1;
+// Entries 1 and 2 share a color, as do 3 and 4.
+const PALETTE = ['#000000', '#ff0000', '#ff0000', '#0000ff', '#0000ff'];
+
+const paint = (layer: Layer, color: string, x: number, entry: number) => {
+  layer.context.fillStyle = color;
+  layer.context.fillRect(x, 0, 1, 1);
+  syncIndices(layer.canvas, PALETTE, [entry]);
+  return layer;
+};
+
+const colorsOf = (layer: Layer) => {
+  const { data } = layer.context.getImageData(0, 0, WIDTH, HEIGHT);
+  return Array.from({ length: WIDTH * HEIGHT }, (_, p) => data[p * 4 + 3] === 0 ? null : '#' + Array.from(data.subarray(p * 4, p * 4 + 3), v => v.toString(16).padStart(2, '0')).join(''));
+};
+
+// Frame 1 links frame 0's cel and adds a second layer; frame 2's cel is its own.
+const makeFrames = (): Frame[] => {
+  const a = paint(paint(paint(createLayer('a', 'A', WIDTH, HEIGHT), '#ff0000', 0, 1), '#ff0000', 1, 2), '#0000ff', 2, 4);
+  const b = paint(createLayer('b', 'B', WIDTH, HEIGHT), '#ff0000', 1, 1);
+  const c = paint(paint(createLayer('a', 'A', WIDTH, HEIGHT), '#ff0000', 0, 2), '#0000ff', 1, 3);
+  return [
+    { id: 'f0', layers: [a, createEmptyCel('b', 'B', WIDTH, HEIGHT)], duration: 100 },
+    { id: 'f1', layers: [{ ...a }, b], duration: 100 },
+    { id: 'f2', layers: [c, createEmptyCel('b', 'B', WIDTH, HEIGHT)], duration: 100 },
+  ];
+};
+
+// Applies a palette change to the whole document the way the Editor does.
+const swapPalette = (frames: Frame[], from: string[], to: string[]) =>
+  documentCanvases(frames).forEach(canvas => renderIndices(canvas, indicesOf(canvas, from), to));
+
+describe('index buffers', () => {
+  it('gives painted pixels the preferred entry and keeps the entries of untouched pixels of the same color', () => {
+    const [f0, f1, f2] = makeFrames();
+    expect(Array.from(indicesOf(f0.layers[0].canvas, PALETTE))).toEqual([1, 2, 4]);
+    expect(Array.from(indicesOf(f1.layers[1].canvas, PALETTE))).toEqual([TRANSPARENT_INDEX, 1, TRANSPARENT_INDEX]);
+    expect(Array.from(indicesOf(f2.layers[0].canvas, PALETTE))).toEqual([2, 3, TRANSPARENT_INDEX]);
+  });
+
+  it('snaps new colors and soft alpha onto the palette', () => {
+    const layer = createLayer('l', 'L', WIDTH, HEIGHT);
+    layer.context.fillStyle = '#ee1100';
+    layer.context.fillRect(0, 0, 1, 1);
+    layer.context.fillStyle = 'rgba(0, 0, 255, 0.25)';
+    layer.context.fillRect(1, 0, 1, 1);
+    layer.context.fillStyle = 'rgba(0, 0, 250, 0.75)';
+    layer.context.fillRect(2, 0, 1, 1);
+    syncIndices(layer.canvas, PALETTE, [2]);
+    expect(Array.from(indicesOf(layer.canvas, PALETTE))).toEqual([1, TRANSPARENT_INDEX, 3]);
+    expect(colorsOf(layer)).toEqual(['#ff0000', null, '#0000ff']);
+  });
+
+  it('indexes canvases without indices by color, first entry first', () => {
+    const layer = createLayer('l', 'L', WIDTH, HEIGHT);
+    layer.context.fillStyle = '#0000ff';
+    layer.context.fillRect(0, 0, 2, 1);
+    expect(Array.from(indexCanvas(layer.canvas, PALETTE))).toEqual([3, 3, TRANSPARENT_INDEX]);
+  });
+
+  it('counts the highest entry in use, even when an earlier entry has its color', () => {
+    expect(usedPaletteLength(documentCanvases(makeFrames()), PALETTE)).toBe(5);
+  });
+
+  it('copies indices along with cloned cels', () => {
+    const [f0] = makeFrames();
+    const copy = cloneFrame(f0, WIDTH, HEIGHT);
+    expect(Array.from(indicesOf(copy.layers[0].canvas, PALETTE))).toEqual([1, 2, 4]);
+  });
+
+  it('restores the entries an edit replaced on undo and redo', () => {
+    const [f0] = makeFrames();
+    const layer = f0.layers[0];
+    const capture = beginPixelCapture(layer.canvas);
+    layer.context.clearRect(1, 0, 2, 1);
+    syncIndices(layer.canvas, PALETTE);
+    const patch = endPixelCapture(capture)!;
+    applyPatches([patch], 'undo');
+    expect(Array.from(indicesOf(layer.canvas, PALETTE))).toEqual([1, 2, 4]);
+    applyPatches([patch], 'redo');
+    expect(Array.from(indicesOf(layer.canvas, PALETTE))).toEqual([1, TRANSPARENT_INDEX, TRANSPARENT_INDEX]);
+  });
+});
+
+describe('palette changes', () => {
+  it('recolors only the edited entry in every frame, even where another entry has the same color', () => {
+    const frames = makeFrames();
+    const edited = PALETTE.map((c, i) => i === 2 ? '#00ff00' : c);
+    swapPalette(frames, PALETTE, edited);
+    expect(colorsOf(frames[0].layers[0])).toEqual(['#ff0000', '#00ff00', '#0000ff']);
+    expect(colorsOf(frames[1].layers[0])).toEqual(['#ff0000', '#00ff00', '#0000ff']);
+    expect(colorsOf(frames[1].layers[1])).toEqual([null, '#ff0000', null]);
+    expect(colorsOf(frames[2].layers[0])).toEqual(['#00ff00', '#0000ff', null]);
+  });
+
+  it('lets an entry take the color of another and change back', () => {
+    const frames = makeFrames();
+    const merged = PALETTE.map((c, i) => i === 3 ? '#ff0000' : c);
+    swapPalette(frames, PALETTE, merged);
+    expect(colorsOf(frames[2].layers[0])).toEqual(['#ff0000', '#ff0000', null]);
+    swapPalette(frames, merged, PALETTE);
+    expect(colorsOf(frames[2].layers[0])).toEqual(['#ff0000', '#0000ff', null]);
+    expect(Array.from(indicesOf(frames[2].layers[0].canvas, PALETTE))).toEqual([2, 3, TRANSPARENT_INDEX]);
+  });
+
+  it('cycles ramps with repeated colors across all frames', () => {
+    const frames = makeFrames();
+    const cycled = cyclePalette(PALETTE, 1, 4);
+    expect(cycled).toEqual(['#000000', '#0000ff', '#ff0000', '#ff0000', '#0000ff']);
+    swapPalette(frames, PALETTE, cycled);
+    expect(colorsOf(frames[0].layers[0])).toEqual(['#0000ff', '#ff0000', '#0000ff']);
+    expect(colorsOf(frames[1].layers[1])).toEqual([null, '#0000ff', null]);
+    expect(colorsOf(frames[2].layers[0])).toEqual(['#ff0000', '#ff0000', null]);
+  });
+});
+
+describe('indexed export', () => {
+  it('keeps the entries of the topmost visible layers', () => {
+    const [, f1] = makeFrames();
+    const stacked = frameIndices(f1, PALETTE, WIDTH, HEIGHT);
+    expect(Array.from(stacked)).toEqual([1, 1, 4]);
+    const image = new ImageData(new Uint8ClampedArray([255, 0, 0, 255, 255, 0, 0, 255, 0, 0, 255, 255]), WIDTH, HEIGHT);
+    expect(Array.from(indexImage(image, PALETTE, stacked))).toEqual([1, 1, 4]);
+    expect(Array.from(indexImage(image, PALETTE))).toEqual([1, 1, 3]);
+  });
+
+  it('scales indices up by whole pixels', () => {
+    expect(Array.from(scaleIndices(new Uint16Array([1, 2]), 2, 1, 2))).toEqual([1, 1, 2, 2, 1, 1, 2, 2]);
+  });
+});
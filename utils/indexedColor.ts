@@ -0,0 +1,183 @@
+import type { Frame } from '../components/Editor';
+import { hexToRgba } from './color';
+import { createPaletteMatcher } from './paletteMatch';
+import { isEmptyCel, storeIndices, storedIndices } from './layers';
+
+// INDEXED COLOR
+// In indexed mode every layer canvas carries a buffer of palette indices, one per pixel, and the
+// canvas holds their RGBA rendering so compositing and the drawing tools keep working on it. After
+// an edit the indices are brought back in line with the pixels (syncIndices); palette changes
+// repaint from the indices (renderIndices), so entries may share a color and still recolor apart.
+
+export type ColorMode = 'rgba' | 'indexed';
+
+export const MAX_INDEXED_COLORS = 256;
+
+/** The index of a transparent pixel. */
+export const TRANSPARENT_INDEX = 0xFFFF;
+
+const packHex = (hex: string) => {
+  const [r, g, b] = hexToRgba(hex);
+  return (r << 16) | (g << 8) | b;
+};
+
+// When entries share a color, a lookup by color finds the first of them.
+const indexLookup = (palette: string[]) => {
+  const lookup = new Map<number, number>();
+  palette.forEach((hex, i) => {
+    const key = packHex(hex);
+    if (!lookup.has(key)) lookup.set(key, i);
+  });
+  return lookup;
+};
+
+// Linked cels share canvases, so each one is visited once; empty cels have nothing to visit.
+export const documentCanvases = (frames: Frame[]) => {
+  const canvases = new Set<HTMLCanvasElement>();
+  frames.forEach(frame => frame.layers.forEach(layer => !isEmptyCel(layer) && canvases.add(layer.canvas)));
+  return Array.from(canvases);
+};
+
+const pixelsOf = (canvas: HTMLCanvasElement) => canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+
+// Snaps the canvas onto the palette and returns its new indices. Pixels that still show the color
+// of their `previous` index keep it; others take the first `preferred` entry with their color, else
+// the first entry with it, else the nearest entry. Soft alpha becomes fully opaque or transparent.
+const matchIndices = (canvas: HTMLCanvasElement, palette: string[], previous: Uint16Array | undefined, preferred: number[]) => {
+  const imageData = pixelsOf(canvas);
+  const { data } = imageData;
+  const indices = new Uint16Array(data.length / 4);
+  if (palette.length === 0) return indices.fill(TRANSPARENT_INDEX);
+  const kept = previous?.length === indices.length ? previous : undefined;
+  const keys = palette.map(packHex);
+  const colors = palette.map(hexToRgba);
+  const lookup = indexLookup(palette);
+  const nearest = createPaletteMatcher(palette, 'rgb');
+  let repainted = false;
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    if (data[i + 3] < 128) {
+      indices[p] = TRANSPARENT_INDEX;
+      if (data[i + 3] !== 0) {
+        data[i + 3] = 0;
+        repainted = true;
+      }
+      continue;
+    }
+    const key = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+    let index = kept?.[p] ?? TRANSPARENT_INDEX;
+    if (keys[index] !== key) index = preferred.find(entry => keys[entry] === key) ?? lookup.get(key) ?? nearest(data[i], data[i + 1], data[i + 2]);
+    indices[p] = index;
+    const color = colors[index];
+    if (data[i] !== color[0] || data[i + 1] !== color[1] || data[i + 2] !== color[2] || data[i + 3] !== 255) {
+      data.set([color[0], color[1], color[2], 255], i);
+      repainted = true;
+    }
+  }
+  if (repainted) canvas.getContext('2d')!.putImageData(imageData, 0, 0);
+  return indices;
+};
+
+/** Snaps a canvas onto the palette and indexes it from scratch, e.g. when converting to indexed mode. */
+export const indexCanvas = (canvas: HTMLCanvasElement, palette: string[]) => {
+  const indices = matchIndices(canvas, palette, undefined, []);
+  storeIndices(canvas, indices);
+  return indices;
+};
+
+/**
+ * Brings a canvas's indices in line with its pixels after an edit that may have introduced other
+ * colors or soft alpha. Untouched pixels keep their entry even when another entry has the same
+ * color; painted pixels take the first `preferred` entry (the paint colors) that matches them.
+ */
+export const syncIndices = (canvas: HTMLCanvasElement, palette: string[], preferred: number[] = []) => {
+  storeIndices(canvas, matchIndices(canvas, palette, storedIndices(canvas), preferred));
+};
+
+/** The canvas's palette indices; a canvas that has none yet (e.g. a resized copy) is indexed by color. */
+export const indicesOf = (canvas: HTMLCanvasElement, palette: string[]) => {
+  const indices = storedIndices(canvas);
+  return indices?.length === canvas.width * canvas.height ? indices : indexCanvas(canvas, palette);
+};
+
+/** Repaints a canvas from its indices with `palette`, e.g. after entries changed color. */
+export const renderIndices = (canvas: HTMLCanvasElement, indices: Uint16Array, palette: string[]) => {
+  const colors = palette.map(hexToRgba);
+  const imageData = new ImageData(canvas.width, canvas.height);
+  indices.forEach((index, p) => {
+    const color = colors[index];
+    if (color) imageData.data.set([color[0], color[1], color[2], 255], p * 4);
+  });
+  canvas.getContext('2d')!.putImageData(imageData, 0, 0);
+};
+
+/** One more than the highest palette index painted anywhere, i.e. how many entries a new palette must have. */
+export const usedPaletteLength = (canvases: HTMLCanvasElement[], palette: string[]) => {
+  let length = 0;
+  canvases.forEach(canvas => indicesOf(canvas, palette).forEach(index => {
+    if (index !== TRANSPARENT_INDEX && index >= length) length = index + 1;
+  }));
+  return length;
+};
+
+export const nearestPaletteColor = (palette: string[], hex: string) => {
+  if (palette.length === 0) return hex;
+  const [r, g, b] = hexToRgba(hex);
+  return palette[createPaletteMatcher(palette, 'rgb')(r, g, b)];
+};
+
+/** Rotates the entries from..to (inclusive) by one step, the classic color-cycling effect. */
+export const cyclePalette = (palette: string[], from: number, to: number, reverse = false) => {
+  const start = Math.max(0, Math.min(from, to));
+  const end = Math.min(palette.length - 1, Math.max(from, to));
+  if (end <= start) return palette;
+  const range = palette.slice(start, end + 1);
+  const rotated = reverse ? [...range.slice(1), range[0]] : [range[range.length - 1], ...range.slice(0, -1)];
+  return [...palette.slice(0, start), ...rotated, ...palette.slice(end + 1)];
+};
+
+/** Per pixel, the index painted by the topmost visible layer of the frame, or TRANSPARENT_INDEX. */
+export const frameIndices = (frame: Frame, palette: string[], width: number, height: number) => {
+  const indices = new Uint16Array(width * height).fill(TRANSPARENT_INDEX);
+  frame.layers.forEach(layer => {
+    if (!layer.isVisible || isEmptyCel(layer)) return;
+    indicesOf(layer.canvas, palette).forEach((index, p) => {
+      if (index !== TRANSPARENT_INDEX) indices[p] = index;
+    });
+  });
+  return indices;
+};
+
+/**
+ * Converts an image to palette indices. A pixel takes its `preferred` index (e.g. from frameIndices)
+ * when that entry has its color; colors not in the palette (e.g. from blended layers) take the
+ * nearest entry; transparent pixels get `palette.length`.
+ */
+export const indexImage = (imageData: ImageData, palette: string[], preferred?: Uint16Array): Uint16Array => {
+  const keys = palette.map(packHex);
+  const lookup = indexLookup(palette);
+  const nearest = createPaletteMatcher(palette, 'rgb');
+  const { data } = imageData;
+  const indices = new Uint16Array(data.length / 4);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    if (data[i + 3] < 128) {
+      indices[p] = palette.length;
+      continue;
+    }
+    const key = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+    const hint = preferred?.[p] ?? TRANSPARENT_INDEX;
+    indices[p] = keys[hint] === key ? hint : lookup.get(key) ?? nearest(data[i], data[i + 1], data[i + 2]);
+  }
+  return indices;
+};
+
+/** Blows an index buffer up by a whole `scale`, one block per pixel. */
+export const scaleIndices = (indices: Uint16Array, width: number, height: number, scale: number) => {
+  if (scale === 1) return indices;
+  const out = new Uint16Array(width * scale * height * scale);
+  for (let y = 0; y < height * scale; y++) {
+    for (let x = 0; x < width * scale; x++) {
+      out[y * width * scale + x] = indices[Math.floor(y / scale) * width + Math.floor(x / scale)];
+    }
+  }
+  return out;
+};
@@ -0,0 +1,50 @@
+import { zlibSync } from 'fflate';
+import { hexToRgba } from './color';
+import { PNG_SIGNATURE, concatBytes, pngChunk, pngHeader } from './png';
+
+// INDEXED PNG
+// Writes palette-based PNGs (color type 3) so the file keeps the document's palette order,
+// as retro tool chains expect. The smallest bit depth that fits the palette is used.
+
+const bitDepthFor = (entries: number) => entries <= 2 ? 1 : entries <= 4 ? 2 : entries <= 16 ? 4 : 8;
+
+/**
+ * Encodes palette indices as an indexed PNG. Index `palette.length` stands for a transparent
+ * pixel and is appended to the palette (with a tRNS chunk) only when it is actually used.
+ */
+export const encodeIndexedPng = (indices: ArrayLike<number>, width: number, height: number, palette: string[]): Uint8Array => {
+  if (palette.length === 0) throw new Error("The palette is empty.");
+  const transparent = palette.length;
+  let hasTransparency = false;
+  for (let i = 0; i < indices.length; i++) {
+    if (indices[i] === transparent) {
+      hasTransparency = true;
+      break;
+    }
+  }
+  const entries = palette.length + (hasTransparency ? 1 : 0);
+  if (entries > 256) throw new Error("Indexed PNG holds at most 256 colors; a 256-color palette leaves no room for transparency.");
+
+  const depth = bitDepthFor(entries);
+  const stride = Math.ceil(width * depth / 8);
+  const raw = new Uint8Array((stride + 1) * height); // each row starts with filter type 0
+  for (let y = 0; y < height; y++) {
+    const row = y * (stride + 1) + 1;
+    for (let x = 0; x < width; x++) {
+      const bit = x * depth;
+      raw[row + (bit >> 3)] |= indices[y * width + x] << (8 - depth - (bit & 7));
+    }
+  }
+
+  const plte = new Uint8Array(entries * 3);
+  palette.forEach((hex, i) => plte.set(hexToRgba(hex).slice(0, 3), i * 3));
+
+  return concatBytes([
+    PNG_SIGNATURE,
+    pngHeader(width, height, depth, 3), // color type 3: indexed
+    pngChunk('PLTE', plte),
+    ...(hasTransparency ? [pngChunk('tRNS', Uint8Array.from({ length: entries }, (_, i) => i === transparent ? 0 : 255))] : []),
+    pngChunk('IDAT', zlibSync(raw, { level: 9 })),
+    pngChunk('IEND', new Uint8Array(0)),
+  ]);
+};
@@ -0,0 +1,135 @@
+import type { Frame, Layer } from '../components/Editor';
+
+// LAYERS & FRAMES
+
+export const createLayer = (id: string, name: string, width: number, height: number): Layer => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d')!;
+  context.imageSmoothingEnabled = false;
+  return { id, name, canvas, context, isVisible: true, opacity: 1, blendMode: 'source-over', offset: { x: 0, y: 0 } };
+};
+
+export const createFrame = (width: number, height: number): Frame => ({
+  id: crypto.randomUUID(),
+  layers: [createLayer(crypto.randomUUID(), 'Layer 1', width, height)],
+  duration: 100
+});
+
+// -- Cels --
+// A layer has the same id in every frame; each frame's Layer object is that layer's cel. Cels are
+// linked when frames share one canvas, so an edit shows up in all of them. Empty cels all point
+// at one blank canvas per size, which must never be drawn on: see materializeCel.
+
+const blankCanvases = new Map<string, { canvas: HTMLCanvasElement, context: CanvasRenderingContext2D }>();
+const blankSet = new WeakSet<HTMLCanvasElement>();
+
+const blankCanvas = (width: number, height: number) => {
+  const key = `${width}x${height}`;
+  let blank = blankCanvases.get(key);
+  if (!blank) {
+    const { canvas, context } = createLayer('', '', width, height);
+    blank = { canvas, context };
+    blankCanvases.set(key, blank);
+    blankSet.add(canvas);
+  }
+  return blank;
+};
+
+export const isEmptyCel = (layer: Layer) => blankSet.has(layer.canvas);
+
+/** An empty cel of `layer` (same id and properties) that costs no canvas of its own. */
+export const emptyCelOf = (layer: Layer, width: number, height: number): Layer => ({ ...layer, ...blankCanvas(width, height), offset: { x: 0, y: 0 } });
+
+export const createEmptyCel = (id: string, name: string, width: number, height: number): Layer => ({
+  id, name, ...blankCanvas(width, height), isVisible: true, opacity: 1, blendMode: 'source-over', offset: { x: 0, y: 0 },
+});
+
+/** Gives an empty cel its own canvas so it can be drawn on; other cels are returned unchanged. */
+export const materializeCel = (layer: Layer): Layer => {
+  if (!isEmptyCel(layer)) return layer;
+  const { canvas, context } = createLayer(layer.id, layer.name, layer.canvas.width, layer.canvas.height);
+  return { ...layer, canvas, context };
+};
+
+// -- Palette indices --
+// In indexed mode each canvas also carries one palette index per pixel (see utils/indexedColor).
+// They are keyed by canvas, so linked cels share them and copied cels take them along.
+
+const indexBuffers = new WeakMap<HTMLCanvasElement, Uint16Array>();
+
+export const storedIndices = (canvas: HTMLCanvasElement) => indexBuffers.get(canvas);
+
+export const storeIndices = (canvas: HTMLCanvasElement, indices: Uint16Array) => {
+  indexBuffers.set(canvas, indices);
+};
+
+/** Gives `target`, a pixel copy of `source`, a copy of its indices. */
+export const copyIndices = (source: HTMLCanvasElement, target: HTMLCanvasElement) => {
+  const indices = indexBuffers.get(source);
+  if (indices) indexBuffers.set(target, indices.slice());
+};
+
+/** True when the cel at `position` in frame `index` shares its canvas with the previous frame. */
+export const isLinkedToPrevious = (frames: Frame[], index: number, position: number) => {
+  const cel = frames[index]?.layers[position];
+  const previous = frames[index - 1]?.layers[position];
+  return !!cel && !!previous && cel.canvas === previous.canvas && !isEmptyCel(cel);
+};
+
+/**
+ * Makes every frame carry the same layer stack: layers are matched by stack position (as older
+ * documents were), take the id of the first frame that has them, and missing ones become empty cels.
+ */
+export const normalizeLayerStacks = (frames: Frame[], width: number, height: number): Frame[] => {
+  const slotCount = Math.max(...frames.map(f => f.layers.length));
+  const slots = Array.from({ length: slotCount }, (_, i) => frames.find(f => f.layers[i])!.layers[i]);
+  return frames.map(frame => ({
+    ...frame,
+    layers: slots.map((slot, i) => frame.layers[i] ? { ...frame.layers[i], id: slot.id } : emptyCelOf(slot, width, height)),
+  }));
+};
+
+// An empty frame with the same layer stack, so layers keep lining up across frames.
+export const createFrameLike = (frame: Frame, width: number, height: number): Frame => ({
+  id: crypto.randomUUID(),
+  duration: frame.duration,
+  layers: frame.layers.map(layer => emptyCelOf(layer, width, height)),
+});
+
+/**
+ * A copy with a fresh id and canvases; layers keep their ids and properties, empty cels stay empty.
+ * Passing the same `copies` map for several frames keeps cels that were linked among them linked.
+ */
+export const cloneFrame = (frame: Frame, width: number, height: number, copies = new Map<HTMLCanvasElement, Layer>()): Frame => ({
+  ...frame,
+  id: crypto.randomUUID(),
+  layers: frame.layers.map(layer => {
+    if (isEmptyCel(layer)) return { ...layer, offset: { ...layer.offset } };
+    let copy = copies.get(layer.canvas);
+    if (!copy) {
+      copy = createLayer(layer.id, layer.name, width, height);
+      copy.context.drawImage(layer.canvas, 0, 0);
+      copyIndices(layer.canvas, copy.canvas);
+      copies.set(layer.canvas, copy);
+    }
+    return { ...layer, canvas: copy.canvas, context: copy.context, offset: { ...layer.offset } };
+  }),
+});
+
+// Flattens the visible layers of a frame into `ctx`, scaled to its canvas size.
+export const compositeFrame = (ctx: CanvasRenderingContext2D, frame: Frame, width: number, height: number) => {
+  const scaleX = ctx.canvas.width / width;
+  const scaleY = ctx.canvas.height / height;
+  ctx.imageSmoothingEnabled = false;
+  frame.layers.forEach(layer => {
+    if (layer.isVisible) {
+      ctx.globalAlpha = layer.opacity;
+      ctx.globalCompositeOperation = layer.blendMode;
+      ctx.drawImage(layer.canvas, layer.offset.x * scaleX, layer.offset.y * scaleY, layer.canvas.width * scaleX, layer.canvas.height * scaleY);
+    }
+  });
+  ctx.globalAlpha = 1.0;
+  ctx.globalCompositeOperation = 'source-over';
+};
@@ -0,0 +1,53 @@
+import type { SelectionMask } from './selection';
+import { createCanvas, upscaleNearest } from './canvas';
+import { quantizeColors, snapToPalette } from './color';
+
+// MAGIC EDIT
+// Prepares the inpainting request for the image model and folds the answer back into sprite pixels.
+
+const MODEL_INPUT_SIZE = 512;
+
+export const buildInpaintInputs = (layer: HTMLCanvasElement, mask: SelectionMask): { image: string; mask: string } => {
+  const maskCanvas = createCanvas(mask.width, mask.height);
+  const maskCtx = maskCanvas.getContext('2d')!;
+  const maskData = maskCtx.createImageData(mask.width, mask.height);
+  for (let i = 0; i < mask.data.length; i++) {
+    const value = mask.data[i] ? 255 : 0;
+    maskData.data[i * 4] = value;
+    maskData.data[i * 4 + 1] = value;
+    maskData.data[i * 4 + 2] = value;
+    maskData.data[i * 4 + 3] = 255;
+  }
+  maskCtx.putImageData(maskData, 0, 0);
+
+  return {
+    image: upscaleNearest(layer, MODEL_INPUT_SIZE).toDataURL('image/png'),
+    mask: upscaleNearest(maskCanvas, MODEL_INPUT_SIZE).toDataURL('image/png'),
+  };
+};
+
+/**
+ * Downsamples the model output to the canvas resolution, snaps it to the palette and keeps
+ * only the masked pixels. The palette falls back to the layer's own colors when none is loaded.
+ */
+export const composeInpaintResult = (
+  result: HTMLImageElement, layer: HTMLCanvasElement, mask: SelectionMask, palette: string[]
+): HTMLCanvasElement => {
+  const canvas = createCanvas(mask.width, mask.height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(result, 0, 0, mask.width, mask.height);
+
+  const imageData = ctx.getImageData(0, 0, mask.width, mask.height);
+  const targetPalette = palette.length > 0
+    ? palette
+    : quantizeColors(layer.getContext('2d')!.getImageData(0, 0, layer.width, layer.height), 32);
+  snapToPalette(imageData, targetPalette);
+
+  for (let i = 0; i < mask.data.length; i++) {
+    if (!mask.data[i]) imageData.data[i * 4 + 3] = 0;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+};
@@ -0,0 +1,91 @@
+import type { AnimationTag, Frame } from '../components/Editor';
+import { compositeFrame, isEmptyCel } from './layers';
+import { createCanvas } from './canvas';
+
+// ONION SKIN
+// Faint copies of neighbouring frames drawn under the current one. The nearest frames are the
+// most opaque; each further step is multiplied by the falloff.
+
+export interface OnionSkinSettings {
+  before: number;
+  after: number;
+  opacity: number; // of the nearest frame, 0..1
+  falloff: number; // opacity multiplier per further frame, 0..1
+  tint: boolean; // past frames red, future frames blue
+  activeLayerOnly: boolean;
+  loopInTag: boolean; // wrap around at the ends of the active tag
+}
+
+// Matches the old fixed onion skin: the previous frame at 30%.
+export const DEFAULT_ONION_SKIN: OnionSkinSettings = {
+  before: 1, after: 0, opacity: 0.3, falloff: 0.5, tint: false, activeLayerOnly: false, loopInTag: false,
+};
+
+export const MAX_ONION_FRAMES = 8;
+
+const PAST_TINT = '#ff3030';
+const FUTURE_TINT = '#3070ff';
+const TINT_STRENGTH = 0.7;
+
+export interface OnionFrame {
+  index: number;
+  distance: number; // negative for past frames
+  alpha: number;
+}
+
+/**
+ * The frames to show around `current`, furthest first so the nearest end up on top. With a tag
+ * and looping on, neighbours wrap within the tag; otherwise they stop at the ends of the animation.
+ * A frame is never shown twice, nor the current frame itself.
+ */
+export const onionFrames = (settings: OnionSkinSettings, frameCount: number, current: number, tag: AnimationTag | null): OnionFrame[] => {
+  const from = settings.loopInTag && tag ? tag.from : 0;
+  const to = settings.loopInTag && tag ? Math.min(tag.to, frameCount - 1) : frameCount - 1;
+  const length = to - from + 1;
+  const seen = new Set([current]);
+  const result: OnionFrame[] = [];
+  const maxDistance = Math.max(settings.before, settings.after);
+  for (let distance = 1; distance <= maxDistance; distance++) {
+    const alpha = settings.opacity * settings.falloff ** (distance - 1);
+    [-distance, distance].forEach(step => {
+      if ((step < 0 ? settings.before : settings.after) < distance) return;
+      let index = current + step;
+      if (settings.loopInTag && tag && current >= from && current <= to) index = from + (((index - from) % length) + length) % length;
+      if (index < 0 || index >= frameCount || seen.has(index)) return;
+      seen.add(index);
+      result.push({ index, distance: step, alpha });
+    });
+  }
+  return result.reverse();
+};
+
+/** Draws the onion frames into `ctx` (document-sized); the caller draws the current frame on top. */
+export const drawOnionSkin = (
+  ctx: CanvasRenderingContext2D, frames: Frame[], onion: OnionFrame[], settings: OnionSkinSettings, activeLayerId: string | null, width: number, height: number
+) => {
+  if (onion.length === 0) return;
+  const scratch = createCanvas(width, height);
+  const scratchCtx = scratch.getContext('2d')!;
+  onion.forEach(({ index, distance, alpha }) => {
+    const frame = frames[index];
+    scratchCtx.clearRect(0, 0, width, height);
+    if (settings.activeLayerOnly) {
+      const layer = frame.layers.find(l => l.id === activeLayerId);
+      if (!layer || isEmptyCel(layer)) return;
+      scratchCtx.drawImage(layer.canvas, layer.offset.x, layer.offset.y);
+    } else {
+      compositeFrame(scratchCtx, frame, width, height);
+    }
+    if (settings.tint) {
+      scratchCtx.globalCompositeOperation = 'source-atop';
+      scratchCtx.globalAlpha = TINT_STRENGTH;
+      scratchCtx.fillStyle = distance < 0 ? PAST_TINT : FUTURE_TINT;
+      scratchCtx.fillRect(0, 0, width, height);
+      scratchCtx.globalAlpha = 1.0;
+      scratchCtx.globalCompositeOperation = 'source-over';
+    }
+    ctx.globalAlpha = alpha;
+    ctx.drawImage(scratch, 0, 0);
+  });
+  ctx.globalAlpha = 1.0;
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { PALETTE_FORMATS, PaletteFile, parsePaletteFile, writePaletteFile } from './paletteFiles';
+
+const PALETTE: PaletteFile = { name: 'Dusk 5', colors: ['#000000', '#ffffff', '#1a1c2c', '#b13e53', '#38b764'] };
+
+const bytesOf = (text: string) => new TextEncoder().encode(text);
+
+describe('palette file round trip', () => {
+  // JASC and hex files have no name field, so they are named after the file.
+  const keepsName = new Set(['gpl', 'paintnet', 'ase']);
+
+  PALETTE_FORMATS.forEach(({ format, extension }) => {
+    it(`reads back what it writes as ${format}`, async () => {
+      const blob = writePaletteFile(PALETTE, format);
+      const read = parsePaletteFile(`saved.${extension}`, new Uint8Array(await blob.arrayBuffer()));
+      expect(read).toEqual({ name: keepsName.has(format) ? PALETTE.name : 'saved', colors: PALETTE.colors });
+    });
+  });
+});
+
+describe('parsePaletteFile', () => {
+  it('skips GIMP comments and headers and ignores color names', () => {
+    const gpl = '\uFEFFGIMP Palette\r\nName: Test\r\nColumns: 4\r\n# comment\r\n255   0   0\tRed\r\n  0 128 255 Sky blue\r\n';
+    expect(parsePaletteFile('x.gpl', bytesOf(gpl))).toEqual({ name: 'Test', colors: ['#ff0000', '#0080ff'] });
+  });
+
+  it('reads only as many JASC colors as the header counts', () => {
+    expect(parsePaletteFile('two.pal', bytesOf('JASC-PAL\n0100\n2\n1 2 3\n4 5 6\n7 8 9\n')).colors).toEqual(['#010203', '#040506']);
+  });
+
+  it('reads Paint.NET files without comments, ignoring the alpha byte', () => {
+    expect(parsePaletteFile('p.txt', bytesOf('80FF0000\nff00ff00\n')).colors).toEqual(['#ff0000', '#00ff00']);
+  });
+
+  it('reads hex lists with or without #', () => {
+    expect(parsePaletteFile('lospec.hex', bytesOf('#FF0000\n00ff00\n')).colors).toEqual(['#ff0000', '#00ff00']);
+  });
+
+  it('reads Microsoft RIFF palettes', () => {
+    const entries = [[255, 0, 0, 0], [0, 0, 255, 0], [9, 8, 7, 0]];
+    const data = [0x00, 0x03, ...[entries.length & 0xFF, entries.length >> 8], ...entries.flat()];
+    const chunk = [...bytesOf('data'), data.length, 0, 0, 0, ...data];
+    const riff = new Uint8Array([...bytesOf('RIFF'), 4 + chunk.length, 0, 0, 0, ...bytesOf('PAL '), ...chunk]);
+    expect(parsePaletteFile('windows.pal', riff)).toEqual({ name: 'windows', colors: ['#ff0000', '#0000ff', '#090807'] });
+  });
+
+  it('converts Adobe swatches in gray and CMYK', () => {
+    const color = (model: string, channels: number[]) => {
+      const body = new DataView(new ArrayBuffer(2 + 2 + 4 + channels.length * 4 + 2));
+      body.setUint16(0, 1); // empty name: just the terminator
+      Array.from(model).forEach((c, i) => body.setUint8(4 + i, c.charCodeAt(0)));
+      channels.forEach((v, i) => body.setFloat32(8 + i * 4, v));
+      const block = new DataView(new ArrayBuffer(6 + body.byteLength));
+      block.setUint16(0, 0x0001);
+      block.setUint32(2, body.byteLength);
+      new Uint8Array(block.buffer).set(new Uint8Array(body.buffer), 6);
+      return Array.from(new Uint8Array(block.buffer));
+    };
+    const header = [...bytesOf('ASEF'), 0, 1, 0, 0, 0, 0, 0, 2];
+    const ase = new Uint8Array([...header, ...color('Gray', [0.5]), ...color('CMYK', [0, 1, 1, 0])]);
+    expect(parsePaletteFile('swatches.ase', ase)).toEqual({ name: 'swatches', colors: ['#808080', '#ff0000'] });
+  });
+
+  it('rejects unknown formats, empty palettes and bad channel values', () => {
+    expect(() => parsePaletteFile('notes.txt', bytesOf('hello world'))).toThrow(/not a palette format/);
+    expect(() => parsePaletteFile('empty.gpl', bytesOf('GIMP Palette\nName: Empty\n'))).toThrow(/contains no colors/);
+    expect(() => parsePaletteFile('bad.gpl', bytesOf('GIMP Palette\n300 0 0\n'))).toThrow(/not a color channel value/);
+  });
+});
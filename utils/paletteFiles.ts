@@ -0,0 +1,231 @@
+import { hexToRgba, rgbaToHex } from './color';
+import { cielabToRgb } from './paletteMatch';
+
+// PALETTE FILES
+// Readers and writers for the palette formats other pixel art tools exchange.
+
+export interface PaletteFile {
+  name: string;
+  colors: string[];
+}
+
+export type PaletteFormat = 'gpl' | 'paintnet' | 'jasc' | 'ase' | 'hex';
+
+export const PALETTE_FORMATS: { format: PaletteFormat; label: string; extension: string }[] = [
+  { format: 'gpl', label: 'GIMP (.gpl)', extension: 'gpl' },
+  { format: 'paintnet', label: 'Paint.NET (.txt)', extension: 'txt' },
+  { format: 'jasc', label: 'JASC (.pal)', extension: 'pal' },
+  { format: 'ase', label: 'Adobe swatches (.ase)', extension: 'ase' },
+  { format: 'hex', label: 'Lospec hex (.hex)', extension: 'hex' },
+];
+
+export const PALETTE_FILE_ACCEPT = '.gpl,.hex,.pal,.txt,.ase';
+
+const HEX_LINE = /^#?([0-9a-f]{6})$/i;
+const PAINT_NET_LINE = /^([0-9a-f]{2})([0-9a-f]{6})$/i;
+
+const byte = (value: string) => {
+  const n = parseInt(value, 10);
+  if (!Number.isFinite(n) || n < 0 || n > 255) throw new Error(`"${value}" is not a color channel value.`);
+  return n;
+};
+
+const unit = (value: number) => Math.max(0, Math.min(255, Math.round(value * 255)));
+
+const baseName = (filename: string) => filename.replace(/\.[^.]*$/, '') || 'Palette';
+
+const lines = (text: string) => text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+const magic = (bytes: Uint8Array, offset: number, value: string) =>
+  bytes.length >= offset + value.length && String.fromCharCode(...bytes.subarray(offset, offset + value.length)) === value;
+
+// GIMP: "GIMP Palette", optional Name:/Columns: headers, '#' comments, then "r g b [name]" rows.
+const parseGpl = (text: string, fallbackName: string): PaletteFile => {
+  let name = fallbackName;
+  const colors: string[] = [];
+  for (const line of lines(text).slice(1)) {
+    if (line.startsWith('#')) continue;
+    const header = line.match(/^(\w+):\s*(.*)$/);
+    if (header) {
+      if (header[1].toLowerCase() === 'name' && header[2]) name = header[2];
+      continue;
+    }
+    const [r, g, b] = line.split(/\s+/);
+    colors.push(rgbaToHex(byte(r), byte(g), byte(b)));
+  }
+  return { name, colors };
+};
+
+// JASC (Paint Shop Pro): "JASC-PAL", version, color count, then "r g b" rows.
+const parseJascPal = (text: string, name: string): PaletteFile => {
+  const [, , count, ...rows] = lines(text);
+  const colors = rows.slice(0, parseInt(count, 10) || rows.length).map(row => {
+    const [r, g, b] = row.split(/\s+/);
+    return rgbaToHex(byte(r), byte(g), byte(b));
+  });
+  return { name, colors };
+};
+
+// Paint.NET: ';' comments, then one AARRGGBB per line. A ";Palette Name:" comment names it.
+const parsePaintNet = (text: string, fallbackName: string): PaletteFile => {
+  let name = fallbackName;
+  const colors: string[] = [];
+  for (const line of lines(text)) {
+    if (line.startsWith(';')) {
+      const header = line.match(/^;\s*Palette Name:\s*(.+)$/i);
+      if (header) name = header[1];
+      continue;
+    }
+    const match = line.match(PAINT_NET_LINE);
+    if (!match) throw new Error(`"${line}" is not a Paint.NET color.`);
+    colors.push(`#${match[2].toLowerCase()}`);
+  }
+  return { name, colors };
+};
+
+// Lospec ".hex": one RRGGBB per line, with or without '#'.
+const parseHexList = (text: string, name: string): PaletteFile => ({
+  name,
+  colors: lines(text).map(line => {
+    const match = line.match(HEX_LINE);
+    if (!match) throw new Error(`"${line}" is not a hex color.`);
+    return `#${match[1].toLowerCase()}`;
+  }),
+});
+
+// Microsoft RIFF palette: a "PAL " form with a "data" chunk of version, count and RGBX entries.
+const parseRiffPal = (bytes: Uint8Array, name: string): PaletteFile => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const chunkId = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    if (chunkId === 'data') {
+      const count = view.getUint16(offset + 10, true);
+      const colors: string[] = [];
+      for (let i = 0; i < count; i++) {
+        const entry = offset + 12 + i * 4;
+        if (entry + 3 > bytes.length) break;
+        colors.push(rgbaToHex(bytes[entry], bytes[entry + 1], bytes[entry + 2]));
+      }
+      return { name, colors };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  throw new Error("The RIFF palette has no color data.");
+};
+
+// Adobe Swatch Exchange: big-endian blocks of group starts/ends and color entries, each color
+// a UTF-16 name, a color model and float channels. Groups are flattened; the first names the palette.
+const parseAse = (bytes: Uint8Array, fallbackName: string): PaletteFile => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const blockCount = view.getUint32(8);
+  let name = fallbackName;
+  const colors: string[] = [];
+  let offset = 12;
+  for (let block = 0; block < blockCount && offset + 6 <= bytes.length; block++) {
+    const type = view.getUint16(offset);
+    const length = view.getUint32(offset + 2);
+    const body = offset + 6;
+    offset = body + length;
+    if (type !== 0x0001 && type !== 0xc001) continue;
+    const nameLength = view.getUint16(body);
+    if (type === 0xc001) {
+      if (colors.length === 0 && nameLength > 1) {
+        name = String.fromCharCode(...Array.from({ length: nameLength - 1 }, (_, i) => view.getUint16(body + 2 + i * 2)));
+      }
+      continue;
+    }
+    const modelOffset = body + 2 + nameLength * 2;
+    const model = String.fromCharCode(...bytes.subarray(modelOffset, modelOffset + 4));
+    const channel = (i: number) => view.getFloat32(modelOffset + 4 + i * 4);
+    if (model === 'RGB ') colors.push(rgbaToHex(unit(channel(0)), unit(channel(1)), unit(channel(2))));
+    else if (model === 'Gray') colors.push(rgbaToHex(unit(channel(0)), unit(channel(0)), unit(channel(0))));
+    else if (model === 'CMYK') {
+      const k = 1 - channel(3);
+      colors.push(rgbaToHex(unit((1 - channel(0)) * k), unit((1 - channel(1)) * k), unit((1 - channel(2)) * k)));
+    } else if (model === 'LAB ') {
+      const [r, g, b] = cielabToRgb(channel(0) * 100, channel(1), channel(2));
+      colors.push(rgbaToHex(r, g, b));
+    }
+  }
+  return { name, colors };
+};
+
+/** Reads any of the supported palette files, or a RIFF .pal. Throws if the file is none of these or has no colors. */
+export const parsePaletteFile = (filename: string, bytes: Uint8Array): PaletteFile => {
+  const name = baseName(filename);
+  let palette: PaletteFile;
+  if (magic(bytes, 0, 'ASEF')) palette = parseAse(bytes, name);
+  else if (magic(bytes, 0, 'RIFF') && magic(bytes, 8, 'PAL ')) palette = parseRiffPal(bytes, name);
+  else {
+    const text = new TextDecoder().decode(bytes).replace(/^\uFEFF/, '');
+    const header = lines(text)[0] ?? '';
+    if (header.startsWith('GIMP Palette')) palette = parseGpl(text, name);
+    else if (header === 'JASC-PAL') palette = parseJascPal(text, name);
+    else if (header.startsWith(';') || PAINT_NET_LINE.test(header)) palette = parsePaintNet(text, name);
+    else if (HEX_LINE.test(header)) palette = parseHexList(text, name);
+    else throw new Error(`${filename} is not a palette format we can read (.gpl, .txt, .pal, .ase or .hex).`);
+  }
+  if (palette.colors.length === 0) throw new Error(`${filename} contains no colors.`);
+  return palette;
+};
+
+const writeAse = ({ name, colors }: PaletteFile): Uint8Array => {
+  const nameBlock = (text: string) => 2 + (text.length + 1) * 2;
+  const groupLength = nameBlock(name);
+  const colorLength = (i: number) => nameBlock(colors[i]) + 4 + 12 + 2;
+  const size = 12 + (6 + groupLength) + colors.reduce((sum, _, i) => sum + 6 + colorLength(i), 0) + 6;
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  const ascii = (text: string) => { for (const char of text) bytes[offset++] = char.charCodeAt(0); };
+  const utf16 = (text: string) => {
+    view.setUint16(offset, text.length + 1); offset += 2;
+    for (let i = 0; i < text.length; i++, offset += 2) view.setUint16(offset, text.charCodeAt(i));
+    offset += 2; // null terminator
+  };
+  const blockHeader = (type: number, length: number) => {
+    view.setUint16(offset, type);
+    view.setUint32(offset + 2, length);
+    offset += 6;
+  };
+
+  ascii('ASEF');
+  view.setUint16(offset, 1); view.setUint16(offset + 2, 0); view.setUint32(offset + 4, colors.length + 2); offset += 8;
+  blockHeader(0xc001, groupLength);
+  utf16(name);
+  colors.forEach((hex, i) => {
+    blockHeader(0x0001, colorLength(i));
+    utf16(hex);
+    ascii('RGB ');
+    hexToRgba(hex).slice(0, 3).forEach(c => { view.setFloat32(offset, c / 255); offset += 4; });
+    view.setUint16(offset, 2); offset += 2; // normal (not global or spot) color
+  });
+  blockHeader(0xc002, 0);
+  return bytes;
+};
+
+const channels = (hex: string) => hexToRgba(hex).slice(0, 3);
+
+/** Encodes a palette in one of the supported formats, ready to download. */
+export const writePaletteFile = (palette: PaletteFile, format: PaletteFormat): Blob => {
+  const { name, colors } = palette;
+  switch (format) {
+    case 'gpl':
+      return new Blob([[
+        'GIMP Palette', `Name: ${name}`, 'Columns: 8', '#',
+        ...colors.map(hex => `${channels(hex).map(c => String(c).padStart(3)).join(' ')}\t${hex}`),
+      ].join('\n') + '\n'], { type: 'text/plain' });
+    case 'paintnet':
+      return new Blob([[
+        ';paint.net Palette File', `;Palette Name: ${name}`, `;Colors: ${colors.length}`,
+        ...colors.map(hex => `FF${hex.slice(1).toUpperCase()}`),
+      ].join('\r\n') + '\r\n'], { type: 'text/plain' });
+    case 'jasc':
+      return new Blob([['JASC-PAL', '0100', String(colors.length), ...colors.map(hex => channels(hex).join(' '))].join('\r\n') + '\r\n'], { type: 'text/plain' });
+    case 'ase':
+      return new Blob([writeAse(palette)], { type: 'application/octet-stream' });
+    case 'hex':
+      return new Blob([colors.map(hex => hex.slice(1)).join('\n') + '\n'], { type: 'text/plain' });
+  }
+};
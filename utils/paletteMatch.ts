@@ -0,0 +1,202 @@
+import { hexToRgba, rgbaToHex } from './color';
+
+// PERCEPTUAL PALETTE MATCHING
+// Maps pixels onto a fixed palette by distance in a perceptual color space, optionally dithered.
+// Plain RGB distance picks muddy greys for saturated colors; CIELAB and OKLab track what the eye sees.
+
+export type ColorSpace = 'rgb' | 'cielab' | 'oklab';
+export type Dithering = 'none' | 'ordered' | 'floyd-steinberg';
+
+export interface PaletteMatchOptions {
+  colorSpace: ColorSpace;
+  dithering: Dithering;
+  ditherStrength: number; // 0..1
+}
+
+export const DEFAULT_PALETTE_MATCH_OPTIONS: PaletteMatchOptions = {
+  colorSpace: 'oklab',
+  dithering: 'none',
+  ditherStrength: 0.5,
+};
+
+export const COLOR_SPACES: { colorSpace: ColorSpace; label: string }[] = [
+  { colorSpace: 'oklab', label: 'OKLab' },
+  { colorSpace: 'cielab', label: 'CIELAB' },
+  { colorSpace: 'rgb', label: 'RGB' },
+];
+
+export const DITHERINGS: { dithering: Dithering; label: string }[] = [
+  { dithering: 'none', label: 'None' },
+  { dithering: 'ordered', label: 'Ordered (Bayer)' },
+  { dithering: 'floyd-steinberg', label: 'Floyd–Steinberg' },
+];
+
+type Vec3 = [number, number, number];
+
+const srgbToLinear = (c: number) => {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+// D65 white point
+const labF = (t: number) => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+
+const rgbToCielab = (r: number, g: number, b: number): Vec3 => {
+  const lr = srgbToLinear(r), lg = srgbToLinear(g), lb = srgbToLinear(b);
+  const x = labF((0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047);
+  const y = labF(0.2126 * lr + 0.7152 * lg + 0.0722 * lb);
+  const z = labF((0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883);
+  return [116 * y - 16, 500 * (x - y), 200 * (y - z)];
+};
+
+const rgbToOklab = (r: number, g: number, b: number): Vec3 => {
+  const lr = srgbToLinear(r), lg = srgbToLinear(g), lb = srgbToLinear(b);
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+  return [
+    0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s,
+  ];
+};
+
+const linearToSrgb = (v: number) => {
+  const c = v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+  return Math.max(0, Math.min(255, Math.round(c * 255)));
+};
+
+const linearToRgb = (lr: number, lg: number, lb: number): Vec3 => [linearToSrgb(lr), linearToSrgb(lg), linearToSrgb(lb)];
+
+const labFInverse = (t: number) => t ** 3 > 216 / 24389 ? t ** 3 : (116 * t - 16) / (24389 / 27);
+
+export const cielabToRgb = (l: number, a: number, b: number): Vec3 => {
+  const fy = (l + 16) / 116;
+  const x = labFInverse(fy + a / 500) * 0.95047, y = labFInverse(fy), z = labFInverse(fy - b / 200) * 1.08883;
+  return linearToRgb(
+    3.2406 * x - 1.5372 * y - 0.4986 * z,
+    -0.9689 * x + 1.8758 * y + 0.0415 * z,
+    0.0557 * x - 0.2040 * y + 1.0570 * z,
+  );
+};
+
+const oklabToRgb = (L: number, a: number, b: number): Vec3 => {
+  const l = (L + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m = (L - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s = (L - 0.0894841775 * a - 1.2914855480 * b) ** 3;
+  return linearToRgb(
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s,
+  );
+};
+
+/** `steps` colors evenly spaced in OKLab between two colors, not including the two ends. */
+export const createRamp = (from: string, to: string, steps: number): string[] => {
+  const [r1, g1, b1] = hexToRgba(from), [r2, g2, b2] = hexToRgba(to);
+  const start = rgbToOklab(r1, g1, b1), end = rgbToOklab(r2, g2, b2);
+  return Array.from({ length: steps }, (_, i) => {
+    const t = (i + 1) / (steps + 1);
+    const [r, g, b] = oklabToRgb(...start.map((v, k) => v + (end[k] - v) * t) as Vec3);
+    return rgbaToHex(r, g, b);
+  });
+};
+
+const CONVERTERS: Record<ColorSpace, (r: number, g: number, b: number) => Vec3> = {
+  rgb: (r, g, b) => [r, g, b],
+  cielab: rgbToCielab,
+  oklab: rgbToOklab,
+};
+
+const BAYER_4X4 = [
+  0, 8, 2, 10,
+  12, 4, 14, 6,
+  3, 11, 1, 9,
+  15, 7, 13, 5,
+];
+
+/** Returns a matcher from an RGB color to the index of the nearest palette color. Results are cached per color. */
+export const createPaletteMatcher = (palette: string[], colorSpace: ColorSpace) => {
+  const convert = CONVERTERS[colorSpace];
+  const points = palette.map(hex => {
+    const [r, g, b] = hexToRgba(hex);
+    return convert(r, g, b);
+  });
+  const cache = new Map<number, number>();
+  return (r: number, g: number, b: number): number => {
+    const key = (r << 16) | (g << 8) | b;
+    const cached = cache.get(key);
+    if (cached !== undefined) return cached;
+    const [x, y, z] = convert(r, g, b);
+    let best = 0, bestDistance = Infinity;
+    points.forEach(([px, py, pz], i) => {
+      const distance = (x - px) ** 2 + (y - py) ** 2 + (z - pz) ** 2;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    });
+    cache.set(key, best);
+    return best;
+  };
+};
+
+// Typical RGB gap between neighbouring palette colors; ordered dithering spreads its threshold over it.
+const paletteSpread = (colors: [number, number, number, number][]) => {
+  if (colors.length < 2) return 0;
+  const gaps = colors.map((a, i) => Math.min(...colors.filter((_, j) => j !== i).map(b => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]))));
+  return gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length;
+};
+
+const clampByte = (v: number) => v < 0 ? 0 : v > 255 ? 255 : Math.round(v);
+
+/**
+ * Replaces every opaque pixel with a palette color, in place. Alpha is thresholded to fully on/off,
+ * like snapToPalette. Error diffusion skips transparent pixels so outlines don't bleed into the background.
+ */
+export const enforcePalette = (imageData: ImageData, palette: string[], options: PaletteMatchOptions) => {
+  if (palette.length === 0) return;
+  const colors = palette.map(hexToRgba);
+  const match = createPaletteMatcher(palette, options.colorSpace);
+  const { width, height, data } = imageData;
+  const strength = Math.max(0, Math.min(1, options.ditherStrength));
+  const spread = options.dithering === 'ordered' ? paletteSpread(colors) * strength : 0;
+  // Floyd–Steinberg works on a float copy so the diffused error isn't rounded away.
+  const work = options.dithering === 'floyd-steinberg' ? Float32Array.from(data) : null;
+
+  const diffuse = (x: number, y: number, er: number, eg: number, eb: number, weight: number) => {
+    if (!work || x < 0 || x >= width || y >= height) return;
+    const j = (y * width + x) * 4;
+    if (data[j + 3] < 128) return;
+    work[j] += er * weight;
+    work[j + 1] += eg * weight;
+    work[j + 2] += eb * weight;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (data[i + 3] < 128) {
+        data[i + 3] = 0;
+        continue;
+      }
+      let r = work ? work[i] : data[i], g = work ? work[i + 1] : data[i + 1], b = work ? work[i + 2] : data[i + 2];
+      if (spread > 0) {
+        const offset = ((BAYER_4X4[(y % 4) * 4 + (x % 4)] + 0.5) / 16 - 0.5) * spread;
+        r += offset; g += offset; b += offset;
+      }
+      const best = colors[match(clampByte(r), clampByte(g), clampByte(b))];
+      if (work) {
+        const er = (r - best[0]) * strength, eg = (g - best[1]) * strength, eb = (b - best[2]) * strength;
+        diffuse(x + 1, y, er, eg, eb, 7 / 16);
+        diffuse(x - 1, y + 1, er, eg, eb, 3 / 16);
+        diffuse(x, y + 1, er, eg, eb, 5 / 16);
+        diffuse(x + 1, y + 1, er, eg, eb, 1 / 16);
+      }
+      data[i] = best[0];
+      data[i + 1] = best[1];
+      data[i + 2] = best[2];
+      data[i + 3] = 255;
+    }
+  }
+};
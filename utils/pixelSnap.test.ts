@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { createCanvas } from './canvas';
+import { downsampleToGrid, downsampleToSize, estimatePixelGrid, removeBackground, snapToPixelGrid } from './pixelSnap';
+
+const SPRITE = 10;
+const COLORS = [[200, 0, 0, 255], [0, 200, 0, 255], [0, 0, 200, 255], [200, 200, 0, 255]];
+// Neighbouring sprite pixels always differ, so every grid line is an edge.
+const spriteColor = (x: number, y: number) => COLORS[(x + 2 * y) % COLORS.length];
+
+// The sprite blown up to `size` x `size` pseudo-pixels starting at `phase`, on a transparent margin,
+// with +-`noise` of deterministic jitter on every channel the way generated images come out.
+const upscale = (size: number, phase: { x: number; y: number }, noise = 0) => {
+  const width = phase.x + SPRITE * size + 1;
+  const height = phase.y + SPRITE * size + 1;
+  const image = new ImageData(width, height);
+  let seed = 7;
+  const jitter = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return noise === 0 ? 0 : (seed % (noise * 2 + 1)) - noise;
+  };
+  for (let y = 0; y < SPRITE * size; y++) {
+    for (let x = 0; x < SPRITE * size; x++) {
+      const color = spriteColor(Math.floor(x / size), Math.floor(y / size));
+      const i = ((phase.y + y) * width + phase.x + x) * 4;
+      color.forEach((v, c) => { image.data[i + c] = c === 3 ? v : v + jitter(); });
+    }
+  }
+  return image;
+};
+
+const pixels = (image: ImageData) => Array.from({ length: image.width * image.height }, (_, p) => Array.from(image.data.subarray(p * 4, p * 4 + 4)));
+const expectedSprite = () => Array.from({ length: SPRITE * SPRITE }, (_, p) => spriteColor(p % SPRITE, Math.floor(p / SPRITE)));
+
+describe('estimatePixelGrid', () => {
+  it('finds the pixel size and grid phase of a noisy upscale', () => {
+    expect(estimatePixelGrid(upscale(5, { x: 2, y: 3 }, 6))).toEqual({ pixelSize: 5, phase: { x: 2, y: 3 } });
+    expect(estimatePixelGrid(upscale(4, { x: 0, y: 1 }, 6))).toEqual({ pixelSize: 4, phase: { x: 0, y: 1 } });
+  });
+
+  it('prefers the true pixel size over its multiples', () => {
+    expect(estimatePixelGrid(upscale(3, { x: 0, y: 0 })).pixelSize).toBe(3);
+  });
+
+  it('treats an image without a visible grid as 1:1', () => {
+    expect(estimatePixelGrid(new ImageData(40, 40))).toEqual({ pixelSize: 1, phase: { x: 0, y: 0 } });
+  });
+});
+
+describe('downsampling', () => {
+  it('takes one color per grid cell, dropping partial cells under half a pixel', () => {
+    const small = downsampleToGrid(upscale(5, { x: 2, y: 1 }), 5, { x: 2, y: 1 }, 'mode');
+    expect([small.width, small.height]).toEqual([SPRITE, SPRITE]);
+    expect(pixels(small)).toEqual(expectedSprite());
+  });
+
+  it('keeps a leading partial cell of at least half a pixel', () => {
+    const small = downsampleToGrid(upscale(4, { x: 2, y: 0 }), 4, { x: 2, y: 0 }, 'median');
+    expect([small.width, small.height]).toEqual([SPRITE + 1, SPRITE]);
+    expect(pixels(small)[0]).toEqual([0, 0, 0, 0]);
+    expect(pixels(small)[1]).toEqual(spriteColor(0, 0));
+  });
+
+  it('ignores noise in both sampling modes', () => {
+    const image = upscale(6, { x: 0, y: 0 }, 5);
+    (['mode', 'median'] as const).forEach(sampling => {
+      const small = pixels(downsampleToGrid(image, 6, { x: 0, y: 0 }, sampling));
+      small.slice(0, SPRITE).forEach((color, x) => color.forEach((v, c) => expect(Math.abs(v - spriteColor(x, 0)[c])).toBeLessThanOrEqual(5)));
+    });
+  });
+
+  it('samples onto a fixed size, including the last row and column', () => {
+    const small = downsampleToSize(upscale(5, { x: 0, y: 0 }), SPRITE, SPRITE, 'mode');
+    expect(pixels(small)).toEqual(expectedSprite());
+  });
+});
+
+describe('removeBackground', () => {
+  it('clears the border-connected background and keeps enclosed pixels of the same color', () => {
+    const image = new ImageData(5, 5);
+    const fill = (x: number, y: number, rgba: number[]) => image.data.set(rgba, (y * 5 + x) * 4);
+    for (let p = 0; p < 25; p++) fill(p % 5, Math.floor(p / 5), [250, 250, 250, 255]);
+    [[1, 1], [2, 1], [3, 1], [1, 2], [3, 2], [1, 3], [2, 3], [3, 3]].forEach(([x, y]) => fill(x, y, [0, 0, 0, 255]));
+    removeBackground(image);
+    const alpha = pixels(image).map(rgba => rgba[3]);
+    expect(alpha).toEqual([
+      0, 0, 0, 0, 0,
+      0, 255, 255, 255, 0,
+      0, 255, 255, 255, 0,
+      0, 255, 255, 255, 0,
+      0, 0, 0, 0, 0,
+    ]);
+  });
+});
+
+describe('snapToPixelGrid', () => {
+  it('recovers the sprite from a noisy upscale and reports the grid it used', () => {
+    const image = upscale(5, { x: 2, y: 1 }, 6);
+    const source = createCanvas(image.width, image.height);
+    source.getContext('2d')!.putImageData(image, 0, 0);
+    const result = snapToPixelGrid(source, { pixelSize: 0, sampling: 'mode', colors: 4, removeBackground: false });
+    expect(result).toMatchObject({ pixelSize: 5, phase: { x: 2, y: 1 } });
+    expect([result.canvas.width, result.canvas.height]).toEqual([SPRITE, SPRITE]);
+    const snapped = pixels(result.canvas.getContext('2d')!.getImageData(0, 0, SPRITE, SPRITE));
+    snapped.forEach((color, p) => color.forEach((v, c) => expect(Math.abs(v - expectedSprite()[p][c])).toBeLessThanOrEqual(4)));
+    expect(new Set(snapped.map(String)).size).toBe(4);
+  });
+});
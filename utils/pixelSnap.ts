@@ -0,0 +1,219 @@
+import { createCanvas } from './canvas';
+import { quantizeColors, snapToPalette } from './color';
+
+// PIXEL SNAP ("de-AI-ify")
+// Generated "pixel art" is a high-resolution image of pseudo-pixels that drift off-grid and carry
+// noisy colors. This recovers the real sprite: find the pixel size and grid phase from where color
+// edges line up, take one representative color per grid cell, then quantize to a small palette.
+
+export type CellSampling = 'mode' | 'median';
+
+export interface PixelSnapOptions {
+  pixelSize: number; // 0 = estimate
+  sampling: CellSampling;
+  colors: number; // 0 = keep sampled colors
+  removeBackground: boolean;
+}
+
+export interface PixelSnapResult {
+  canvas: HTMLCanvasElement;
+  pixelSize: number;
+  phase: { x: number; y: number };
+}
+
+export const DEFAULT_PIXEL_SNAP_OPTIONS: PixelSnapOptions = {
+  pixelSize: 0,
+  sampling: 'mode',
+  colors: 16,
+  removeBackground: false,
+};
+
+const MAX_PIXEL_SIZE = 64;
+// A smaller size wins when it scores at least this fraction of the best one; multiples of the
+// true pixel size line up with the same edges and would otherwise tie with it.
+const HARMONIC_TOLERANCE = 0.85;
+// Combined x + y score below which no grid is visible (1.0 per axis means "no stronger than average").
+const MIN_GRID_SCORE = 2.4;
+const BACKGROUND_TOLERANCE = 40 * 40;
+
+// Summed color difference between each column (or row) and the previous one.
+const edgeProfile = (imageData: ImageData, axis: 'x' | 'y'): Float64Array => {
+  const { width, height, data } = imageData;
+  const length = axis === 'x' ? width : height;
+  const profile = new Float64Array(length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const along = axis === 'x' ? x : y;
+      if (along === 0) continue;
+      const i = (y * width + x) * 4;
+      const j = axis === 'x' ? i - 4 : i - width * 4;
+      profile[along] += Math.abs(data[i] - data[j]) + Math.abs(data[i + 1] - data[j + 1])
+        + Math.abs(data[i + 2] - data[j + 2]) + Math.abs(data[i + 3] - data[j + 3]);
+    }
+  }
+  return profile;
+};
+
+// Best phase for a pixel size, scored as how much stronger the edges on that grid are than average.
+const scoreSize = (profile: Float64Array, size: number) => {
+  const mean = profile.reduce((sum, v) => sum + v, 0) / profile.length || 1;
+  let best = { phase: 0, score: -Infinity };
+  for (let phase = 0; phase < size; phase++) {
+    let sum = 0, count = 0;
+    for (let i = phase === 0 ? size : phase; i < profile.length; i += size) {
+      sum += profile[i];
+      count++;
+    }
+    const score = count > 0 ? sum / count / mean : 0;
+    if (score > best.score) best = { phase, score };
+  }
+  return best;
+};
+
+export const estimatePixelGrid = (imageData: ImageData): { pixelSize: number; phase: { x: number; y: number } } => {
+  const px = edgeProfile(imageData, 'x');
+  const py = edgeProfile(imageData, 'y');
+  const maxSize = Math.max(2, Math.min(MAX_PIXEL_SIZE, Math.floor(Math.min(imageData.width, imageData.height) / 8)));
+
+  const candidates: { size: number; score: number; phase: { x: number; y: number } }[] = [];
+  for (let size = 2; size <= maxSize; size++) {
+    const sx = scoreSize(px, size);
+    const sy = scoreSize(py, size);
+    candidates.push({ size, score: sx.score + sy.score, phase: { x: sx.phase, y: sy.phase } });
+  }
+  const bestScore = Math.max(...candidates.map(c => c.score));
+  // Without a visible grid the image is treated as already 1:1.
+  if (bestScore < MIN_GRID_SCORE) return { pixelSize: 1, phase: { x: 0, y: 0 } };
+  const chosen = candidates.find(c => c.score >= bestScore * HARMONIC_TOLERANCE)!;
+  return { pixelSize: chosen.size, phase: chosen.phase };
+};
+
+// Representative color of a cell. The outer ring is skipped on larger cells, where anti-aliasing lives.
+const sampleCell = (imageData: ImageData, x0: number, y0: number, x1: number, y1: number, sampling: CellSampling) => {
+  const { width, data } = imageData;
+  const inset = x1 - x0 >= 4 && y1 - y0 >= 4 ? 1 : 0;
+  const pixels: number[] = [];
+  for (let y = y0 + inset; y < y1 - inset; y++) {
+    for (let x = x0 + inset; x < x1 - inset; x++) pixels.push((y * width + x) * 4);
+  }
+  if (pixels.length === 0) return [0, 0, 0, 0];
+
+  if (sampling === 'median') {
+    return [0, 1, 2, 3].map(c => {
+      const values = pixels.map(i => data[i + c]).sort((a, b) => a - b);
+      return values[values.length >> 1];
+    });
+  }
+
+  // Mode over coarse color buckets, averaged within the winning bucket so noise doesn't pick the color.
+  const buckets = new Map<number, number[]>();
+  pixels.forEach(i => {
+    const key = ((data[i] >> 4) << 12) | ((data[i + 1] >> 4) << 8) | ((data[i + 2] >> 4) << 4) | (data[i + 3] >> 4);
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(i); else buckets.set(key, [i]);
+  });
+  let winner: number[] = [];
+  buckets.forEach(bucket => { if (bucket.length > winner.length) winner = bucket; });
+  return [0, 1, 2, 3].map(c => Math.round(winner.reduce((sum, i) => sum + data[i + c], 0) / winner.length));
+};
+
+export const downsampleToGrid = (
+  imageData: ImageData, pixelSize: number, phase: { x: number; y: number }, sampling: CellSampling
+): ImageData => {
+  // Cells start at the phase; a partial cell before it is kept when it's at least half a pixel wide.
+  const starts = (length: number, offset: number) => {
+    const list: number[] = [];
+    if (offset * 2 >= pixelSize) list.push(0);
+    for (let s = offset; s + pixelSize / 2 <= length; s += pixelSize) list.push(s);
+    return list;
+  };
+  const xs = starts(imageData.width, phase.x);
+  const ys = starts(imageData.height, phase.y);
+  const out = new ImageData(Math.max(1, xs.length), Math.max(1, ys.length));
+  ys.forEach((y0, row) => {
+    const y1 = Math.min(imageData.height, row + 1 < ys.length ? ys[row + 1] : y0 + pixelSize);
+    xs.forEach((x0, col) => {
+      const x1 = Math.min(imageData.width, col + 1 < xs.length ? xs[col + 1] : x0 + pixelSize);
+      out.data.set(sampleCell(imageData, x0, y0, x1, y1, sampling), (row * out.width + col) * 4);
+    });
+  });
+  return out;
+};
+
+/** Samples the image onto a fixed grid of width x height cells, e.g. a target sprite size; cells may be fractional. */
+export const downsampleToSize = (imageData: ImageData, width: number, height: number, sampling: CellSampling): ImageData => {
+  const out = new ImageData(width, height);
+  const edge = (i: number, cells: number, length: number) => Math.round(i * length / cells);
+  for (let row = 0; row < height; row++) {
+    const y0 = Math.min(imageData.height - 1, edge(row, height, imageData.height));
+    const y1 = Math.max(y0 + 1, edge(row + 1, height, imageData.height));
+    for (let col = 0; col < width; col++) {
+      const x0 = Math.min(imageData.width - 1, edge(col, width, imageData.width));
+      const x1 = Math.max(x0 + 1, edge(col + 1, width, imageData.width));
+      out.data.set(sampleCell(imageData, x0, y0, x1, y1, sampling), (row * width + col) * 4);
+    }
+  }
+  return out;
+};
+
+// Flood-fills from the border through pixels close to the dominant border color and clears them.
+export const removeBackground = (imageData: ImageData) => {
+  const { width, height, data } = imageData;
+  const border: number[] = [];
+  for (let x = 0; x < width; x++) border.push(x, (height - 1) * width + x);
+  for (let y = 0; y < height; y++) border.push(y * width, y * width + width - 1);
+
+  const counts = new Map<number, number>();
+  border.forEach(p => {
+    const i = p * 4;
+    const key = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  let background = 0, bestCount = 0;
+  counts.forEach((count, key) => { if (count > bestCount) { bestCount = count; background = key; } });
+  const [br, bg, bb] = [(background >> 16) & 0xFF, (background >> 8) & 0xFF, background & 0xFF];
+
+  const visited = new Uint8Array(width * height);
+  const stack = border.filter(p => {
+    const i = p * 4;
+    const dr = data[i] - br, dg = data[i + 1] - bg, db = data[i + 2] - bb;
+    return dr * dr + dg * dg + db * db <= BACKGROUND_TOLERANCE;
+  });
+  while (stack.length > 0) {
+    const p = stack.pop()!;
+    if (visited[p]) continue;
+    visited[p] = 1;
+    const i = p * 4;
+    const dr = data[i] - br, dg = data[i + 1] - bg, db = data[i + 2] - bb;
+    if (data[i + 3] > 0 && dr * dr + dg * dg + db * db > BACKGROUND_TOLERANCE) continue;
+    data[i + 3] = 0;
+    const x = p % width, y = Math.floor(p / width);
+    if (x > 0) stack.push(p - 1);
+    if (x < width - 1) stack.push(p + 1);
+    if (y > 0) stack.push(p - width);
+    if (y < height - 1) stack.push(p + width);
+  }
+};
+
+export const snapToPixelGrid = (
+  image: CanvasImageSource & { width: number; height: number }, options: PixelSnapOptions
+): PixelSnapResult => {
+  const source = createCanvas(image.width, image.height);
+  const sourceCtx = source.getContext('2d', { willReadFrequently: true })!;
+  sourceCtx.drawImage(image, 0, 0);
+  const sourceData = sourceCtx.getImageData(0, 0, source.width, source.height);
+
+  const estimate = estimatePixelGrid(sourceData);
+  const pixelSize = options.pixelSize > 0 ? options.pixelSize : estimate.pixelSize;
+  const phase = options.pixelSize > 0
+    ? { x: scoreSize(edgeProfile(sourceData, 'x'), pixelSize).phase, y: scoreSize(edgeProfile(sourceData, 'y'), pixelSize).phase }
+    : estimate.phase;
+
+  const small = pixelSize > 1 ? downsampleToGrid(sourceData, pixelSize, phase, options.sampling) : sourceData;
+  if (options.removeBackground) removeBackground(small);
+  if (options.colors > 0) snapToPalette(small, quantizeColors(small, options.colors));
+
+  const canvas = createCanvas(small.width, small.height);
+  canvas.getContext('2d')!.putImageData(small, 0, 0);
+  return { canvas, pixelSize, phase };
+};
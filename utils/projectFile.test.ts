@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'vitest';
+import type { AnimationTag, Frame, Layer } from '../components/Editor';
+import { createCanvas } from './canvas';
+import { TRANSPARENT_INDEX, indexCanvas, syncIndices } from './indexedColor';
+import { compositeFrame, createEmptyCel, createLayer, isEmptyCel, storedIndices } from './layers';
+import { DEFAULT_ONION_SKIN } from './onionSkin';
+import { PROJECT_FORMAT, PROJECT_VERSION, ProjectDocument, ProjectSettings, parseProject, serializeProject } from './projectFile';
+
+const WIDTH = 16;
+const HEIGHT = 12;
+
+const SETTINGS: ProjectSettings = {
+  primaryColor: '#ff0000', secondaryColor: '#0000ff', brushSize: 2, fps: 12, showGrid: true, showOnionSkin: true,
+  onionSkin: { ...DEFAULT_ONION_SKIN, before: 2, after: 1, tint: true }, symmetryMode: 'horizontal',
+};
+
+const TAGS: AnimationTag[] = [{ id: 'walk', name: 'Walk', from: 0, to: 2, direction: 'ping-pong', repeat: 3, color: '#4ade80' }];
+
+const paint = (layer: Layer, color: string, x: number, y: number, w: number, h: number) => {
+  layer.context.fillStyle = color;
+  layer.context.fillRect(x, y, w, h);
+  return layer;
+};
+
+const render = (frame: Frame) => {
+  const ctx = createCanvas(WIDTH, HEIGHT).getContext('2d')!;
+  compositeFrame(ctx, frame, WIDTH, HEIGHT);
+  return Array.from(ctx.getImageData(0, 0, WIDTH, HEIGHT).data);
+};
+
+const pngOf = (color: string) => paint(createLayer('', '', WIDTH, HEIGHT), color, 2, 2, 5, 4).canvas.toDataURL('image/png');
+
+// Three frames of three layers: a background linked from frame 1 into frame 2, a translucent
+// multiply layer with per-frame offsets (its frame 1 cel linked into frame 3) and a hidden sketch.
+const makeDocument = (): ProjectDocument => {
+  const background = paint(createLayer('bg', 'Background', WIDTH, HEIGHT), '#336699', 0, 0, WIDTH, HEIGHT);
+  paint(background, '#ffffff', 4, 4, 2, 2);
+  const shadeProps = { opacity: 0.6, blendMode: 'multiply' as GlobalCompositeOperation };
+  const shade = { ...paint(createLayer('shade', 'Shade', WIDTH, HEIGHT), '#ffcc00', 1, 1, 6, 6), ...shadeProps, offset: { x: 3, y: 2 } };
+  const shadeStep = { ...paint(createLayer('shade', 'Shade', WIDTH, HEIGHT), '#cc3300', 5, 3, 4, 7), ...shadeProps, offset: { x: -2, y: 1 } };
+  const sketch = { ...paint(createLayer('sketch', 'Sketch', WIDTH, HEIGHT), '#000000', 0, 0, 8, 8), isVisible: false };
+  const sketchLast = { ...paint(createLayer('sketch', 'Sketch', WIDTH, HEIGHT), '#00ff00', 8, 4, 8, 8), isVisible: false };
+  return {
+    width: WIDTH,
+    height: HEIGHT,
+    frames: [
+      { id: 'f1', name: 'idle', duration: 100, layers: [background, shade, sketch] },
+      { id: 'f2', name: 'step', duration: 150, layers: [{ ...background }, shadeStep, { ...createEmptyCel('sketch', 'Sketch', WIDTH, HEIGHT), isVisible: false }] },
+      { id: 'f3', duration: 80, layers: [createEmptyCel('bg', 'Background', WIDTH, HEIGHT), { ...shade, offset: { x: 0, y: 0 } }, sketchLast] },
+    ],
+    currentFrameIndex: 1,
+    tags: TAGS,
+    palette: ['#336699', '#ffcc00', '#cc3300'],
+    colorMode: 'rgba',
+    settings: SETTINGS,
+  };
+};
+
+describe('project round trip', () => {
+  it('renders every frame identically after saving and opening', async () => {
+    const doc = makeDocument();
+    const loaded = await parseProject(serializeProject(doc));
+    expect(loaded.frames).toHaveLength(doc.frames.length);
+    doc.frames.forEach((frame, i) => expect(render(loaded.frames[i])).toEqual(render(frame)));
+  });
+
+  it('keeps frames, layer properties, links and empty cels', async () => {
+    const doc = makeDocument();
+    const { frames } = await parseProject(serializeProject(doc));
+
+    expect(frames.map(f => [f.id, f.name, f.duration])).toEqual([['f1', 'idle', 100], ['f2', 'step', 150], ['f3', undefined, 80]]);
+    frames.forEach((frame, f) => frame.layers.forEach((layer, i) => {
+      const { id, name, isVisible, opacity, blendMode, offset } = doc.frames[f].layers[i];
+      expect(layer).toMatchObject({ id, name, isVisible, opacity, blendMode, offset });
+    }));
+
+    expect(frames[1].layers[0].canvas).toBe(frames[0].layers[0].canvas);
+    expect(frames[2].layers[1].canvas).toBe(frames[0].layers[1].canvas);
+    expect(frames[1].layers[1].canvas).not.toBe(frames[0].layers[1].canvas);
+    expect(isEmptyCel(frames[1].layers[2])).toBe(true);
+    expect(isEmptyCel(frames[2].layers[0])).toBe(true);
+    expect(isEmptyCel(frames[0].layers[0])).toBe(false);
+  });
+
+  it('keeps the document settings', async () => {
+    const loaded = await parseProject(serializeProject({ ...makeDocument(), colorMode: 'indexed' }));
+    expect(loaded).toMatchObject({
+      width: WIDTH, height: HEIGHT, currentFrameIndex: 1, tags: TAGS, palette: ['#336699', '#ffcc00', '#cc3300'], colorMode: 'indexed', settings: SETTINGS,
+    });
+  });
+
+  it('keeps the palette indices of indexed documents, including entries that share a color', async () => {
+    const palette = ['#336699', '#ffffff', '#ffcc00', '#336699'];
+    const doc = { ...makeDocument(), palette, colorMode: 'indexed' as const };
+    const [background, shade] = doc.frames[0].layers;
+    indexCanvas(background.canvas, palette);
+    const shadeIndices = Array.from(indexCanvas(shade.canvas, palette));
+    expect([shadeIndices[0], shadeIndices[WIDTH + 1]]).toEqual([TRANSPARENT_INDEX, 2]);
+    paint(background, '#336699', 4, 4, 1, 1); // over the white spot, as entry 3
+    syncIndices(background.canvas, palette, [3]);
+    const before = Array.from(storedIndices(background.canvas)!);
+    expect([before[0], before[4 * WIDTH + 4], before[4 * WIDTH + 5]]).toEqual([0, 3, 1]);
+
+    const { frames } = await parseProject(serializeProject(doc));
+    expect(Array.from(storedIndices(frames[0].layers[0].canvas)!)).toEqual(before);
+    expect(Array.from(storedIndices(frames[2].layers[1].canvas)!)).toEqual(shadeIndices);
+  });
+
+  it('stores no indices for RGBA documents', async () => {
+    const doc = makeDocument();
+    indexCanvas(doc.frames[0].layers[0].canvas, doc.palette);
+    const { frames } = await parseProject(serializeProject(doc));
+    expect(storedIndices(frames[0].layers[0].canvas)).toBeUndefined();
+  });
+});
+
+describe('project migrations', () => {
+  const legacyLayer = (id: string, name: string, png: string) => ({
+    id, name, isVisible: true, opacity: 1, blendMode: 'source-over', offset: { x: 0, y: 0 }, png,
+  });
+  const { onionSkin, ...legacySettings } = SETTINGS;
+
+  // Versions 1 to 3 gave every frame's layers their own ids and stored every cel as a PNG.
+  const legacyProject = (version: number): any => ({
+    format: PROJECT_FORMAT,
+    version,
+    width: WIDTH,
+    height: HEIGHT,
+    currentFrameIndex: 0,
+    frames: [
+      { id: 'f1', duration: 100, layers: [legacyLayer('a1', 'Base', pngOf('#ff0000')), legacyLayer('b1', 'Top', pngOf('#00ff00'))] },
+      { id: 'f2', duration: 200, layers: [legacyLayer('a2', 'Base', pngOf('#0000ff')), legacyLayer('b2', 'Top', pngOf('#ffff00'))] },
+    ],
+    palette: [],
+    settings: legacySettings,
+    ...(version >= 2 && { tags: TAGS }),
+    ...(version >= 3 && { colorMode: 'indexed' }),
+  });
+
+  const expectedRender = (color: string) => {
+    const layer = paint(createLayer('', '', WIDTH, HEIGHT), color, 2, 2, 5, 4);
+    return render({ id: '', duration: 100, layers: [layer] });
+  };
+
+  const expectCurrent = async (raw: any) => {
+    const loaded = await parseProject(JSON.stringify(raw));
+    expect(loaded.frames.map(render)).toEqual([expectedRender('#00ff00'), expectedRender('#ffff00')]);
+    expect(loaded.frames[1].layers.map(l => l.id)).toEqual(loaded.frames[0].layers.map(l => l.id));
+    expect(loaded.settings.onionSkin).toEqual(DEFAULT_ONION_SKIN);
+    return loaded;
+  };
+
+  it('upgrades v1: no tags and RGBA color', async () => {
+    const loaded = await expectCurrent(legacyProject(1));
+    expect(loaded.tags).toEqual([]);
+    expect(loaded.colorMode).toBe('rgba');
+  });
+
+  it('upgrades v2: keeps tags and adds RGBA color', async () => {
+    const loaded = await expectCurrent(legacyProject(2));
+    expect(loaded.tags).toEqual(TAGS);
+    expect(loaded.colorMode).toBe('rgba');
+  });
+
+  it('upgrades v3: matches layers across frames by stack position', async () => {
+    const loaded = await expectCurrent(legacyProject(3));
+    expect(loaded.colorMode).toBe('indexed');
+    expect(loaded.frames[0].layers.map(l => l.id)).toEqual(['a1', 'b1']);
+  });
+
+  it('upgrades v4: adds the default onion skin and keeps linked and empty cels', async () => {
+    const raw = legacyProject(4);
+    raw.frames[1].layers = [
+      { ...raw.frames[1].layers[0], id: 'a1', png: undefined, linkedFrame: 0 },
+      { ...raw.frames[1].layers[1], id: 'b1' },
+    ];
+    raw.frames[0].layers[1] = { ...raw.frames[0].layers[1], png: undefined };
+    const loaded = await parseProject(JSON.stringify(raw));
+    expect(loaded.settings.onionSkin).toEqual(DEFAULT_ONION_SKIN);
+    expect(loaded.frames[1].layers[0].canvas).toBe(loaded.frames[0].layers[0].canvas);
+    expect(isEmptyCel(loaded.frames[0].layers[1])).toBe(true);
+    expect(loaded.frames.map(render)).toEqual([expectedRender('#ff0000'), expectedRender('#ffff00')]);
+  });
+
+  it('upgrades v5: cels have no indices until they are edited', async () => {
+    const raw = { ...legacyProject(4), version: 5, settings: SETTINGS };
+    raw.frames.forEach((frame: any) => frame.layers[0].id = 'a1');
+    raw.frames.forEach((frame: any) => frame.layers[1].id = 'b1');
+    const loaded = await parseProject(JSON.stringify(raw));
+    expect(loaded.settings.onionSkin).toEqual(SETTINGS.onionSkin);
+    expect(loaded.frames.map(render)).toEqual([expectedRender('#00ff00'), expectedRender('#ffff00')]);
+    expect(storedIndices(loaded.frames[0].layers[0].canvas)).toBeUndefined();
+  });
+
+  it('rejects files from a newer version and files that are not projects', async () => {
+    await expect(parseProject(JSON.stringify({ ...legacyProject(3), version: PROJECT_VERSION + 1 }))).rejects.toThrow(/newer version/);
+    await expect(parseProject('{"format":"something-else","version":1}')).rejects.toThrow(/not a PixelArtPro project/);
+    await expect(parseProject('not json')).rejects.toThrow(/not a PixelArtPro project/);
+    await expect(parseProject(JSON.stringify({ ...legacyProject(1), version: 0 }))).rejects.toThrow(/No migration from project format v0/);
+  });
+});
@@ -0,0 +1,239 @@
+import type { AnimationTag, Frame, Layer, SymmetryMode } from '../components/Editor';
+import { createEmptyCel, createLayer, isEmptyCel, normalizeLayerStacks, storeIndices, storedIndices } from './layers';
+import { loadImage } from './canvas';
+import { ColorMode, TRANSPARENT_INDEX } from './indexedColor';
+import { DEFAULT_ONION_SKIN, OnionSkinSettings } from './onionSkin';
+
+// PROJECT FILES (.pxp)
+// A JSON container: document structure and settings as plain data, each cel as a PNG data URL.
+// Empty cels store no image and linked cels point at the first frame that holds their canvas.
+// Indexed documents also store each cel's palette indices, one base64 byte per pixel.
+
+export const PROJECT_FORMAT = 'pixelartpro-project';
+export const PROJECT_VERSION = 6;
+export const PROJECT_EXTENSION = '.pxp';
+
+export interface ProjectSettings {
+  primaryColor: string;
+  secondaryColor: string;
+  brushSize: number;
+  fps: number;
+  showGrid: boolean;
+  showOnionSkin: boolean;
+  onionSkin: OnionSkinSettings;
+  symmetryMode: SymmetryMode;
+}
+
+export interface ProjectDocument {
+  width: number;
+  height: number;
+  frames: Frame[];
+  currentFrameIndex: number;
+  tags: AnimationTag[];
+  palette: string[]; // in indexed mode, the palette the layers are painted in
+  colorMode: ColorMode;
+  settings: ProjectSettings;
+}
+
+interface SerializedLayer {
+  id: string;
+  name: string;
+  isVisible: boolean;
+  opacity: number;
+  blendMode: GlobalCompositeOperation;
+  offset: { x: number, y: number };
+  png?: string; // absent for empty and linked cels
+  indices?: string; // with png in indexed documents; transparent pixels read back from its alpha
+  linkedFrame?: number; // index of an earlier frame whose cel of this layer shares the canvas
+}
+
+interface SerializedFrame {
+  id: string;
+  name?: string;
+  duration: number;
+  layers: SerializedLayer[];
+}
+
+interface SerializedProject {
+  format: typeof PROJECT_FORMAT;
+  version: typeof PROJECT_VERSION;
+  width: number;
+  height: number;
+  currentFrameIndex: number;
+  frames: SerializedFrame[];
+  tags: AnimationTag[];
+  palette: string[];
+  colorMode: ColorMode;
+  settings: ProjectSettings;
+}
+
+// -- Older formats --
+// Each version as it was written, so a migration that drops or mistypes a field fails to compile.
+
+interface ProjectV1 {
+  format: typeof PROJECT_FORMAT;
+  version: 1;
+  width: number;
+  height: number;
+  currentFrameIndex: number;
+  // Every frame had its own layer ids and every cel a PNG.
+  frames: { id: string; name?: string; duration: number; layers: (Omit<SerializedLayer, 'png' | 'linkedFrame'> & { png: string })[] }[];
+  palette: string[];
+  settings: Omit<ProjectSettings, 'onionSkin'>;
+}
+
+interface ProjectV2 extends Omit<ProjectV1, 'version'> {
+  version: 2;
+  tags: AnimationTag[];
+}
+
+interface ProjectV3 extends Omit<ProjectV2, 'version'> {
+  version: 3;
+  colorMode: ColorMode;
+}
+
+interface ProjectV4 extends Omit<ProjectV3, 'version' | 'frames'> {
+  version: 4;
+  frames: SerializedFrame[];
+}
+
+interface ProjectV5 extends Omit<SerializedProject, 'version'> {
+  version: 5;
+}
+
+type VersionedProject = ProjectV1 | ProjectV2 | ProjectV3 | ProjectV4 | ProjectV5 | SerializedProject;
+
+// Each migration upgrades a project from version N to N + 1.
+const migrations = {
+  1: (raw: ProjectV1): ProjectV2 => ({ ...raw, version: 2, tags: [] }),
+  2: (raw: ProjectV2): ProjectV3 => ({ ...raw, version: 3, colorMode: 'rgba' }),
+  3: (raw: ProjectV3): ProjectV4 => ({ ...raw, version: 4 }), // layers were matched by stack position; parseProject unifies their ids
+  4: (raw: ProjectV4): ProjectV5 => ({ ...raw, version: 5, settings: { ...raw.settings, onionSkin: DEFAULT_ONION_SKIN } }),
+  5: (raw: ProjectV5): SerializedProject => ({ ...raw, version: 6 }), // cels without indices are indexed by color when edited
+};
+
+const upgrade = (project: VersionedProject): SerializedProject => {
+  switch (project.version) {
+    case 1: return upgrade(migrations[1](project));
+    case 2: return upgrade(migrations[2](project));
+    case 3: return upgrade(migrations[3](project));
+    case 4: return upgrade(migrations[4](project));
+    case 5: return upgrade(migrations[5](project));
+    case PROJECT_VERSION: return project;
+  }
+};
+
+export const migrateProject = (raw: unknown): SerializedProject => {
+  const header = raw as { format?: unknown; version?: unknown } | null;
+  if (!header || typeof header !== 'object' || header.format !== PROJECT_FORMAT || typeof header.version !== 'number') {
+    throw new Error("This file is not a PixelArtPro project.");
+  }
+  if (header.version > PROJECT_VERSION) {
+    throw new Error(`This project was saved by a newer version of PixelArtPro (format v${header.version}).`);
+  }
+  if (!Number.isInteger(header.version) || header.version < 1) throw new Error(`No migration from project format v${header.version}.`);
+  // Past the header, the contents are trusted to have the shape of their version.
+  return upgrade(raw as VersionedProject);
+};
+
+const encodeIndices = (indices: Uint16Array) => {
+  let binary = '';
+  indices.forEach(index => { binary += String.fromCharCode(index === TRANSPARENT_INDEX ? 0 : index); });
+  return btoa(binary);
+};
+
+const decodeIndices = (text: string, pixels: ImageData) => {
+  const binary = atob(text);
+  return Uint16Array.from({ length: pixels.width * pixels.height }, (_, p) => pixels.data[p * 4 + 3] === 0 ? TRANSPARENT_INDEX : binary.charCodeAt(p));
+};
+
+const serializeLayer = (layer: Layer, source: Pick<SerializedLayer, 'png' | 'indices' | 'linkedFrame'>): SerializedLayer => ({
+  id: layer.id,
+  name: layer.name,
+  isVisible: layer.isVisible,
+  opacity: layer.opacity,
+  blendMode: layer.blendMode,
+  offset: { ...layer.offset },
+  ...source,
+});
+
+const serializeFrames = (frames: Frame[], colorMode: ColorMode): SerializedFrame[] => {
+  const firstUse = new Map<HTMLCanvasElement, number>();
+  return frames.map((frame, index) => ({
+    id: frame.id,
+    name: frame.name,
+    duration: frame.duration,
+    layers: frame.layers.map(layer => {
+      if (isEmptyCel(layer)) return serializeLayer(layer, {});
+      const linkedFrame = firstUse.get(layer.canvas);
+      if (linkedFrame !== undefined) return serializeLayer(layer, { linkedFrame });
+      firstUse.set(layer.canvas, index);
+      const indices = colorMode === 'indexed' ? storedIndices(layer.canvas) : undefined;
+      return serializeLayer(layer, { png: layer.canvas.toDataURL('image/png'), indices: indices && encodeIndices(indices) });
+    }),
+  }));
+};
+
+export const serializeProject = (doc: ProjectDocument): string => {
+  const project: SerializedProject = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    width: doc.width,
+    height: doc.height,
+    currentFrameIndex: doc.currentFrameIndex,
+    frames: serializeFrames(doc.frames, doc.colorMode),
+    tags: doc.tags,
+    palette: doc.palette,
+    colorMode: doc.colorMode,
+    settings: doc.settings,
+  };
+  return JSON.stringify(project);
+};
+
+const deserializeLayer = async (raw: SerializedLayer, width: number, height: number): Promise<Layer> => {
+  const props = { isVisible: raw.isVisible, opacity: raw.opacity, blendMode: raw.blendMode, offset: { ...raw.offset } };
+  if (raw.png === undefined) return { ...createEmptyCel(raw.id, raw.name, width, height), ...props };
+  const layer = createLayer(raw.id, raw.name, width, height);
+  layer.context.drawImage(await loadImage(raw.png), 0, 0);
+  if (raw.indices !== undefined) storeIndices(layer.canvas, decodeIndices(raw.indices, layer.context.getImageData(0, 0, width, height)));
+  return { ...layer, ...props };
+};
+
+// Linked cels are loaded empty above and pick up their canvas here, once every frame is loaded.
+const resolveLinks = (raw: SerializedFrame[], frames: Frame[]) => frames.map((frame, f) => ({
+  ...frame,
+  layers: frame.layers.map((layer, i) => {
+    const linkedFrame = raw[f].layers[i].linkedFrame;
+    const source = linkedFrame !== undefined && linkedFrame < f ? frames[linkedFrame].layers.find(l => l.id === layer.id) : undefined;
+    return source ? { ...layer, canvas: source.canvas, context: source.context } : layer;
+  }),
+}));
+
+export const parseProject = async (text: string): Promise<ProjectDocument> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not a PixelArtPro project.");
+  }
+  const project = migrateProject(raw);
+  const loaded: Frame[] = await Promise.all(project.frames.map(async frame => ({
+    id: frame.id,
+    name: frame.name,
+    duration: frame.duration,
+    layers: await Promise.all(frame.layers.map(layer => deserializeLayer(layer, project.width, project.height))),
+  })));
+  if (loaded.length === 0) throw new Error("Project contains no frames.");
+  const frames = normalizeLayerStacks(resolveLinks(project.frames, loaded), project.width, project.height);
+
+  return {
+    width: project.width,
+    height: project.height,
+    frames,
+    currentFrameIndex: Math.min(project.currentFrameIndex, frames.length - 1),
+    tags: project.tags,
+    palette: project.palette,
+    colorMode: project.colorMode,
+    settings: project.settings,
+  };
+};
@@ -0,0 +1,161 @@
+import { quantizeColors, rgbaToHex } from './color';
+
+// QUANTIZERS
+// Reduce the colors of one or more images to a palette. Only opaque pixels count, as everywhere
+// else alpha is thresholded at 128.
+
+export type Quantizer = 'median-cut' | 'octree' | 'k-means';
+
+export const QUANTIZERS: { quantizer: Quantizer; label: string }[] = [
+  { quantizer: 'median-cut', label: 'Median Cut' },
+  { quantizer: 'octree', label: 'Octree' },
+  { quantizer: 'k-means', label: 'K-Means (slower, smoother)' },
+];
+
+type Rgb = [number, number, number];
+
+// Unique opaque colors with their pixel counts, keyed by packed 0xRRGGBB.
+const histogram = (images: ImageData[]) => {
+  const counts = new Map<number, number>();
+  images.forEach(({ data }) => {
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] < 128) continue;
+      const key = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  });
+  return counts;
+};
+
+const unpack = (key: number): Rgb => [(key >> 16) & 255, (key >> 8) & 255, key & 255];
+
+const medianCut = (images: ImageData[], count: number) => {
+  // quantizeColors takes one image, so stack the pixels of all of them into a single strip.
+  const length = images.reduce((sum, image) => sum + image.data.length, 0);
+  const combined = new Uint8ClampedArray(length);
+  let offset = 0;
+  images.forEach(({ data }) => {
+    combined.set(data, offset);
+    offset += data.length;
+  });
+  return quantizeColors(new ImageData(combined, 1, length / 4), count);
+};
+
+interface OctreeNode {
+  children: (OctreeNode | null)[];
+  isLeaf: boolean;
+  weight: number; // pixels in the whole subtree, to reduce the least used branches first
+  pixels: number;
+  r: number;
+  g: number;
+  b: number;
+}
+
+const OCTREE_DEPTH = 8;
+
+const octree = (counts: Map<number, number>, count: number) => {
+  const createNode = (level: number): OctreeNode => ({ children: new Array(8).fill(null), isLeaf: level === OCTREE_DEPTH, weight: 0, pixels: 0, r: 0, g: 0, b: 0 });
+  const reducible: OctreeNode[][] = Array.from({ length: OCTREE_DEPTH }, () => []);
+  const root = createNode(0);
+  reducible[0].push(root);
+  let leaves = 0;
+
+  counts.forEach((pixels, key) => {
+    const [r, g, b] = unpack(key);
+    let node = root;
+    node.weight += pixels;
+    for (let level = 0; level < OCTREE_DEPTH && !node.isLeaf; level++) {
+      const shift = 7 - level;
+      const child = (((r >> shift) & 1) << 2) | (((g >> shift) & 1) << 1) | ((b >> shift) & 1);
+      if (!node.children[child]) {
+        node.children[child] = createNode(level + 1);
+        if (level + 1 === OCTREE_DEPTH) leaves++;
+        else reducible[level + 1].push(node.children[child]!);
+      }
+      node = node.children[child]!;
+      node.weight += pixels;
+    }
+    node.pixels += pixels;
+    node.r += r * pixels;
+    node.g += g * pixels;
+    node.b += b * pixels;
+  });
+
+  // Fold the deepest branches into their parents until few enough leaves remain.
+  for (let level = OCTREE_DEPTH - 1; level >= 0 && leaves > count; level--) {
+    const nodes = reducible[level].sort((a, b) => a.weight - b.weight);
+    for (const node of nodes) {
+      if (leaves <= count) break;
+      let merged = 0;
+      node.children.forEach((child, i) => {
+        if (!child) return;
+        node.pixels += child.pixels;
+        node.r += child.r;
+        node.g += child.g;
+        node.b += child.b;
+        node.children[i] = null;
+        merged++;
+      });
+      node.isLeaf = true;
+      leaves -= merged - 1;
+    }
+  }
+
+  const palette: string[] = [];
+  const collect = (node: OctreeNode) => {
+    if (node.isLeaf) {
+      if (node.pixels > 0) palette.push(rgbaToHex(Math.round(node.r / node.pixels), Math.round(node.g / node.pixels), Math.round(node.b / node.pixels)));
+      return;
+    }
+    node.children.forEach(child => child && collect(child));
+  };
+  collect(root);
+  return palette;
+};
+
+const K_MEANS_ITERATIONS = 10;
+
+// Lloyd's algorithm over the color histogram, seeded with the median-cut palette.
+const kMeans = (images: ImageData[], counts: Map<number, number>, count: number) => {
+  const centers: Rgb[] = medianCut(images, count).map(hex => unpack(parseInt(hex.slice(1), 16)));
+  if (centers.length === 0) return [];
+  const colors = Array.from(counts.entries()).map(([key, pixels]) => ({ rgb: unpack(key), pixels }));
+
+  for (let iteration = 0; iteration < K_MEANS_ITERATIONS; iteration++) {
+    const sums = centers.map(() => ({ r: 0, g: 0, b: 0, pixels: 0 }));
+    colors.forEach(({ rgb: [r, g, b], pixels }) => {
+      let best = 0, bestDistance = Infinity;
+      centers.forEach(([cr, cg, cb], i) => {
+        const distance = (r - cr) ** 2 + (g - cg) ** 2 + (b - cb) ** 2;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = i;
+        }
+      });
+      const sum = sums[best];
+      sum.r += r * pixels;
+      sum.g += g * pixels;
+      sum.b += b * pixels;
+      sum.pixels += pixels;
+    });
+    let moved = false;
+    sums.forEach((sum, i) => {
+      if (sum.pixels === 0) return; // an empty cluster keeps its center
+      const next: Rgb = [Math.round(sum.r / sum.pixels), Math.round(sum.g / sum.pixels), Math.round(sum.b / sum.pixels)];
+      if (next.some((v, k) => v !== centers[i][k])) moved = true;
+      centers[i] = next;
+    });
+    if (!moved) break;
+  }
+  return centers.map(([r, g, b]) => rgbaToHex(r, g, b));
+};
+
+/** Builds a palette of at most `count` distinct colors for all the images together. */
+export const quantize = (images: ImageData[], count: number, quantizer: Quantizer): string[] => {
+  const counts = histogram(images);
+  if (counts.size <= count) return Array.from(counts.keys()).map(key => rgbaToHex(...unpack(key)));
+  const palette = quantizer === 'octree' ? octree(counts, count)
+    : quantizer === 'k-means' ? kMeans(images, counts, count)
+    : medianCut(images, count);
+  return Array.from(new Set(palette));
+};
@@ -0,0 +1,41 @@
+// SEEDED RANDOM
+// Small deterministic PRNG so a stored seed reproduces the same random prompt permutation.
+
+// Seeds are kept in the signed 32-bit range the model configs accept.
+export const MAX_SEED = 2147483647;
+
+export type Rng = () => number;
+
+/** mulberry32: fast, well-distributed, and identical in every browser. */
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = () => crypto.getRandomValues(new Uint32Array(1))[0] % MAX_SEED;
+
+/** Parses a seed field; blank or invalid input means "no seed". */
+export const parseSeed = (value: string): number | undefined => {
+  const trimmed = value.trim();
+  if (!/^\d+$/.test(trimmed)) return undefined;
+  const seed = Number(trimmed);
+  return seed <= MAX_SEED ? seed : undefined;
+};
+
+export const pick = <T>(items: readonly T[], rng: Rng = Math.random): T => items[Math.floor(rng() * items.length)];
+
+/** FNV-1a hash, for deriving a stable seed from text (e.g. a prompt). */
+export const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
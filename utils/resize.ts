@@ -0,0 +1,78 @@
+import type { Frame, Layer } from '../components/Editor';
+import type { Rect } from './history';
+import { createCanvas, opaqueBounds } from './canvas';
+import { emptyCelOf, isEmptyCel } from './layers';
+import { ScaleAlgorithm, scaleImageData } from './scalers';
+
+// DOCUMENT SIZE
+// Canvas size, crop and image scale for the whole document. Every operation returns new frames
+// whose layers keep their ids and properties but own fresh canvases, so history can swap them.
+// Linked cels are converted once and stay linked; empty cels stay empty.
+
+export interface Anchor { x: 0 | 0.5 | 1; y: 0 | 0.5 | 1; }
+
+export const ANCHORS: Anchor[] = [0, 0.5, 1].flatMap(y => [0, 0.5, 1].map(x => ({ x, y } as Anchor)));
+
+const mapLayers = (
+  frames: Frame[], width: number, height: number,
+  draw: (source: Layer, ctx: CanvasRenderingContext2D) => void,
+  moveOffset: (offset: Layer['offset']) => Layer['offset'] = offset => ({ ...offset }),
+): Frame[] => {
+  const converted = new Map<HTMLCanvasElement, { canvas: HTMLCanvasElement, context: CanvasRenderingContext2D }>();
+  return frames.map(frame => ({
+    ...frame,
+    layers: frame.layers.map(layer => {
+      if (isEmptyCel(layer)) return emptyCelOf(layer, width, height);
+      let target = converted.get(layer.canvas);
+      if (!target) {
+        const canvas = createCanvas(width, height);
+        target = { canvas, context: canvas.getContext('2d')! };
+        draw(layer, target.context);
+        converted.set(layer.canvas, target);
+      }
+      return { ...layer, ...target, offset: moveOffset(layer.offset) };
+    }),
+  }));
+};
+
+/** Changes the canvas size without scaling; the anchor decides which side grows or is cut. */
+export const resizeCanvas = (frames: Frame[], oldWidth: number, oldHeight: number, width: number, height: number, anchor: Anchor): Frame[] => {
+  const dx = Math.round((width - oldWidth) * anchor.x);
+  const dy = Math.round((height - oldHeight) * anchor.y);
+  return mapLayers(frames, width, height, (layer, ctx) => ctx.drawImage(layer.canvas, dx, dy));
+};
+
+export const cropFrames = (frames: Frame[], rect: Rect): Frame[] =>
+  mapLayers(frames, rect.w, rect.h, (layer, ctx) => ctx.drawImage(layer.canvas, -rect.x, -rect.y));
+
+/**
+ * Union of the visible pixels of the given frames in document space (layer offsets applied),
+ * clipped to the canvas. Null when everything is transparent.
+ */
+export const contentBounds = (frames: Frame[], width: number, height: number, visibleOnly = true): Rect | null => {
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  frames.forEach(frame => frame.layers.forEach(layer => {
+    if ((visibleOnly && !layer.isVisible) || isEmptyCel(layer)) return;
+    const bounds = opaqueBounds(layer.context.getImageData(0, 0, layer.canvas.width, layer.canvas.height));
+    if (!bounds) return;
+    minX = Math.min(minX, bounds.x + layer.offset.x);
+    minY = Math.min(minY, bounds.y + layer.offset.y);
+    maxX = Math.max(maxX, bounds.x + layer.offset.x + bounds.w - 1);
+    maxY = Math.max(maxY, bounds.y + layer.offset.y + bounds.h - 1);
+  }));
+  minX = Math.max(0, minX); minY = Math.max(0, minY);
+  maxX = Math.min(width - 1, maxX); maxY = Math.min(height - 1, maxY);
+  return maxX < minX || maxY < minY ? null : { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 };
+};
+
+/** Scales every layer to the new size with the chosen algorithm; layer offsets scale along. */
+export const scaleFrames = (
+  frames: Frame[], oldWidth: number, oldHeight: number, width: number, height: number, algorithm: ScaleAlgorithm, angle = 0
+): Frame[] => {
+  const sx = width / oldWidth, sy = height / oldHeight;
+  return mapLayers(frames, width, height, (layer, ctx) => {
+    const source = layer.context.getImageData(0, 0, layer.canvas.width, layer.canvas.height);
+    const scaled = scaleImageData(source, Math.round(source.width * sx), Math.round(source.height * sy), algorithm, angle);
+    ctx.putImageData(scaled, 0, 0);
+  }, offset => ({ x: Math.round(offset.x * sx), y: Math.round(offset.y * sy) }));
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { ROTSPRITE_MAX_SIZE, rotSprite } from './scalers';
+
+const RED = [255, 0, 0, 255];
+const BLUE = [0, 0, 255, 255];
+
+// One character per pixel: '.' is transparent, 'r' red, 'b' blue.
+const image = (rows: string[]) => {
+  const out = new ImageData(rows[0].length, rows.length);
+  rows.forEach((row, y) => Array.from(row).forEach((c, x) => {
+    if (c !== '.') out.data.set(c === 'r' ? RED : BLUE, (y * out.width + x) * 4);
+  }));
+  return out;
+};
+
+const rows = (data: ImageData) => Array.from({ length: data.height }, (_, y) => Array.from({ length: data.width }, (_, x) => {
+  const i = (y * data.width + x) * 4;
+  return data.data[i + 3] === 0 ? '.' : data.data[i] === 255 ? 'r' : 'b';
+}).join(''));
+
+describe('rotSprite', () => {
+  const sprite = [
+    '......',
+    '.rr...',
+    '.rr...',
+    '.rrbb.',
+    '.rrbb.',
+    '......',
+  ];
+
+  it('rotates a small sprite clockwise by quarter turns without losing pixels', () => {
+    expect(rows(rotSprite(image(sprite), 6, 6, 90))).toEqual([
+      '......',
+      '.rrrr.',
+      '.rrrr.',
+      '.bb...',
+      '.bb...',
+      '......',
+    ]);
+    expect(rows(rotSprite(image(sprite), 6, 6, 180))).toEqual([...sprite].reverse().map(row => Array.from(row).reverse().join('')));
+  });
+
+  it('keeps a one-pixel diagonal line connected at 45 degrees', () => {
+    const line = image(['r.......', '.r......', '..r.....', '...r....', '....r...', '.....r..', '......r.', '.......r']);
+    const rotated = rows(rotSprite(line, 8, 8, 45));
+    const filled = rotated.map(row => Array.from(row).map((c, x) => c === 'r' ? x : -1).filter(x => x >= 0));
+    const spans = filled.filter(xs => xs.length > 0);
+    expect(spans.length).toBeGreaterThanOrEqual(1);
+    expect(spans.every(xs => xs[xs.length - 1] - xs[0] === xs.length - 1)).toBe(true);
+  });
+
+  it('scales while rotating and leaves an empty layer empty', () => {
+    expect(rows(rotSprite(image(['rb', 'rb']), 4, 4, 0))).toEqual(['rrbb', 'rrbb', 'rrbb', 'rrbb']);
+    expect(rows(rotSprite(new ImageData(4, 4), 4, 4, 30))).toEqual(['....', '....', '....', '....']);
+  });
+
+  it('only upscales the drawn part of a large layer, and refuses sprites over the limit', () => {
+    const size = ROTSPRITE_MAX_SIZE * 2;
+    const large = new ImageData(size, size);
+    large.data.set(RED, (10 * size + 10) * 4);
+    const rotated = rotSprite(large, size, size, 180);
+    expect(Array.from(rotated.data.subarray(((size - 11) * size + size - 11) * 4, ((size - 11) * size + size - 10) * 4))).toEqual(RED);
+
+    large.data.set(RED, ((size - 1) * size + size - 1) * 4);
+    expect(() => rotSprite(large, size, size, 90)).toThrow(/RotSprite handles sprites up to/);
+  });
+});
@@ -0,0 +1,192 @@
+import { opaqueBounds } from './canvas';
+
+// PIXEL ART SCALERS
+// Scalers that follow the shapes of a sprite instead of smearing it like bilinear filtering.
+// All work on ImageData and return a new ImageData; colors are compared exactly unless noted.
+
+export type ScaleAlgorithm = 'nearest' | 'scale2x' | 'hqx' | 'rotsprite';
+
+export const SCALE_ALGORITHMS: { algorithm: ScaleAlgorithm; label: string; factors?: number[] }[] = [
+  { algorithm: 'nearest', label: 'Nearest Neighbor' },
+  { algorithm: 'scale2x', label: 'Scale2x / EPX', factors: [2, 3, 4] },
+  { algorithm: 'hqx', label: 'hqx', factors: [2, 4] },
+  { algorithm: 'rotsprite', label: 'RotSprite' },
+];
+
+const pixelAt = (src: ImageData, x: number, y: number) => {
+  const cx = Math.max(0, Math.min(src.width - 1, x));
+  const cy = Math.max(0, Math.min(src.height - 1, y));
+  const i = (cy * src.width + cx) * 4;
+  return (src.data[i] << 24 | src.data[i + 1] << 16 | src.data[i + 2] << 8 | src.data[i + 3]) >>> 0;
+};
+
+const writePixel = (out: ImageData, x: number, y: number, color: number) => {
+  const i = (y * out.width + x) * 4;
+  out.data[i] = color >>> 24;
+  out.data[i + 1] = (color >>> 16) & 0xFF;
+  out.data[i + 2] = (color >>> 8) & 0xFF;
+  out.data[i + 3] = color & 0xFF;
+};
+
+export const scaleNearest = (src: ImageData, width: number, height: number): ImageData => {
+  const out = new ImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(src.height - 1, Math.floor((y + 0.5) * src.height / height));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(src.width - 1, Math.floor((x + 0.5) * src.width / width));
+      writePixel(out, x, y, pixelAt(src, sx, sy));
+    }
+  }
+  return out;
+};
+
+// EPX / Scale2x: each pixel becomes 2x2, copying a neighbor into a corner where two edges meet.
+export const scale2x = (src: ImageData): ImageData => {
+  const out = new ImageData(src.width * 2, src.height * 2);
+  for (let y = 0; y < src.height; y++) {
+    for (let x = 0; x < src.width; x++) {
+      const p = pixelAt(src, x, y);
+      const a = pixelAt(src, x, y - 1), b = pixelAt(src, x + 1, y), c = pixelAt(src, x - 1, y), d = pixelAt(src, x, y + 1);
+      const hasEdge = a !== d && c !== b;
+      writePixel(out, x * 2, y * 2, hasEdge && c === a ? a : p);
+      writePixel(out, x * 2 + 1, y * 2, hasEdge && a === b ? b : p);
+      writePixel(out, x * 2, y * 2 + 1, hasEdge && d === c ? c : p);
+      writePixel(out, x * 2 + 1, y * 2 + 1, hasEdge && b === d ? d : p);
+    }
+  }
+  return out;
+};
+
+// Scale3x: the 3x3 variant of the same rules.
+export const scale3x = (src: ImageData): ImageData => {
+  const out = new ImageData(src.width * 3, src.height * 3);
+  for (let y = 0; y < src.height; y++) {
+    for (let x = 0; x < src.width; x++) {
+      const a = pixelAt(src, x - 1, y - 1), b = pixelAt(src, x, y - 1), c = pixelAt(src, x + 1, y - 1);
+      const d = pixelAt(src, x - 1, y), e = pixelAt(src, x, y), f = pixelAt(src, x + 1, y);
+      const g = pixelAt(src, x - 1, y + 1), h = pixelAt(src, x, y + 1), i = pixelAt(src, x + 1, y + 1);
+      const cells = [e, e, e, e, e, e, e, e, e];
+      if (b !== h && d !== f) {
+        cells[0] = d === b ? d : e;
+        cells[1] = (d === b && e !== c) || (b === f && e !== a) ? b : e;
+        cells[2] = b === f ? f : e;
+        cells[3] = (d === b && e !== g) || (d === h && e !== a) ? d : e;
+        cells[5] = (b === f && e !== i) || (h === f && e !== c) ? f : e;
+        cells[6] = d === h ? d : e;
+        cells[7] = (d === h && e !== i) || (h === f && e !== g) ? h : e;
+        cells[8] = h === f ? f : e;
+      }
+      cells.forEach((color, k) => writePixel(out, x * 3 + (k % 3), y * 3 + Math.floor(k / 3), color));
+    }
+  }
+  return out;
+};
+
+// HQX
+// hqx compares neighbors in YUV with fixed thresholds and blends along detected edges. This is a
+// compact form of hq2x: each output quadrant looks at its two adjacent neighbors and the diagonal
+// between them instead of indexing the full 256-case pattern table. Straight edges stay crisp;
+// only corners and diagonals are blended.
+const yuvDiffers = (p: number, q: number) => {
+  if (p === q) return false;
+  const toYuv = (c: number) => {
+    const r = c >>> 24, g = (c >>> 16) & 0xFF, b = (c >>> 8) & 0xFF;
+    return [0.299 * r + 0.587 * g + 0.114 * b, -0.169 * r - 0.331 * g + 0.5 * b + 128, 0.5 * r - 0.419 * g - 0.081 * b + 128];
+  };
+  const [y1, u1, v1] = toYuv(p), [y2, u2, v2] = toYuv(q);
+  return Math.abs(y1 - y2) > 48 || Math.abs(u1 - u2) > 7 || Math.abs(v1 - v2) > 6 || Math.abs((p & 0xFF) - (q & 0xFF)) > 32;
+};
+
+const blend = (colors: number[], weights: number[]) => {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let r = 0, g = 0, b = 0, a = 0;
+  colors.forEach((c, i) => {
+    r += (c >>> 24) * weights[i];
+    g += ((c >>> 16) & 0xFF) * weights[i];
+    b += ((c >>> 8) & 0xFF) * weights[i];
+    a += (c & 0xFF) * weights[i];
+  });
+  return ((Math.round(r / total) << 24) | (Math.round(g / total) << 16) | (Math.round(b / total) << 8) | Math.round(a / total)) >>> 0;
+};
+
+export const hq2x = (src: ImageData): ImageData => {
+  const out = new ImageData(src.width * 2, src.height * 2);
+  for (let y = 0; y < src.height; y++) {
+    for (let x = 0; x < src.width; x++) {
+      const center = pixelAt(src, x, y);
+      [[-1, -1], [1, -1], [-1, 1], [1, 1]].forEach(([dx, dy]) => {
+        const horizontal = pixelAt(src, x + dx, y);
+        const vertical = pixelAt(src, x, y + dy);
+        const diagonal = pixelAt(src, x + dx, y + dy);
+        let color = center;
+        if (!yuvDiffers(horizontal, vertical) && yuvDiffers(center, horizontal)) {
+          // An edge runs between the two neighbors: round the corner toward them.
+          color = yuvDiffers(center, diagonal)
+            ? blend([center, horizontal, vertical], [2, 1, 1])
+            : blend([center, horizontal, vertical], [6, 1, 1]);
+        }
+        writePixel(out, x * 2 + (dx > 0 ? 1 : 0), y * 2 + (dy > 0 ? 1 : 0), color);
+      });
+    }
+  }
+  return out;
+};
+
+// ROTSPRITE
+// Upscale 8x with Scale2x, rotate/resize that with nearest sampling, and read it back at the target
+// resolution. The intermediate Scale2x pass is what keeps single-pixel lines from breaking apart.
+// Only the opaque bounds are upscaled, with a one-pixel transparent ring so Scale2x sees the same
+// neighbors as on the full image; the 8x copy takes 256 bytes per source pixel, hence the limit.
+export const ROTSPRITE_MAX_SIZE = 256;
+
+export const rotSprite = (src: ImageData, width: number, height: number, angleDegrees: number): ImageData => {
+  const out = new ImageData(width, height);
+  const bounds = opaqueBounds(src);
+  if (!bounds) return out;
+  const x0 = Math.max(0, bounds.x - 1), y0 = Math.max(0, bounds.y - 1);
+  const x1 = Math.min(src.width, bounds.x + bounds.w + 1), y1 = Math.min(src.height, bounds.y + bounds.h + 1);
+  if ((x1 - x0) * (y1 - y0) > ROTSPRITE_MAX_SIZE * ROTSPRITE_MAX_SIZE) {
+    throw new Error(`RotSprite handles sprites up to ${ROTSPRITE_MAX_SIZE}x${ROTSPRITE_MAX_SIZE} pixels; this one is ${bounds.w}x${bounds.h}. Crop it or use Nearest Neighbor.`);
+  }
+  const crop = new ImageData(x1 - x0, y1 - y0);
+  for (let y = y0; y < y1; y++) {
+    crop.data.set(src.data.subarray((y * src.width + x0) * 4, (y * src.width + x1) * 4), (y - y0) * crop.width * 4);
+  }
+
+  const big = scale2x(scale2x(scale2x(crop)));
+  const angle = -angleDegrees * Math.PI / 180;
+  const cos = Math.cos(angle), sin = Math.sin(angle);
+  const scaleX = src.width * 8 / width, scaleY = src.height * 8 / height;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Output pixel center, rotated back into source space around the image center.
+      const ox = x + 0.5 - width / 2, oy = y + 0.5 - height / 2;
+      const rx = ox * cos - oy * sin, ry = ox * sin + oy * cos;
+      const sx = Math.floor((rx + width / 2) * scaleX) - x0 * 8;
+      const sy = Math.floor((ry + height / 2) * scaleY) - y0 * 8;
+      if (sx >= 0 && sx < big.width && sy >= 0 && sy < big.height) writePixel(out, x, y, pixelAt(big, sx, sy));
+    }
+  }
+  return out;
+};
+
+/** Scales `src` to `width` x `height`. Scale2x and hqx only support the integer factors they list. */
+export const scaleImageData = (src: ImageData, width: number, height: number, algorithm: ScaleAlgorithm, angle = 0): ImageData => {
+  const factor = width / src.width;
+  switch (algorithm) {
+    case 'scale2x':
+      if (factor === 2) return scale2x(src);
+      if (factor === 3) return scale3x(src);
+      if (factor === 4) return scale2x(scale2x(src));
+      break;
+    case 'hqx':
+      if (factor === 2) return hq2x(src);
+      if (factor === 4) return hq2x(hq2x(src));
+      break;
+    case 'rotsprite':
+      return rotSprite(src, width, height, angle);
+    case 'nearest':
+      return scaleNearest(src, width, height);
+  }
+  throw new Error(`${algorithm} does not support a ${factor}x scale.`);
+};
@@ -0,0 +1,186 @@
+import type { Rect } from './history';
+import { createCanvas } from './canvas';
+
+// SELECTION
+// A selection is a per-pixel mask the size of the canvas (1 = selected).
+
+export type SelectionMode = 'replace' | 'add' | 'subtract' | 'intersect';
+export type SelectionShape = 'rect' | 'lasso';
+
+export interface SelectionMask {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export const createMask = (width: number, height: number, fill = 0): SelectionMask => ({
+  width,
+  height,
+  data: new Uint8Array(width * height).fill(fill),
+});
+
+export const createRectMask = (width: number, height: number, x0: number, y0: number, x1: number, y1: number): SelectionMask => {
+  const mask = createMask(width, height);
+  const left = Math.max(0, Math.min(x0, x1)), right = Math.min(width - 1, Math.max(x0, x1));
+  const top = Math.max(0, Math.min(y0, y1)), bottom = Math.min(height - 1, Math.max(y0, y1));
+  for (let y = top; y <= bottom; y++) {
+    mask.data.fill(1, y * width + left, y * width + right + 1);
+  }
+  return mask;
+};
+
+// Even-odd fill sampled at pixel centers, plus the outline itself so thin lassos still select.
+export const createPolygonMask = (width: number, height: number, points: { x: number; y: number }[]): SelectionMask => {
+  const mask = createMask(width, height);
+  if (points.length === 0) return mask;
+
+  const set = (x: number, y: number) => {
+    if (x >= 0 && x < width && y >= 0 && y < height) mask.data[y * width + x] = 1;
+  };
+
+  for (let y = 0; y < height; y++) {
+    const cy = y + 0.5;
+    const crossings: number[] = [];
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+      const a = { x: points[i].x + 0.5, y: points[i].y + 0.5 };
+      const b = { x: points[j].x + 0.5, y: points[j].y + 0.5 };
+      if ((a.y > cy) !== (b.y > cy)) {
+        crossings.push(a.x + (cy - a.y) * (b.x - a.x) / (b.y - a.y));
+      }
+    }
+    crossings.sort((p, q) => p - q);
+    for (let k = 0; k + 1 < crossings.length; k += 2) {
+      for (let x = Math.ceil(crossings[k] - 0.5); x + 0.5 <= crossings[k + 1]; x++) set(x, y);
+    }
+  }
+
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i], b = points[(i + 1) % points.length];
+    let x0 = a.x, y0 = a.y;
+    const dx = Math.abs(b.x - x0), sx = x0 < b.x ? 1 : -1;
+    const dy = -Math.abs(b.y - y0), sy = y0 < b.y ? 1 : -1;
+    let err = dx + dy;
+    for (; ;) {
+      set(x0, y0);
+      if (x0 === b.x && y0 === b.y) break;
+      const e2 = 2 * err;
+      if (e2 >= dy) { err += dy; x0 += sx; }
+      if (e2 <= dx) { err += dx; y0 += sy; }
+    }
+  }
+  return mask;
+};
+
+/** Combines a new shape into the existing selection. Returns null when nothing is left selected. */
+export const combineMasks = (base: SelectionMask | null, shape: SelectionMask, mode: SelectionMode): SelectionMask | null => {
+  let result: SelectionMask;
+  if (!base || mode === 'replace') {
+    result = mode === 'subtract' || (mode === 'intersect' && !base) ? createMask(shape.width, shape.height) : shape;
+  } else {
+    result = createMask(shape.width, shape.height);
+    for (let i = 0; i < result.data.length; i++) {
+      const a = base.data[i], b = shape.data[i];
+      result.data[i] = mode === 'add' ? (a | b) : mode === 'subtract' ? (a & (b ^ 1)) : (a & b);
+    }
+  }
+  return result.data.includes(1) ? result : null;
+};
+
+export const maskBounds = (mask: SelectionMask): Rect | null => {
+  let minX = mask.width, minY = mask.height, maxX = -1, maxY = -1;
+  for (let y = 0; y < mask.height; y++) {
+    for (let x = 0; x < mask.width; x++) {
+      if (mask.data[y * mask.width + x]) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 };
+};
+
+/** Restores every pixel outside the mask from `before`, so a tool only affects the selection. */
+export const clipToMask = (ctx: CanvasRenderingContext2D, before: ImageData, mask: SelectionMask) => {
+  if (before.width !== mask.width || before.height !== mask.height) return;
+  const current = ctx.getImageData(0, 0, mask.width, mask.height);
+  for (let i = 0; i < mask.data.length; i++) {
+    if (!mask.data[i]) {
+      const p = i * 4;
+      current.data[p] = before.data[p];
+      current.data[p + 1] = before.data[p + 1];
+      current.data[p + 2] = before.data[p + 2];
+      current.data[p + 3] = before.data[p + 3];
+    }
+  }
+  ctx.putImageData(current, 0, 0);
+};
+
+/** Copies the selected pixels into a canvas cropped to the selection bounds. */
+export const extractMasked = (source: HTMLCanvasElement, mask: SelectionMask): { canvas: HTMLCanvasElement; bounds: Rect } | null => {
+  const bounds = maskBounds(mask);
+  if (!bounds) return null;
+  const sourceData = source.getContext('2d')!.getImageData(bounds.x, bounds.y, bounds.w, bounds.h);
+  for (let y = 0; y < bounds.h; y++) {
+    for (let x = 0; x < bounds.w; x++) {
+      if (!mask.data[(bounds.y + y) * mask.width + bounds.x + x]) sourceData.data[(y * bounds.w + x) * 4 + 3] = 0;
+    }
+  }
+  const canvas = createCanvas(bounds.w, bounds.h);
+  canvas.getContext('2d')!.putImageData(sourceData, 0, 0);
+  return { canvas, bounds };
+};
+
+export const clearMasked = (ctx: CanvasRenderingContext2D, mask: SelectionMask) => {
+  const imageData = ctx.getImageData(0, 0, mask.width, mask.height);
+  for (let i = 0; i < mask.data.length; i++) {
+    if (mask.data[i]) imageData.data[i * 4 + 3] = 0;
+  }
+  ctx.putImageData(imageData, 0, 0);
+};
+
+/** Builds the outline of the selected region in screen space, for drawing marching ants. */
+export const maskOutlinePath = (mask: SelectionMask, zoom: number): Path2D => {
+  const path = new Path2D();
+  const { width, height, data } = mask;
+  const at = (x: number, y: number) => x >= 0 && x < width && y >= 0 && y < height && data[y * width + x] === 1;
+  const segment = (x0: number, y0: number, x1: number, y1: number) => {
+    path.moveTo(x0 * zoom + 0.5, y0 * zoom + 0.5);
+    path.lineTo(x1 * zoom + 0.5, y1 * zoom + 0.5);
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!at(x, y)) continue;
+      if (!at(x, y - 1)) segment(x, y, x + 1, y);
+      if (!at(x, y + 1)) segment(x, y + 1, x + 1, y + 1);
+      if (!at(x - 1, y)) segment(x, y, x, y + 1);
+      if (!at(x + 1, y)) segment(x + 1, y, x + 1, y + 1);
+    }
+  }
+  return path;
+};
+
+/** Stamps a square brush along a line into the mask (value 1 paints, 0 erases). */
+export const paintMask = (mask: SelectionMask, x0: number, y0: number, x1: number, y1: number, size: number, value: 0 | 1): SelectionMask => {
+  const next = { ...mask, data: new Uint8Array(mask.data) };
+  const offset = Math.floor((size - 1) / 2);
+  const stamp = (cx: number, cy: number) => {
+    for (let y = cy - offset; y < cy - offset + size; y++) {
+      for (let x = cx - offset; x < cx - offset + size; x++) {
+        if (x >= 0 && x < mask.width && y >= 0 && y < mask.height) next.data[y * mask.width + x] = value;
+      }
+    }
+  };
+  const dx = Math.abs(x1 - x0), sx = x0 < x1 ? 1 : -1;
+  const dy = -Math.abs(y1 - y0), sy = y0 < y1 ? 1 : -1;
+  let err = dx + dy;
+  for (; ;) {
+    stamp(x0, y0);
+    if (x0 === x1 && y0 === y1) break;
+    const e2 = 2 * err;
+    if (e2 >= dy) { err += dy; x0 += sx; }
+    if (e2 <= dx) { err += dx; y0 += sy; }
+  }
+  return next;
+};
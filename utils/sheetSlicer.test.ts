@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { Frame } from '../components/Editor';
+import { createCanvas } from './canvas';
+import { sliceSpriteSheet } from './sheetSlicer';
+
+const CELL = 8;
+
+// A 2x2 sheet of 8x8 cells; each entry paints one rect into its cell, in cell coordinates.
+const makeSheet = (sprites: { color: string; x: number; y: number; w: number; h: number }[], background?: string) => {
+  const canvas = createCanvas(CELL * 2, CELL * 2);
+  const ctx = canvas.getContext('2d')!;
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  sprites.forEach(({ color, x, y, w, h }, i) => {
+    ctx.fillStyle = color;
+    ctx.fillRect((i % 2) * CELL + x, Math.floor(i / 2) * CELL + y, w, h);
+  });
+  return canvas;
+};
+
+const SPRITES = [
+  { color: '#ff0000', x: 0, y: 0, w: 2, h: 2 },
+  { color: '#00ff00', x: 5, y: 1, w: 2, h: 4 },
+  { color: '#0000ff', x: 1, y: 3, w: 4, h: 2 },
+  { color: '#ffff00', x: 6, y: 6, w: 2, h: 2 },
+];
+
+// The opaque bounds of a frame's only layer, as [x, y, w, h].
+const boundsOf = (frame: Frame) => {
+  const { data } = frame.layers[0].context.getImageData(0, 0, CELL, CELL);
+  const opaque = Array.from({ length: CELL * CELL }, (_, i) => i).filter(i => data[i * 4 + 3] > 0);
+  const xs = opaque.map(i => i % CELL), ys = opaque.map(i => Math.floor(i / CELL));
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs) - Math.min(...xs) + 1, Math.max(...ys) - Math.min(...ys) + 1];
+};
+
+const colorAt = (frame: Frame, x: number, y: number) => Array.from(frame.layers[0].context.getImageData(x, y, 1, 1).data);
+
+describe('sliceSpriteSheet', () => {
+  it('cuts the sheet into row-major frames of one cell each', () => {
+    const { frames, width, height } = sliceSpriteSheet(makeSheet(SPRITES), 2, 2, 'none');
+    expect([width, height]).toEqual([CELL, CELL]);
+    expect(frames.map(boundsOf)).toEqual([[0, 0, 2, 2], [5, 1, 2, 4], [1, 3, 4, 2], [6, 6, 2, 2]]);
+    expect(colorAt(frames[1], 5, 1)).toEqual([0, 255, 0, 255]);
+    expect(frames.every(f => f.layers.length === 1 && f.duration === 100)).toBe(true);
+  });
+
+  it('names frames after the actions, skipping blank ones', () => {
+    const { frames } = sliceSpriteSheet(makeSheet(SPRITES), 2, 2, 'none', [' idle ', '', 'jump']);
+    expect(frames.map(f => f.name)).toEqual(['idle', undefined, 'jump', undefined]);
+  });
+
+  it('centers each sprite on its bounding box', () => {
+    const { frames } = sliceSpriteSheet(makeSheet(SPRITES), 2, 2, 'bounds');
+    expect(frames.map(boundsOf)).toEqual([[3, 3, 2, 2], [3, 2, 2, 4], [2, 3, 4, 2], [3, 3, 2, 2]]);
+  });
+
+  it('stands every sprite on the lowest baseline, centered horizontally', () => {
+    const { frames } = sliceSpriteSheet(makeSheet(SPRITES), 2, 2, 'baseline');
+    expect(frames.map(boundsOf)).toEqual([[3, 6, 2, 2], [3, 4, 2, 4], [2, 6, 4, 2], [3, 6, 2, 2]]);
+  });
+
+  it('treats an opaque corner color as the background', () => {
+    const { frames } = sliceSpriteSheet(makeSheet([{ color: '#000000', x: 1, y: 1, w: 2, h: 3 }], '#ffffff'), 2, 2, 'bounds');
+    expect(colorAt(frames[0], 3, 3)).toEqual([0, 0, 0, 255]);
+    expect(colorAt(frames[0], 4, 5)).toEqual([0, 0, 0, 255]);
+    expect(colorAt(frames[0], 2, 2)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('rejects grids without cells or with cells smaller than a pixel', () => {
+    expect(() => sliceSpriteSheet(makeSheet([]), 0, 2, 'none')).toThrow(/at least one column/);
+    expect(() => sliceSpriteSheet(makeSheet([]), 32, 1, 'none')).toThrow(/too small/);
+  });
+});
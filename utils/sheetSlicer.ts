@@ -0,0 +1,93 @@
+import type { Frame } from '../components/Editor';
+import type { Rect } from './history';
+import { createCanvas } from './canvas';
+import { createLayer } from './layers';
+
+// SPRITE SHEET SLICING
+// Splits a generated w x h sheet into Editor frames. Generated sheets rarely sit on an exact grid,
+// so each cell's sprite can be re-centered on its bounding box or stood on a shared baseline.
+
+export type SliceAlignment = 'none' | 'bounds' | 'baseline';
+
+export const SLICE_ALIGNMENTS: { alignment: SliceAlignment; label: string }[] = [
+  { alignment: 'none', label: 'Grid only' },
+  { alignment: 'bounds', label: 'Center on bounding box' },
+  { alignment: 'baseline', label: 'Align to baseline' },
+];
+
+// Squared RGB distance under which a pixel counts as the cell background.
+const BACKGROUND_TOLERANCE = 48 * 48;
+
+// The most common corner color stands in for the background when the model ignored transparency.
+const detectBackground = (data: ImageData): [number, number, number, number] => {
+  const { width, height } = data;
+  const corners = [[0, 0], [width - 1, 0], [0, height - 1], [width - 1, height - 1]].map(([x, y]) => {
+    const i = (y * width + x) * 4;
+    return [data.data[i], data.data[i + 1], data.data[i + 2], data.data[i + 3]] as [number, number, number, number];
+  });
+  const key = (c: number[]) => c.join(',');
+  const counts = new Map<string, number>();
+  corners.forEach(c => counts.set(key(c), (counts.get(key(c)) ?? 0) + 1));
+  return corners.reduce((best, c) => (counts.get(key(c))! > counts.get(key(best))! ? c : best), corners[0]);
+};
+
+const spriteBounds = (data: ImageData): Rect | null => {
+  const [br, bg, bb, ba] = detectBackground(data);
+  const { width, height } = data;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const a = data.data[i + 3];
+      if (a < 16) continue;
+      if (ba >= 16) {
+        const dr = data.data[i] - br, dg = data.data[i + 1] - bg, db = data.data[i + 2] - bb;
+        if (dr * dr + dg * dg + db * db <= BACKGROUND_TOLERANCE) continue;
+      }
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 };
+};
+
+/**
+ * Cuts `image` into `columns` x `rows` cells (row-major, like the generation prompt) and returns one
+ * single-layer frame per cell. `names` (the per-frame actions) label the frames in order.
+ */
+export const sliceSpriteSheet = (
+  image: CanvasImageSource & { width: number; height: number },
+  columns: number, rows: number, alignment: SliceAlignment, names: string[] = []
+): { frames: Frame[]; width: number; height: number } => {
+  if (columns < 1 || rows < 1) throw new Error("Sprite sheet grid must have at least one column and row.");
+  const width = Math.floor(image.width / columns);
+  const height = Math.floor(image.height / rows);
+  if (width < 1 || height < 1) throw new Error("Sprite sheet is too small for its grid.");
+
+  const cells = Array.from({ length: columns * rows }, (_, i) => {
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.drawImage(image, (i % columns) * width, Math.floor(i / columns) * height, width, height, 0, 0, width, height);
+    return { canvas, bounds: alignment === 'none' ? null : spriteBounds(ctx.getImageData(0, 0, width, height)) };
+  });
+
+  // Baseline: the lowest sprite bottom across all cells, so feet land on the same row in every frame.
+  const baseline = Math.max(...cells.map(c => c.bounds ? c.bounds.y + c.bounds.h : 0));
+
+  const frames = cells.map(({ canvas, bounds }, i): Frame => {
+    const layer = createLayer(crypto.randomUUID(), 'Layer 1', width, height);
+    let dx = 0, dy = 0;
+    if (bounds) {
+      dx = Math.round((width - bounds.w) / 2) - bounds.x;
+      dy = alignment === 'baseline'
+        ? baseline - (bounds.y + bounds.h)
+        : Math.round((height - bounds.h) / 2) - bounds.y;
+    }
+    layer.context.drawImage(canvas, dx, dy);
+    return { id: crypto.randomUUID(), name: names[i]?.trim() || undefined, layers: [layer], duration: 100 };
+  });
+
+  return { frames, width, height };
+};
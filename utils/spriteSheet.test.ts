@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import type { AnimationTag, Frame } from '../components/Editor';
+import { createLayer } from './layers';
+import { DEFAULT_SHEET_OPTIONS, SheetOptions, buildSpriteSheet, frameName } from './spriteSheet';
+
+const WIDTH = 8;
+const HEIGHT = 6;
+
+// Frame i has a single pixel block of its own color at (1 + i, 2), 2x1 pixels.
+const COLORS = ['#ff0000', '#00ff00', '#0000ff', '#ffff00', '#ff00ff'];
+const makeFrames = (count: number): Frame[] => Array.from({ length: count }, (_, i) => {
+  const layer = createLayer('l', 'Layer', WIDTH, HEIGHT);
+  layer.context.fillStyle = COLORS[i];
+  layer.context.fillRect(1 + i, 2, 2, 1);
+  return { id: `f${i}`, name: i === 0 ? 'idle' : undefined, layers: [layer], duration: 100 + i };
+});
+
+const TAGS: AnimationTag[] = [{ id: 't', name: 'Walk', from: 1, to: 2, direction: 'forward', repeat: 0, color: '#4ade80' }];
+
+interface AtlasEntry {
+  frame: { x: number; y: number; w: number; h: number };
+  spriteSourceSize: { x: number; y: number; w: number; h: number };
+  sourceSize: { w: number; h: number };
+  trimmed: boolean;
+  duration: number;
+}
+
+const build = (options: Partial<SheetOptions>, frames = makeFrames(3), tags: AnimationTag[] = []) => {
+  const sheet = buildSpriteSheet(frames, WIDTH, HEIGHT, tags, { ...DEFAULT_SHEET_OPTIONS, ...options }, 'sheet.png');
+  const atlas = sheet.atlas as any; // its shape depends on the format
+  const entries: AtlasEntry[] = Object.values(atlas.frames ?? atlas.textures[0].frames);
+  const pixelAt = (x: number, y: number) => Array.from(sheet.canvas.getContext('2d')!.getImageData(x, y, 1, 1).data);
+  return { ...sheet, atlas, entries, pixelAt };
+};
+
+const RED = [255, 0, 0, 255];
+const CLEAR = [0, 0, 0, 0];
+
+describe('sprite sheet layout', () => {
+  it('places frames on a grid with padding', () => {
+    const { canvas, atlas, entries } = build({ layout: 'grid', columns: 2, padding: 1 });
+    expect(entries.map(e => e.frame)).toEqual([
+      { x: 0, y: 0, w: 8, h: 6 }, { x: 9, y: 0, w: 8, h: 6 }, { x: 0, y: 7, w: 8, h: 6 },
+    ]);
+    expect([canvas.width, canvas.height]).toEqual([17, 13]);
+    expect(atlas.meta.size).toEqual({ w: 17, h: 13 });
+  });
+
+  it('places frames in a single row or column', () => {
+    expect(build({ layout: 'row', padding: 2 }).entries.map(e => [e.frame.x, e.frame.y])).toEqual([[0, 0], [10, 0], [20, 0]]);
+    expect(build({ layout: 'column', padding: 0 }).entries.map(e => [e.frame.x, e.frame.y])).toEqual([[0, 0], [0, 6], [0, 12]]);
+  });
+
+  it('packs frames without overlaps inside the sheet', () => {
+    const { canvas, entries } = build({ layout: 'packed', trim: true, padding: 1 }, makeFrames(5));
+    entries.forEach((a, i) => {
+      expect(a.frame.x + a.frame.w).toBeLessThanOrEqual(canvas.width);
+      expect(a.frame.y + a.frame.h).toBeLessThanOrEqual(canvas.height);
+      entries.slice(i + 1).forEach(b => {
+        const apart = a.frame.x + a.frame.w <= b.frame.x || b.frame.x + b.frame.w <= a.frame.x
+          || a.frame.y + a.frame.h <= b.frame.y || b.frame.y + b.frame.h <= a.frame.y;
+        expect(apart).toBe(true);
+      });
+    });
+  });
+
+  it('draws each frame where its atlas entry says', () => {
+    const { entries, pixelAt } = build({ layout: 'grid', columns: 2, padding: 1 });
+    expect(pixelAt(entries[0].frame.x + 1, entries[0].frame.y + 2)).toEqual(RED);
+    expect(pixelAt(entries[1].frame.x + 2, entries[1].frame.y + 2)).toEqual([0, 255, 0, 255]);
+    expect(pixelAt(entries[2].frame.x + 3, entries[2].frame.y + 2)).toEqual([0, 0, 255, 255]);
+    expect(pixelAt(8, 0)).toEqual(CLEAR); // padding
+  });
+});
+
+describe('sprite sheet options', () => {
+  it('trims frames to their opaque bounds and records the source rect', () => {
+    const { entries, pixelAt } = build({ layout: 'row', padding: 0, trim: true });
+    expect(entries.map(e => e.spriteSourceSize)).toEqual([
+      { x: 1, y: 2, w: 2, h: 1 }, { x: 2, y: 2, w: 2, h: 1 }, { x: 3, y: 2, w: 2, h: 1 },
+    ]);
+    expect(entries.map(e => e.frame)).toEqual([{ x: 0, y: 0, w: 2, h: 1 }, { x: 2, y: 0, w: 2, h: 1 }, { x: 4, y: 0, w: 2, h: 1 }]);
+    expect(entries.every(e => e.trimmed && e.sourceSize.w === WIDTH && e.sourceSize.h === HEIGHT)).toBe(true);
+    expect(pixelAt(0, 0)).toEqual(RED);
+  });
+
+  it('gives empty frames a 1x1 rect when trimming', () => {
+    const frames = [...makeFrames(1), { id: 'empty', layers: [createLayer('l', 'Layer', WIDTH, HEIGHT)], duration: 100 }];
+    const { entries } = build({ trim: true }, frames);
+    expect(entries[1].spriteSourceSize).toEqual({ x: 0, y: 0, w: 1, h: 1 });
+  });
+
+  it('repeats the edge pixels around each frame when extruding', () => {
+    const { entries, pixelAt } = build({ layout: 'row', padding: 0, trim: true, extrude: 2 });
+    expect(entries[0].frame).toEqual({ x: 2, y: 2, w: 2, h: 1 });
+    expect(entries[1].frame.x).toBe(8);
+    expect(pixelAt(0, 0)).toEqual(RED);
+    expect(pixelAt(1, 4)).toEqual(RED);
+    expect(pixelAt(5, 2)).toEqual(RED);
+  });
+
+  it('scales frames up by whole pixels', () => {
+    const { entries, pixelAt } = build({ layout: 'row', padding: 0, scale: 2 });
+    expect(entries[0].frame).toEqual({ x: 0, y: 0, w: 16, h: 12 });
+    expect(entries[0].sourceSize).toEqual({ w: 16, h: 12 });
+    expect([pixelAt(2, 4), pixelAt(5, 5), pixelAt(6, 4), pixelAt(2, 6)]).toEqual([RED, RED, CLEAR, CLEAR]);
+  });
+});
+
+describe('atlas formats', () => {
+  const names = makeFrames(3).map(frameName);
+
+  it('names frames after the frame name and index', () => {
+    expect(names).toEqual(['idle_0', 'frame_1', 'frame_2']);
+  });
+
+  it('writes a TexturePacker hash keyed by frame name, with tags and durations', () => {
+    const { atlas } = build({ format: 'texturepacker-hash' }, makeFrames(3), TAGS);
+    expect(Object.keys(atlas.frames)).toEqual(names);
+    expect(atlas.frames.frame_2.duration).toBe(102);
+    expect(atlas.frames.idle_0.pivot).toEqual({ x: 0.5, y: 0.5 });
+    expect(atlas.meta).toMatchObject({ image: 'sheet.png', frameTags: [{ name: 'Walk', from: 1, to: 2, direction: 'forward' }] });
+  });
+
+  it('writes a TexturePacker array with file names', () => {
+    const { atlas } = build({ format: 'texturepacker-array' });
+    expect(atlas.frames.map((e: { filename: string }) => e.filename)).toEqual(names);
+  });
+
+  it('writes a Phaser 3 multi-texture atlas', () => {
+    const { atlas, canvas } = build({ format: 'phaser' }, makeFrames(3), TAGS);
+    expect(atlas.textures).toHaveLength(1);
+    expect(atlas.textures[0]).toMatchObject({ image: 'sheet.png', size: { w: canvas.width, h: canvas.height }, scale: 1 });
+    expect(atlas.textures[0].frames.map((e: { filename: string }) => e.filename)).toEqual(names);
+    expect(atlas.meta.frameTags).toHaveLength(1);
+  });
+
+  it('writes PixiJS animations from the tags, or one default animation', () => {
+    const tagged = build({ format: 'pixi' }, makeFrames(3), TAGS);
+    expect(tagged.atlas.animations).toEqual({ Walk: ['frame_1', 'frame_2'] });
+    const untagged = build({ format: 'pixi' });
+    expect(untagged.atlas.animations).toEqual({ default: names });
+  });
+});
@@ -0,0 +1,180 @@
+import type { AnimationTag, Frame } from '../components/Editor';
+import type { Rect } from './history';
+import { createCanvas, opaqueBounds } from './canvas';
+import { compositeFrame } from './layers';
+
+// SPRITE SHEETS
+// Packs every frame into one image and describes it with an atlas in the common engine formats.
+
+export type SheetLayout = 'grid' | 'row' | 'column' | 'packed';
+export type AtlasFormat = 'texturepacker-hash' | 'texturepacker-array' | 'phaser' | 'pixi';
+
+export interface SheetOptions {
+  layout: SheetLayout;
+  columns: number; // grid layout only
+  padding: number; // transparent pixels between frames
+  extrude: number; // edge pixels repeated around each frame
+  trim: boolean;
+  scale: number;
+  pivot: { x: number; y: number }; // normalized, 0..1
+  format: AtlasFormat;
+}
+
+export const DEFAULT_SHEET_OPTIONS: SheetOptions = {
+  layout: 'grid',
+  columns: 4,
+  padding: 1,
+  extrude: 0,
+  trim: false,
+  scale: 1,
+  pivot: { x: 0.5, y: 0.5 },
+  format: 'texturepacker-hash',
+};
+
+export const ATLAS_FORMATS: { format: AtlasFormat; label: string }[] = [
+  { format: 'texturepacker-hash', label: 'TexturePacker (JSON Hash)' },
+  { format: 'texturepacker-array', label: 'TexturePacker (JSON Array)' },
+  { format: 'phaser', label: 'Phaser 3' },
+  { format: 'pixi', label: 'PixiJS' },
+];
+
+interface SheetSprite {
+  name: string;
+  image: HTMLCanvasElement;
+  source: Rect; // trimmed rect inside the untrimmed frame
+  position: { x: number; y: number }; // top-left of the sprite (inside the extrusion) on the sheet
+  duration: number;
+}
+
+export interface SpriteSheet {
+  canvas: HTMLCanvasElement;
+  atlas: object;
+}
+
+// Shelf packing: tallest sprites first, shelves filled up to a width close to the square root of the total area.
+const packShelves = (sizes: { w: number; h: number }[], padding: number) => {
+  const order = sizes.map((_, i) => i).sort((a, b) => sizes[b].h - sizes[a].h || sizes[b].w - sizes[a].w);
+  const area = sizes.reduce((sum, s) => sum + (s.w + padding) * (s.h + padding), 0);
+  const maxWidth = Math.max(Math.ceil(Math.sqrt(area)), ...sizes.map(s => s.w));
+  const positions: { x: number; y: number }[] = new Array(sizes.length);
+  let x = 0, y = 0, shelfHeight = 0;
+  order.forEach(i => {
+    if (x > 0 && x + sizes[i].w > maxWidth) {
+      x = 0;
+      y += shelfHeight + padding;
+      shelfHeight = 0;
+    }
+    positions[i] = { x, y };
+    x += sizes[i].w + padding;
+    shelfHeight = Math.max(shelfHeight, sizes[i].h);
+  });
+  return positions;
+};
+
+const layoutSprites = (sizes: { w: number; h: number }[], options: SheetOptions) => {
+  const { layout, padding } = options;
+  if (layout === 'packed') return packShelves(sizes, padding);
+  const columns = layout === 'row' ? sizes.length : layout === 'column' ? 1 : Math.max(1, options.columns);
+  const cellW = Math.max(...sizes.map(s => s.w));
+  const cellH = Math.max(...sizes.map(s => s.h));
+  return sizes.map((_, i) => ({ x: (i % columns) * (cellW + padding), y: Math.floor(i / columns) * (cellH + padding) }));
+};
+
+// Repeats the outermost pixels of the sprite `amount` times on every side to stop texture bleeding.
+const drawExtruded = (ctx: CanvasRenderingContext2D, image: HTMLCanvasElement, x: number, y: number, amount: number) => {
+  const { width: w, height: h } = image;
+  ctx.drawImage(image, x, y);
+  if (amount <= 0) return;
+  ctx.drawImage(image, 0, 0, w, 1, x, y - amount, w, amount);
+  ctx.drawImage(image, 0, h - 1, w, 1, x, y + h, w, amount);
+  ctx.drawImage(image, 0, 0, 1, h, x - amount, y, amount, h);
+  ctx.drawImage(image, w - 1, 0, 1, h, x + w, y, amount, h);
+  ctx.drawImage(image, 0, 0, 1, 1, x - amount, y - amount, amount, amount);
+  ctx.drawImage(image, w - 1, 0, 1, 1, x + w, y - amount, amount, amount);
+  ctx.drawImage(image, 0, h - 1, 1, 1, x - amount, y + h, amount, amount);
+  ctx.drawImage(image, w - 1, h - 1, 1, 1, x + w, y + h, amount, amount);
+};
+
+export const frameName = (frame: Frame, index: number) => `${frame.name || 'frame'}_${index}`;
+
+const buildAtlas = (
+  sprites: SheetSprite[], sheetSize: { w: number; h: number }, sourceSize: { w: number; h: number },
+  tags: AnimationTag[], options: SheetOptions, imageName: string
+): object => {
+  const entries = sprites.map(sprite => ({
+    filename: sprite.name,
+    frame: { x: sprite.position.x, y: sprite.position.y, w: sprite.source.w, h: sprite.source.h },
+    rotated: false,
+    trimmed: options.trim,
+    spriteSourceSize: { ...sprite.source },
+    sourceSize: { ...sourceSize },
+    pivot: { ...options.pivot },
+    duration: sprite.duration,
+  }));
+  const meta = {
+    app: 'PixelArtPro',
+    version: '1.0',
+    image: imageName,
+    format: 'RGBA8888',
+    size: { ...sheetSize },
+    scale: String(options.scale),
+    frameTags: tags.map(tag => ({ name: tag.name, from: tag.from, to: tag.to, direction: tag.direction })),
+  };
+  const hash = Object.fromEntries(entries.map(({ filename, ...entry }) => [filename, entry]));
+  const names = sprites.map(s => s.name);
+
+  switch (options.format) {
+    case 'texturepacker-hash':
+      return { frames: hash, meta };
+    case 'texturepacker-array':
+      return { frames: entries, meta };
+    case 'phaser':
+      return {
+        textures: [{ image: imageName, format: meta.format, size: meta.size, scale: options.scale, frames: entries }],
+        meta: { app: meta.app, version: meta.version, frameTags: meta.frameTags },
+      };
+    case 'pixi':
+      return {
+        frames: hash,
+        animations: tags.length > 0
+          ? Object.fromEntries(tags.map(tag => [tag.name, names.slice(tag.from, tag.to + 1)]))
+          : { default: names },
+        meta,
+      };
+  }
+};
+
+export const buildSpriteSheet = (
+  frames: Frame[], width: number, height: number, tags: AnimationTag[], options: SheetOptions, imageName: string
+): SpriteSheet => {
+  const scale = Math.max(1, Math.round(options.scale));
+  const extrude = Math.max(0, options.extrude);
+  const sourceSize = { w: width * scale, h: height * scale };
+
+  const sprites: SheetSprite[] = frames.map((frame, index) => {
+    const full = createCanvas(sourceSize.w, sourceSize.h);
+    const fullCtx = full.getContext('2d')!;
+    compositeFrame(fullCtx, frame, width, height);
+    // Fully transparent frames still get a 1x1 rect so every frame has a valid atlas entry.
+    const source = options.trim
+      ? opaqueBounds(fullCtx.getImageData(0, 0, full.width, full.height)) ?? { x: 0, y: 0, w: 1, h: 1 }
+      : { x: 0, y: 0, w: full.width, h: full.height };
+    const image = createCanvas(source.w, source.h);
+    image.getContext('2d')!.drawImage(full, source.x, source.y, source.w, source.h, 0, 0, source.w, source.h);
+    return { name: frameName(frame, index), image, source, position: { x: 0, y: 0 }, duration: frame.duration };
+  });
+
+  const sizes = sprites.map(s => ({ w: s.source.w + extrude * 2, h: s.source.h + extrude * 2 }));
+  const cells = layoutSprites(sizes, options);
+  const sheetW = Math.max(...cells.map((c, i) => c.x + sizes[i].w));
+  const sheetH = Math.max(...cells.map((c, i) => c.y + sizes[i].h));
+
+  const canvas = createCanvas(sheetW, sheetH);
+  const ctx = canvas.getContext('2d')!;
+  sprites.forEach((sprite, i) => {
+    sprite.position = { x: cells[i].x + extrude, y: cells[i].y + extrude };
+    drawExtruded(ctx, sprite.image, sprite.position.x, sprite.position.y, extrude);
+  });
+
+  return { canvas, atlas: buildAtlas(sprites, { w: sheetW, h: sheetH }, sourceSize, tags, options, imageName) };
+};
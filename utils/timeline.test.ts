@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import type { AnimationTag, Frame, TagDirection } from '../components/Editor';
+import { createLayer } from './layers';
+import {
+  PlaybackState, advancePlayback, copyFrames, deleteFrames, insertFrames, moveFrames, remapTags, reverseFrames, startPlayback,
+} from './timeline';
+
+const makeFrames = (count: number): Frame[] =>
+  Array.from({ length: count }, (_, i) => ({ id: `f${i}`, layers: [createLayer('l', 'Layer', 4, 4)], duration: 100 }));
+
+const ids = (frames: Frame[]) => frames.map(f => f.id);
+
+const tag = (from: number, to: number, direction: TagDirection = 'forward', repeat = 0): AnimationTag =>
+  ({ id: `${from}-${to}`, name: 'Tag', from, to, direction, repeat, color: '#4ade80' });
+
+const spans = (tags: AnimationTag[]) => tags.map(t => [t.from, t.to]);
+
+describe('remapTags', () => {
+  it('follows the tagged frames to their new positions', () => {
+    const frames = makeFrames(5);
+    const reordered = [frames[3], frames[4], frames[0], frames[1], frames[2]];
+    expect(spans(remapTags([tag(0, 1), tag(3, 4)], frames, reordered))).toEqual([[2, 3], [0, 1]]);
+  });
+
+  it('shrinks tags that lost frames and drops tags that lost all of them', () => {
+    const frames = makeFrames(5);
+    expect(spans(remapTags([tag(1, 3), tag(4, 4)], frames, [frames[0], frames[2], frames[3]]))).toEqual([[1, 2]]);
+  });
+});
+
+describe('frame range operations', () => {
+  it('moves a range and its tags', () => {
+    const result = moveFrames(makeFrames(5), [tag(0, 1)], { from: 0, to: 1 }, 2);
+    expect(ids(result.frames)).toEqual(['f2', 'f3', 'f0', 'f1', 'f4']);
+    expect(result.range).toEqual({ from: 2, to: 3 });
+    expect(spans(result.tags)).toEqual([[2, 3]]);
+  });
+
+  it('clamps a move past the end', () => {
+    expect(ids(moveFrames(makeFrames(4), [], { from: 0, to: 0 }, 10).frames)).toEqual(['f1', 'f2', 'f3', 'f0']);
+  });
+
+  it('copies a range after itself, keeping links inside the range and tags on the originals', () => {
+    const frames = makeFrames(3);
+    frames[1] = { ...frames[1], layers: [{ ...frames[0].layers[0] }] };
+    const result = copyFrames(frames, [tag(0, 2)], { from: 0, to: 1 }, 4, 4);
+    expect(result.frames).toHaveLength(5);
+    expect(ids(result.frames).slice(0, 2)).toEqual(['f0', 'f1']);
+    expect(result.frames[4].id).toBe('f2');
+    expect(result.range).toEqual({ from: 2, to: 3 });
+    const [copyA, copyB] = [result.frames[2].layers[0], result.frames[3].layers[0]];
+    expect(copyA.canvas).toBe(copyB.canvas);
+    expect(copyA.canvas).not.toBe(frames[0].layers[0].canvas);
+    expect(spans(result.tags)).toEqual([[0, 4]]);
+  });
+
+  it('reverses a range without moving tags', () => {
+    const tags = [tag(1, 2)];
+    const result = reverseFrames(makeFrames(4), tags, { from: 0, to: 2 });
+    expect(ids(result.frames)).toEqual(['f2', 'f1', 'f0', 'f3']);
+    expect(result.tags).toBe(tags);
+  });
+
+  it('inserts frames and shifts the tags after them', () => {
+    const result = insertFrames(makeFrames(3), [tag(1, 2)], 1, [{ id: 'new', layers: [], duration: 100 }]);
+    expect(ids(result.frames)).toEqual(['f0', 'new', 'f1', 'f2']);
+    expect(result.range).toEqual({ from: 1, to: 1 });
+    expect(spans(result.tags)).toEqual([[2, 3]]);
+  });
+
+  it('deletes a range but never the last frame', () => {
+    const result = deleteFrames(makeFrames(4), [tag(2, 3)], { from: 2, to: 3 })!;
+    expect(ids(result.frames)).toEqual(['f0', 'f1']);
+    expect(result.range).toEqual({ from: 1, to: 1 });
+    expect(result.tags).toEqual([]);
+    expect(deleteFrames(makeFrames(2), [], { from: 0, to: 1 })).toBeNull();
+  });
+});
+
+describe('playback', () => {
+  // Frames shown from the start state until playback stops, or the first `limit` of them.
+  const play = (animationTag: AnimationTag | null, frameCount: number, current = 0, limit = 20) => {
+    let state: PlaybackState | null = startPlayback(animationTag, frameCount, current);
+    const shown: number[] = [];
+    while (state && shown.length < limit) {
+      shown.push(state.index);
+      state = advancePlayback(state, animationTag, frameCount);
+    }
+    return shown;
+  };
+
+  it('loops the whole animation forward without a tag', () => {
+    expect(play(null, 3, 1, 7)).toEqual([1, 2, 0, 1, 2, 0, 1]);
+  });
+
+  it('plays forward tags the given number of times', () => {
+    expect(play(tag(1, 3, 'forward', 2), 6)).toEqual([1, 2, 3, 1, 2, 3]);
+  });
+
+  it('plays reverse tags backward from their last frame', () => {
+    expect(play(tag(1, 3, 'reverse', 2), 6)).toEqual([3, 2, 1, 3, 2, 1]);
+  });
+
+  it('counts each direction of a ping-pong as one pass', () => {
+    expect(play(tag(1, 3, 'ping-pong', 3), 6)).toEqual([1, 2, 3, 2, 1, 2, 3]);
+    expect(play(tag(1, 3, 'ping-pong-reverse', 2), 6)).toEqual([3, 2, 1, 2, 3]);
+  });
+
+  it('repeats forever when repeat is 0', () => {
+    expect(play(tag(0, 1, 'ping-pong'), 4, 0, 6)).toEqual([0, 1, 0, 1, 0, 1]);
+    expect(play(tag(2, 3, 'reverse'), 4, 0, 5)).toEqual([3, 2, 3, 2, 3]);
+  });
+
+  it('starts from the current frame when it is inside the tag', () => {
+    expect(play(tag(0, 3, 'forward', 1), 4, 2)).toEqual([2, 3]);
+    expect(startPlayback(tag(0, 3, 'ping-pong-reverse'), 4, 1)).toEqual({ index: 1, step: -1, pass: 0 });
+  });
+
+  it('holds a single-frame ping-pong and clamps tags past the last frame', () => {
+    expect(play(tag(2, 2, 'ping-pong', 3), 4)).toEqual([2, 2, 2]);
+    expect(play(tag(1, 9, 'forward', 1), 3)).toEqual([1, 2]);
+  });
+});
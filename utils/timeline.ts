@@ -0,0 +1,130 @@
+import type { AnimationTag, Frame, Layer, TagDirection } from '../components/Editor';
+import { cloneFrame } from './layers';
+
+// TIMELINE
+// Frame range operations and tag-aware playback. Every operation returns new frame and tag arrays;
+// tags follow their frames by id, so they stay on the same artwork when frames move around.
+
+export interface FrameRange {
+  from: number;
+  to: number; // inclusive, from <= to
+}
+
+export const TAG_DIRECTIONS: { direction: TagDirection; label: string }[] = [
+  { direction: 'forward', label: 'Forward' },
+  { direction: 'reverse', label: 'Reverse' },
+  { direction: 'ping-pong', label: 'Ping-pong' },
+  { direction: 'ping-pong-reverse', label: 'Ping-pong Reverse' },
+];
+
+export const TAG_COLORS = ['#f87171', '#fb923c', '#facc15', '#4ade80', '#22d3ee', '#60a5fa', '#a78bfa', '#f472b6'];
+
+export const DEFAULT_FRAME_DURATION = 100;
+
+export const normalizeRange = (a: number, b: number): FrameRange => ({ from: Math.min(a, b), to: Math.max(a, b) });
+
+export const rangeLength = (range: FrameRange) => range.to - range.from + 1;
+
+export const inRange = (range: FrameRange, index: number) => index >= range.from && index <= range.to;
+
+/**
+ * Re-anchors tags after frames were inserted, removed or reordered. A tag covers the span of its
+ * surviving frames; a tag whose frames were all deleted is dropped.
+ */
+export const remapTags = (tags: AnimationTag[], oldFrames: Frame[], newFrames: Frame[]): AnimationTag[] => {
+  const newIndex = new Map(newFrames.map((frame, i) => [frame.id, i]));
+  return tags.flatMap(tag => {
+    const indices = oldFrames.slice(tag.from, tag.to + 1).map(frame => newIndex.get(frame.id)).filter((i): i is number => i !== undefined);
+    if (indices.length === 0) return [];
+    return [{ ...tag, from: Math.min(...indices), to: Math.max(...indices) }];
+  });
+};
+
+export interface TimelineEdit {
+  frames: Frame[];
+  tags: AnimationTag[];
+  range: FrameRange; // where the affected frames ended up
+}
+
+const edit = (frames: Frame[], tags: AnimationTag[], newFrames: Frame[], range: FrameRange): TimelineEdit => ({
+  frames: newFrames,
+  tags: remapTags(tags, frames, newFrames),
+  range,
+});
+
+/** Moves the range so it starts at `to` (an index in the list without the range). */
+export const moveFrames = (frames: Frame[], tags: AnimationTag[], range: FrameRange, to: number): TimelineEdit => {
+  const moved = frames.slice(range.from, range.to + 1);
+  const rest = [...frames.slice(0, range.from), ...frames.slice(range.to + 1)];
+  const at = Math.max(0, Math.min(rest.length, to));
+  return edit(frames, tags, [...rest.slice(0, at), ...moved, ...rest.slice(at)], { from: at, to: at + moved.length - 1 });
+};
+
+/** Inserts copies of the range right after it; cels linked within the range are linked among the copies. */
+export const copyFrames = (frames: Frame[], tags: AnimationTag[], range: FrameRange, width: number, height: number): TimelineEdit => {
+  const canvases = new Map<HTMLCanvasElement, Layer>();
+  const copies = frames.slice(range.from, range.to + 1).map(frame => cloneFrame(frame, width, height, canvases));
+  const newFrames = [...frames.slice(0, range.to + 1), ...copies, ...frames.slice(range.to + 1)];
+  return edit(frames, tags, newFrames, { from: range.to + 1, to: range.to + copies.length });
+};
+
+// Tags keep their indices here: following the frames would stretch a tag that only partly overlaps the range.
+export const reverseFrames = (frames: Frame[], tags: AnimationTag[], range: FrameRange): TimelineEdit => {
+  const reversed = frames.slice(range.from, range.to + 1).reverse();
+  return { frames: [...frames.slice(0, range.from), ...reversed, ...frames.slice(range.to + 1)], tags, range };
+};
+
+export const insertFrames = (frames: Frame[], tags: AnimationTag[], at: number, inserted: Frame[]): TimelineEdit => {
+  const newFrames = [...frames.slice(0, at), ...inserted, ...frames.slice(at)];
+  return edit(frames, tags, newFrames, { from: at, to: at + inserted.length - 1 });
+};
+
+/** Deletes the range; at least one frame always remains, so deleting everything is refused with null. */
+export const deleteFrames = (frames: Frame[], tags: AnimationTag[], range: FrameRange): TimelineEdit | null => {
+  if (rangeLength(range) >= frames.length) return null;
+  const newFrames = [...frames.slice(0, range.from), ...frames.slice(range.to + 1)];
+  const index = Math.min(range.from, newFrames.length - 1);
+  return edit(frames, tags, newFrames, { from: index, to: index });
+};
+
+// -- Playback --
+
+export interface PlaybackState {
+  index: number;
+  step: 1 | -1;
+  pass: number; // completed passes through the range; each direction of a ping-pong is one pass
+}
+
+const playbackRange = (tag: AnimationTag | null, frameCount: number): FrameRange =>
+  tag ? normalizeRange(Math.min(tag.from, frameCount - 1), Math.min(tag.to, frameCount - 1)) : { from: 0, to: frameCount - 1 };
+
+const startsBackward = (direction: TagDirection) => direction === 'reverse' || direction === 'ping-pong-reverse';
+
+/** Where playback begins: the current frame if it is inside the range, else the range's first frame in play order. */
+export const startPlayback = (tag: AnimationTag | null, frameCount: number, current: number): PlaybackState => {
+  const range = playbackRange(tag, frameCount);
+  const backward = !!tag && startsBackward(tag.direction);
+  const index = inRange(range, current) ? current : backward ? range.to : range.from;
+  return { index, step: backward ? -1 : 1, pass: 0 };
+};
+
+/**
+ * The next frame to show, or null once a tag with a repeat count has played that many passes.
+ * Without a tag the whole animation loops forward.
+ */
+export const advancePlayback = (state: PlaybackState, tag: AnimationTag | null, frameCount: number): PlaybackState | null => {
+  const range = playbackRange(tag, frameCount);
+  const direction = tag?.direction ?? 'forward';
+  const repeat = tag?.repeat ?? 0;
+  const next = state.index + state.step;
+  if (inRange(range, next)) return { ...state, index: next };
+
+  const pass = state.pass + 1;
+  if (repeat > 0 && pass >= repeat) return null;
+  if (direction === 'ping-pong' || direction === 'ping-pong-reverse') {
+    if (range.from === range.to) return { ...state, pass };
+    const step = state.step === 1 ? -1 : 1;
+    return { index: state.index + step, step, pass };
+  }
+  return { index: state.step === 1 ? range.from : range.to, step: state.step, pass };
+};
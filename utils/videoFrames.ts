@@ -0,0 +1,152 @@
+import type { Frame, Layer } from '../components/Editor';
+import { createCanvas } from './canvas';
+import { snapToPalette } from './color';
+import { createLayer } from './layers';
+import { CellSampling, downsampleToGrid, downsampleToSize, estimatePixelGrid, removeBackground } from './pixelSnap';
+import { Quantizer, quantize } from './quantizers';
+
+// VIDEO TO FRAMES
+// Turns a generated animation video into editable frames: sample it at a fixed rate, snap every
+// sample onto the same pixel grid, quantize all of them to one shared palette, then drop repeats.
+// Consecutive repeats merge into one longer frame; a frame that comes back later is a linked cel.
+
+export interface VideoImportOptions {
+  fps: number;
+  start: number; // seconds
+  end: number; // seconds, 0 = the end of the video
+  width: number; // target sprite width, 0 = detect the pixel grid from the first sample
+  sampling: CellSampling;
+  colors: number; // shared palette size, 0 = keep sampled colors
+  quantizer: Quantizer;
+  dedupe: boolean;
+  removeBackground: boolean;
+}
+
+export const DEFAULT_VIDEO_IMPORT_OPTIONS: VideoImportOptions = {
+  fps: 8, start: 0, end: 0, width: 64, sampling: 'mode', colors: 16, quantizer: 'median-cut', dedupe: true, removeBackground: false,
+};
+
+export const MAX_VIDEO_SAMPLES = 240;
+
+// Two samples count as the same frame when at most this share of pixels differ noticeably.
+const DUPLICATE_PIXEL_TOLERANCE = 24;
+const DUPLICATE_SHARE = 0.005;
+
+export interface VideoImportResult {
+  frames: Frame[];
+  palette: string[];
+  width: number;
+  height: number;
+  sampled: number;
+}
+
+const loadVideo = (url: string) => new Promise<HTMLVideoElement>((resolve, reject) => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.crossOrigin = 'anonymous';
+  video.onloadeddata = () => resolve(video);
+  video.onerror = () => reject(new Error("Could not load the video. The resource might be cross-origin or invalid."));
+  video.src = url;
+});
+
+const seek = (video: HTMLVideoElement, time: number) => new Promise<void>(resolve => {
+  video.onseeked = () => resolve();
+  video.currentTime = time;
+});
+
+const isDuplicate = (a: ImageData, b: ImageData) => {
+  let differing = 0;
+  const limit = (a.data.length / 4) * DUPLICATE_SHARE;
+  for (let i = 0; i < a.data.length; i += 4) {
+    const diff = Math.max(Math.abs(a.data[i] - b.data[i]), Math.abs(a.data[i + 1] - b.data[i + 1]),
+      Math.abs(a.data[i + 2] - b.data[i + 2]), Math.abs(a.data[i + 3] - b.data[i + 3]));
+    if (diff > DUPLICATE_PIXEL_TOLERANCE && ++differing > limit) return false;
+  }
+  return true;
+};
+
+const sameImage = (a: ImageData, b: ImageData) => a.data.every((v, i) => v === b.data[i]);
+
+// FNV-1a over the pixels, to find exact repeats without comparing every pair.
+const hashImage = ({ data }: ImageData) => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < data.length; i++) hash = Math.imul(hash ^ data[i], 0x01000193);
+  return hash >>> 0;
+};
+
+export const importVideoFrames = async (
+  url: string, options: VideoImportOptions, onProgress?: (done: number, total: number) => void
+): Promise<VideoImportResult> => {
+  const video = await loadVideo(url);
+  const { videoWidth, videoHeight, duration } = video;
+  if (!videoWidth || !videoHeight || !Number.isFinite(duration)) throw new Error("The video has no readable frames.");
+
+  const start = Math.max(0, Math.min(options.start, duration));
+  const end = options.end > 0 ? Math.min(options.end, duration) : duration;
+  const step = 1 / Math.max(0.1, options.fps);
+  const times: number[] = [];
+  for (let t = start; t < end; t += step) times.push(t);
+  if (times.length === 0) throw new Error("The chosen range contains no frames.");
+  if (times.length > MAX_VIDEO_SAMPLES) {
+    throw new Error(`This would sample ${times.length} frames; lower the FPS or shorten the range (at most ${MAX_VIDEO_SAMPLES}).`);
+  }
+
+  const canvas = createCanvas(videoWidth, videoHeight);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  const width = options.width > 0 ? Math.round(options.width) : 0;
+  const height = width > 0 ? Math.max(1, Math.round(videoHeight * width / videoWidth)) : 0;
+  let grid: ReturnType<typeof estimatePixelGrid> | null = null;
+  const samples: ImageData[] = [];
+  for (let i = 0; i < times.length; i++) {
+    // Seeking to the exact end shows nothing in some browsers, so stay just inside it.
+    await seek(video, Math.min(times[i], duration - 0.001));
+    ctx.clearRect(0, 0, videoWidth, videoHeight);
+    ctx.drawImage(video, 0, 0);
+    const full = ctx.getImageData(0, 0, videoWidth, videoHeight);
+    let small: ImageData;
+    if (width > 0) {
+      small = downsampleToSize(full, width, height, options.sampling);
+    } else {
+      // One grid for every sample, so the frames line up.
+      grid = grid ?? estimatePixelGrid(full);
+      if (grid.pixelSize <= 1) throw new Error("No pixel grid was found in the video; set a target width instead.");
+      small = downsampleToGrid(full, grid.pixelSize, grid.phase, options.sampling);
+    }
+    if (options.removeBackground) removeBackground(small);
+    samples.push(small);
+    onProgress?.(i + 1, times.length);
+  }
+  video.removeAttribute('src');
+  video.load();
+
+  const palette = options.colors > 0 ? quantize(samples, options.colors, options.quantizer) : [];
+  if (palette.length > 0) samples.forEach(sample => snapToPalette(sample, palette));
+
+  const frameDuration = Math.round(1000 / options.fps);
+  const kept: { image: ImageData; duration: number }[] = [];
+  samples.forEach(image => {
+    const previous = kept[kept.length - 1];
+    if (options.dedupe && previous && isDuplicate(previous.image, image)) previous.duration += frameDuration;
+    else kept.push({ image, duration: frameDuration });
+  });
+
+  const { width: spriteWidth, height: spriteHeight } = samples[0];
+  const layerId = crypto.randomUUID();
+  const canvases = new Map<number, { image: ImageData; layer: Layer }[]>();
+  const frames: Frame[] = kept.map(({ image, duration }) => {
+    const hash = hashImage(image);
+    const candidates = canvases.get(hash) ?? [];
+    let match = options.dedupe ? candidates.find(c => sameImage(c.image, image)) : undefined;
+    if (!match) {
+      const layer = createLayer(layerId, 'Layer 1', spriteWidth, spriteHeight);
+      layer.context.putImageData(image, 0, 0);
+      match = { image, layer };
+      canvases.set(hash, [...candidates, match]);
+    }
+    return { id: crypto.randomUUID(), layers: [{ ...match.layer, offset: { x: 0, y: 0 } }], duration };
+  });
+
+  return { frames, palette, width: spriteWidth, height: spriteHeight, sampled: samples.length };
+};
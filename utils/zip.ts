@@ -0,0 +1,20 @@
+import { zipSync, strToU8 } from 'fflate';
+
+// ZIP
+// Small wrapper so callers can hand over Blobs and strings instead of raw byte arrays.
+
+export interface ZipEntry {
+  name: string;
+  data: Blob | Uint8Array | string;
+}
+
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const files: Record<string, Uint8Array> = {};
+  for (const { name, data } of entries) {
+    files[name] = typeof data === 'string' ? strToU8(data)
+      : data instanceof Uint8Array ? data
+      : new Uint8Array(await data.arrayBuffer());
+  }
+  // Images and videos are already compressed; storing them avoids burning time on deflate.
+  return new Blob([zipSync(files, { level: 0 })], { type: 'application/zip' });
+};
@@ -0,0 +1,24 @@
+import { createCanvas, Image, ImageData } from '@napi-rs/canvas';
+
+// TEST ENVIRONMENT
+// Tests run in Node with @napi-rs/canvas standing in for the browser canvas, so drawing,
+// compositing and PNG encoding behave as they do in the app. localStorage is kept in memory.
+
+const storage = new Map<string, string>();
+
+Object.assign(globalThis, {
+  document: {
+    createElement: (tag: string) => {
+      if (tag !== 'canvas') throw new Error(`Only canvas elements are available in tests, not <${tag}>.`);
+      return createCanvas(1, 1);
+    },
+  },
+  Image,
+  ImageData,
+  localStorage: {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => { storage.set(key, String(value)); },
+    removeItem: (key: string) => { storage.delete(key); },
+    clear: () => { storage.clear(); },
+  },
+});